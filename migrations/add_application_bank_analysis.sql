@@ -0,0 +1,7 @@
+-- Bank statement analysis (src/lib/bankStatementAnalysis.ts): average monthly
+-- revenue, card takings share, existing lender repayments, returned payments,
+-- lowest balance and days negative, computed from Open Banking transactions and
+-- uploaded CSV/OFX statements. Eligibility prefers these to declared figures.
+
+ALTER TABLE applications
+ADD COLUMN IF NOT EXISTS bank_analysis jsonb;
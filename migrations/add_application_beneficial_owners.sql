@@ -0,0 +1,4 @@
+-- Persons with significant control captured on the application wizard's company
+-- step (src/lib/beneficialOwners.ts), and which of them will give a personal guarantee
+-- Shape: [{ name, kind, natures_of_control, notified_on, date_of_birth, nationality, guarantor }]
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS beneficial_owners jsonb DEFAULT NULL;
@@ -0,0 +1,3 @@
+-- Per-lender eligibility evaluation written by /api/applications/[id]/eligibility
+-- Shape: { evaluated_at, input, lenders: { [lender_id]: { is_eligible, failed_rules, unknown_rules, ... } } }
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS eligibility_result jsonb DEFAULT NULL;
@@ -0,0 +1,107 @@
+-- One row per stage transition, written by /api/applications/[id]/stage
+CREATE TABLE IF NOT EXISTS application_stage_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  -- NULL for the initial row backfilled below
+  from_stage text,
+  to_stage text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_by_role text,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS application_stage_history_application_idx
+  ON application_stage_history (application_id, created_at);
+
+-- Existing applications get a single row for the stage they are in now
+INSERT INTO application_stage_history (application_id, from_stage, to_stage, reason, created_at)
+SELECT a.id, NULL, a.stage, a.stage_reason, COALESCE(a.stage_changed_at, a.updated_at, a.created_at)
+FROM applications a
+WHERE a.stage <> 'created'
+  AND NOT EXISTS (SELECT 1 FROM application_stage_history h WHERE h.application_id = a.id);
+
+-- Clients and partners read history through the API, which trims it per role
+ALTER TABLE application_stage_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view stage history" ON application_stage_history;
+CREATE POLICY "Admins can view stage history"
+ON application_stage_history
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+-- Time spent in each stage, for reporting; left_at is NULL for the current stage
+CREATE OR REPLACE VIEW application_stage_durations
+WITH (security_invoker = true) AS
+SELECT
+  h.application_id,
+  h.to_stage AS stage,
+  h.created_at AS entered_at,
+  LEAD(h.created_at) OVER w AS left_at,
+  COALESCE(LEAD(h.created_at) OVER w, NOW()) - h.created_at AS duration
+FROM application_stage_history h
+WINDOW w AS (PARTITION BY h.application_id ORDER BY h.created_at);
+
+-- Applies a transition checked by src/lib/stageTransitions.ts and records it in one
+-- transaction, so the stage never moves without its history row. Returns no row when
+-- the application is no longer in p_from_stage.
+CREATE OR REPLACE FUNCTION transition_application_stage(
+  p_application_id uuid,
+  p_from_stage text,
+  p_to_stage text,
+  p_stage_reason text,
+  p_reason text,
+  p_accepted_lender_id uuid,
+  p_actor_id uuid,
+  p_actor_role text
+)
+RETURNS SETOF applications AS $$
+DECLARE
+  v_now timestamptz := NOW();
+  v_application applications;
+BEGIN
+  UPDATE applications
+  SET stage = p_to_stage,
+      stage_reason = p_stage_reason,
+      stage_changed_at = v_now,
+      submitted_at = CASE WHEN p_to_stage = 'submitted' THEN COALESCE(submitted_at, v_now) ELSE submitted_at END,
+      -- The accepted offer decides the lender: onboarding takes it from the offer accepted
+      -- now, and going back to approved clears it until another offer is accepted
+      accepted_lender_id = CASE
+        WHEN p_to_stage = 'onboarding' THEN p_accepted_lender_id
+        WHEN p_to_stage = 'approved' THEN NULL
+        ELSE accepted_lender_id
+      END
+  WHERE id = p_application_id
+    AND stage = p_from_stage
+    AND deleted_at IS NULL
+  RETURNING * INTO v_application;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- The accepted offer fell through, so it must not carry over to the next onboarding
+  IF p_to_stage = 'approved' THEN
+    UPDATE offers
+    SET status = 'declined'
+    WHERE application_id = p_application_id
+      AND status = 'accepted';
+  END IF;
+
+  INSERT INTO application_stage_history (application_id, from_stage, to_stage, changed_by, changed_by_role, reason, created_at)
+  VALUES (p_application_id, p_from_stage, p_to_stage, p_actor_id, p_actor_role, p_reason, v_now);
+
+  RETURN NEXT v_application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION transition_application_stage(uuid, text, text, text, text, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
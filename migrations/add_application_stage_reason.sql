@@ -0,0 +1,9 @@
+-- Stage changes go through /api/applications/[id]/stage (src/lib/applicationStages.ts)
+
+-- Why an application was declined or withdrawn; cleared on other stages
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS stage_reason text DEFAULT NULL;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS stage_changed_at timestamptz DEFAULT NULL;
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_stage_check;
+ALTER TABLE applications ADD CONSTRAINT applications_stage_check
+  CHECK (stage IN ('created', 'submitted', 'in_credit', 'info_required', 'approved', 'onboarding', 'funded', 'declined', 'withdrawn'));
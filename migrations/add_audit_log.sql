@@ -0,0 +1,196 @@
+-- Append-only audit log of admin mutations (FCA record keeping).
+-- Rows are written by triggers on the audited tables, so every path that changes
+-- data (pages, API routes, SQL functions) is captured without extra code.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  occurred_at timestamptz NOT NULL DEFAULT NOW(),
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  entity_type text NOT NULL,
+  entity_id text NOT NULL,
+  entity_label text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- update: { column: { "from": old, "to": new } }; insert/delete: full row
+  changes jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON audit_log (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log (actor_id, occurred_at DESC);
+
+-- Secrets are never copied into the log; account numbers keep their last 4 digits
+CREATE OR REPLACE FUNCTION audit_redact(column_name text, value jsonb)
+RETURNS jsonb AS $$
+BEGIN
+  IF value IS NULL OR value = 'null'::jsonb THEN
+    RETURN value;
+  END IF;
+  IF column_name IN ('api_credential', 'callback_secret') THEN
+    RETURN to_jsonb('[redacted]'::text);
+  END IF;
+  IF column_name = 'bank_account_number' THEN
+    RETURN to_jsonb('****' || right(value #>> '{}', 4));
+  END IF;
+  RETURN value;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger AS $$
+DECLARE
+  v_actor_id uuid;
+  v_actor_email text;
+  v_actor_role text;
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_changes jsonb := '{}'::jsonb;
+  v_key text;
+BEGIN
+  -- SQL functions run with the service role can name the acting admin explicitly, and
+  -- server routes send the signed-in user as X-Audit-Actor-Id on their service role
+  -- client (getSupabaseAdmin in src/lib/supabaseAdmin.ts). The header is only trusted
+  -- from the service role, which portal users can't act as.
+  v_actor_id := COALESCE(
+    NULLIF(current_setting('audit.actor_id', true), '')::uuid,
+    auth.uid(),
+    CASE WHEN auth.role() = 'service_role' THEN
+      NULLIF(NULLIF(current_setting('request.headers', true), '')::json ->> 'x-audit-actor-id', '')::uuid
+    END
+  );
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT email, role INTO v_actor_email, v_actor_role FROM profiles WHERE id = v_actor_id;
+  END IF;
+
+  -- Only admin actions are audited, plus deletes from any source (cascades, jobs)
+  IF TG_OP <> 'DELETE' AND COALESCE(v_actor_role, '') <> 'ADMIN' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key NOT IN ('updated_at') AND (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+        v_changes := v_changes || jsonb_build_object(
+          v_key,
+          jsonb_build_object('from', audit_redact(v_key, v_old -> v_key), 'to', audit_redact(v_key, v_new -> v_key))
+        );
+      END IF;
+    END LOOP;
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    FOR v_key IN SELECT jsonb_object_keys(COALESCE(v_new, v_old)) LOOP
+      v_changes := v_changes || jsonb_build_object(v_key, audit_redact(v_key, COALESCE(v_new, v_old) -> v_key));
+    END LOOP;
+  END IF;
+
+  v_row := COALESCE(v_new, v_old);
+
+  INSERT INTO audit_log (actor_id, actor_email, actor_role, entity_type, entity_id, entity_label, action, changes)
+  VALUES (
+    v_actor_id,
+    v_actor_email,
+    v_actor_role,
+    TG_TABLE_NAME,
+    v_row ->> 'id',
+    COALESCE(
+      v_row ->> 'name',
+      NULLIF(TRIM(COALESCE(v_row ->> 'first_name', '') || ' ' || COALESCE(v_row ->> 'last_name', '')), ''),
+      v_row ->> 'email'
+    ),
+    lower(TG_OP),
+    v_changes
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Audited tables
+DROP TRIGGER IF EXISTS audit_profiles ON profiles;
+CREATE TRIGGER audit_profiles
+  AFTER UPDATE OR DELETE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_companies ON companies;
+CREATE TRIGGER audit_companies
+  AFTER UPDATE OR DELETE ON companies
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_partner_companies ON partner_companies;
+CREATE TRIGGER audit_partner_companies
+  AFTER INSERT OR UPDATE OR DELETE ON partner_companies
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_applications ON applications;
+CREATE TRIGGER audit_applications
+  AFTER UPDATE OR DELETE ON applications
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_lenders ON lenders;
+CREATE TRIGGER audit_lenders
+  AFTER INSERT OR UPDATE OR DELETE ON lenders
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_offers ON offers;
+CREATE TRIGGER audit_offers
+  AFTER INSERT OR UPDATE OR DELETE ON offers
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Children removed when an application is deleted
+DROP TRIGGER IF EXISTS audit_information_requests ON information_requests;
+CREATE TRIGGER audit_information_requests
+  AFTER DELETE ON information_requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_lender_submissions ON lender_submissions;
+CREATE TRIGGER audit_lender_submissions
+  AFTER DELETE ON lender_submissions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_documents ON documents;
+CREATE TRIGGER audit_documents
+  AFTER DELETE ON documents
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Append-only: nobody, including the service role, may change or remove entries
+CREATE OR REPLACE FUNCTION audit_log_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_update ON audit_log;
+CREATE TRIGGER audit_log_no_update
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_immutable();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view audit log" ON audit_log;
+CREATE POLICY "Admins can view audit log"
+ON audit_log
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
@@ -0,0 +1,16 @@
+-- Shared cache of Companies House API responses (src/lib/companiesHouse.ts), so
+-- lookups survive restarts and are shared between server instances.
+-- Only the service role reads or writes it: RLS is enabled with no policies.
+
+CREATE TABLE IF NOT EXISTS companies_house_cache (
+  cache_key text PRIMARY KEY,
+  payload jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT NOW(),
+  -- Fresh until expires_at; served stale (and refreshed in the background) until stale_until
+  expires_at timestamptz NOT NULL,
+  stale_until timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS companies_house_cache_stale_until_idx ON companies_house_cache (stale_until);
+
+ALTER TABLE companies_house_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,13 @@
+-- Whether a company's details came from a Companies House lookup. Companies entered
+-- manually (no match, or Companies House unavailable at signup) stay unverified
+-- until a lookup succeeds, so the team knows to check them by hand.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS companies_house_verified boolean NOT NULL DEFAULT false;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS companies_house_verified_at timestamptz DEFAULT NULL;
+
+-- Existing companies with stored Companies House data were looked up at signup
+UPDATE companies
+SET companies_house_verified = true,
+    companies_house_verified_at = COALESCE(companies_house_verified_at, created_at)
+WHERE companies_house_data IS NOT NULL
+  AND companies_house_verified = false;
@@ -0,0 +1,7 @@
+-- Companies House filing history and accounts data used in underwriting
+-- (src/lib/companyAccounts.ts). accounts_summary holds the accounts dates, overdue
+-- flags, years filed and, where the latest accounts were filed as iXBRL, turnover,
+-- profit and net assets.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS filing_history jsonb DEFAULT NULL;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS accounts_summary jsonb DEFAULT NULL;
@@ -0,0 +1,69 @@
+-- Companies House monitoring (/api/admin/companies-house-monitor). Companies with
+-- live applications or funded deals are re-checked on a schedule; status changes,
+-- strike-off notices, director resignations and overdue filings raise alerts.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS companies_house_checked_at timestamptz DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS company_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  -- status | strike_off | insolvency | director_resigned | accounts_overdue | confirmation_statement_overdue
+  kind text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('critical', 'warning')),
+  -- Identifies the condition, e.g. 'status:liquidation', so each is raised once
+  alert_key text NOT NULL,
+  message text NOT NULL,
+  details jsonb DEFAULT NULL,
+  detected_at timestamptz NOT NULL DEFAULT NOW(),
+  -- Set by the monitor when the condition clears (resolved_by null) or by an admin dismissing it
+  resolved_at timestamptz DEFAULT NULL,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+-- On a dismissed alert, when the monitor first saw the condition gone; until then the
+-- dismissal keeps the condition from being raised again
+ALTER TABLE company_alerts ADD COLUMN IF NOT EXISTS cleared_at timestamptz DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS company_alerts_company_idx ON company_alerts (company_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS company_alerts_open_idx ON company_alerts (detected_at DESC) WHERE resolved_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS company_alerts_open_key_idx
+  ON company_alerts (company_id, alert_key)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE company_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view company alerts" ON company_alerts;
+CREATE POLICY "Admins can view company alerts"
+ON company_alerts
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can dismiss company alerts" ON company_alerts;
+CREATE POLICY "Admins can dismiss company alerts"
+ON company_alerts
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
@@ -0,0 +1,48 @@
+-- Fees on funded deals (src/lib/dealFees.ts): the procuration fee the lender pays us
+-- and any broker fee charged to the client, expected vs received, with invoice and
+-- payment dates for the receivables view.
+
+CREATE TABLE IF NOT EXISTS deal_fees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('procuration', 'broker')),
+  -- Procuration fees: the lender that owes it
+  lender_id uuid REFERENCES lenders(id) ON DELETE SET NULL,
+  expected_amount numeric CHECK (expected_amount >= 0),
+  received_amount numeric CHECK (received_amount >= 0),
+  invoice_reference text,
+  invoiced_on date,
+  -- Set once settled; any shortfall against expected_amount is then written off
+  paid_on date,
+  notes text,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (application_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS deal_fees_unpaid_idx ON deal_fees (lender_id) WHERE paid_on IS NULL;
+CREATE INDEX IF NOT EXISTS deal_fees_paid_on_idx ON deal_fees (paid_on) WHERE paid_on IS NOT NULL;
+
+-- Written only by the /api/applications/[id]/fees route (service role)
+ALTER TABLE deal_fees ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view deal fees" ON deal_fees;
+CREATE POLICY "Admins can view deal fees"
+ON deal_fees
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+-- Admin changes are recorded in audit_log (add_audit_log.sql)
+DROP TRIGGER IF EXISTS audit_deal_fees ON deal_fees;
+CREATE TRIGGER audit_deal_fees
+  AFTER INSERT OR UPDATE OR DELETE ON deal_fees
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
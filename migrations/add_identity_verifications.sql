@@ -0,0 +1,53 @@
+-- Director identity verification (src/lib/identityVerification.ts). The ID document
+-- and selfie are ordinary documents rows in the 'identity' category; each attempt
+-- records the provider's checks, our date of birth check against the Companies
+-- House officer record and, where needed, an admin's review.
+
+CREATE TABLE IF NOT EXISTS identity_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  profile_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  -- NULL when no provider was configured and the attempt went to manual review
+  provider text,
+  provider_reference text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'review', 'failed')),
+  document_type text NOT NULL CHECK (document_type IN ('passport', 'driving_licence', 'national_id')),
+  id_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  selfie_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  document_check text NOT NULL DEFAULT 'not_run' CHECK (document_check IN ('pass', 'fail', 'inconclusive', 'not_run')),
+  face_match text NOT NULL DEFAULT 'not_run' CHECK (face_match IN ('pass', 'fail', 'inconclusive', 'not_run')),
+  dob_check text NOT NULL CHECK (dob_check IN ('match', 'mismatch', 'officer_not_found', 'unavailable')),
+  -- Companies House officer the applicant was matched to
+  officer_name text,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  submitted_at timestamptz NOT NULL DEFAULT NOW(),
+  reviewed_at timestamptz,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  review_note text
+);
+
+CREATE INDEX IF NOT EXISTS identity_verifications_application_idx
+  ON identity_verifications (application_id, submitted_at DESC);
+
+-- Written only by the /api/applications/[id]/identity routes (service role)
+ALTER TABLE identity_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view identity verifications" ON identity_verifications;
+CREATE POLICY "Admins can view identity verifications"
+ON identity_verifications
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+-- Admin changes are recorded in audit_log (add_audit_log.sql)
+DROP TRIGGER IF EXISTS audit_identity_verifications ON identity_verifications;
+CREATE TRIGGER audit_identity_verifications
+  AFTER INSERT OR UPDATE OR DELETE ON identity_verifications
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
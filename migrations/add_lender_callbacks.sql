@@ -0,0 +1,48 @@
+-- Inbound lender callbacks (/api/lender-callbacks/[lenderId])
+
+-- The per-lender callback secret lives in lender_secrets (add_lender_secrets.sql)
+
+-- Lender response details on submissions
+ALTER TABLE lender_submissions
+ADD COLUMN IF NOT EXISTS lender_reference text,
+ADD COLUMN IF NOT EXISTS decline_reason text,
+ADD COLUMN IF NOT EXISTS responded_at timestamptz;
+
+-- Allow the statuses callbacks can set
+ALTER TABLE lender_submissions DROP CONSTRAINT IF EXISTS lender_submissions_status_check;
+ALTER TABLE lender_submissions ADD CONSTRAINT lender_submissions_status_check
+  CHECK (status IN ('pending', 'sent', 'acknowledged', 'failed', 'retry', 'declined', 'info_requested', 'offered'));
+
+-- Information requests raised by a lender rather than an admin
+ALTER TABLE information_requests ADD COLUMN IF NOT EXISTS lender_id uuid REFERENCES lenders(id) ON DELETE SET NULL;
+
+-- Raw log of every accepted callback; (lender_id, event_id) de-duplicates redeliveries
+CREATE TABLE IF NOT EXISTS lender_callback_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lender_id uuid NOT NULL REFERENCES lenders(id) ON DELETE CASCADE,
+  submission_id uuid REFERENCES lender_submissions(id) ON DELETE SET NULL,
+  event_id text,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  received_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS lender_callback_events_event_id_idx
+  ON lender_callback_events (lender_id, event_id)
+  WHERE event_id IS NOT NULL;
+
+ALTER TABLE lender_callback_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view lender callback events" ON lender_callback_events;
+CREATE POLICY "Admins can view lender callback events"
+ON lender_callback_events
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
@@ -0,0 +1,8 @@
+-- Per-lender submission payload templates and document requirements
+
+-- JSON template whose string values may contain {{application.*}}, {{company.*}},
+-- {{director.*}} and {{documents}} placeholders (see src/lib/submissionPayload.ts)
+ALTER TABLE lenders ADD COLUMN IF NOT EXISTS payload_template jsonb DEFAULT NULL;
+
+-- Document categories included in the pack sent to this lender; NULL means all documents
+ALTER TABLE lenders ADD COLUMN IF NOT EXISTS required_document_categories text[] DEFAULT NULL;
@@ -0,0 +1,41 @@
+-- Lender credentials moved off lenders, which clients and partners can read through
+-- lender:lender_id(...) joins. Only the service role reads or writes lender_secrets
+-- (/api/lenders/[id]/secrets, the dispatch worker and the callback endpoint): RLS is
+-- enabled with no policies.
+
+CREATE TABLE IF NOT EXISTS lender_secrets (
+  lender_id uuid PRIMARY KEY REFERENCES lenders(id) ON DELETE CASCADE,
+  -- Secret used with lenders.api_auth_type ('api_key', 'oauth2' token, or 'user:pass' for basic)
+  api_credential text DEFAULT NULL,
+  -- Shared secret used to verify the HMAC signature on lender callbacks
+  callback_secret text DEFAULT NULL,
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE lender_secrets ADD COLUMN IF NOT EXISTS callback_secret text DEFAULT NULL;
+
+ALTER TABLE lender_secrets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lenders' AND column_name = 'api_credential'
+  ) THEN
+    INSERT INTO lender_secrets (lender_id, api_credential)
+    SELECT id, api_credential FROM lenders WHERE api_credential IS NOT NULL
+    ON CONFLICT (lender_id) DO UPDATE SET api_credential = EXCLUDED.api_credential;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'lenders' AND column_name = 'callback_secret'
+  ) THEN
+    INSERT INTO lender_secrets (lender_id, callback_secret)
+    SELECT id, callback_secret FROM lenders WHERE callback_secret IS NOT NULL
+    ON CONFLICT (lender_id) DO UPDATE SET callback_secret = EXCLUDED.callback_secret;
+  END IF;
+END $$;
+
+ALTER TABLE lenders DROP COLUMN IF EXISTS api_credential;
+ALTER TABLE lenders DROP COLUMN IF EXISTS callback_secret;
@@ -0,0 +1,11 @@
+-- Server-side lender dispatch (/api/lender-submissions)
+
+-- When a pending/retry submission is next due; also used as a short claim lease by the worker
+ALTER TABLE lender_submissions ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz DEFAULT NULL;
+ALTER TABLE lender_submissions ADD COLUMN IF NOT EXISTS retry_count integer NOT NULL DEFAULT 0;
+ALTER TABLE lender_submissions ADD COLUMN IF NOT EXISTS last_error text DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS lender_submissions_due_idx
+  ON lender_submissions (status, next_attempt_at);
+
+-- The API credential lives in lender_secrets (add_lender_secrets.sql), not on lenders
@@ -0,0 +1,43 @@
+-- Offer expiry: pending offers past expires_at become 'lapsed' (see /api/offers/expiry)
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS lapsed_at timestamptz DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS reminder_sent_at timestamptz DEFAULT NULL;
+
+ALTER TABLE offers DROP CONSTRAINT IF EXISTS offers_status_check;
+ALTER TABLE offers ADD CONSTRAINT offers_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'lapsed'));
+
+CREATE INDEX IF NOT EXISTS offers_pending_expiry_idx
+  ON offers (expires_at)
+  WHERE status = 'pending';
+
+-- Clients accept offers directly, so refuse acceptance once the offer has expired
+-- even if the expiry job has not run yet. The expiry date is checked as it was before
+-- the update, and browser sessions can't move it, so clearing or extending it can't be
+-- used to accept an expired offer.
+CREATE OR REPLACE FUNCTION prevent_accepting_expired_offer()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+    IF COALESCE(auth.role(), '') IN ('authenticated', 'anon') THEN
+      RAISE EXCEPTION 'Offer expiry dates can''t be changed here'
+        USING ERRCODE = '42501';
+    END IF;
+    -- A new expiry date gets its own reminder
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  IF NEW.status = 'accepted'
+     AND OLD.status IS DISTINCT FROM 'accepted'
+     AND (OLD.status = 'lapsed' OR (OLD.expires_at IS NOT NULL AND OLD.expires_at < now())) THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS offers_prevent_accepting_expired ON offers;
+CREATE TRIGGER offers_prevent_accepting_expired
+  BEFORE UPDATE OF status, expires_at ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_accepting_expired_offer();
@@ -0,0 +1,107 @@
+-- Open Banking bank statement ingestion (src/lib/openBanking.ts). A connection is
+-- one authorisation at the applicant's bank; its accounts and their transactions
+-- are pulled into bank_accounts and bank_transactions, and each account's
+-- statement is written to documents in the 'bank_statements' category.
+
+CREATE TABLE IF NOT EXISTS bank_connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_consent_id text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'connected', 'failed')),
+  institution_name text,
+  -- Transaction history actually returned, which may be shorter than requested
+  history_from date,
+  history_to date,
+  months_covered integer,
+  error text,
+  consent_expires_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  connected_at timestamptz,
+  last_synced_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS bank_connections_application_idx
+  ON bank_connections (application_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id uuid NOT NULL REFERENCES bank_connections(id) ON DELETE CASCADE,
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  provider_account_id text NOT NULL,
+  name text NOT NULL,
+  sort_code text,
+  account_number_last4 text,
+  currency text NOT NULL DEFAULT 'GBP',
+  balance numeric,
+  -- Generated statement; cleared if the applicant removes it
+  statement_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  UNIQUE (connection_id, provider_account_id)
+);
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  provider_transaction_id text NOT NULL,
+  booked_on date NOT NULL,
+  description text NOT NULL,
+  -- Signed: money in is positive
+  amount numeric NOT NULL,
+  balance numeric,
+  transaction_type text,
+  merchant_name text,
+  UNIQUE (account_id, provider_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS bank_transactions_application_idx
+  ON bank_transactions (application_id, booked_on);
+
+-- Written only by the /api/applications/[id]/open-banking and /api/open-banking
+-- routes (service role)
+ALTER TABLE bank_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view bank connections" ON bank_connections;
+CREATE POLICY "Admins can view bank connections"
+ON bank_connections
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view bank accounts" ON bank_accounts;
+CREATE POLICY "Admins can view bank accounts"
+ON bank_accounts
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view bank transactions" ON bank_transactions;
+CREATE POLICY "Admins can view bank transactions"
+ON bank_transactions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
@@ -0,0 +1,177 @@
+-- Partner commission (src/lib/commission.ts). Each partner company has at most one
+-- commission plan; without one, default_commission_rate applies to the funded
+-- amount. Funding an application referred by a partner user accrues a ledger entry,
+-- and monthly statements gather the entries not yet paid out.
+
+CREATE TABLE IF NOT EXISTS commission_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_company_id uuid NOT NULL UNIQUE REFERENCES partner_companies(id) ON DELETE CASCADE,
+  basis text NOT NULL DEFAULT 'funded_amount' CHECK (basis IN ('funded_amount', 'broker_fee')),
+  -- Percentage, used below the first tier (or always, without tiers)
+  rate numeric NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+  -- [{ "min_volume": 250000, "rate": 1.5 }]: the rate once the partner's funded volume
+  -- for the calendar year reaches min_volume
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- Days after funding in which commission can be clawed back
+  clawback_days integer NOT NULL DEFAULT 0 CHECK (clawback_days >= 0),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS commission_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_company_id uuid NOT NULL REFERENCES partner_companies(id) ON DELETE CASCADE,
+  -- Calendar month covered, first and last day
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  total numeric NOT NULL,
+  entry_count integer NOT NULL,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid')),
+  issued_at timestamptz NOT NULL DEFAULT NOW(),
+  paid_at timestamptz,
+  paid_reference text,
+  paid_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  UNIQUE (partner_company_id, period_start)
+);
+
+CREATE TABLE IF NOT EXISTS commission_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_company_id uuid NOT NULL REFERENCES partner_companies(id) ON DELETE CASCADE,
+  application_id uuid REFERENCES applications(id) ON DELETE SET NULL,
+  -- The partner user who referred the company
+  referrer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('accrual', 'clawback', 'adjustment')),
+  -- awaiting_fee: fees received basis, until a fee has been received
+  status text NOT NULL DEFAULT 'accrued' CHECK (status IN ('accrued', 'awaiting_fee')),
+  basis text CHECK (basis IN ('funded_amount', 'broker_fee')),
+  -- Accruals: the accepted offer amount, which counts towards volume tiers
+  funded_amount numeric,
+  base_amount numeric,
+  rate numeric,
+  -- Signed: clawbacks are negative
+  amount numeric NOT NULL,
+  description text NOT NULL,
+  -- Clawbacks point at the accrual they reverse
+  reverses_entry_id uuid REFERENCES commission_entries(id) ON DELETE SET NULL,
+  statement_id uuid REFERENCES commission_statements(id) ON DELETE SET NULL,
+  accrued_at timestamptz NOT NULL DEFAULT NOW(),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS commission_entries_partner_idx
+  ON commission_entries (partner_company_id, accrued_at DESC);
+CREATE INDEX IF NOT EXISTS commission_entries_unstatemented_idx
+  ON commission_entries (partner_company_id)
+  WHERE statement_id IS NULL;
+-- One accrual per funded application, and one clawback per accrual
+CREATE UNIQUE INDEX IF NOT EXISTS commission_entries_accrual_idx
+  ON commission_entries (application_id)
+  WHERE kind = 'accrual';
+CREATE UNIQUE INDEX IF NOT EXISTS commission_entries_clawback_idx
+  ON commission_entries (reverses_entry_id)
+  WHERE kind = 'clawback';
+
+-- Written only by the /api/admin/partners/[id]/commission-*, /api/admin/commission-statements
+-- routes and stage transitions (service role)
+ALTER TABLE commission_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view commission plans" ON commission_plans;
+CREATE POLICY "Admins can view commission plans"
+ON commission_plans
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Partners can view their commission plan" ON commission_plans;
+CREATE POLICY "Partners can view their commission plan"
+ON commission_plans
+FOR SELECT
+TO authenticated
+USING (
+  partner_company_id IN (
+    SELECT partner_company_id
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+      AND partner_company_id IS NOT NULL
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view commission statements" ON commission_statements;
+CREATE POLICY "Admins can view commission statements"
+ON commission_statements
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Partners can view their commission statements" ON commission_statements;
+CREATE POLICY "Partners can view their commission statements"
+ON commission_statements
+FOR SELECT
+TO authenticated
+USING (
+  partner_company_id IN (
+    SELECT partner_company_id
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+      AND partner_company_id IS NOT NULL
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view commission entries" ON commission_entries;
+CREATE POLICY "Admins can view commission entries"
+ON commission_entries
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Partners can view their commission entries" ON commission_entries;
+CREATE POLICY "Partners can view their commission entries"
+ON commission_entries
+FOR SELECT
+TO authenticated
+USING (
+  partner_company_id IN (
+    SELECT partner_company_id
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+      AND partner_company_id IS NOT NULL
+  )
+);
+
+-- Admin changes are recorded in audit_log (add_audit_log.sql)
+DROP TRIGGER IF EXISTS audit_commission_plans ON commission_plans;
+CREATE TRIGGER audit_commission_plans
+  AFTER INSERT OR UPDATE OR DELETE ON commission_plans
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_commission_entries ON commission_entries;
+CREATE TRIGGER audit_commission_entries
+  AFTER INSERT OR UPDATE OR DELETE ON commission_entries
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
@@ -0,0 +1,135 @@
+-- Referral visibility for partner firms (src/lib/partnerTeam.ts). Each partner company
+-- chooses whether its users see the whole firm's referrals or only their own, and a
+-- primary contact can override that per user. Primary contacts always see the whole firm.
+
+ALTER TABLE partner_companies
+  ADD COLUMN IF NOT EXISTS referral_visibility text NOT NULL DEFAULT 'firm'
+    CHECK (referral_visibility IN ('own', 'firm'));
+
+-- NULL follows the partner company's setting
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS referral_visibility text
+    CHECK (referral_visibility IN ('own', 'firm'));
+
+-- Whether the signed-in partner may see a company referred by p_referred_by. SECURITY
+-- DEFINER so policies can read both profiles without recursing into profiles RLS.
+CREATE OR REPLACE FUNCTION partner_can_see_referral(p_referred_by uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles cu
+    LEFT JOIN partner_companies pc ON pc.id = cu.partner_company_id
+    LEFT JOIN profiles p ON p.id = p_referred_by
+    WHERE cu.id = auth.uid()
+      AND cu.role = 'PARTNER'
+      AND (
+        p_referred_by = cu.id
+        OR (
+          cu.partner_company_id IS NOT NULL
+          AND p.partner_company_id = cu.partner_company_id
+          AND (
+            cu.is_primary_contact = true
+            OR COALESCE(cu.referral_visibility, pc.referral_visibility, 'firm') = 'firm'
+          )
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Partners can view companies they referred" ON companies;
+CREATE POLICY "Partners can view companies they referred"
+ON companies
+FOR SELECT
+TO authenticated
+USING (partner_can_see_referral(companies.referred_by));
+
+DROP POLICY IF EXISTS "Partners can view documents for referred companies" ON documents;
+CREATE POLICY "Partners can view documents for referred companies"
+ON documents
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM applications a
+    JOIN companies c ON c.id = a.company_id
+    WHERE a.id = documents.application_id
+      AND partner_can_see_referral(c.referred_by)
+  )
+);
+
+-- Restrictive, so it narrows whatever partner access the applications policies grant:
+-- a partner sees applications they created and those of companies they can see
+DROP POLICY IF EXISTS "Partners see applications within their referral visibility" ON applications;
+CREATE POLICY "Partners see applications within their referral visibility"
+ON applications
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (
+  NOT EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+  )
+  OR applications.created_by = auth.uid()
+  OR EXISTS (
+    SELECT 1
+    FROM companies c
+    WHERE c.id = applications.company_id
+      AND partner_can_see_referral(c.referred_by)
+  )
+);
+
+-- Whether the signed-in partner sees their whole firm's referrals (primary contacts,
+-- or users whose effective visibility is 'firm')
+CREATE OR REPLACE FUNCTION partner_sees_whole_firm()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles cu
+    LEFT JOIN partner_companies pc ON pc.id = cu.partner_company_id
+    WHERE cu.id = auth.uid()
+      AND cu.role = 'PARTNER'
+      AND (
+        cu.is_primary_contact = true
+        OR COALESCE(cu.referral_visibility, pc.referral_visibility, 'firm') = 'firm'
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Commission follows the same visibility: 'own' users see entries for their own
+-- referrals only. Entries with no referrer (firm-wide adjustments) and statements,
+-- which total the whole firm, need firm visibility.
+DROP POLICY IF EXISTS "Partners can view their commission entries" ON commission_entries;
+CREATE POLICY "Partners can view their commission entries"
+ON commission_entries
+FOR SELECT
+TO authenticated
+USING (
+  partner_company_id IN (
+    SELECT partner_company_id
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+      AND partner_company_id IS NOT NULL
+  )
+  AND (partner_sees_whole_firm() OR partner_can_see_referral(commission_entries.referrer_id))
+);
+
+DROP POLICY IF EXISTS "Partners can view their commission statements" ON commission_statements;
+CREATE POLICY "Partners can view their commission statements"
+ON commission_statements
+FOR SELECT
+TO authenticated
+USING (
+  partner_company_id IN (
+    SELECT partner_company_id
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'PARTNER'
+      AND partner_company_id IS NOT NULL
+  )
+  AND partner_sees_whole_firm()
+);
@@ -0,0 +1,11 @@
+-- Partner team self-service (src/lib/partnerTeam.ts): primary contacts can deactivate
+-- members of their own partner company. Deactivated members keep their profile, so
+-- past referrals and commission still resolve, but their login is banned.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deactivated_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS profiles_partner_company_active_idx
+  ON profiles (partner_company_id)
+  WHERE deactivated_at IS NULL;
@@ -0,0 +1,100 @@
+-- Permanent deletion of soft-deleted applications and companies.
+-- Each call runs in a single transaction, so a failure part way leaves nothing
+-- orphaned. Storage objects cannot be removed from SQL: the functions return the
+-- documents' storage paths and the calling route removes them once the rows are gone.
+
+CREATE OR REPLACE FUNCTION purge_application_rows(p_application_ids uuid[])
+RETURNS jsonb AS $$
+DECLARE
+  v_paths text[];
+  v_documents integer;
+  v_information_requests integer;
+  v_lender_submissions integer;
+  v_offers integer;
+  v_applications integer;
+BEGIN
+  SELECT COALESCE(array_agg(storage_path) FILTER (WHERE storage_path IS NOT NULL), '{}')
+  INTO v_paths
+  FROM documents
+  WHERE application_id = ANY(p_application_ids);
+
+  -- Children first (order matters for foreign keys)
+  DELETE FROM documents WHERE application_id = ANY(p_application_ids);
+  GET DIAGNOSTICS v_documents = ROW_COUNT;
+
+  DELETE FROM information_requests WHERE application_id = ANY(p_application_ids);
+  GET DIAGNOSTICS v_information_requests = ROW_COUNT;
+
+  DELETE FROM lender_submissions WHERE application_id = ANY(p_application_ids);
+  GET DIAGNOSTICS v_lender_submissions = ROW_COUNT;
+
+  DELETE FROM offers WHERE application_id = ANY(p_application_ids);
+  GET DIAGNOSTICS v_offers = ROW_COUNT;
+
+  DELETE FROM applications WHERE id = ANY(p_application_ids);
+  GET DIAGNOSTICS v_applications = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'applications', v_applications,
+    'documents', v_documents,
+    'information_requests', v_information_requests,
+    'lender_submissions', v_lender_submissions,
+    'offers', v_offers,
+    'storage_paths', to_jsonb(v_paths)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- p_actor_id is NULL when the retention job runs
+CREATE OR REPLACE FUNCTION purge_application(p_application_id uuid, p_actor_id uuid)
+RETURNS jsonb AS $$
+BEGIN
+  IF p_actor_id IS NOT NULL THEN
+    PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+  END IF;
+
+  -- Lock the row so a concurrent restore cannot slip in between the check and the delete
+  PERFORM 1 FROM applications WHERE id = p_application_id AND deleted_at IS NOT NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted application not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN purge_application_rows(ARRAY[p_application_id]);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes every application under the company, whether or not it was deleted separately
+CREATE OR REPLACE FUNCTION purge_company(p_company_id uuid, p_actor_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_summary jsonb;
+  v_profiles integer;
+BEGIN
+  IF p_actor_id IS NOT NULL THEN
+    PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+  END IF;
+
+  PERFORM 1 FROM companies WHERE id = p_company_id AND deleted_at IS NOT NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted company not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_summary := purge_application_rows(
+    ARRAY(SELECT id FROM applications WHERE company_id = p_company_id)
+  );
+
+  -- Unlink profiles from this company (don't delete the profiles)
+  UPDATE profiles
+  SET company_id = NULL, is_primary_director = false
+  WHERE company_id = p_company_id;
+  GET DIAGNOSTICS v_profiles = ROW_COUNT;
+
+  DELETE FROM companies WHERE id = p_company_id;
+
+  RETURN v_summary || jsonb_build_object('companies', 1, 'profiles_unlinked', v_profiles);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_application_rows(uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_application(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_company(uuid, uuid) FROM PUBLIC, anon, authenticated;
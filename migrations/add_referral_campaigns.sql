@@ -0,0 +1,65 @@
+-- Partner referral campaigns (src/lib/referralCampaigns.ts). Each partner user can
+-- create named links (e.g. per newsletter or per accountant office) with an opaque
+-- code. Visiting /r/<code> records a lead before signup, and the lead is converted
+-- when the client creates their account, giving a click -> signup -> application ->
+-- funded funnel per campaign.
+
+CREATE TABLE IF NOT EXISTS referral_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  partner_company_id uuid REFERENCES partner_companies(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Public code in the link; never the partner's profile id
+  code text NOT NULL UNIQUE,
+  archived_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS referral_campaigns_partner_user_idx ON referral_campaigns (partner_user_id);
+CREATE INDEX IF NOT EXISTS referral_campaigns_partner_company_idx ON referral_campaigns (partner_company_id);
+
+-- leads predates these migrations; create it where missing, then add attribution
+CREATE TABLE IF NOT EXISTS leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'new',
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  converted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES referral_campaigns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS referred_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS clicked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS leads_campaign_idx ON leads (campaign_id) WHERE campaign_id IS NOT NULL;
+
+-- SHA-256 of the clicking address, to rate limit link clicks without storing the address
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS visitor_hash text;
+CREATE INDEX IF NOT EXISTS leads_visitor_clicks_idx ON leads (visitor_hash, clicked_at) WHERE visitor_hash IS NOT NULL;
+
+-- Written only by the /r/[code] and /api/referral-campaigns routes (service role).
+-- Funnel stats are served by /api/referral-campaigns rather than read directly.
+ALTER TABLE referral_campaigns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view referral campaigns" ON referral_campaigns;
+CREATE POLICY "Admins can view referral campaigns"
+ON referral_campaigns
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'ADMIN'
+  )
+);
+
+DROP POLICY IF EXISTS "Partners can view their own referral campaigns" ON referral_campaigns;
+CREATE POLICY "Partners can view their own referral campaigns"
+ON referral_campaigns
+FOR SELECT
+TO authenticated
+USING (partner_user_id = auth.uid());
@@ -0,0 +1,126 @@
+-- Soft deletion for applications and companies. Deleted rows are hidden from every
+-- portal user (admins included) and only reachable through the admin "Recently
+-- deleted" API until /api/admin/purge-deleted removes them after the retention period.
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT NULL;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT NULL;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS applications_deleted_at_idx ON applications (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS companies_deleted_at_idx ON companies (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Restrictive policies are ANDed with the existing ones
+DROP POLICY IF EXISTS "Hide soft-deleted applications" ON applications;
+CREATE POLICY "Hide soft-deleted applications"
+ON applications
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide soft-deleted companies" ON companies;
+CREATE POLICY "Hide soft-deleted companies"
+ON companies
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+-- The functions below are called from server routes with the service role and name
+-- the acting admin so the audit_log triggers can attribute the change.
+
+CREATE OR REPLACE FUNCTION soft_delete_application(p_application_id uuid, p_actor_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+
+  UPDATE applications
+  SET deleted_at = NOW(), deleted_by = p_actor_id
+  WHERE id = p_application_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found or already deleted' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION restore_application(p_application_id uuid, p_actor_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+
+  IF EXISTS (
+    SELECT 1
+    FROM applications a
+    JOIN companies c ON c.id = a.company_id
+    WHERE a.id = p_application_id AND c.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the company first' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE applications
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = p_application_id AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted application not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A company's applications are deleted with it and share its deleted_at, which is
+-- how restore_company knows which ones to bring back
+CREATE OR REPLACE FUNCTION soft_delete_company(p_company_id uuid, p_actor_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_now timestamptz := NOW();
+  v_count integer;
+BEGIN
+  PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+
+  UPDATE companies
+  SET deleted_at = v_now, deleted_by = p_actor_id
+  WHERE id = p_company_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Company not found or already deleted' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE applications
+  SET deleted_at = v_now, deleted_by = p_actor_id
+  WHERE company_id = p_company_id AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION restore_company(p_company_id uuid, p_actor_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_deleted_at timestamptz;
+  v_count integer;
+BEGIN
+  PERFORM set_config('audit.actor_id', p_actor_id::text, true);
+
+  SELECT deleted_at INTO v_deleted_at FROM companies WHERE id = p_company_id;
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Deleted company not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE companies SET deleted_at = NULL, deleted_by = NULL WHERE id = p_company_id;
+
+  UPDATE applications
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE company_id = p_company_id AND deleted_at = v_deleted_at;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION soft_delete_application(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_application(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION soft_delete_company(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_company(uuid, uuid) FROM PUBLIC, anon, authenticated;
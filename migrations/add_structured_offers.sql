@@ -0,0 +1,37 @@
+-- Structured lender offers. The offers table becomes the single source of truth;
+-- the free-text applications.offer_* columns are migrated here and no longer written.
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS term_months integer DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS factor_rate numeric DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS apr numeric DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS arrangement_fee numeric DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS other_fees numeric DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS repayment_frequency text DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS repayment_amount numeric DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS expires_at timestamptz DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS conditions text DEFAULT NULL;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE offers DROP CONSTRAINT IF EXISTS offers_repayment_frequency_check;
+ALTER TABLE offers ADD CONSTRAINT offers_repayment_frequency_check
+  CHECK (repayment_frequency IS NULL OR repayment_frequency IN ('daily', 'weekly', 'monthly'));
+
+-- Carry over offers typed onto applications that have no offers rows yet
+INSERT INTO offers (application_id, lender_id, amount, loan_term, cost_of_funding, repayments, status, accepted_at)
+SELECT
+  a.id,
+  a.accepted_lender_id,
+  a.offer_amount,
+  a.offer_loan_term,
+  a.offer_cost_of_funding,
+  a.offer_repayments,
+  CASE WHEN a.stage IN ('onboarding', 'funded') THEN 'accepted' ELSE 'pending' END,
+  CASE WHEN a.stage IN ('onboarding', 'funded') THEN now() ELSE NULL END
+FROM applications a
+WHERE a.offer_amount IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM offers o WHERE o.application_id = a.id);
+
+COMMENT ON COLUMN applications.offer_amount IS 'Deprecated: use offers.amount';
+COMMENT ON COLUMN applications.offer_loan_term IS 'Deprecated: use offers.term_months';
+COMMENT ON COLUMN applications.offer_cost_of_funding IS 'Deprecated: use offers.apr / offers.factor_rate';
+COMMENT ON COLUMN applications.offer_repayments IS 'Deprecated: use offers.repayment_amount / offers.repayment_frequency';
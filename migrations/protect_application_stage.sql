@@ -0,0 +1,36 @@
+-- Application stages only change through /api/applications/[id]/stage (service role),
+-- which enforces the transitions and preconditions in src/lib/applicationStages.ts.
+-- Portal users can still create and edit applications, but a new application starts
+-- in 'created' and their updates can't touch the stage columns.
+
+CREATE OR REPLACE FUNCTION protect_application_stage()
+RETURNS trigger AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM 'created' THEN
+      RAISE EXCEPTION 'New applications must start in the created stage'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage
+     OR NEW.stage_reason IS DISTINCT FROM OLD.stage_reason
+     OR NEW.stage_changed_at IS DISTINCT FROM OLD.stage_changed_at
+     OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at THEN
+    RAISE EXCEPTION 'Application stages can only be changed through the stage route'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_application_stage ON applications;
+CREATE TRIGGER protect_application_stage
+  BEFORE INSERT OR UPDATE ON applications
+  FOR EACH ROW EXECUTE FUNCTION protect_application_stage();
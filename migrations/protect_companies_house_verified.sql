@@ -0,0 +1,32 @@
+-- companies_house_verified may only be set by /api/companies/[id]/verify (service role),
+-- which does the Companies House lookup itself. Portal users can still insert and edit
+-- companies, but their writes never mark a company verified, and changing the company
+-- number or Companies House data clears the flag until the lookup is repeated.
+
+CREATE OR REPLACE FUNCTION protect_companies_house_verified()
+RETURNS trigger AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.companies_house_verified := false;
+    NEW.companies_house_verified_at := NULL;
+  ELSIF NEW.company_number IS DISTINCT FROM OLD.company_number
+     OR NEW.companies_house_data IS DISTINCT FROM OLD.companies_house_data THEN
+    NEW.companies_house_verified := false;
+    NEW.companies_house_verified_at := NULL;
+  ELSE
+    NEW.companies_house_verified := OLD.companies_house_verified;
+    NEW.companies_house_verified_at := OLD.companies_house_verified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_companies_house_verified ON companies;
+CREATE TRIGGER protect_companies_house_verified
+  BEFORE INSERT OR UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION protect_companies_house_verified();
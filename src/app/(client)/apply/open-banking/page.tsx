@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { authorizedJson } from '@/lib/apiClient';
+import { Button } from '@/components/ui';
+
+// The documents step of the application wizard
+const DOCUMENTS_STEP = 4;
+
+export default function OpenBankingCallbackPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const completing = useRef(false);
+
+  useEffect(() => {
+    // Consent codes are single use; don't post twice under strict mode
+    if (completing.current) return;
+    completing.current = true;
+
+    const complete = async () => {
+      const params = Object.fromEntries(new URLSearchParams(window.location.search).entries());
+      try {
+        await authorizedJson('/api/open-banking/callback', {
+          method: 'POST',
+          body: JSON.stringify(params),
+        });
+        router.replace(`/apply?step=${DOCUMENTS_STEP}`);
+      } catch (err: any) {
+        console.error('[OpenBanking] Error completing connection:', err);
+        setError(err?.message || 'We could not connect your bank');
+      }
+    };
+
+    complete();
+  }, [router]);
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-primary)] flex items-center justify-center">
+      {error ? (
+        <div className="max-w-md text-center space-y-4">
+          <p className="text-sm text-[var(--color-text-primary)]">{error}</p>
+          <Button variant="primary" onClick={() => router.replace(`/apply?step=${DOCUMENTS_STEP}`)}>
+            Back to your application
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sm text-[var(--color-text-tertiary)]">Downloading your bank statements...</p>
+        </div>
+      )}
+    </div>
+  );
+}
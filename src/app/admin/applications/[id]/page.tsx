@@ -4,8 +4,18 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { ApiError, authorizedJson } from '@/lib/apiClient';
+import { allowedTransitions, requiresReason, STAGE_REASONS } from '@/lib/applicationStages';
+import { rankLenders, EligibilityResult, EligibilityTier } from '@/lib/eligibility';
+import { BeneficialOwner, describeNaturesOfControl, guaranteeUsuallyRequired } from '@/lib/beneficialOwners';
+import type { BankStatementAnalysis } from '@/lib/bankStatementAnalysis';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
+import { AdminOffersCard } from '@/components/offers';
+import { StageTimeline } from '@/components/application/StageTimeline';
+import { IdentityVerificationCard } from '@/components/application/IdentityVerificationCard';
+import { BankAnalysisCard } from '@/components/application/BankAnalysisCard';
+import { DealFeesCard } from '@/components/application/DealFeesCard';
 import { Card, CardContent, CardHeader, Badge, Button, getStageBadgeVariant, formatStage } from '@/components/ui';
 
 type Application = {
@@ -18,20 +28,19 @@ type Application = {
   is_hidden: boolean;
   admin_notes: string | null;
   accepted_lender_id: string | null;
+  stage_reason: string | null;
   created_at: string;
   company_id: string | null;
   owner_id: string | null;
   prospective_client_email: string | null;
   created_by: string | null;
-  offer_amount: number | null;
-  offer_loan_term: string | null;
-  offer_cost_of_funding: string | null;
-  offer_repayments: string | null;
   monthly_revenue: number | null;
   trading_months: number | null;
   workflow_status: string | null;
-  eligibility_result: Record<string, unknown> | null;
+  eligibility_result: EligibilityResult | null;
   companies_house_data: Record<string, unknown> | null;
+  beneficial_owners: BeneficialOwner[] | null;
+  bank_analysis: BankStatementAnalysis | null;
   company?: {
     id: string;
     name: string;
@@ -73,6 +82,7 @@ type Lender = {
   id: string;
   name: string;
   submission_method?: string | null;
+  is_eligible_panel?: boolean | null;
 };
 
 type InfoRequest = {
@@ -106,10 +116,13 @@ type LenderSubmission = {
   id: string;
   lender_id: string;
   submission_method: 'api' | 'email';
-  status: 'pending' | 'sent' | 'acknowledged' | 'failed' | 'retry';
+  status: 'pending' | 'sent' | 'acknowledged' | 'failed' | 'retry' | 'declined' | 'info_requested' | 'offered';
   sent_at: string | null;
   retry_count: number;
   last_error: string | null;
+  lender_reference: string | null;
+  decline_reason: string | null;
+  responded_at: string | null;
   created_at: string;
   lender?: {
     id: string;
@@ -117,16 +130,10 @@ type LenderSubmission = {
   };
 };
 
-const STAGES = [
-  'created',
-  'submitted',
-  'in_credit',
-  'info_required',
-  'approved',
-  'onboarding',
-  'funded',
-  'declined',
-  'withdrawn',
+const TIER_SECTIONS: { tier: EligibilityTier; label: string; variant: 'success' | 'warning' | 'error' }[] = [
+  { tier: 'eligible', label: 'Eligible', variant: 'success' },
+  { tier: 'borderline', label: 'Borderline', variant: 'warning' },
+  { tier: 'ineligible', label: 'Ineligible', variant: 'error' },
 ];
 
 const DOCUMENT_CATEGORIES = [
@@ -142,12 +149,6 @@ export default function AdminApplicationDetailPage() {
   const router = useRouter();
   const { user, profile, loading } = useUserProfile();
   const supabase = getSupabaseClient();
-  const [offerAmount, setOfferAmount] = useState('');
-  const [offerLoanTerm, setOfferLoanTerm] = useState('');
-  const [offerCostOfFunding, setOfferCostOfFunding] = useState('');
-  const [offerRepayments, setOfferRepayments] = useState('');
-  const [savingOffer, setSavingOffer] = useState(false);
-  const [offerDirty, setOfferDirty] = useState(false);
   const [application, setApplication] = useState<Application | null>(null);
   const [company, setCompany] = useState<Company | null>(null);
   const [lenders, setLenders] = useState<Lender[]>([]);
@@ -169,10 +170,20 @@ export default function AdminApplicationDetailPage() {
   const [selectedPartnerUserId, setSelectedPartnerUserId] = useState<string | null>(null);
   const [assigningPartner, setAssigningPartner] = useState(false);
   const [lenderSearchQuery, setLenderSearchQuery] = useState('');
+  const [checkingEligibility, setCheckingEligibility] = useState(false);
+  const [eligibilityError, setEligibilityError] = useState<string | null>(null);
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const [updatingStage, setUpdatingStage] = useState(false);
+  const [stageErrors, setStageErrors] = useState<string[]>([]);
+  // Declining/withdrawing asks for a reason first
+  const [reasonStage, setReasonStage] = useState<string | null>(null);
+  const [stageReason, setStageReason] = useState('');
+  const [stageReasonNote, setStageReasonNote] = useState('');
+  // Funding asks for the fees we expect on the deal
+  const [showFundingFees, setShowFundingFees] = useState(false);
+  const [expectedFees, setExpectedFees] = useState({ procuration: '', broker: '' });
   const [savingNotes, setSavingNotes] = useState(false);
   const [adminNotes, setAdminNotes] = useState('');
   const [notesDirty, setNotesDirty] = useState(false);
@@ -244,10 +255,6 @@ export default function AdminApplicationDetailPage() {
 
       setApplication(appData as Application);
       setAdminNotes(appData.admin_notes || '');
-      setOfferAmount(appData.offer_amount?.toString() || '');
-      setOfferLoanTerm(appData.offer_loan_term || '');
-      setOfferCostOfFunding(appData.offer_cost_of_funding || '');
-      setOfferRepayments(appData.offer_repayments || '');
 
       // Load company separately for additional fields if needed
       if (appData.company_id) {
@@ -288,7 +295,7 @@ export default function AdminApplicationDetailPage() {
       // Load lenders
       const { data: lendersData } = await supabase
         .from('lenders')
-        .select('id, name, submission_method')
+        .select('id, name, submission_method, is_eligible_panel')
         .order('name', { ascending: true });
       setLenders((lendersData || []) as Lender[]);
 
@@ -360,6 +367,41 @@ export default function AdminApplicationDetailPage() {
     lender.name.toLowerCase().includes(lenderSearchQuery.toLowerCase())
   );
 
+  // Rank by the stored eligibility result; lenders it doesn't cover are listed unranked
+  const rankedLenders = rankLenders(filteredLenders, application?.eligibility_result ?? null);
+  const unrankedLenders = filteredLenders.filter(
+    (lender) => !rankedLenders.some((ranked) => ranked.id === lender.id)
+  );
+  // The panel ignores the search box, so it always covers every eligible lender
+  const eligiblePanelIds = rankLenders(availableLenders, application?.eligibility_result ?? null)
+    .filter((lender) => lender.is_eligible_panel && lender.eligibility.tier === 'eligible')
+    .map((lender) => lender.id);
+
+  const handleCheckEligibility = async () => {
+    setCheckingEligibility(true);
+    setEligibilityError(null);
+    try {
+      const { eligibility_result, bank_analysis } = await authorizedJson<{
+        eligibility_result: EligibilityResult;
+        bank_analysis: BankStatementAnalysis | null;
+      }>(`/api/applications/${id}/eligibility`, { method: 'POST' });
+      setApplication((prev) => prev ? { ...prev, eligibility_result, bank_analysis } : null);
+    } catch (err: any) {
+      console.error('Error checking eligibility:', err);
+      setEligibilityError(err.message || 'Error checking eligibility');
+    } finally {
+      setCheckingEligibility(false);
+    }
+  };
+
+  // Evaluate once on first view so the picker is ranked without an extra click
+  useEffect(() => {
+    if (application && !application.eligibility_result && !checkingEligibility && !eligibilityError) {
+      handleCheckEligibility();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [application?.id]);
+
   const handleAssignPartner = async (partnerUserId: string | null) => {
     if (!application?.company_id || !partnerUserId) return;
     setAssigningPartner(true);
@@ -400,21 +442,84 @@ export default function AdminApplicationDetailPage() {
     }
   };
 
-  const handleStageChange = async (newStage: string) => {
-    if (!application) return;
+  const handleStageChange = async (
+    newStage: string,
+    reason?: string,
+    fees?: { procuration: string; broker: string }
+  ) => {
+    if (!application || newStage === application.stage) return;
+
+    if (requiresReason(newStage) && !reason) {
+      setReasonStage(newStage);
+      setStageReason('');
+      setStageReasonNote('');
+      return;
+    }
+
+    if (newStage === 'funded' && !fees) {
+      setExpectedFees({ procuration: '', broker: '' });
+      setShowFundingFees(true);
+      return;
+    }
+
     setUpdatingStage(true);
+    setStageErrors([]);
 
-    const { error } = await supabase
-      .from('applications')
-      .update({ stage: newStage })
-      .eq('id', id);
+    try {
+      const result = await authorizedJson<{
+        application: { stage: string; accepted_lender_id: string | null; stage_reason: string | null };
+        commission_error: string | null;
+      }>(
+        `/api/applications/${id}/stage`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ stage: newStage, reason: reason || null }),
+        }
+      );
+
+      // The stage has moved; a fee that fails to save can be recorded on the Fees card
+      if (fees) {
+        for (const kind of ['procuration', 'broker'] as const) {
+          if (!fees[kind]) continue;
+          try {
+            const feeResult = await authorizedJson<{ commission_error: string | null }>(`/api/applications/${id}/fees`, {
+              method: 'POST',
+              body: JSON.stringify({ kind, expected_amount: fees[kind] }),
+            });
+            if (feeResult.commission_error) {
+              alert(`The ${kind} fee was saved, but partner commission could not be updated: ${feeResult.commission_error}`);
+            }
+          } catch (feeError: any) {
+            alert(`Error recording the expected ${kind} fee: ` + feeError.message);
+          }
+        }
+      }
 
-    if (error) {
-      alert('Error updating stage: ' + error.message);
-    } else {
-      setApplication((prev) => prev ? { ...prev, stage: newStage } : null);
+      if (result.commission_error) {
+        alert(
+          'The application is funded, but partner commission could not be accrued: ' +
+            result.commission_error +
+            '. Add it as a commission adjustment.'
+        );
+      }
+
+      setApplication((prev) => prev ? { ...prev, ...result.application } : null);
+      setReasonStage(null);
+      setShowFundingFees(false);
+    } catch (err: any) {
+      console.error('Error updating stage:', err);
+      setStageErrors(err instanceof ApiError && err.body?.unmet?.length ? err.body.unmet : [err.message]);
+      setReasonStage(null);
+      setShowFundingFees(false);
+    } finally {
+      setUpdatingStage(false);
     }
-    setUpdatingStage(false);
+  };
+
+  const handleConfirmStageReason = () => {
+    if (!reasonStage || !stageReason) return;
+    const reason = stageReasonNote.trim() ? `${stageReason}: ${stageReasonNote.trim()}` : stageReason;
+    handleStageChange(reasonStage, reason);
   };
 
   const handleSaveNotes = async () => {
@@ -440,91 +545,27 @@ export default function AdminApplicationDetailPage() {
     setSendingToLenders(true);
 
     try {
-      // Create pending submission records for each selected lender
-      const submissions = selectedLenderIds.map((lenderId) => ({
-        application_id: id,
-        lender_id: lenderId,
-        submission_method: lenders.find((l) => l.id === lenderId)?.submission_method || 'email',
-        status: 'pending',
-      }));
-
-      const { data: newSubmissions, error: insertError } = await supabase
-        .from('lender_submissions')
-        .insert(submissions)
-        .select('*, lender:lender_id(id, name)');
-
-      if (insertError) throw insertError;
-
-      // Trigger n8n webhook
-      const webhookUrl = process.env.NEXT_PUBLIC_N8N_WEBHOOK_URL;
-      if (webhookUrl) {
-        await fetch(webhookUrl, {
+      // Submissions are created and dispatched server-side; failures are retried by the dispatch job
+      const { submissions } = await authorizedJson<{ submissions: LenderSubmission[] }>(
+        '/api/lender-submissions',
+        {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            application_id: id,
-            lender_ids: selectedLenderIds,
-          }),
-        });
-      }
+          body: JSON.stringify({ application_id: id, lender_ids: selectedLenderIds }),
+        }
+      );
 
       // Update local state
-      setLenderSubmissions((prev) => [...(newSubmissions || []), ...prev]);
+      setLenderSubmissions((prev) => [...submissions, ...prev]);
       setSelectedLenderIds([]);
-      
-      // Update workflow status
-      await supabase
-        .from('applications')
-        .update({ workflow_status: 'submitted_to_lenders' })
-        .eq('id', id);
-
-      // Reload application to get updated workflow_status
-      const { data: updatedApp } = await supabase
-        .from('applications')
-        .select('*')
-        .eq('id', id)
-        .single();
-      if (updatedApp) {
-        setApplication(updatedApp as Application);
-      }
-
-    } catch (error) {
+      setApplication((prev) => prev ? { ...prev, workflow_status: 'submitted_to_lenders' } : null);
+    } catch (error: any) {
       console.error('Error sending to lenders:', error);
-      alert('Failed to send to lenders. Please try again.');
+      alert(error.message || 'Failed to send to lenders. Please try again.');
     } finally {
       setSendingToLenders(false);
     }
   };
 
-  const handleSaveOffer = async () => {
-    if (!application) return;
-    setSavingOffer(true);
-
-    const { error } = await supabase
-      .from('applications')
-      .update({
-        offer_amount: offerAmount ? parseFloat(offerAmount) : null,
-        offer_loan_term: offerLoanTerm || null,
-        offer_cost_of_funding: offerCostOfFunding || null,
-        offer_repayments: offerRepayments || null,
-      })
-      .eq('id', id);
-
-    if (error) {
-      alert('Error saving offer: ' + error.message);
-    } else {
-      setApplication((prev) => prev ? {
-        ...prev,
-        offer_amount: offerAmount ? parseFloat(offerAmount) : null,
-        offer_loan_term: offerLoanTerm || null,
-        offer_cost_of_funding: offerCostOfFunding || null,
-        offer_repayments: offerRepayments || null,
-      } : null);
-      setOfferDirty(false);
-    }
-    setSavingOffer(false);
-  };
-
   const handleCreateInfoRequest = async () => {
     if (!requestMessage.trim()) return;
     setCreatingRequest(true);
@@ -599,31 +640,11 @@ export default function AdminApplicationDetailPage() {
     setDeleting(true);
 
     try {
-      // Delete related documents from storage first
-      if (documents.length > 0) {
-        const paths = documents.map(d => d.storage_path);
-        await supabase.storage.from('application-documents').remove(paths);
-      }
-
-      // Delete related records (order matters for foreign keys)
-      await supabase.from('documents').delete().eq('application_id', id);
-      await supabase.from('information_requests').delete().eq('application_id', id);
-      await supabase.from('lender_submissions').delete().eq('application_id', id);
-      await supabase.from('offers').delete().eq('application_id', id);
-      
-      // Delete the application
-      const { error } = await supabase.from('applications').delete().eq('id', id);
-
-      if (error) {
-        alert('Error deleting application: ' + error.message);
-        setDeleting(false);
-        return;
-      }
-
+      await authorizedJson(`/api/applications/${id}`, { method: 'DELETE' });
       router.push('/admin/applications');
-    } catch (err) {
+    } catch (err: any) {
       console.error('Delete error:', err);
-      alert('Error deleting application');
+      alert('Error deleting application: ' + err.message);
       setDeleting(false);
     }
   };
@@ -733,12 +754,26 @@ export default function AdminApplicationDetailPage() {
                   disabled={updatingStage}
                   onChange={(e) => handleStageChange(e.target.value)}
                 >
-                  {STAGES.map((s) => (
+                  {[application.stage, ...allowedTransitions(application.stage)].map((s) => (
                     <option key={s} value={s}>
                       {formatStage(s)}
                     </option>
                   ))}
                 </select>
+                {application.stage_reason && ['declined', 'withdrawn'].includes(application.stage) && (
+                  <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                    Reason: {application.stage_reason}
+                  </p>
+                )}
+                {stageErrors.length > 0 && (
+                  <div className="mt-2 p-3 rounded-lg bg-[var(--color-error-light)] space-y-1">
+                    {stageErrors.map((message) => (
+                      <p key={message} className="text-xs text-[var(--color-error)]">
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div className="pt-2 border-t border-[var(--color-border)] space-y-2">
@@ -752,7 +787,7 @@ export default function AdminApplicationDetailPage() {
                     Submit Application
                   </Button>
                 )}
-                {!['funded', 'declined', 'withdrawn'].includes(application.stage) && (
+                {allowedTransitions(application.stage).includes('declined') && (
                   <>
                     <Button
                       variant="secondary"
@@ -781,6 +816,13 @@ export default function AdminApplicationDetailPage() {
             </CardContent>
           </Card>
 
+          {application.stage === 'funded' && (
+            <DealFeesCard applicationId={id} lenderName={application.lender?.name || null} />
+          )}
+
+          {/* Stage history */}
+          <StageTimeline applicationId={id} viewerRole="ADMIN" currentStage={application.stage} />
+
           {/* Send to Lenders */}
           <Card>
             <CardHeader>
@@ -807,32 +849,117 @@ export default function AdminApplicationDetailPage() {
                     className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
                   />
                   
-                  {/* Lender list with scroll */}
-                  <div className="max-h-64 overflow-y-auto space-y-2 border border-[var(--color-border)] rounded-lg p-2">
+                  {/* Lender list grouped by eligibility, with scroll */}
+                  <div className="max-h-96 overflow-y-auto space-y-3 border border-[var(--color-border)] rounded-lg p-2">
                     {filteredLenders.length === 0 ? (
                       <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">
                         No lenders match your search
                       </p>
                     ) : (
-                      filteredLenders.map((lender) => (
-                        <label key={lender.id} className="flex items-center gap-2 cursor-pointer hover:bg-[var(--color-bg-tertiary)] p-2 rounded">
-                          <input
-                            type="checkbox"
-                            className="rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
-                            checked={selectedLenderIds.includes(lender.id)}
-                            onChange={(e) => {
-                              if (e.target.checked) {
-                                setSelectedLenderIds([...selectedLenderIds, lender.id]);
-                              } else {
-                                setSelectedLenderIds(selectedLenderIds.filter((id) => id !== lender.id));
-                              }
-                            }}
-                          />
-                          <span className="text-sm text-[var(--color-text-primary)] flex-1">{lender.name}</span>
-                        </label>
-                      ))
+                      <>
+                        {TIER_SECTIONS.map(({ tier, label, variant }) => {
+                          const tierLenders = rankedLenders.filter((l) => l.eligibility.tier === tier);
+                          if (tierLenders.length === 0) return null;
+                          return (
+                            <div key={tier}>
+                              <div className="flex items-center gap-2 px-2 pb-1">
+                                <Badge variant={variant}>{label}</Badge>
+                                <span className="text-xs text-[var(--color-text-tertiary)]">{tierLenders.length}</span>
+                              </div>
+                              {tierLenders.map((lender) => (
+                                <label key={lender.id} className="flex items-start gap-2 cursor-pointer hover:bg-[var(--color-bg-tertiary)] p-2 rounded">
+                                  <input
+                                    type="checkbox"
+                                    className="mt-0.5 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                    checked={selectedLenderIds.includes(lender.id)}
+                                    onChange={(e) => {
+                                      if (e.target.checked) {
+                                        setSelectedLenderIds([...selectedLenderIds, lender.id]);
+                                      } else {
+                                        setSelectedLenderIds(selectedLenderIds.filter((id) => id !== lender.id));
+                                      }
+                                    }}
+                                  />
+                                  <div className="flex-1 min-w-0">
+                                    <span className="text-sm text-[var(--color-text-primary)]">
+                                      {lender.name}
+                                      {lender.is_eligible_panel && (
+                                        <span className="ml-1 text-xs text-[var(--color-text-tertiary)]">(panel)</span>
+                                      )}
+                                    </span>
+                                    {lender.eligibility.failed_rules.map((rule) => (
+                                      <p key={rule.rule} className={`text-xs ${rule.severity === 'hard' ? 'text-[var(--color-error)]' : 'text-[var(--color-warning)]'}`}>
+                                        {rule.message}
+                                      </p>
+                                    ))}
+                                    {lender.eligibility.unknown_rules.length > 0 && (
+                                      <p className="text-xs text-[var(--color-text-tertiary)]" title={lender.eligibility.unknown_rules.map((r) => r.message).join('\n')}>
+                                        {lender.eligibility.unknown_rules.length} criteria not checked
+                                      </p>
+                                    )}
+                                  </div>
+                                </label>
+                              ))}
+                            </div>
+                          );
+                        })}
+                        {unrankedLenders.length > 0 && (
+                          <div>
+                            {rankedLenders.length > 0 && (
+                              <div className="px-2 pb-1">
+                                <Badge variant="default">Not evaluated</Badge>
+                              </div>
+                            )}
+                            {unrankedLenders.map((lender) => (
+                              <label key={lender.id} className="flex items-center gap-2 cursor-pointer hover:bg-[var(--color-bg-tertiary)] p-2 rounded">
+                                <input
+                                  type="checkbox"
+                                  className="rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                  checked={selectedLenderIds.includes(lender.id)}
+                                  onChange={(e) => {
+                                    if (e.target.checked) {
+                                      setSelectedLenderIds([...selectedLenderIds, lender.id]);
+                                    } else {
+                                      setSelectedLenderIds(selectedLenderIds.filter((id) => id !== lender.id));
+                                    }
+                                  }}
+                                />
+                                <span className="text-sm text-[var(--color-text-primary)] flex-1">{lender.name}</span>
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </>
                     )}
                   </div>
+
+                  <div className="flex items-center justify-between text-xs text-[var(--color-text-tertiary)]">
+                    <span>
+                      {application.eligibility_result
+                        ? `Checked ${new Date(application.eligibility_result.evaluated_at).toLocaleDateString('en-GB')}`
+                        : 'Eligibility not checked'}
+                    </span>
+                    <button
+                      type="button"
+                      className="text-[var(--color-accent)] hover:underline disabled:opacity-50"
+                      disabled={checkingEligibility}
+                      onClick={handleCheckEligibility}
+                    >
+                      {checkingEligibility ? 'Checking...' : 'Re-check eligibility'}
+                    </button>
+                  </div>
+                  {eligibilityError && (
+                    <p className="text-xs text-[var(--color-error)]">{eligibilityError}</p>
+                  )}
+
+                  <Button
+                    variant="secondary"
+                    className="w-full"
+                    disabled={eligiblePanelIds.length === 0}
+                    onClick={() => setSelectedLenderIds(eligiblePanelIds)}
+                  >
+                    Select Eligible Panel ({eligiblePanelIds.length})
+                  </Button>
                   
                   <div className="flex gap-2">
                     <Button
@@ -925,101 +1052,13 @@ export default function AdminApplicationDetailPage() {
             </CardContent>
           </Card>
 
-             {/* Offer Details */}
-          <Card>
-            <CardHeader>
-              <h2 className="font-medium text-[var(--color-text-primary)]">Offer Details</h2>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">
-                  Offer Amount (£)
-                </label>
-                <input
-                  type="number"
-                  className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
-                  placeholder="e.g., 50000"
-                  value={offerAmount}
-                  onChange={(e) => {
-                    setOfferAmount(e.target.value);
-                    setOfferDirty(true);
-                  }}
-                />
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">
-                  Loan Term
-                </label>
-                <input
-                  type="text"
-                  className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
-                  placeholder="e.g., 12 months"
-                  value={offerLoanTerm}
-                  onChange={(e) => {
-                    setOfferLoanTerm(e.target.value);
-                    setOfferDirty(true);
-                  }}
-                />
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">
-                  Cost of Funding
-                </label>
-                <input
-                  type="text"
-                  className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
-                  placeholder="e.g., 8% APR"
-                  value={offerCostOfFunding}
-                  onChange={(e) => {
-                    setOfferCostOfFunding(e.target.value);
-                    setOfferDirty(true);
-                  }}
-                />
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">
-                  Repayments
-                </label>
-                <input
-                  type="text"
-                  className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
-                  placeholder="e.g., £4,500/month"
-                  value={offerRepayments}
-                  onChange={(e) => {
-                    setOfferRepayments(e.target.value);
-                    setOfferDirty(true);
-                  }}
-                />
-              </div>
-
-              <div className="pt-2">
-                <Button
-                  variant="primary"
-                  className="w-full"
-                  disabled={!offerDirty || savingOffer}
-                  onClick={handleSaveOffer}
-                >
-                  {savingOffer ? 'Saving...' : 'Save Offer Details'}
-                </Button>
-              </div>
-
-              {/* Show current values as reference */}
-              <div className="pt-3 border-t border-[var(--color-border)] space-y-2">
-                <p className="text-xs text-[var(--color-text-tertiary)] uppercase font-medium">Application Details</p>
-                <div className="flex justify-between">
-                  <span className="text-sm text-[var(--color-text-secondary)]">Requested</span>
-                  <span className="text-sm font-medium">£{application.requested_amount?.toLocaleString()}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-sm text-[var(--color-text-secondary)]">Type</span>
-                  <span className="text-sm font-medium">{application.loan_type}</span>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Offers */}
+          <AdminOffersCard
+            applicationId={id}
+            requestedAmount={application.requested_amount}
+            loanType={application.loan_type}
+            lenders={lenders}
+          />
             </div> 
 
 
@@ -1097,6 +1136,63 @@ export default function AdminApplicationDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Director identity */}
+          <IdentityVerificationCard applicationId={id} />
+
+          {/* Bank statement analysis; re-check eligibility when the figures change */}
+          <BankAnalysisCard
+            applicationId={id}
+            analysis={application.bank_analysis}
+            declaredMonthlyRevenue={application.monthly_revenue}
+            onAnalysed={(bank_analysis) => {
+              setApplication((prev) => prev ? { ...prev, bank_analysis } : null);
+              handleCheckEligibility();
+            }}
+          />
+
+          {/* Owners & Guarantors */}
+          {application?.beneficial_owners && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <h2 className="font-medium text-[var(--color-text-primary)]">Owners &amp; Guarantors</h2>
+                  <Badge variant="default">
+                    {application.beneficial_owners.filter((owner) => owner.guarantor).length} guarantor
+                    {application.beneficial_owners.filter((owner) => owner.guarantor).length !== 1 ? 's' : ''}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {application.beneficial_owners.length === 0 ? (
+                  <p className="text-sm text-[var(--color-text-tertiary)]">No persons with significant control on record.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {application.beneficial_owners.map((owner) => (
+                      <div
+                        key={owner.name}
+                        className="flex items-center justify-between gap-3 p-3 bg-[var(--color-bg-tertiary)] rounded-lg"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-[var(--color-text-primary)]">{owner.name}</p>
+                          <p className="text-xs text-[var(--color-text-secondary)]">
+                            {describeNaturesOfControl(owner.natures_of_control).join(' • ')}
+                          </p>
+                        </div>
+                        {owner.guarantor ? (
+                          <Badge variant="success" size="sm">Guarantor</Badge>
+                        ) : guaranteeUsuallyRequired(owner) ? (
+                          <Badge variant="warning" size="sm">No guarantee</Badge>
+                        ) : (
+                          <Badge variant="default" size="sm">Not guaranteeing</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Lender Submissions */}
           <Card>
             <CardHeader>
@@ -1117,16 +1213,27 @@ export default function AdminApplicationDetailPage() {
                         <p className="text-xs text-[var(--color-text-tertiary)]">
                           {sub.submission_method.toUpperCase()} • {sub.sent_at ? new Date(sub.sent_at).toLocaleDateString('en-GB') : 'Not sent'}
                         </p>
+                        {sub.lender_reference && (
+                          <p className="text-xs text-[var(--color-text-tertiary)]">Ref: {sub.lender_reference}</p>
+                        )}
+                        {sub.responded_at && (
+                          <p className="text-xs text-[var(--color-text-tertiary)]">
+                            Lender responded {new Date(sub.responded_at).toLocaleDateString('en-GB')}
+                          </p>
+                        )}
+                        {sub.decline_reason && (
+                          <p className="text-xs text-[var(--color-error)] mt-1">Declined: {sub.decline_reason}</p>
+                        )}
                         {sub.last_error && (
                           <p className="text-xs text-[var(--color-error)] mt-1">{sub.last_error}</p>
                         )}
                       </div>
                       <Badge variant={
-                        sub.status === 'sent' || sub.status === 'acknowledged' ? 'success' :
-                        sub.status === 'failed' ? 'error' :
-                        sub.status === 'retry' ? 'warning' : 'default'
+                        sub.status === 'sent' || sub.status === 'acknowledged' || sub.status === 'offered' ? 'success' :
+                        sub.status === 'failed' || sub.status === 'declined' ? 'error' :
+                        sub.status === 'retry' || sub.status === 'info_requested' ? 'warning' : 'default'
                       }>
-                        {sub.status}
+                        {formatStage(sub.status)}
                       </Badge>
                     </div>
                   ))}
@@ -1309,12 +1416,99 @@ export default function AdminApplicationDetailPage() {
       </div>
 
       {/* Delete Confirmation Modal */}
+      {reasonStage && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-[var(--color-surface)] rounded-xl p-6 max-w-md w-full mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">
+              {reasonStage === 'declined' ? 'Decline Application?' : 'Withdraw Application?'}
+            </h3>
+            <p className="text-[var(--color-text-secondary)] mb-4">Select a reason. It is shown on the application.</p>
+            <div className="space-y-3 mb-4">
+              <select
+                className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]"
+                value={stageReason}
+                onChange={(e) => setStageReason(e.target.value)}
+              >
+                <option value="">Select reason...</option>
+                {(STAGE_REASONS[reasonStage as keyof typeof STAGE_REASONS] || []).map((reason) => (
+                  <option key={reason} value={reason}>
+                    {reason}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
+                rows={3}
+                placeholder={stageReason === 'Other' ? 'Please describe' : 'Additional detail (optional)'}
+                value={stageReasonNote}
+                onChange={(e) => setStageReasonNote(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-3 justify-end">
+              <Button variant="outline" onClick={() => setReasonStage(null)} disabled={updatingStage}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleConfirmStageReason}
+                disabled={updatingStage || !stageReason || (stageReason === 'Other' && !stageReasonNote.trim())}
+              >
+                {updatingStage ? 'Saving...' : reasonStage === 'declined' ? 'Decline' : 'Withdraw'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showFundingFees && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-[var(--color-surface)] rounded-xl p-6 max-w-md w-full mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Mark as Funded?</h3>
+            <p className="text-[var(--color-text-secondary)] mb-4">
+              Enter the fees we expect on this deal. Invoices and payments are recorded on the Fees card.
+            </p>
+            <div className="space-y-3 mb-4">
+              {(['procuration', 'broker'] as const).map((kind) => (
+                <div key={kind}>
+                  <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">
+                    {kind === 'procuration'
+                      ? `Procuration fee from ${application.lender?.name || 'the lender'} (£)`
+                      : 'Broker fee charged to the client (£)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]"
+                    placeholder="None"
+                    value={expectedFees[kind]}
+                    onChange={(e) => setExpectedFees((prev) => ({ ...prev, [kind]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 justify-end">
+              <Button variant="outline" onClick={() => setShowFundingFees(false)} disabled={updatingStage}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => handleStageChange('funded', undefined, expectedFees)}
+                disabled={updatingStage}
+              >
+                {updatingStage ? 'Saving...' : 'Mark as Funded'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-[var(--color-surface)] rounded-xl p-6 max-w-md w-full mx-4 shadow-xl">
             <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Delete Application?</h3>
             <p className="text-[var(--color-text-secondary)] mb-4">
-              This will permanently delete this application and all associated documents, information requests, lender submissions, and offers. This action cannot be undone.
+              The application will be hidden from the portal and moved to Recently Deleted, where it can be restored. It is permanently removed, with its documents, information requests, lender submissions and offers, after the retention period.
             </p>
             <div className="flex gap-3 justify-end">
               <Button
@@ -0,0 +1,309 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { DashboardShell } from '@/components/layout';
+import { Card, CardContent, CardHeader, PageHeader, Badge, Button, EmptyState } from '@/components/ui';
+import { AuditLogEntry, AUDIT_ENTITY_LABELS, auditEntityHref, formatAuditValue } from '@/lib/audit';
+
+const PAGE_SIZE = 50;
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]';
+
+type Filters = {
+  entityType: string;
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+const emptyFilters: Filters = { entityType: '', actorId: '', from: '', to: '' };
+
+export default function AdminAuditPage() {
+  const { user, profile, loading } = useUserProfile();
+  const supabase = getSupabaseClient();
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [admins, setAdmins] = useState<{ id: string; email: string }[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingData, setLoadingData] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = async (offset: number): Promise<AuditLogEntry[] | null> => {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) query = query.lte('occurred_at', new Date(`${filters.to}T23:59:59`).toISOString());
+
+    const { data, error: auditError } = await query;
+    if (auditError) {
+      console.error('Error loading audit log', auditError);
+      setError('Error loading audit log: ' + auditError.message);
+      return null;
+    }
+    setError(null);
+    setHasMore((data || []).length === PAGE_SIZE);
+    return (data || []) as AuditLogEntry[];
+  };
+
+  useEffect(() => {
+    if (loading) return;
+    if (profile?.role !== 'ADMIN') {
+      setLoadingData(false);
+      return;
+    }
+
+    const loadAdmins = async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('id, email')
+        .eq('role', 'ADMIN')
+        .order('email', { ascending: true });
+      setAdmins((data || []) as { id: string; email: string }[]);
+    };
+
+    loadAdmins();
+  }, [loading, profile?.role, supabase]);
+
+  useEffect(() => {
+    if (loading || profile?.role !== 'ADMIN') return;
+
+    const loadEntries = async () => {
+      setLoadingData(true);
+      const page = await fetchPage(0);
+      if (page) setEntries(page);
+      setLoadingData(false);
+    };
+
+    loadEntries();
+    // fetchPage reads the current filters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, profile?.role, filters]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const page = await fetchPage(entries.length);
+    if (page) setEntries((prev) => [...prev, ...page]);
+    setLoadingMore(false);
+  };
+
+  const setFilter = (field: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+  };
+
+  if (loading) {
+    return (
+      <DashboardShell>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-sm text-[var(--color-text-tertiary)]">Loading audit log...</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (profile?.role !== 'ADMIN') {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">Access Denied</p>
+          <p className="text-sm text-[var(--color-text-tertiary)] mt-1">You do not have permission to view this page.</p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <DashboardShell>
+      <PageHeader
+        title="Audit Log"
+        description="Every admin change and deletion, newest first. Entries cannot be edited or removed."
+      />
+
+      {error && (
+        <div className="mb-6 p-4 bg-[var(--color-error-light)] border border-[var(--color-error)] rounded-lg">
+          <p className="text-sm text-[var(--color-error)]">{error}</p>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Entity</label>
+              <select className={inputClass} value={filters.entityType} onChange={(e) => setFilter('entityType', e.target.value)}>
+                <option value="">All entities</option>
+                {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Actor</label>
+              <select className={inputClass} value={filters.actorId} onChange={(e) => setFilter('actorId', e.target.value)}>
+                <option value="">All admins</option>
+                {admins.map((admin) => (
+                  <option key={admin.id} value={admin.id}>
+                    {admin.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">From</label>
+              <input type="date" className={inputClass} value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">To</label>
+              <input type="date" className={inputClass} value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+            </div>
+            <div>
+              <Button variant="outline" className="w-full" onClick={() => setFilters(emptyFilters)}>
+                Clear filters
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="font-medium text-[var(--color-text-primary)]">Entries</h2>
+            <Badge variant="default">{entries.length}{hasMore ? '+' : ''}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loadingData ? (
+            <p className="p-6 text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+          ) : entries.length === 0 ? (
+            <div className="p-6">
+              <EmptyState
+                icon={
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                }
+                title="No entries"
+                description="No audited changes match these filters."
+              />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                    <th className="text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3">When</th>
+                    <th className="text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3">Actor</th>
+                    <th className="text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3">Action</th>
+                    <th className="text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3">Entity</th>
+                    <th className="text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3">Changed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border)]">
+                  {entries.map((entry) => {
+                    const href = auditEntityHref(entry);
+                    const changedFields = Object.keys(entry.changes || {});
+                    const expanded = expandedId === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <tr
+                          className="hover:bg-[var(--color-bg-secondary)] transition-colors cursor-pointer"
+                          onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        >
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--color-text-secondary)]">
+                            {new Date(entry.occurred_at).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'medium' })}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-[var(--color-text-primary)]">
+                            {entry.actor_email || (entry.actor_id ? entry.actor_id : 'System')}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Badge variant={entry.action === 'delete' ? 'error' : entry.action === 'insert' ? 'success' : 'info'}>
+                              {entry.action}
+                            </Badge>
+                          </td>
+                          <td className="px-6 py-4 text-sm">
+                            <span className="text-[var(--color-text-tertiary)]">
+                              {AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type}:{' '}
+                            </span>
+                            {href ? (
+                              <Link
+                                href={href}
+                                onClick={(e) => e.stopPropagation()}
+                                className="font-medium text-[var(--color-text-primary)] hover:text-[var(--color-accent)]"
+                              >
+                                {entry.entity_label || entry.entity_id}
+                              </Link>
+                            ) : (
+                              <span className="font-medium text-[var(--color-text-primary)]">{entry.entity_label || entry.entity_id}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                            {entry.action === 'update'
+                              ? changedFields.join(', ')
+                              : `${changedFields.length} fields`}
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="bg-[var(--color-bg-secondary)]">
+                            <td colSpan={5} className="px-6 py-4">
+                              <div className="grid grid-cols-[minmax(140px,auto)_1fr_1fr] gap-x-4 gap-y-1 text-xs">
+                                <span className="font-medium text-[var(--color-text-tertiary)] uppercase">Field</span>
+                                <span className="font-medium text-[var(--color-text-tertiary)] uppercase">
+                                  {entry.action === 'update' ? 'Before' : 'Value'}
+                                </span>
+                                <span className="font-medium text-[var(--color-text-tertiary)] uppercase">
+                                  {entry.action === 'update' ? 'After' : ''}
+                                </span>
+                                {changedFields.map((field) => (
+                                  <Fragment key={field}>
+                                    <span className="font-mono text-[var(--color-text-secondary)]">{field}</span>
+                                    <span className="font-mono text-[var(--color-text-primary)] break-all">
+                                      {formatAuditValue(entry.action === 'update' ? entry.changes[field]?.from : entry.changes[field])}
+                                    </span>
+                                    <span className="font-mono text-[var(--color-text-primary)] break-all">
+                                      {entry.action === 'update' ? formatAuditValue(entry.changes[field]?.to) : ''}
+                                    </span>
+                                  </Fragment>
+                                ))}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {hasMore && !loadingData && (
+            <div className="p-4 border-t border-[var(--color-border)] text-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
@@ -4,9 +4,12 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
+import type { CompanyAccountsSummary, StoredFiling } from '@/lib/companyAccounts';
 import { Card, CardContent, CardHeader, PageHeader, Badge, Button } from '@/components/ui';
+import { CompanyAccountsCard, CompanyAlertsCard, PersonsWithSignificantControlCard } from '@/components/company';
 
 type Company = {
   id: string;
@@ -15,6 +18,10 @@ type Company = {
   industry: string | null;
   website: string | null;
   created_at: string;
+  companies_house_verified: boolean;
+  accounts_summary: CompanyAccountsSummary | null;
+  filing_history: StoredFiling[] | null;
+  companies_house_checked_at: string | null;
   owner: { email: string }[] | null;
   referrer?: {
     id: string;
@@ -205,56 +212,11 @@ export default function AdminCompanyDetailPage() {
     setDeleting(true);
 
     try {
-      // Get all applications for this company
-      const { data: apps } = await supabase
-        .from('applications')
-        .select('id')
-        .eq('company_id', company.id);
-
-      if (apps && apps.length > 0) {
-        const appIds = apps.map(a => a.id);
-        
-        // Get all documents for these applications
-        const { data: docs } = await supabase
-          .from('documents')
-          .select('storage_path')
-          .in('application_id', appIds);
-        
-        // Delete documents from storage
-        if (docs && docs.length > 0) {
-          const paths = docs.map(d => d.storage_path);
-          await supabase.storage.from('application-documents').remove(paths);
-        }
-
-        // Delete related records for all applications
-        await supabase.from('documents').delete().in('application_id', appIds);
-        await supabase.from('information_requests').delete().in('application_id', appIds);
-        await supabase.from('lender_submissions').delete().in('application_id', appIds);
-        await supabase.from('offers').delete().in('application_id', appIds);
-        
-        // Delete applications
-        await supabase.from('applications').delete().eq('company_id', company.id);
-      }
-
-      // Unlink profiles from this company (don't delete the profiles)
-      await supabase
-        .from('profiles')
-        .update({ company_id: null, is_primary_director: false })
-        .eq('company_id', company.id);
-
-      // Delete the company
-      const { error } = await supabase.from('companies').delete().eq('id', company.id);
-
-      if (error) {
-        alert('Error deleting company: ' + error.message);
-        setDeleting(false);
-        return;
-      }
-
+      await authorizedJson(`/api/companies/${company.id}`, { method: 'DELETE' });
       router.push('/admin/companies');
-    } catch (err) {
+    } catch (err: any) {
       console.error('Delete error:', err);
-      alert('Error deleting company');
+      alert('Error deleting company: ' + err.message);
       setDeleting(false);
     }
   };
@@ -435,6 +397,8 @@ export default function AdminCompanyDetailPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main content */}
         <div className="lg:col-span-2 space-y-6">
+          <CompanyAlertsCard companyId={company.id} checkedAt={company.companies_house_checked_at} />
+
           {/* Company Details */}
           <Card>
             <CardHeader>
@@ -476,7 +440,14 @@ export default function AdminCompanyDetailPage() {
                       className="w-full px-3 py-2 border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] rounded-lg text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]"
                     />
                   ) : (
-                    <p className="text-[var(--color-text-primary)]">{companyData?.company_number ?? '—'}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="text-[var(--color-text-primary)]">{companyData?.company_number ?? '—'}</p>
+                      {companyData?.companies_house_verified ? (
+                        <Badge variant="success">Verified</Badge>
+                      ) : (
+                        <Badge variant="warning">Unverified</Badge>
+                      )}
+                    </div>
                   )}
                 </div>
                 <div>
@@ -666,6 +637,15 @@ export default function AdminCompanyDetailPage() {
             </div>
           )}
 
+          <CompanyAccountsCard
+            companyId={company.id}
+            companyNumber={company.company_number}
+            accountsSummary={company.accounts_summary}
+            filingHistory={company.filing_history}
+          />
+
+          <PersonsWithSignificantControlCard companyNumber={company.company_number} />
+
           {/* Documents */}
           <Card>
             <CardHeader>
@@ -794,7 +774,7 @@ export default function AdminCompanyDetailPage() {
           <div className="bg-[var(--color-surface)] rounded-xl p-6 max-w-md w-full mx-4 shadow-xl">
             <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Delete Company?</h3>
             <p className="text-[var(--color-text-secondary)] mb-4">
-              This will permanently delete this company along with all its applications, documents, and related data. User accounts will be preserved but unlinked from this company. This action cannot be undone.
+              The company and all its applications will be hidden from the portal and moved to Recently Deleted, where they can be restored. They are permanently removed after the retention period; user accounts are preserved but unlinked from the company.
             </p>
             <div className="flex gap-3 justify-end">
               <Button
@@ -3,11 +3,13 @@
 import { useEffect, useState, useMemo } from 'react';
 import { getSupabaseClient } from '@/lib/supabaseClient';
 import { DashboardShell } from '@/components/layout';
-import { Card, CardContent, CardHeader, PageHeader } from '@/components/ui';
+import { Badge, Card, CardContent, CardHeader, PageHeader } from '@/components/ui';
 import { SummaryCard } from '@/components/dashboard/SummaryCard';
 import { ApplicationsChart } from '@/components/dashboard/ApplicationsChart';
 import { ApplicationsOverTimeChart } from '@/components/dashboard/ApplicationsOverTimeChart';
-import { FileText, TrendingUp, PoundSterling, Users } from 'lucide-react';
+import { FileText, TrendingUp, PoundSterling, Users, Banknote, Receipt } from 'lucide-react';
+import { daysUntilExpiry } from '@/lib/offers';
+import { feeAgeDays, outstandingFeeAmount } from '@/lib/dealFees';
 import Link from 'next/link';
 
 type DashboardStats = {
@@ -17,6 +19,13 @@ type DashboardStats = {
   fundedThisMonth: number;
 };
 
+type FeeRevenue = {
+  receivedThisMonth: number;
+  receivedThisYear: number;
+  outstanding: number;
+  outstandingOverdue: number;
+};
+
 type StageData = {
   stage: string;
   count: number;
@@ -36,6 +45,29 @@ type RecentActivity = {
   updated_at: string;
 };
 
+type ExpiringOffer = {
+  id: string;
+  application_id: string;
+  amount: number;
+  expires_at: string;
+  lender_name: string;
+  company_name: string;
+};
+
+type CompanyAlertSummary = {
+  id: string;
+  company_id: string;
+  company_name: string;
+  severity: 'critical' | 'warning';
+  message: string;
+  detected_at: string;
+};
+
+// Pending offers expiring within this many days are flagged
+const EXPIRING_OFFER_WINDOW_DAYS = 7;
+// Fees owed for longer than this are counted as overdue
+const FEE_OVERDUE_DAYS = 60;
+
 export default function AdminDashboardPage() {
   const supabase = useMemo(() => getSupabaseClient(), []);
   const [stats, setStats] = useState<DashboardStats>({
@@ -44,9 +76,17 @@ export default function AdminDashboardPage() {
     totalPartners: 0,
     fundedThisMonth: 0,
   });
+  const [feeRevenue, setFeeRevenue] = useState<FeeRevenue>({
+    receivedThisMonth: 0,
+    receivedThisYear: 0,
+    outstanding: 0,
+    outstandingOverdue: 0,
+  });
   const [stageData, setStageData] = useState<StageData[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
+  const [expiringOffers, setExpiringOffers] = useState<ExpiringOffer[]>([]);
+  const [companyAlerts, setCompanyAlerts] = useState<CompanyAlertSummary[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -87,6 +127,33 @@ export default function AdminDashboardPage() {
           fundedThisMonth: fundedAmount,
         });
 
+        // Load fee revenue; fees count as received on the date they are marked paid
+        const { data: feesData } = await supabase
+          .from('deal_fees')
+          .select('expected_amount, received_amount, invoiced_on, paid_on, created_at, application:application_id(stage_changed_at)');
+
+        if (feesData) {
+          const monthStart = firstDayOfMonth.getTime();
+          const yearStart = new Date(now.getFullYear(), 0, 1).getTime();
+          const revenue: FeeRevenue = { receivedThisMonth: 0, receivedThisYear: 0, outstanding: 0, outstandingOverdue: 0 };
+
+          feesData.forEach((fee: any) => {
+            if (fee.paid_on) {
+              const paidAt = new Date(fee.paid_on).getTime();
+              const received = Number(fee.received_amount || 0);
+              if (paidAt >= yearStart) revenue.receivedThisYear += received;
+              if (paidAt >= monthStart) revenue.receivedThisMonth += received;
+              return;
+            }
+            const outstanding = outstandingFeeAmount(fee);
+            revenue.outstanding += outstanding;
+            if (feeAgeDays(fee, fee.application?.stage_changed_at || null, now) > FEE_OVERDUE_DAYS) {
+              revenue.outstandingOverdue += outstanding;
+            }
+          });
+          setFeeRevenue(revenue);
+        }
+
         // Load applications by stage
         const { data: appsByStage } = await supabase
           .from('applications')
@@ -173,6 +240,57 @@ export default function AdminDashboardPage() {
           setRecentActivity(activity);
         }
 
+        // Load pending offers about to lapse
+        const expiryWindowEnd = new Date(Date.now() + EXPIRING_OFFER_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const { data: offersData } = await supabase
+          .from('offers')
+          .select(`
+            id,
+            application_id,
+            amount,
+            expires_at,
+            lender:lender_id(name),
+            application:application_id(company:company_id(name))
+          `)
+          .eq('status', 'pending')
+          .not('expires_at', 'is', null)
+          .lte('expires_at', expiryWindowEnd.toISOString())
+          .order('expires_at', { ascending: true });
+
+        if (offersData) {
+          setExpiringOffers(
+            offersData.map((offer: any) => ({
+              id: offer.id,
+              application_id: offer.application_id,
+              amount: offer.amount || 0,
+              expires_at: offer.expires_at,
+              lender_name: offer.lender?.name || 'Unknown lender',
+              company_name: offer.application?.company?.name || 'Unknown',
+            }))
+          );
+        }
+
+        // Load open Companies House alerts, critical first
+        const { data: alertsData } = await supabase
+          .from('company_alerts')
+          .select('id, company_id, severity, message, detected_at, company:company_id!inner(name)')
+          .is('resolved_at', null)
+          .order('severity', { ascending: true })
+          .order('detected_at', { ascending: false });
+
+        if (alertsData) {
+          setCompanyAlerts(
+            alertsData.map((alert: any) => ({
+              id: alert.id,
+              company_id: alert.company_id,
+              company_name: alert.company?.name || 'Unknown',
+              severity: alert.severity,
+              message: alert.message,
+              detected_at: alert.detected_at,
+            }))
+          );
+        }
+
         setLoading(false);
       } catch (err) {
         console.error('Error loading dashboard data:', err);
@@ -240,12 +358,110 @@ export default function AdminDashboardPage() {
         />
       </div>
 
+      {/* Fee revenue */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <SummaryCard
+          title="Fees Received This Month"
+          value={formatCurrency(feeRevenue.receivedThisMonth)}
+          icon={Banknote}
+        />
+        <SummaryCard
+          title="Fees Received This Year"
+          value={formatCurrency(feeRevenue.receivedThisYear)}
+          icon={Banknote}
+        />
+        <Link href="/admin/receivables">
+          <SummaryCard
+            title="Fees Outstanding"
+            value={formatCurrency(feeRevenue.outstanding)}
+            icon={Receipt}
+          />
+        </Link>
+        <Link href="/admin/receivables">
+          <SummaryCard
+            title={`Outstanding Over ${FEE_OVERDUE_DAYS} Days`}
+            value={formatCurrency(feeRevenue.outstandingOverdue)}
+            icon={Receipt}
+          />
+        </Link>
+      </div>
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <ApplicationsChart data={stageData} />
         <ApplicationsOverTimeChart data={monthlyData} />
       </div>
 
+      {/* Companies House alerts */}
+      {companyAlerts.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <h2 className="font-semibold text-[var(--color-text-primary)]">
+              Companies House Alerts ({companyAlerts.length})
+            </h2>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {companyAlerts.map((alert) => (
+                <Link
+                  key={alert.id}
+                  href={`/admin/companies/${alert.company_id}`}
+                  className="flex items-center justify-between p-3 rounded-lg hover:bg-[var(--color-bg-tertiary)] transition-colors"
+                >
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-[var(--color-text-primary)]">{alert.company_name}</p>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">{alert.message}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-[var(--color-text-tertiary)]">
+                      {new Date(alert.detected_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}
+                    </span>
+                    <Badge variant={alert.severity === 'critical' ? 'error' : 'warning'} size="sm">
+                      {alert.severity === 'critical' ? 'Critical' : 'Warning'}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Offers about to lapse */}
+      {expiringOffers.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <h2 className="font-semibold text-[var(--color-text-primary)]">
+              Offers Expiring Soon ({expiringOffers.length})
+            </h2>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {expiringOffers.map((offer) => {
+                const days = daysUntilExpiry(offer) ?? 0;
+                return (
+                  <Link
+                    key={offer.id}
+                    href={`/admin/applications/${offer.application_id}`}
+                    className="flex items-center justify-between p-3 rounded-lg hover:bg-[var(--color-bg-tertiary)] transition-colors"
+                  >
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-[var(--color-text-primary)]">{offer.company_name}</p>
+                      <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                        {offer.lender_name} • {formatCurrency(offer.amount)}
+                      </p>
+                    </div>
+                    <div className={`text-xs font-medium ${days <= 1 ? 'text-[var(--color-error)]' : 'text-[var(--color-warning)]'}`}>
+                      {days === 0 ? 'Expired' : days === 1 ? 'Under a day left' : `${days} days left`}
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
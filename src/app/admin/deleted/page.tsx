@@ -0,0 +1,291 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authorizedJson } from '@/lib/apiClient';
+import { DeletedApplication, DeletedCompany, PurgeSummary } from '@/lib/softDelete';
+import { formatCurrency } from '@/lib/offers';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { DashboardShell } from '@/components/layout';
+import { Card, CardContent, CardHeader, PageHeader, Badge, Button, EmptyState, getStageBadgeVariant, formatStage } from '@/components/ui';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RecentlyDeleted = {
+  applications: DeletedApplication[];
+  companies: DeletedCompany[];
+  retention_days: number;
+};
+
+const thClass = 'text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3';
+
+function formatDate(value: string | Date) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function AdminRecentlyDeletedPage() {
+  const { user, profile, loading } = useUserProfile();
+
+  const [deleted, setDeleted] = useState<RecentlyDeleted | null>(null);
+  const [loadingData, setLoadingData] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeleted = async () => {
+    try {
+      const result = await authorizedJson<RecentlyDeleted>('/api/admin/recently-deleted');
+      setDeleted(result);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error loading deleted records', err);
+      setError('Error loading deleted records: ' + err.message);
+    } finally {
+      setLoadingData(false);
+    }
+  };
+
+  useEffect(() => {
+    if (loading) return;
+    if (profile?.role !== 'ADMIN') {
+      setLoadingData(false);
+      return;
+    }
+
+    loadDeleted();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, profile?.role]);
+
+  const handleRestore = async (kind: 'applications' | 'companies', id: string) => {
+    setBusyId(id);
+    try {
+      await authorizedJson(`/api/${kind}/${id}/restore`, { method: 'POST' });
+      await loadDeleted();
+    } catch (err: any) {
+      alert('Error restoring: ' + err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (kind: 'applications' | 'companies', id: string) => {
+    const what = kind === 'companies' ? 'this company, all of its applications' : 'this application';
+    if (!confirm(`Permanently delete ${what} and their documents? This cannot be undone.`)) return;
+
+    setBusyId(id);
+    try {
+      const { purged } = await authorizedJson<{ purged: PurgeSummary }>(`/api/${kind}/${id}/purge`, { method: 'POST' });
+      const lines = [
+        kind === 'companies' && `Companies: ${purged.companies}`,
+        `Applications: ${purged.applications}`,
+        `Documents: ${purged.documents} (${purged.storage_objects} files removed from storage)`,
+        `Information requests: ${purged.information_requests}`,
+        `Lender submissions: ${purged.lender_submissions}`,
+        `Offers: ${purged.offers}`,
+        kind === 'companies' && `User accounts unlinked: ${purged.profiles_unlinked}`,
+        purged.storage_errors.length > 0 && `Some files could not be removed from storage: ${purged.storage_errors.join('; ')}`,
+      ].filter(Boolean);
+      alert('Permanently deleted\n\n' + lines.join('\n'));
+      await loadDeleted();
+    } catch (err: any) {
+      alert('Error deleting: ' + err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purgeDate = (deletedAt: string) =>
+    formatDate(new Date(new Date(deletedAt).getTime() + (deleted?.retention_days || 0) * DAY_MS));
+
+  if (loading) {
+    return (
+      <DashboardShell>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (profile?.role !== 'ADMIN') {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">Access Denied</p>
+          <p className="text-sm text-[var(--color-text-tertiary)] mt-1">You do not have permission to view this page.</p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (!user) return null;
+
+  const companies = deleted?.companies || [];
+  const applications = deleted?.applications || [];
+
+  return (
+    <DashboardShell>
+      <PageHeader
+        title="Recently Deleted"
+        description={`Deleted companies and applications can be restored for ${deleted?.retention_days ?? '...'} days before they are permanently removed.`}
+      />
+
+      {error && (
+        <div className="mb-6 p-4 bg-[var(--color-error-light)] border border-[var(--color-error)] rounded-lg">
+          <p className="text-sm text-[var(--color-error)]">{error}</p>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="font-medium text-[var(--color-text-primary)]">Companies</h2>
+            <Badge variant="default">{companies.length}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loadingData ? (
+            <p className="p-6 text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+          ) : companies.length === 0 ? (
+            <p className="p-6 text-sm text-[var(--color-text-tertiary)]">No deleted companies.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                    <th className={thClass}>Company</th>
+                    <th className={thClass}>Applications</th>
+                    <th className={thClass}>Deleted</th>
+                    <th className={thClass}>Purged on</th>
+                    <th className={thClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border)]">
+                  {companies.map((company) => (
+                    <tr key={company.id}>
+                      <td className="px-6 py-4 text-sm font-medium text-[var(--color-text-primary)]">{company.name}</td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">{company.application_count}</td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                        {formatDate(company.deleted_at)}
+                        {company.deleted_by_email && (
+                          <span className="block text-xs text-[var(--color-text-tertiary)]">by {company.deleted_by_email}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">{purgeDate(company.deleted_at)}</td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore('companies', company.id)}
+                          disabled={busyId !== null}
+                        >
+                          {busyId === company.id ? 'Working...' : 'Restore'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          className="ml-2"
+                          onClick={() => handlePurge('companies', company.id)}
+                          disabled={busyId !== null}
+                        >
+                          Delete permanently
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="font-medium text-[var(--color-text-primary)]">Applications</h2>
+            <Badge variant="default">{applications.length}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loadingData ? (
+            <p className="p-6 text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+          ) : applications.length === 0 && companies.length === 0 ? (
+            <div className="p-6">
+              <EmptyState
+                icon={
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                }
+                title="Nothing deleted"
+                description="Deleted companies and applications will appear here."
+              />
+            </div>
+          ) : applications.length === 0 ? (
+            <p className="p-6 text-sm text-[var(--color-text-tertiary)]">No deleted applications.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                    <th className={thClass}>Company</th>
+                    <th className={thClass}>Amount</th>
+                    <th className={thClass}>Stage</th>
+                    <th className={thClass}>Deleted</th>
+                    <th className={thClass}>Purged on</th>
+                    <th className={thClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border)]">
+                  {applications.map((app) => (
+                    <tr key={app.id}>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-primary)]">
+                        <span className="font-medium">{app.company_name || 'Unknown company'}</span>
+                        {app.company_deleted && (
+                          <span className="block text-xs text-[var(--color-text-tertiary)]">Company deleted</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">{formatCurrency(app.requested_amount)}</td>
+                      <td className="px-6 py-4">
+                        <Badge variant={getStageBadgeVariant(app.stage)}>{formatStage(app.stage)}</Badge>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                        {formatDate(app.deleted_at)}
+                        {app.deleted_by_email && (
+                          <span className="block text-xs text-[var(--color-text-tertiary)]">by {app.deleted_by_email}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">{purgeDate(app.deleted_at)}</td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore('applications', app.id)}
+                          disabled={app.company_deleted || busyId !== null}
+                          title={app.company_deleted ? 'Restore the company first' : undefined}
+                        >
+                          {busyId === app.id ? 'Working...' : 'Restore'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          className="ml-2"
+                          onClick={() => handlePurge('applications', app.id)}
+                          disabled={busyId !== null}
+                        >
+                          Delete permanently
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
@@ -4,8 +4,10 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
+import { PayloadTemplateCard } from '@/components/lenders';
 import { Card, CardContent, CardHeader, PageHeader, Badge, Button, getStageBadgeVariant, formatStage } from '@/components/ui';
 
 type Lender = {
@@ -19,6 +21,8 @@ type Lender = {
   api_endpoint: string | null;
   api_auth_type: string | null;
   submission_email: string | null;
+  payload_template: unknown | null;
+  required_document_categories: string[] | null;
   created_at: string;
   // Eligibility criteria fields
   min_trading_months: number | null;
@@ -79,6 +83,7 @@ export default function AdminLenderDetailPage() {
 
 
   const [lender, setLender] = useState<Lender | null>(null);
+  const [callbackSecret, setCallbackSecret] = useState<string | null>(null);
   const [submissions, setSubmissions] = useState<LenderSubmission[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -93,6 +98,8 @@ export default function AdminLenderDetailPage() {
     submission_method: 'email' as 'api' | 'email' | null,
     api_endpoint: '',
     api_auth_type: '',
+    // Write-only: left blank to keep the stored credential
+    api_credential: '',
     submission_email: '',
     // Eligibility criteria
     min_trading_months: null as number | null,
@@ -157,6 +164,7 @@ export default function AdminLenderDetailPage() {
         submission_method: lenderData.submission_method || 'email',
         api_endpoint: lenderData.api_endpoint || '',
         api_auth_type: lenderData.api_auth_type || '',
+        api_credential: '',
         submission_email: lenderData.submission_email || '',
         // Eligibility criteria
         min_trading_months: lenderData.min_trading_months ?? null,
@@ -189,6 +197,14 @@ export default function AdminLenderDetailPage() {
         requires_positive_net_assets: lenderData.requires_positive_net_assets ?? false,
       });
 
+      // Secrets are only readable by the service role
+      try {
+        const secrets = await authorizedJson<{ callback_secret: string | null }>(`/api/lenders/${id}/secrets`);
+        setCallbackSecret(secrets.callback_secret);
+      } catch (err) {
+        console.error('Error loading lender secrets:', err);
+      }
+
       // Load lender submissions
       const { data: submissionsData } = await supabase
         .from('lender_submissions')
@@ -265,6 +281,21 @@ export default function AdminLenderDetailPage() {
     }
 
     setSaving(true);
+
+    // The credential goes to lender_secrets through the server; it is never read back
+    if (formData.api_credential.trim()) {
+      try {
+        await authorizedJson(`/api/lenders/${id}/secrets`, {
+          method: 'POST',
+          body: JSON.stringify({ api_credential: formData.api_credential.trim() }),
+        });
+      } catch (err: any) {
+        alert('Error saving API credential: ' + err.message);
+        setSaving(false);
+        return;
+      }
+    }
+
     const { error } = await supabase
       .from('lenders')
       .update({
@@ -351,11 +382,26 @@ export default function AdminLenderDetailPage() {
         min_net_assets_ratio: formData.min_net_assets_ratio,
         requires_positive_net_assets: formData.requires_positive_net_assets,
       } : null);
+      setFormData((p) => ({ ...p, api_credential: '' }));
       setEditing(false);
     }
     setSaving(false);
   };
 
+  const handleGenerateCallbackSecret = async () => {
+    if (callbackSecret && !confirm('Replace the callback secret? The lender will need the new one before their next callback.')) return;
+
+    try {
+      const result = await authorizedJson<{ callback_secret: string }>(`/api/lenders/${id}/secrets`, {
+        method: 'POST',
+        body: JSON.stringify({ rotate_callback_secret: true }),
+      });
+      setCallbackSecret(result.callback_secret);
+    } catch (err: any) {
+      alert('Error generating secret: ' + err.message);
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this lender? Applications will be unassigned.')) return;
 
@@ -740,6 +786,21 @@ export default function AdminLenderDetailPage() {
             </CardContent>
           </Card>
 
+          <PayloadTemplateCard
+            lenderId={lender.id}
+            template={lender.payload_template}
+            requiredDocumentCategories={lender.required_document_categories}
+            applications={submissions
+              .filter((s) => s.application)
+              .map((s) => ({
+                id: s.application!.id,
+                label: `${s.application!.company?.name || 'No company'} – £${s.application!.requested_amount?.toLocaleString() || 0}`,
+              }))}
+            onSaved={(payload_template, required_document_categories) =>
+              setLender((prev) => prev ? { ...prev, payload_template, required_document_categories } : null)
+            }
+          />
+
           {/* Submitted Applications Card */}
           <Card>
             <CardHeader>
@@ -889,6 +950,21 @@ export default function AdminLenderDetailPage() {
                               <option value="basic">Basic Auth</option>
                             </select>
                           </div>
+                          {formData.api_auth_type && (
+                            <div>
+                              <label className="block text-xs font-medium text-[var(--color-text-tertiary)] mb-1">
+                                {formData.api_auth_type === 'basic' ? 'Credentials (username:password)' : formData.api_auth_type === 'oauth2' ? 'Access Token' : 'API Key'}
+                              </label>
+                              <input
+                                type="password"
+                                autoComplete="off"
+                                className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm placeholder:text-[var(--color-text-tertiary)] focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]"
+                                placeholder="Leave blank to keep current"
+                                value={formData.api_credential}
+                                onChange={(e) => setFormData((p) => ({ ...p, api_credential: e.target.value }))}
+                              />
+                            </div>
+                          )}
                         </>
                       )}
                   </div>
@@ -923,6 +999,28 @@ export default function AdminLenderDetailPage() {
                       </dd>
                     </div>
                   )}
+                  <div>
+                    <dt className="text-xs text-[var(--color-text-tertiary)] uppercase">Callback URL</dt>
+                    <dd className="text-xs text-[var(--color-text-primary)] break-all font-mono">
+                      {typeof window !== 'undefined' ? window.location.origin : ''}/api/lender-callbacks/{lender.id}
+                    </dd>
+                    {callbackSecret ? (
+                      <dd className="text-xs text-[var(--color-text-secondary)] break-all font-mono mt-1">
+                        Secret: {callbackSecret}
+                      </dd>
+                    ) : (
+                      <dd className="text-xs text-[var(--color-text-tertiary)] mt-1">No callback secret set</dd>
+                    )}
+                    <dd className="mt-1">
+                      <button
+                        type="button"
+                        className="text-xs text-[var(--color-accent)] hover:underline"
+                        onClick={handleGenerateCallbackSecret}
+                      >
+                        {callbackSecret ? 'Rotate secret' : 'Generate secret'}
+                      </button>
+                    </dd>
+                  </div>
                 </dl>
               )}
             </CardContent>
@@ -8,6 +8,8 @@ import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
 import { Card, CardContent, CardHeader, Badge, Button, FilterButtons } from '@/components/ui';
 import { useToastContext } from '@/components/ui/ToastProvider';
+import { CommissionLedgerCard, CommissionPlanCard, CommissionStatementsCard } from '@/components/commission';
+import { ReferralCampaignsCard } from '@/components/referrals';
 
 type PartnerCompany = {
   id: string;
@@ -23,6 +25,7 @@ type PartnerCompany = {
   bank_account_name: string | null;
   bank_account_number: string | null;
   bank_sort_code: string | null;
+  default_commission_rate: number | null;
   created_at: string;
 };
 
@@ -32,6 +35,7 @@ type PartnerUser = {
   last_name: string | null;
   email: string;
   is_primary_contact: boolean | null;
+  deactivated_at: string | null;
   created_at: string;
 };
 
@@ -82,6 +86,7 @@ export default function AdminPartnerCompanyDetailPage() {
   const [inviteStatus, setInviteStatus] = useState<string | null>(null);
   const [inviting, setInviting] = useState(false);
   const [partnerUsers, setPartnerUsers] = useState<PartnerUser[]>([]);
+  const [commissionRefreshKey, setCommissionRefreshKey] = useState(0);
   const toast = useToastContext();
 
   useEffect(() => {
@@ -113,7 +118,7 @@ export default function AdminPartnerCompanyDetailPage() {
       // Get users in this partner company
       const { data: usersData } = await supabase
         .from('profiles')
-        .select('id, first_name, last_name, email, is_primary_contact, created_at')
+        .select('id, first_name, last_name, email, is_primary_contact, deactivated_at, created_at')
         .eq('partner_company_id', partnerCompanyId)
         .order('is_primary_contact', { ascending: false });
 
@@ -506,6 +511,20 @@ export default function AdminPartnerCompanyDetailPage() {
                 </p>
               )}
             </div>
+
+            <CommissionStatementsCard
+              partnerCompanyId={partnerCompanyId}
+              editable
+              refreshKey={commissionRefreshKey}
+              onChanged={() => setCommissionRefreshKey((key) => key + 1)}
+            />
+            <CommissionLedgerCard
+              partnerCompanyId={partnerCompanyId}
+              editable
+              refreshKey={commissionRefreshKey}
+              onChanged={() => setCommissionRefreshKey((key) => key + 1)}
+            />
+            <ReferralCampaignsCard partnerCompanyId={partnerCompanyId} />
           </div>
 
           {/* Sidebar - 1 column */}
@@ -533,6 +552,12 @@ export default function AdminPartnerCompanyDetailPage() {
               </div>
             </div>
 
+            <CommissionPlanCard
+              partnerCompanyId={partnerCompanyId}
+              defaultCommissionRate={partnerCompany.default_commission_rate}
+              editable
+            />
+
             {/* Bank Details - EDITABLE */}
             <div className="bg-white rounded-lg border p-6">
               <div className="flex justify-between items-center mb-4">
@@ -638,6 +663,11 @@ export default function AdminPartnerCompanyDetailPage() {
                             Primary
                           </span>
                         )}
+                        {user.deactivated_at && (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded ml-2">
+                            Deactivated
+                          </span>
+                        )}
                       </div>
                       <Link
                         href={`/admin/users/${user.id}`}
@@ -653,22 +683,18 @@ export default function AdminPartnerCompanyDetailPage() {
               )}
             </div>
 
-            {/* Partner Referral Links */}
+            {/* Partner user access (referral links are managed by each partner user) */}
             {partnerUsers.length > 0 && (
               <div className="bg-white rounded-lg border p-6">
-                <h3 className="font-semibold mb-4">Referral Links</h3>
+                <h3 className="font-semibold mb-4">User Access</h3>
                 <p className="text-sm text-[var(--color-text-tertiary)] mb-4">
-                  Share these unique referral links with partner users. When clients sign up using these links, they will be tracked as referrals.
+                  Send partner users a password reset email. Each user creates their own referral links from their dashboard.
                 </p>
                 <div className="space-y-3">
                   {partnerUsers.map((user) => {
-                    const referralLink = typeof window !== 'undefined' 
-                      ? `${window.location.origin}/auth/signup?ref=${user.id}`
-                      : '';
-                    
                     return (
                       <div key={user.id} className="p-4 bg-[var(--color-bg-tertiary)] rounded-lg">
-                        <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center justify-between">
                           <p className="font-medium text-sm">
                             {user.first_name} {user.last_name} {user.email && `(${user.email})`}
                           </p>
@@ -697,28 +723,6 @@ export default function AdminPartnerCompanyDetailPage() {
                             Reset Password
                           </Button>
                         </div>
-                        <div className="flex items-center gap-2">
-                          <input
-                            readOnly
-                            value={referralLink}
-                            className="flex-1 px-3 py-2 bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg text-sm"
-                            onClick={(e) => (e.target as HTMLInputElement).select()}
-                          />
-                          <Button
-                            variant="secondary"
-                            size="sm"
-                            onClick={async () => {
-                              try {
-                                await navigator.clipboard.writeText(referralLink);
-                                toast.success('Referral link copied to clipboard');
-                              } catch (err) {
-                                toast.error('Failed to copy link');
-                              }
-                            }}
-                          >
-                            Copy
-                          </Button>
-                        </div>
                       </div>
                     );
                   })}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { DashboardShell } from '@/components/layout';
+import { Badge, Card, CardContent, CardHeader, PageHeader, EmptyState } from '@/components/ui';
+import {
+  AGEING_BUCKETS,
+  ageingBucket,
+  DEAL_FEE_LABELS,
+  feeAgeDays,
+  outstandingFeeAmount,
+} from '@/lib/dealFees';
+import type { AgeingBucket, DealFee } from '@/lib/dealFees';
+
+type ReceivableFee = DealFee & {
+  lender?: { name: string } | null;
+  application?: {
+    stage_changed_at: string | null;
+    deleted_at: string | null;
+    company?: { name: string } | null;
+  } | null;
+};
+
+type ReceivableRow = {
+  fee: ReceivableFee;
+  outstanding: number;
+  age_days: number;
+  bucket: AgeingBucket;
+};
+
+type PayerGroup = {
+  key: string;
+  name: string;
+  rows: ReceivableRow[];
+  total: number;
+  buckets: Record<AgeingBucket, number>;
+};
+
+const thClass = 'text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-6 py-3';
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { current: 0, days_31_60: 0, days_61_90: 0, over_90: 0 };
+}
+
+function formatAmount(value: number) {
+  return `£${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: string | null) {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function bucketVariant(bucket: AgeingBucket): 'default' | 'warning' | 'error' {
+  if (bucket === 'current') return 'default';
+  return bucket === 'days_31_60' ? 'warning' : 'error';
+}
+
+export default function AdminReceivablesPage() {
+  const { profile, loading } = useUserProfile();
+  const supabase = getSupabaseClient();
+  const [fees, setFees] = useState<ReceivableFee[]>([]);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loading) return;
+    if (profile?.role !== 'ADMIN') {
+      setLoadingData(false);
+      return;
+    }
+
+    const loadFees = async () => {
+      const { data, error: feesError } = await supabase
+        .from('deal_fees')
+        .select(`
+          *,
+          lender:lender_id(name),
+          application:application_id(stage_changed_at, deleted_at, company:company_id(name))
+        `)
+        .is('paid_on', null);
+
+      if (feesError) {
+        console.error('Error loading receivables', feesError);
+        setError('Error loading receivables: ' + feesError.message);
+      } else {
+        setFees((data || []) as unknown as ReceivableFee[]);
+      }
+      setLoadingData(false);
+    };
+
+    loadFees();
+  }, [loading, profile?.role, supabase]);
+
+  // Fees still owed, grouped by who owes them: each lender for procuration fees,
+  // and clients together for broker fees
+  const groups = useMemo(() => {
+    const now = new Date();
+    const byPayer: Record<string, PayerGroup> = {};
+
+    for (const fee of fees) {
+      if (fee.application?.deleted_at) continue;
+      const outstanding = outstandingFeeAmount(fee);
+      if (outstanding <= 0) continue;
+
+      const key = fee.kind === 'broker' ? 'clients' : fee.lender_id || 'unknown';
+      const name = fee.kind === 'broker' ? 'Clients (broker fees)' : fee.lender?.name || 'Unknown lender';
+      const group = (byPayer[key] = byPayer[key] || { key, name, rows: [], total: 0, buckets: emptyBuckets() });
+
+      const ageDays = feeAgeDays(fee, fee.application?.stage_changed_at || null, now);
+      const bucket = ageingBucket(ageDays);
+      group.rows.push({ fee, outstanding, age_days: ageDays, bucket });
+      group.total += outstanding;
+      group.buckets[bucket] += outstanding;
+    }
+
+    return Object.values(byPayer)
+      .map((group) => ({ ...group, rows: group.rows.sort((a, b) => b.age_days - a.age_days) }))
+      .sort((a, b) => b.total - a.total);
+  }, [fees]);
+
+  const totals = groups.reduce(
+    (acc, group) => {
+      AGEING_BUCKETS.forEach(({ key }) => {
+        acc.buckets[key] += group.buckets[key];
+      });
+      acc.total += group.total;
+      return acc;
+    },
+    { total: 0, buckets: emptyBuckets() }
+  );
+
+  if (loading || loadingData) {
+    return (
+      <DashboardShell>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-sm text-[var(--color-text-tertiary)]">Loading receivables...</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (profile?.role !== 'ADMIN') {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">Access Denied</p>
+          <p className="text-sm text-[var(--color-text-tertiary)] mt-1">You do not have permission to view this page.</p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  return (
+    <DashboardShell>
+      <PageHeader
+        title="Receivables"
+        description="Procuration and broker fees owed on funded deals, aged from the invoice date (or funding, if not yet invoiced)."
+      />
+
+      {error && (
+        <div className="mb-6 p-4 bg-[var(--color-error-light)] border border-[var(--color-error)] rounded-lg">
+          <p className="text-sm text-[var(--color-error)]">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <Card>
+          <CardContent>
+            <p className="text-xs text-[var(--color-text-tertiary)]">Total outstanding</p>
+            <p className="text-xl font-semibold text-[var(--color-text-primary)]">{formatAmount(totals.total)}</p>
+          </CardContent>
+        </Card>
+        {AGEING_BUCKETS.map((bucket) => (
+          <Card key={bucket.key}>
+            <CardContent>
+              <p className="text-xs text-[var(--color-text-tertiary)]">{bucket.label}</p>
+              <p
+                className={`text-xl font-semibold ${
+                  bucket.key !== 'current' && totals.buckets[bucket.key] > 0
+                    ? 'text-[var(--color-error)]'
+                    : 'text-[var(--color-text-primary)]'
+                }`}
+              >
+                {formatAmount(totals.buckets[bucket.key])}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent>
+            <EmptyState
+              icon={
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              }
+              title="Nothing outstanding"
+              description="Fees recorded on funded applications appear here until they are paid."
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <Card key={group.key}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <h2 className="font-medium text-[var(--color-text-primary)]">{group.name}</h2>
+                  <div className="flex items-center gap-3 text-xs text-[var(--color-text-secondary)]">
+                    {AGEING_BUCKETS.filter((bucket) => group.buckets[bucket.key] > 0).map((bucket) => (
+                      <span key={bucket.key}>
+                        {bucket.label}: {formatAmount(group.buckets[bucket.key])}
+                      </span>
+                    ))}
+                    <span className="font-medium text-[var(--color-text-primary)]">{formatAmount(group.total)}</span>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                        <th className={thClass}>Company</th>
+                        <th className={thClass}>Fee</th>
+                        <th className={thClass}>Invoice</th>
+                        <th className={thClass}>Expected</th>
+                        <th className={thClass}>Received</th>
+                        <th className={thClass}>Outstanding</th>
+                        <th className={thClass}>Age</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--color-border)]">
+                      {group.rows.map(({ fee, outstanding, age_days, bucket }) => (
+                        <tr key={fee.id}>
+                          <td className="px-6 py-4 text-sm">
+                            <Link
+                              href={`/admin/applications/${fee.application_id}`}
+                              className="font-medium text-[var(--color-text-primary)] hover:underline"
+                            >
+                              {fee.application?.company?.name || 'Unknown company'}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">{DEAL_FEE_LABELS[fee.kind]}</td>
+                          <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                            {fee.invoiced_on ? formatDate(fee.invoiced_on) : 'Not invoiced'}
+                            {fee.invoice_reference && (
+                              <span className="block text-xs text-[var(--color-text-tertiary)]">{fee.invoice_reference}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                            {formatAmount(Number(fee.expected_amount || 0))}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-[var(--color-text-secondary)]">
+                            {formatAmount(Number(fee.received_amount || 0))}
+                          </td>
+                          <td className="px-6 py-4 text-sm font-medium text-[var(--color-text-primary)]">{formatAmount(outstanding)}</td>
+                          <td className="px-6 py-4 text-sm">
+                            <Badge variant={bucketVariant(bucket)} size="sm">
+                              {age_days} days
+                            </Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </DashboardShell>
+  );
+}
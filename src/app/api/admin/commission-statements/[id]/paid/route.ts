@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { CommissionError, markCommissionStatementPaid } from '@/lib/commission';
+
+/**
+ * Record that a commission statement has been paid.
+ * Body: { paid_reference? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    const { paid_reference } = body as { paid_reference?: string | null };
+
+    const statement = await markCommissionStatementPaid(
+      supabaseAdmin,
+      params.id,
+      paid_reference?.trim() || null,
+      user.id
+    );
+
+    return NextResponse.json({ success: true, statement });
+  } catch (error: any) {
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/admin/commission-statements/[id]/paid:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, isCronRequest, requireRole } from '@/lib/supabaseAdmin';
+import { CommissionError, generateCommissionStatements, statementPeriod } from '@/lib/commission';
+
+/**
+ * Monthly commission statements: issues each partner's statement for a month
+ * (default: last month). Run on the 1st with CRON_SECRET, or by an admin.
+ * Body (optional): { month: 'YYYY-MM', partner_company_id }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let supabaseAdmin;
+    if (isCronRequest(request)) {
+      supabaseAdmin = getSupabaseAdmin();
+    } else {
+      const auth = await requireRole(request, ['ADMIN']);
+      if ('response' in auth) return auth.response;
+      supabaseAdmin = auth.supabaseAdmin;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { month, partner_company_id } = body as { month?: string; partner_company_id?: string };
+
+    const summary = await generateCommissionStatements(supabaseAdmin, statementPeriod(month), {
+      partnerCompanyId: partner_company_id,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: any) {
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/admin/commission-statements:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, isCronRequest, requireRole } from '@/lib/supabaseAdmin';
+import { runCompaniesHouseMonitor } from '@/lib/companiesHouseMonitor';
+
+/**
+ * Companies House monitoring job: re-checks companies with live applications or
+ * funded deals and raises alerts. Run daily with CRON_SECRET, or by an admin.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let supabaseAdmin;
+    if (isCronRequest(request)) {
+      supabaseAdmin = getSupabaseAdmin();
+    } else {
+      const auth = await requireRole(request, ['ADMIN']);
+      if ('response' in auth) return auth.response;
+      supabaseAdmin = auth.supabaseAdmin;
+    }
+
+    const summary = await runCompaniesHouseMonitor(supabaseAdmin);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: any) {
+    console.error('Error in /api/admin/companies-house-monitor:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
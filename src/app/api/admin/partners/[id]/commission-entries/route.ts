@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { addCommissionAdjustment, clawBackCommission, CommissionError } from '@/lib/commission';
+
+/**
+ * Manual ledger entries for a partner company.
+ * Body: { kind: 'adjustment', amount, description } or { kind: 'clawback', entry_id, reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const { kind } = body as { kind?: string };
+
+    if (kind === 'adjustment') {
+      const { amount, description } = body as { amount?: number; description?: string };
+      if (typeof amount !== 'number' || isNaN(amount) || amount === 0) {
+        return NextResponse.json({ error: 'amount must be a non-zero number' }, { status: 400 });
+      }
+      if (!description?.trim()) {
+        return NextResponse.json({ error: 'description is required' }, { status: 400 });
+      }
+
+      const { data: partnerCompany } = await supabaseAdmin
+        .from('partner_companies')
+        .select('id')
+        .eq('id', params.id)
+        .maybeSingle();
+      if (!partnerCompany) {
+        return NextResponse.json({ error: 'Partner company not found' }, { status: 404 });
+      }
+
+      const entry = await addCommissionAdjustment(supabaseAdmin, params.id, amount, description.trim(), user.id);
+      return NextResponse.json({ success: true, entry });
+    }
+
+    if (kind === 'clawback') {
+      const { entry_id, reason } = body as { entry_id?: string; reason?: string };
+      if (!entry_id) {
+        return NextResponse.json({ error: 'entry_id is required' }, { status: 400 });
+      }
+      if (!reason?.trim()) {
+        return NextResponse.json({ error: 'reason is required' }, { status: 400 });
+      }
+
+      const { data: accrual } = await supabaseAdmin
+        .from('commission_entries')
+        .select('id')
+        .eq('id', entry_id)
+        .eq('partner_company_id', params.id)
+        .maybeSingle();
+      if (!accrual) {
+        return NextResponse.json({ error: 'Commission accrual not found' }, { status: 404 });
+      }
+
+      const entry = await clawBackCommission(supabaseAdmin, entry_id, reason.trim(), user.id);
+      return NextResponse.json({ success: true, entry });
+    }
+
+    return NextResponse.json({ error: "kind must be 'adjustment' or 'clawback'" }, { status: 400 });
+  } catch (error: any) {
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/admin/partners/[id]/commission-entries:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
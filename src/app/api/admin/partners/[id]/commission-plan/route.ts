@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { CommissionError, saveCommissionPlan, validateCommissionPlan } from '@/lib/commission';
+
+/**
+ * Set the partner company's commission plan.
+ * Body: { basis, rate, tiers: [{ min_volume, rate }], clawback_days }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const plan = validateCommissionPlan(await request.json());
+
+    const { data: partnerCompany } = await supabaseAdmin
+      .from('partner_companies')
+      .select('id')
+      .eq('id', params.id)
+      .maybeSingle();
+    if (!partnerCompany) {
+      return NextResponse.json({ error: 'Partner company not found' }, { status: 404 });
+    }
+
+    const saved = await saveCommissionPlan(supabaseAdmin, params.id, plan, user.id);
+
+    return NextResponse.json({ success: true, plan: saved });
+  } catch (error: any) {
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/admin/partners/[id]/commission-plan:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
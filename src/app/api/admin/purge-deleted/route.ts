@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, isCronRequest, requireRole } from '@/lib/supabaseAdmin';
+import { purgeExpiredDeletions } from '@/lib/softDelete';
+
+/**
+ * Retention job: permanently removes records soft-deleted more than
+ * DELETED_RETENTION_DAYS ago. Run daily with CRON_SECRET, or by an admin.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let supabaseAdmin;
+    if (isCronRequest(request)) {
+      supabaseAdmin = getSupabaseAdmin();
+    } else {
+      const auth = await requireRole(request, ['ADMIN']);
+      if ('response' in auth) return auth.response;
+      supabaseAdmin = auth.supabaseAdmin;
+    }
+
+    const summary = await purgeExpiredDeletions(supabaseAdmin);
+
+    return NextResponse.json({ success: true, purged: summary });
+  } catch (error: any) {
+    console.error('Error in /api/admin/purge-deleted:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { deletedRetentionDays, listRecentlyDeleted } from '@/lib/softDelete';
+
+/**
+ * Soft-deleted companies and applications. These are hidden by RLS, so the list
+ * is read with the service role.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+
+    const deleted = await listRecentlyDeleted(auth.supabaseAdmin);
+
+    return NextResponse.json({ ...deleted, retention_days: deletedRetentionDays() });
+  } catch (error: any) {
+    console.error('Error in /api/admin/recently-deleted:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { analyseApplicationStatements } from '@/lib/bankStatementAnalysis';
+
+/**
+ * Re-run the bank statement analysis for the application and store the result on
+ * applications.bank_analysis.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const { data: application, error: appError } = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (appError) {
+      console.error('Error loading application', appError);
+      return NextResponse.json({ error: 'Error loading application' }, { status: 500 });
+    }
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const analysis = await analyseApplicationStatements(supabaseAdmin, params.id);
+
+    return NextResponse.json({ success: true, bank_analysis: analysis });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/bank-analysis:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
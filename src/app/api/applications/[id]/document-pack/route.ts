@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { buildDocumentPack, loadPackDocuments } from '@/lib/submissionPayload';
+
+/**
+ * Download the application's documents as a zip, filtered to the categories the
+ * given lender requires (all but identity documents when no lender_id is passed).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const { data: application } = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const lenderId = request.nextUrl.searchParams.get('lender_id');
+    let categories: string[] | null = null;
+
+    if (lenderId) {
+      const { data: lender } = await supabaseAdmin
+        .from('lenders')
+        .select('required_document_categories')
+        .eq('id', lenderId)
+        .maybeSingle();
+      if (!lender) {
+        return NextResponse.json({ error: 'Lender not found' }, { status: 404 });
+      }
+      categories = lender.required_document_categories;
+    }
+
+    const { documents } = await loadPackDocuments(supabaseAdmin, params.id, categories);
+    if (documents.length === 0) {
+      return NextResponse.json({ error: 'No documents to include' }, { status: 404 });
+    }
+
+    const zip = await buildDocumentPack(supabaseAdmin, documents);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="documents-${params.id}.zip"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/document-pack:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  buildEligibilityInput,
+  evaluateEligibility,
+  LENDER_CRITERIA_COLUMNS,
+  LenderCriteria,
+} from '@/lib/eligibility';
+import { accountsSummaryIsStale, ingestCompanyAccounts } from '@/lib/companyAccounts';
+import { analyseApplicationStatements } from '@/lib/bankStatementAnalysis';
+
+/**
+ * Evaluate the application against every active lender's criteria and store the
+ * per-lender result on applications.eligibility_result.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const { data: application, error: appError } = await supabaseAdmin
+      .from('applications')
+      .select('*')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (appError) {
+      console.error('Error loading application', appError);
+      return NextResponse.json({ error: 'Error loading application' }, { status: 500 });
+    }
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    let company = null;
+    let director = null;
+
+    // Statements arrive after the application is created; analyse them the first
+    // time they're needed, falling back to declared figures if that fails
+    if (!application.bank_analysis) {
+      try {
+        application.bank_analysis = await analyseApplicationStatements(supabaseAdmin, application.id);
+      } catch (err: any) {
+        console.warn(`Could not analyse bank statements for application ${application.id}:`, err?.message);
+      }
+    }
+
+    if (application.company_id) {
+      const { data: companyData } = await supabaseAdmin
+        .from('companies')
+        .select('id, industry, company_number, companies_house_data, accounts_summary')
+        .eq('id', application.company_id)
+        .maybeSingle();
+      company = companyData;
+
+      // Pull fresh accounts when ours are missing or old; evaluate with what we
+      // have if Companies House is unavailable
+      if (company?.company_number && accountsSummaryIsStale(company.accounts_summary?.refreshed_at)) {
+        try {
+          const { accounts_summary } = await ingestCompanyAccounts(supabaseAdmin, company);
+          company = { ...company, accounts_summary };
+        } catch (err: any) {
+          console.warn(`Could not refresh accounts for company ${company.id}:`, err?.message);
+        }
+      }
+
+      const { data: directorData } = await supabaseAdmin
+        .from('profiles')
+        .select('property_status')
+        .eq('company_id', application.company_id)
+        .eq('is_primary_director', true)
+        .maybeSingle();
+      director = directorData;
+    }
+
+    const { data: lenders, error: lendersError } = await supabaseAdmin
+      .from('lenders')
+      .select(LENDER_CRITERIA_COLUMNS)
+      .eq('status', 'active');
+
+    if (lendersError) {
+      console.error('Error loading lenders', lendersError);
+      return NextResponse.json({ error: 'Error loading lenders' }, { status: 500 });
+    }
+
+    const input = buildEligibilityInput(application, company, director);
+    const result = evaluateEligibility((lenders || []) as unknown as LenderCriteria[], input);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('applications')
+      .update({ eligibility_result: result })
+      .eq('id', params.id);
+
+    if (updateError) {
+      console.error('Error saving eligibility result', updateError);
+      return NextResponse.json({ error: 'Error saving eligibility result' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      eligibility_result: result,
+      bank_analysis: application.bank_analysis ?? null,
+    });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/eligibility:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
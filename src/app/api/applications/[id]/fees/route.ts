@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { DEAL_FEE_KINDS, DealFeeError, DealFeeKind, saveDealFee, validateDealFeeInput } from '@/lib/dealFees';
+import { applyReceivedFeesToCommission } from '@/lib/commission';
+
+/**
+ * Record a funded application's procuration or broker fee.
+ * Body: { kind, expected_amount, received_amount, invoice_reference, invoiced_on, paid_on, notes }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const kind = body?.kind as DealFeeKind;
+    if (!DEAL_FEE_KINDS.includes(kind)) {
+      return NextResponse.json({ error: "kind must be 'procuration' or 'broker'" }, { status: 400 });
+    }
+    const input = validateDealFeeInput(body);
+
+    const { data: application, error: applicationError } = await supabaseAdmin
+      .from('applications')
+      .select('id, stage, accepted_lender_id')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (applicationError) {
+      throw new Error(`Error loading application: ${applicationError.message}`);
+    }
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const fee = await saveDealFee(supabaseAdmin, application, kind, input, user.id);
+
+    let commissionError: string | null = null;
+    try {
+      await applyReceivedFeesToCommission(supabaseAdmin, application.id);
+    } catch (err: any) {
+      // The fee is saved; the admin is told so they can correct commission with a ledger adjustment
+      console.error(`Error updating commission for application ${application.id}:`, err);
+      commissionError = err?.message || 'Unknown error';
+    }
+
+    return NextResponse.json({ success: true, fee, commission_error: commissionError });
+  } catch (error: any) {
+    if (error instanceof DealFeeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/fees:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
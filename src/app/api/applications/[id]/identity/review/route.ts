@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { IdentityVerificationError, reviewIdentityVerification } from '@/lib/identityVerification';
+
+/**
+ * Admin decision on an identity verification.
+ * Body: { verification_id, status: 'verified' | 'failed', note? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const { verification_id, status, note } = body as {
+      verification_id?: string;
+      status?: string;
+      note?: string | null;
+    };
+
+    if (!verification_id) {
+      return NextResponse.json({ error: 'verification_id is required' }, { status: 400 });
+    }
+    if (status !== 'verified' && status !== 'failed') {
+      return NextResponse.json({ error: "status must be 'verified' or 'failed'" }, { status: 400 });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('identity_verifications')
+      .select('id')
+      .eq('id', verification_id)
+      .eq('application_id', params.id)
+      .maybeSingle();
+    if (!existing) {
+      return NextResponse.json({ error: 'Identity verification not found' }, { status: 404 });
+    }
+
+    const verification = await reviewIdentityVerification(
+      supabaseAdmin,
+      verification_id,
+      { status, note: note?.trim() || null },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, verification });
+  } catch (error: any) {
+    if (error instanceof IdentityVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/identity/review:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canAccessApplication } from '@/lib/applicationAccess';
+import {
+  IdentityDocumentType,
+  IdentityVerificationError,
+  latestIdentityVerification,
+  submitIdentityVerification,
+} from '@/lib/identityVerification';
+
+const DOCUMENT_TYPES: IdentityDocumentType[] = ['passport', 'driving_licence', 'national_id'];
+
+async function loadApplication(supabaseAdmin: SupabaseClient, id: string) {
+  const { data, error } = await supabaseAdmin
+    .from('applications')
+    .select('id, company_id, created_by, owner_id')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading application: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * The latest identity verification for the application's applicant.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'CLIENT']);
+    if ('response' in auth) return auth.response;
+
+    const application = await loadApplication(auth.supabaseAdmin, params.id);
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const verification = await latestIdentityVerification(auth.supabaseAdmin, params.id);
+
+    return NextResponse.json({ verification });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/identity:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Verify the applicant from the ID document and selfie they uploaded.
+ * Body: { document_type, id_document_id, selfie_document_id }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['CLIENT']);
+    if ('response' in auth) return auth.response;
+
+    const body = await request.json();
+    const { document_type, id_document_id, selfie_document_id } = body as {
+      document_type?: IdentityDocumentType;
+      id_document_id?: string;
+      selfie_document_id?: string;
+    };
+
+    if (!document_type || !DOCUMENT_TYPES.includes(document_type)) {
+      return NextResponse.json({ error: 'A valid document_type is required' }, { status: 400 });
+    }
+    if (!id_document_id || !selfie_document_id) {
+      return NextResponse.json({ error: 'id_document_id and selfie_document_id are required' }, { status: 400 });
+    }
+
+    const application = await loadApplication(auth.supabaseAdmin, params.id);
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const verification = await submitIdentityVerification(auth.supabaseAdmin, application, {
+      document_type,
+      id_document_id,
+      selfie_document_id,
+    });
+
+    return NextResponse.json({ success: true, verification });
+  } catch (error: any) {
+    if (error instanceof IdentityVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/identity:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canAccessApplication } from '@/lib/applicationAccess';
+import {
+  OpenBankingError,
+  getOpenBankingProvider,
+  latestBankConnection,
+  startBankConnection,
+} from '@/lib/openBanking';
+
+// Where the provider sends the applicant back after authorising at their bank
+const CALLBACK_PATH = '/apply/open-banking';
+
+async function loadApplication(supabaseAdmin: SupabaseClient, id: string) {
+  const { data, error } = await supabaseAdmin
+    .from('applications')
+    .select('id, company_id, created_by, owner_id')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading application: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Whether Open Banking is offered, and the application's latest bank connection.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'CLIENT']);
+    if ('response' in auth) return auth.response;
+
+    const application = await loadApplication(auth.supabaseAdmin, params.id);
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const connection = await latestBankConnection(auth.supabaseAdmin, params.id);
+
+    return NextResponse.json({ available: getOpenBankingProvider() !== null, connection });
+  } catch (error: any) {
+    if (error instanceof OpenBankingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/open-banking:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start a bank connection. Returns the URL to send the applicant to.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['CLIENT']);
+    if ('response' in auth) return auth.response;
+
+    const application = await loadApplication(auth.supabaseAdmin, params.id);
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const { connection, authorisation_url } = await startBankConnection(
+      auth.supabaseAdmin,
+      application.id,
+      auth.user.id,
+      `${request.nextUrl.origin}${CALLBACK_PATH}`
+    );
+
+    return NextResponse.json({ success: true, connection, authorisation_url });
+  } catch (error: any) {
+    if (error instanceof OpenBankingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/open-banking:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { PurgeError, purgeApplication } from '@/lib/softDelete';
+
+/**
+ * Permanently delete a soft-deleted application, its related records and its
+ * documents' storage objects. Returns a summary of what was removed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const summary = await purgeApplication(supabaseAdmin, params.id, user.id);
+
+    return NextResponse.json({ success: true, purged: summary });
+  } catch (error: any) {
+    if (error instanceof PurgeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/purge:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { softDeleteErrorStatus } from '@/lib/softDelete';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const { error } = await supabaseAdmin.rpc('restore_application', {
+      p_application_id: params.id,
+      p_actor_id: user.id,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: softDeleteErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/restore:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { softDeleteErrorStatus } from '@/lib/softDelete';
+
+/**
+ * Soft delete an application. It disappears from the portal and can be restored
+ * from Recently deleted until the retention purge removes it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const { error } = await supabaseAdmin.rpc('soft_delete_application', {
+      p_application_id: params.id,
+      p_actor_id: user.id,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: softDeleteErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error in DELETE /api/applications/[id]:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
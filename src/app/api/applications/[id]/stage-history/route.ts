@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canAccessApplication } from '@/lib/applicationAccess';
+import { StageHistoryEntry } from '@/lib/applicationStages';
+
+/**
+ * Stage history for the timeline. Admins get who made each change and why;
+ * partners see decline/withdrawal reasons; clients see stages and dates only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER', 'CLIENT']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    const { data: application, error: appError } = await supabaseAdmin
+      .from('applications')
+      .select('id, company_id, created_by, owner_id, created_at')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (appError) {
+      console.error('Error loading application', appError);
+      return NextResponse.json({ error: 'Error loading application' }, { status: 500 });
+    }
+
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const { data: rows, error: historyError } = await supabaseAdmin
+      .from('application_stage_history')
+      .select(`
+        id, from_stage, to_stage, created_at, changed_by_role, reason,
+        actor:changed_by(id, first_name, last_name, email)
+      `)
+      .eq('application_id', params.id)
+      .order('created_at', { ascending: true });
+
+    if (historyError) {
+      console.error('Error loading stage history', historyError);
+      return NextResponse.json({ error: 'Error loading stage history' }, { status: 500 });
+    }
+
+    const history: StageHistoryEntry[] = (rows || []).map((row: any) => {
+      const entry: StageHistoryEntry = {
+        id: row.id,
+        from_stage: row.from_stage,
+        to_stage: row.to_stage,
+        created_at: row.created_at,
+        changed_by_role: row.changed_by_role,
+      };
+
+      if (profile.role === 'ADMIN') {
+        entry.reason = row.reason;
+        entry.changed_by = row.actor
+          ? {
+              id: row.actor.id,
+              name: [row.actor.first_name, row.actor.last_name].filter(Boolean).join(' ') || row.actor.email || 'Unknown',
+              email: row.actor.email,
+            }
+          : null;
+      } else if (profile.role === 'PARTNER' && ['declined', 'withdrawn'].includes(row.to_stage)) {
+        entry.reason = row.reason;
+      }
+
+      return entry;
+    });
+
+    return NextResponse.json({ created_at: application.created_at, history });
+  } catch (error: any) {
+    console.error('Error in /api/applications/[id]/stage-history:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
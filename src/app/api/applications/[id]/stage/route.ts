@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canAccessApplication } from '@/lib/applicationAccess';
+import { isApplicationStage, isClientTransition } from '@/lib/applicationStages';
+import { loadStageApplication, StageTransitionError, transitionApplicationStage } from '@/lib/stageTransitions';
+
+/**
+ * Change an application's stage. Admins may make any allowed transition; clients
+ * only the few on their own application (submit, respond to info, accept an offer).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'CLIENT']);
+    if ('response' in auth) return auth.response;
+    const { user, profile, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const { stage, reason } = body as { stage?: string; reason?: string | null };
+
+    if (!isApplicationStage(stage)) {
+      return NextResponse.json({ error: 'A valid stage is required' }, { status: 400 });
+    }
+
+    const application = await loadStageApplication(supabaseAdmin, params.id);
+
+    if (profile.role === 'CLIENT') {
+      if (!(await canAccessApplication(auth, application))) {
+        return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+      if (!isClientTransition(application.stage, stage)) {
+        return NextResponse.json({ error: 'You cannot make this change to the application' }, { status: 403 });
+      }
+    }
+
+    const { application: updated, commissionError } = await transitionApplicationStage(supabaseAdmin, application, stage, {
+      reason,
+      actor: { id: user.id, role: profile.role },
+    });
+
+    return NextResponse.json({ success: true, application: updated, commission_error: commissionError });
+  } catch (error: any) {
+    if (error instanceof StageTransitionError) {
+      return NextResponse.json({ error: error.message, unmet: error.unmet }, { status: error.status });
+    }
+    console.error('Error in /api/applications/[id]/stage:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
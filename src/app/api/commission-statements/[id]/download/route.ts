@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  buildStatementCsv,
+  buildStatementPdf,
+  CommissionError,
+  loadStatementDocument,
+} from '@/lib/commission';
+import { loadReferralVisibility } from '@/lib/partnerTeam';
+
+/**
+ * Download a commission statement as ?format=pdf (default) or csv. Partners can
+ * download their own company's statements if they see the whole firm's referrals.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+    if (format !== 'pdf' && format !== 'csv') {
+      return NextResponse.json({ error: "format must be 'pdf' or 'csv'" }, { status: 400 });
+    }
+
+    const document = await loadStatementDocument(supabaseAdmin, params.id);
+    if (
+      profile.role === 'PARTNER' &&
+      (document.statement.partner_company_id !== profile.partner_company_id ||
+        (await loadReferralVisibility(supabaseAdmin, profile.id)) !== 'firm')
+    ) {
+      return NextResponse.json({ error: 'Statement not found' }, { status: 404 });
+    }
+
+    if (format === 'csv') {
+      const { filename, content } = buildStatementCsv(document);
+      return new NextResponse(content, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const { filename, content } = buildStatementPdf(document);
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/commission-statements/[id]/download:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompaniesHouseError, getFilingHistory } from '@/lib/companiesHouse';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { number: string } }
+) {
+  const companyNumber = params.number;
+
+  if (!companyNumber) {
+    return NextResponse.json({ error: 'Company number is required' }, { status: 400 });
+  }
+
+  try {
+    const data = await getFilingHistory(companyNumber);
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof CompaniesHouseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching filing history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch filing history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const COMPANIES_HOUSE_API_URL = 'https://api.company-information.service.gov.uk';
-const COMPANIES_HOUSE_API_KEY = process.env.COMPANIES_HOUSE_API_KEY;
-
-interface CompaniesHouseCompany {
-  company_number: string;
-  company_name: string;
-  company_status: string;
-  registered_office_address?: {
-    address_line_1?: string;
-    address_line_2?: string;
-    locality?: string;
-    postal_code?: string;
-    country?: string;
-  };
-}
-
-interface CompaniesHouseSearchResult {
-  items: Array<{
-    company_number: string;
-    title: string;
-    company_status: string;
-    address_snippet?: string;
-    description?: string;
-  }>;
-  total_results: number;
-}
+import { CompaniesHouseError, searchCompanies } from '@/lib/companiesHouse';
 
 export async function GET(request: NextRequest) {
   try {
@@ -36,93 +10,25 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Query must be at least 2 characters' }, { status: 400 });
     }
 
-    // If we have an API key, use it directly
-    if (COMPANIES_HOUSE_API_KEY) {
-      try {
-        const authString = Buffer.from(`${COMPANIES_HOUSE_API_KEY}:`).toString('base64');
-        const url = `${COMPANIES_HOUSE_API_URL}/search/companies?q=${encodeURIComponent(query)}&items_per_page=10`;
-        
-        const response = await fetch(url, {
-          headers: {
-            'Authorization': `Basic ${authString}`,
-          },
-        });
+    const data = await searchCompanies(query);
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Companies House API error:', {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorText,
-          });
-          
-          // If API call fails, fall back to mock data instead of returning error
-          console.warn('Companies House API failed, using mock data');
-          return NextResponse.json({
-            results: [
-              {
-                company_number: '12345678',
-                company_name: `${query} Ltd`,
-                status: 'active',
-                address: '123 Example Street, London, SW1A 1AA',
-              },
-            ],
-          });
-        }
+    // Format results for frontend
+    const formattedResults = (data.items || []).map((item) => ({
+      company_number: item.company_number,
+      company_name: item.title,
+      status: item.company_status,
+      address: item.address_snippet || item.description || '',
+    }));
 
-        const data: CompaniesHouseSearchResult = await response.json();
-
-        // Format results for frontend
-        const formattedResults = (data.items || []).map((item) => ({
-          company_number: item.company_number,
-          company_name: item.title,
-          status: item.company_status,
-          address: item.address_snippet || item.description || '',
-        }));
-
-        return NextResponse.json({ results: formattedResults });
-      } catch (fetchError: any) {
-        console.error('Error calling Companies House API:', fetchError);
-        // Fall back to mock data instead of failing
-        console.warn('Companies House API call failed, using mock data');
-        return NextResponse.json({
-          results: [
-            {
-              company_number: '12345678',
-              company_name: `${query} Ltd`,
-              status: 'active',
-              address: '123 Example Street, London, SW1A 1AA',
-            },
-          ],
-        });
-      }
-    } else {
-      // No API key - return mock data for development
-      console.warn('No Companies House API key found. Using mock data.');
-      return NextResponse.json({
-        results: [
-          {
-            company_number: '12345678',
-            company_name: `${query} Ltd`,
-            status: 'active',
-            address: '123 Example Street, London, SW1A 1AA',
-          },
-        ],
-      });
-    }
+    return NextResponse.json({ results: formattedResults });
   } catch (error: any) {
+    if (error instanceof CompaniesHouseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error searching Companies House:', error);
-    // Always return mock data instead of failing
-    console.warn('Companies House search error, using mock data');
-    return NextResponse.json({
-      results: [
-        {
-          company_number: '12345678',
-          company_name: `${searchParams.get('q') || 'Company'} Ltd`,
-          status: 'active',
-          address: '123 Example Street, London, SW1A 1AA',
-        },
-      ],
-    });
+    return NextResponse.json(
+      { error: 'Companies House search is unavailable. Please try again.' },
+      { status: 500 }
+    );
   }
 }
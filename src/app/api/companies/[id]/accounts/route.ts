@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { CompaniesHouseError } from '@/lib/companiesHouse';
+import { ingestCompanyAccounts } from '@/lib/companyAccounts';
+
+/**
+ * Refresh the company's Companies House profile, filing history and latest
+ * accounts figures, and store them on the company.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const { data: company, error: companyError } = await supabaseAdmin
+      .from('companies')
+      .select('id, company_number')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (companyError) {
+      console.error('Error loading company', companyError);
+      return NextResponse.json({ error: 'Error loading company' }, { status: 500 });
+    }
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+    if (!company.company_number) {
+      return NextResponse.json({ error: 'Company has no company number' }, { status: 400 });
+    }
+
+    const result = await ingestCompanyAccounts(supabaseAdmin, company);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error instanceof CompaniesHouseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/companies/[id]/accounts:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
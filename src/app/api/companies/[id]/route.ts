@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { softDeleteErrorStatus } from '@/lib/softDelete';
+
+/**
+ * Soft delete a company together with its applications.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const { data: applicationCount, error } = await supabaseAdmin.rpc('soft_delete_company', {
+      p_company_id: params.id,
+      p_actor_id: user.id,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: softDeleteErrorStatus(error) });
+    }
+
+    return NextResponse.json({ success: true, applications: applicationCount ?? 0 });
+  } catch (error: any) {
+    console.error('Error in DELETE /api/companies/[id]:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
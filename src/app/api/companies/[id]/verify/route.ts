@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { CompaniesHouseError, getCompanyProfile } from '@/lib/companiesHouse';
+
+/**
+ * Verify a company against Companies House. The lookup and the verified flag are
+ * written here with the service role; the browser can't set either
+ * (migrations/protect_companies_house_verified.sql).
+ * Body: { company_number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'CLIENT', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { user, profile, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const companyNumber = typeof body?.company_number === 'string' ? body.company_number.trim() : '';
+    if (!companyNumber) {
+      return NextResponse.json({ error: 'company_number is required' }, { status: 400 });
+    }
+
+    const { data: company, error: companyError } = await supabaseAdmin
+      .from('companies')
+      .select('id, name, country, referred_by, partner_company_id')
+      .eq('id', params.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (companyError) {
+      throw new Error(`Error loading company: ${companyError.message}`);
+    }
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    if (profile.role === 'CLIENT') {
+      const { data: clientProfile } = await supabaseAdmin
+        .from('profiles')
+        .select('company_id')
+        .eq('id', user.id)
+        .maybeSingle();
+      if (clientProfile?.company_id !== company.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    } else if (profile.role === 'PARTNER') {
+      const ownsReferral =
+        company.referred_by === user.id ||
+        (!!profile.partner_company_id && company.partner_company_id === profile.partner_company_id);
+      if (!ownsReferral) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const chCompany = await getCompanyProfile(companyNumber);
+    const address = chCompany.registered_office_address || {};
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('companies')
+      .update({
+        name: chCompany.company_name || company.name,
+        company_number: chCompany.company_number,
+        address_line_1: address.address_line_1 || null,
+        address_line_2: address.address_line_2 || null,
+        city: address.locality || null,
+        postcode: address.postal_code || null,
+        country: address.country || company.country,
+        companies_house_data: chCompany,
+        companies_house_verified: true,
+        companies_house_verified_at: new Date().toISOString(),
+      })
+      .eq('id', company.id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      throw new Error(`Error saving company details: ${updateError.message}`);
+    }
+
+    return NextResponse.json({ success: true, company: updated });
+  } catch (error: any) {
+    if (error instanceof CompaniesHouseError) {
+      return NextResponse.json(
+        { error: error.status === 404 ? 'Company not found at Companies House' : error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error in /api/companies/[id]/verify:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
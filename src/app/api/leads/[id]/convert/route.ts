@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { convertLead, ReferralCampaignError } from '@/lib/referralCampaigns';
+
+/**
+ * Called at the end of signup when the client arrived through a referral link. Links
+ * the lead to the new account and attributes their company to the referring partner.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['CLIENT']);
+    if ('response' in auth) return auth.response;
+    const { user, supabaseAdmin } = auth;
+
+    const { data: client, error: clientError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, company_id')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (clientError || !client) {
+      throw new Error(`Error loading profile: ${clientError?.message || 'not found'}`);
+    }
+
+    await convertLead(supabaseAdmin, params.id, client);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof ReferralCampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/leads/[id]/convert:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import {
+  applyLenderCallback,
+  callbackSchema,
+  CallbackError,
+  verifyCallbackSignature,
+} from '@/lib/lenderCallbacks';
+
+/**
+ * Webhook for lenders (or our n8n flow acting for them) to report on a submission.
+ * Authenticated per lender with an HMAC signature; see src/lib/lenderCallbacks.ts.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { lenderId: string } }
+) {
+  try {
+    const rawBody = await request.text();
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { data: lender, error: lenderError } = await supabaseAdmin
+      .from('lender_secrets')
+      .select('lender_id, callback_secret')
+      .eq('lender_id', params.lenderId)
+      .maybeSingle();
+
+    if (lenderError) {
+      console.error('Error loading lender for callback', lenderError);
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    // Same response for unknown lender and bad signature so ids can't be probed
+    if (
+      !lender?.callback_secret ||
+      !verifyCallbackSignature(
+        lender.callback_secret,
+        request.headers.get('x-lender-timestamp'),
+        request.headers.get('x-lender-signature'),
+        rawBody
+      )
+    ) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
+    }
+
+    const parsed = callbackSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map((issue) => issue.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyLenderCallback(supabaseAdmin, lender.lender_id, parsed.data);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error instanceof CallbackError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/lender-callbacks:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
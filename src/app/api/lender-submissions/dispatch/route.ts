@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, isCronRequest, requireRole } from '@/lib/supabaseAdmin';
+import { dispatchDueSubmissions } from '@/lib/lenderDispatch';
+
+/**
+ * Dispatch worker. Called on a schedule with CRON_SECRET to retry failed sends,
+ * or by an admin to force a run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let supabaseAdmin;
+    if (isCronRequest(request)) {
+      supabaseAdmin = getSupabaseAdmin();
+    } else {
+      const auth = await requireRole(request, ['ADMIN']);
+      if ('response' in auth) return auth.response;
+      supabaseAdmin = auth.supabaseAdmin;
+    }
+
+    const outcomes = await dispatchDueSubmissions(supabaseAdmin);
+
+    return NextResponse.json({
+      success: true,
+      processed: outcomes.length,
+      sent: outcomes.filter((o) => o.status === 'sent').length,
+      unrecorded: outcomes.filter((o) => o.status === 'sent' && o.error).length,
+      failed: outcomes.filter((o) => o.status === 'failed').length,
+      retrying: outcomes.filter((o) => o.status === 'retry').length,
+      outcomes,
+    });
+  } catch (error: any) {
+    console.error('Error in /api/lender-submissions/dispatch:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
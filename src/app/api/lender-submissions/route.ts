@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { dispatchDueSubmissions } from '@/lib/lenderDispatch';
+
+/**
+ * Create pending submissions for the selected lenders and send them straight away.
+ * Anything that fails is left in 'retry' for the dispatch job to pick up.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const { application_id, lender_ids } = body as {
+      application_id?: string;
+      lender_ids?: string[];
+    };
+
+    if (!application_id || !Array.isArray(lender_ids) || lender_ids.length === 0) {
+      return NextResponse.json(
+        { error: 'application_id and lender_ids are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: application } = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('id', application_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    // Skip lenders this application has already been sent to
+    const { data: existing } = await supabaseAdmin
+      .from('lender_submissions')
+      .select('lender_id')
+      .eq('application_id', application_id)
+      .in('lender_id', lender_ids);
+    const alreadySent = new Set((existing || []).map((s) => s.lender_id));
+
+    const { data: lenders, error: lendersError } = await supabaseAdmin
+      .from('lenders')
+      .select('id, submission_method')
+      .in('id', lender_ids.filter((lenderId) => !alreadySent.has(lenderId)));
+
+    if (lendersError) {
+      console.error('Error loading lenders', lendersError);
+      return NextResponse.json({ error: 'Error loading lenders' }, { status: 500 });
+    }
+
+    if (!lenders || lenders.length === 0) {
+      return NextResponse.json(
+        { error: 'Application has already been sent to the selected lenders' },
+        { status: 400 }
+      );
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+      .from('lender_submissions')
+      .insert(
+        lenders.map((lender) => ({
+          application_id,
+          lender_id: lender.id,
+          submission_method: lender.submission_method || 'email',
+          status: 'pending',
+        }))
+      )
+      .select('id');
+
+    if (insertError || !created) {
+      console.error('Error creating lender submissions', insertError);
+      return NextResponse.json(
+        { error: insertError?.message || 'Error creating lender submissions' },
+        { status: 500 }
+      );
+    }
+
+    await supabaseAdmin
+      .from('applications')
+      .update({ workflow_status: 'submitted_to_lenders' })
+      .eq('id', application_id);
+
+    const createdIds = created.map((s) => s.id);
+    const outcomes = await dispatchDueSubmissions(supabaseAdmin, { submissionIds: createdIds });
+
+    const { data: submissions } = await supabaseAdmin
+      .from('lender_submissions')
+      .select('*, lender:lender_id(id, name)')
+      .in('id', createdIds)
+      .order('created_at', { ascending: false });
+
+    return NextResponse.json({ success: true, submissions: submissions || [], outcomes });
+  } catch (error: any) {
+    console.error('Error in /api/lender-submissions:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
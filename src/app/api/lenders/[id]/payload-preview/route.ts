@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { loadSubmissionPayload } from '@/lib/lenderDispatch';
+import { buildSubmissionPayload, loadPackDocuments } from '@/lib/submissionPayload';
+
+/**
+ * Render a lender's payload template against an application without sending it.
+ * Accepts an unsaved `template` so admins can preview edits before saving.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const { application_id, template, required_document_categories } = body as {
+      application_id?: string;
+      template?: unknown;
+      required_document_categories?: string[];
+    };
+
+    if (!application_id) {
+      return NextResponse.json({ error: 'application_id is required' }, { status: 400 });
+    }
+
+    const { data: lender, error: lenderError } = await supabaseAdmin
+      .from('lenders')
+      .select('id, payload_template, required_document_categories')
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (lenderError || !lender) {
+      return NextResponse.json({ error: 'Lender not found' }, { status: 404 });
+    }
+
+    const { data: application } = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('id', application_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const context = await loadSubmissionPayload(supabaseAdmin, application_id);
+    const categories = required_document_categories ?? lender.required_document_categories;
+    const { documents, missingCategories } = await loadPackDocuments(supabaseAdmin, application_id, categories);
+
+    // Preview uses placeholder links; real signed URLs are only issued on send
+    const documentLinks = documents.map((doc) => ({
+      category: doc.category,
+      filename: doc.original_filename,
+      url: `(signed link to ${doc.original_filename || doc.storage_path})`,
+    }));
+
+    const activeTemplate = template !== undefined ? template : lender.payload_template;
+    // The submission id only exists once the application is sent to the lender
+    const rendered = buildSubmissionPayload(activeTemplate, '(submission id)', { ...context, documents: documentLinks });
+
+    return NextResponse.json({
+      payload: rendered.payload,
+      missing_fields: rendered.missing,
+      documents: documents.map((doc) => ({ id: doc.id, category: doc.category, filename: doc.original_filename })),
+      missing_document_categories: missingCategories,
+    });
+  } catch (error: any) {
+    console.error('Error in /api/lenders/[id]/payload-preview:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+
+/**
+ * Lender secrets live in lender_secrets, which only the service role can read.
+ * The callback secret is shown to admins so they can pass it to the lender;
+ * the API credential is write-only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const { data: secrets, error } = await supabaseAdmin
+      .from('lender_secrets')
+      .select('api_credential, callback_secret')
+      .eq('lender_id', params.id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      has_api_credential: !!secrets?.api_credential,
+      callback_secret: secrets?.callback_secret ?? null,
+    });
+  } catch (error: any) {
+    console.error('Error in /api/lenders/[id]/secrets:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { api_credential?: string, rotate_callback_secret?: boolean }.
+ * A rotated callback secret is generated here and returned once in the response.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const apiCredential = typeof body?.api_credential === 'string' ? body.api_credential.trim() : '';
+    const rotateCallbackSecret = body?.rotate_callback_secret === true;
+    if (!apiCredential && !rotateCallbackSecret) {
+      return NextResponse.json({ error: 'api_credential or rotate_callback_secret is required' }, { status: 400 });
+    }
+
+    const { data: lender, error: lenderError } = await supabaseAdmin
+      .from('lenders')
+      .select('id')
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (lenderError || !lender) {
+      return NextResponse.json({ error: 'Lender not found' }, { status: 404 });
+    }
+
+    const callbackSecret = rotateCallbackSecret ? randomBytes(32).toString('hex') : null;
+    const { error } = await supabaseAdmin
+      .from('lender_secrets')
+      .upsert(
+        {
+          lender_id: params.id,
+          ...(apiCredential ? { api_credential: apiCredential } : {}),
+          ...(callbackSecret ? { callback_secret: callbackSecret } : {}),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'lender_id' }
+      );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, ...(callbackSecret ? { callback_secret: callbackSecret } : {}) });
+  } catch (error: any) {
+    console.error('Error in /api/lenders/[id]/secrets:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
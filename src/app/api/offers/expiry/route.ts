@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin, isCronRequest, requireRole } from '@/lib/supabaseAdmin';
+import { lapseExpiredOffers, sendOfferReminders } from '@/lib/offerExpiry';
+
+/**
+ * Offer expiry job. Run on a schedule with CRON_SECRET (hourly is plenty), or by
+ * an admin to force a run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let supabaseAdmin;
+    if (isCronRequest(request)) {
+      supabaseAdmin = getSupabaseAdmin();
+    } else {
+      const auth = await requireRole(request, ['ADMIN']);
+      if ('response' in auth) return auth.response;
+      supabaseAdmin = auth.supabaseAdmin;
+    }
+
+    const now = new Date();
+    const lapsed = await lapseExpiredOffers(supabaseAdmin, now);
+    const reminders = await sendOfferReminders(supabaseAdmin, now);
+
+    return NextResponse.json({
+      success: true,
+      lapsed: lapsed.length,
+      lapsed_offer_ids: lapsed,
+      reminders_sent: reminders.filter((r) => !r.error).length,
+      reminders,
+    });
+  } catch (error: any) {
+    console.error('Error in /api/offers/expiry:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
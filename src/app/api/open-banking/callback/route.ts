@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canAccessApplication } from '@/lib/applicationAccess';
+import { BankConnection, OpenBankingError, completeBankConnection } from '@/lib/openBanking';
+import { analyseApplicationStatements } from '@/lib/bankStatementAnalysis';
+
+/**
+ * Complete a bank connection once the applicant is back from their bank. The
+ * /apply/open-banking page forwards the redirect's query parameters here.
+ * Body: { state, ...provider parameters }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, ['CLIENT']);
+    if ('response' in auth) return auth.response;
+    const { supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const callbackParams: Record<string, string> = {};
+    for (const [key, value] of Object.entries(body || {})) {
+      if (typeof value === 'string') callbackParams[key] = value;
+    }
+
+    if (!callbackParams.state) {
+      return NextResponse.json({ error: 'state is required' }, { status: 400 });
+    }
+
+    const { data: connection, error: connectionError } = await supabaseAdmin
+      .from('bank_connections')
+      .select('*')
+      .eq('id', callbackParams.state)
+      .maybeSingle();
+
+    if (connectionError) {
+      throw new Error(`Error loading bank connection: ${connectionError.message}`);
+    }
+    if (!connection) {
+      return NextResponse.json({ error: 'Bank connection not found' }, { status: 404 });
+    }
+
+    const { data: application } = await supabaseAdmin
+      .from('applications')
+      .select('id, company_id, created_by, owner_id')
+      .eq('id', connection.application_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!application || !(await canAccessApplication(auth, application))) {
+      return NextResponse.json({ error: 'Bank connection not found' }, { status: 404 });
+    }
+
+    const completed = await completeBankConnection(supabaseAdmin, connection as BankConnection, callbackParams);
+
+    // The statements are in; an admin can re-run the analysis if this fails
+    try {
+      await analyseApplicationStatements(supabaseAdmin, completed.application_id);
+    } catch (err: any) {
+      console.warn(`Could not analyse bank statements for application ${completed.application_id}:`, err?.message);
+    }
+
+    return NextResponse.json({ success: true, connection: completed });
+  } catch (error: any) {
+    if (error instanceof OpenBankingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/open-banking/callback:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canManagePartnerTeam, PartnerTeamError, reassignReferredCompanies } from '@/lib/partnerTeam';
+
+/**
+ * Move the member's referred companies to a colleague in the same partner company.
+ * Body: { to_user_id }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (!canManagePartnerTeam(profile, params.id)) {
+      return NextResponse.json({ error: 'Only the primary contact can manage the team' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (typeof body?.to_user_id !== 'string' || !body.to_user_id) {
+      return NextResponse.json({ error: 'to_user_id is required' }, { status: 400 });
+    }
+
+    const reassigned = await reassignReferredCompanies(supabaseAdmin, params.id, params.userId, body.to_user_id);
+
+    return NextResponse.json({ success: true, reassigned });
+  } catch (error: any) {
+    if (error instanceof PartnerTeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/partner-companies/[id]/team/[userId]/reassign:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { canManagePartnerTeam, PartnerTeamError, setPartnerTeamMemberActive } from '@/lib/partnerTeam';
+
+/**
+ * Deactivate or reactivate a member of the partner company.
+ * Body: { active: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (!canManagePartnerTeam(profile, params.id)) {
+      return NextResponse.json({ error: 'Only the primary contact can manage the team' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (typeof body?.active !== 'boolean') {
+      return NextResponse.json({ error: 'active must be true or false' }, { status: 400 });
+    }
+
+    const member = await setPartnerTeamMemberActive(supabaseAdmin, params.id, params.userId, body.active, profile);
+
+    return NextResponse.json({ success: true, member });
+  } catch (error: any) {
+    if (error instanceof PartnerTeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/partner-companies/[id]/team/[userId]/status:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  canManagePartnerTeam,
+  PartnerTeamError,
+  setMemberReferralVisibility,
+  validateReferralVisibility,
+} from '@/lib/partnerTeam';
+
+/**
+ * Override the firm's referral visibility for one member.
+ * Body: { referral_visibility: 'own' | 'firm' | null }, null to follow the firm setting
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (!canManagePartnerTeam(profile, params.id)) {
+      return NextResponse.json({ error: 'Only the primary contact can manage the team' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const visibility = validateReferralVisibility(body?.referral_visibility, true);
+
+    const member = await setMemberReferralVisibility(supabaseAdmin, params.id, params.userId, visibility);
+
+    return NextResponse.json({ success: true, member });
+  } catch (error: any) {
+    if (error instanceof PartnerTeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/partner-companies/[id]/team/[userId]/visibility:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  canManagePartnerTeam,
+  invitePartnerTeamMember,
+  PartnerTeamError,
+  validatePartnerTeamInvite,
+} from '@/lib/partnerTeam';
+
+/**
+ * Invite a colleague to the partner company. Primary contact of that company or admin.
+ * Body: { email, first_name, last_name }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (!canManagePartnerTeam(profile, params.id)) {
+      return NextResponse.json({ error: 'Only the primary contact can manage the team' }, { status: 403 });
+    }
+
+    const invite = validatePartnerTeamInvite(await request.json());
+    const { member, warning } = await invitePartnerTeamMember(supabaseAdmin, params.id, invite);
+
+    return NextResponse.json({ success: true, member, warning });
+  } catch (error: any) {
+    if (error instanceof PartnerTeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/partner-companies/[id]/team:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
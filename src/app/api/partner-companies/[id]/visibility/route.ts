@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  canManagePartnerTeam,
+  PartnerTeamError,
+  ReferralVisibility,
+  setFirmReferralVisibility,
+  validateReferralVisibility,
+} from '@/lib/partnerTeam';
+
+/**
+ * Choose whether the partner company's users see the whole firm's referrals or only
+ * their own. Body: { referral_visibility: 'own' | 'firm' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (!canManagePartnerTeam(profile, params.id)) {
+      return NextResponse.json({ error: 'Only the primary contact can manage the team' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const visibility = validateReferralVisibility(body?.referral_visibility, false) as ReferralVisibility;
+
+    await setFirmReferralVisibility(supabaseAdmin, params.id, visibility);
+
+    return NextResponse.json({ success: true, referral_visibility: visibility });
+  } catch (error: any) {
+    if (error instanceof PartnerTeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/partner-companies/[id]/visibility:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import { archiveReferralCampaign, ReferralCampaignError } from '@/lib/referralCampaigns';
+
+/**
+ * Stop a referral link recording clicks. Its owner or an admin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    const campaign = await archiveReferralCampaign(supabaseAdmin, params.id, profile);
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error: any) {
+    if (error instanceof ReferralCampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/referral-campaigns/[id]/archive:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/supabaseAdmin';
+import {
+  createReferralCampaign,
+  loadCampaignFunnels,
+  ReferralCampaignError,
+  validateCampaignName,
+} from '@/lib/referralCampaigns';
+
+/**
+ * Referral links with funnel stats. Partners get their own, creating a general link
+ * the first time so they always have one to share; admins pass ?partner_company_id=
+ * to see every link of that partner company.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, ['ADMIN', 'PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    if (profile.role === 'ADMIN') {
+      const partnerCompanyId = request.nextUrl.searchParams.get('partner_company_id');
+      if (!partnerCompanyId) {
+        return NextResponse.json({ error: 'partner_company_id is required' }, { status: 400 });
+      }
+      const campaigns = await loadCampaignFunnels(supabaseAdmin, { partnerCompanyId });
+      return NextResponse.json({ campaigns });
+    }
+
+    let campaigns = await loadCampaignFunnels(supabaseAdmin, { partnerUserId: profile.id });
+    if (campaigns.length === 0) {
+      await createReferralCampaign(supabaseAdmin, profile, 'General');
+      campaigns = await loadCampaignFunnels(supabaseAdmin, { partnerUserId: profile.id });
+    }
+
+    return NextResponse.json({ campaigns });
+  } catch (error: any) {
+    if (error instanceof ReferralCampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/referral-campaigns:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a named referral link for the calling partner.
+ * Body: { name }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(request, ['PARTNER']);
+    if ('response' in auth) return auth.response;
+    const { profile, supabaseAdmin } = auth;
+
+    const body = await request.json();
+    const campaign = await createReferralCampaign(supabaseAdmin, profile, validateCampaignName(body?.name));
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error: any) {
+    if (error instanceof ReferralCampaignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in /api/referral-campaigns:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,11 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { ApiError, authorizedJson } from '@/lib/apiClient';
 import { DashboardShell } from '@/components/layout';
+import { StageTimeline } from '@/components/application/StageTimeline';
+import { OfferComparison } from '@/components/offers';
+import { Offer, isOfferOpen } from '@/lib/offers';
 import { Card, CardContent, CardHeader, PageHeader, Badge, getStageBadgeVariant, formatStage, Button } from '@/components/ui';
 
 type AppDetail = {
@@ -42,6 +46,11 @@ const DOCUMENT_CATEGORIES = [
   { value: 'other', label: 'Other' },
 ];
 
+// A blocked stage change (409) lists every unmet condition
+function stageErrorMessage(err: any): string {
+  return err instanceof ApiError && err.body?.unmet?.length ? err.body.unmet.join('; ') : err.message;
+}
+
 export default function ApplicationDetailPage() {
   const { id } = useParams<{ id: string }>();
   const supabase = getSupabaseClient();
@@ -49,7 +58,7 @@ export default function ApplicationDetailPage() {
   const [app, setApp] = useState<AppDetail | null>(null);
   const [docs, setDocs] = useState<Document[]>([]);
   const [infoRequests, setInfoRequests] = useState<InfoRequest[]>([]);
-  const [offers, setOffers] = useState<any[]>([]);
+  const [offers, setOffers] = useState<Offer[]>([]);
   const [celebrating, setCelebrating] = useState(false);
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -177,10 +186,10 @@ export default function ApplicationDetailPage() {
           .eq('application_id', id)
           .order('created_at', { ascending: false });
         
-        setOffers(data || []);
+        setOffers((data || []) as Offer[]);
         
         // Trigger celebration if there are pending offers
-        if (data && data.some((o: any) => o.status === 'pending')) {
+        if (data && data.some((o) => isOfferOpen(o))) {
           setCelebrating(true);
           setTimeout(() => setCelebrating(false), 5000);
         }
@@ -237,6 +246,11 @@ export default function ApplicationDetailPage() {
 
   const handleAcceptOffer = async (offerId: string) => {
     if (!id) return;
+    const offer = offers.find((o) => o.id === offerId);
+    if (offer && !isOfferOpen(offer)) {
+      alert('This offer has expired. Please contact us if you would still like to proceed.');
+      return;
+    }
     
     const { error } = await supabase
       .from('offers')
@@ -247,11 +261,20 @@ export default function ApplicationDetailPage() {
       .eq('id', offerId);
 
     if (!error) {
-      // Move application to onboarding
-      await supabase
-        .from('applications')
-        .update({ stage: 'onboarding' })
-        .eq('id', id);
+      // Move application to onboarding; the server records the accepted lender
+      if (app?.stage === 'approved') {
+        try {
+          await authorizedJson(`/api/applications/${id}/stage`, {
+            method: 'POST',
+            body: JSON.stringify({ stage: 'onboarding' }),
+          });
+        } catch (err: any) {
+          // The offer is accepted either way; say what is blocking onboarding
+          setOffers(offers.map((o) => (o.id === offerId ? { ...o, status: 'accepted' } : o)));
+          alert('Your offer was accepted, but the application could not move to onboarding: ' + stageErrorMessage(err));
+          return;
+        }
+      }
       
       // Refresh data
       window.location.reload();
@@ -267,7 +290,7 @@ export default function ApplicationDetailPage() {
       .eq('id', offerId);
 
     if (!error) {
-      setOffers(offers.map((o: any) => 
+      setOffers(offers.map((o) => 
         o.id === offerId ? { ...o, status: 'declined' } : o
       ));
     } else {
@@ -289,11 +312,23 @@ export default function ApplicationDetailPage() {
       .eq('id', requestId);
 
     if (!error) {
-      // Optionally move application back to submitted
-      await supabase
-        .from('applications')
-        .update({ stage: 'submitted' })
-        .eq('id', id);
+      // Move application back to submitted once nothing else is outstanding
+      const stillOpen = infoRequests.some(
+        (r) => r.id !== requestId && (r.status === 'pending' || r.status === 'open')
+      );
+      if (app?.stage === 'info_required' && !stillOpen) {
+        try {
+          await authorizedJson(`/api/applications/${id}/stage`, {
+            method: 'POST',
+            body: JSON.stringify({ stage: 'submitted' }),
+          });
+        } catch (err: any) {
+          setInfoRequests(infoRequests.map((r) => (r.id === requestId ? { ...r, status: 'completed' } : r)));
+          alert('Your response was sent, but the application could not be resubmitted: ' + stageErrorMessage(err));
+          setSubmittingResponse(false);
+          return;
+        }
+      }
       
       // Refresh the page data
       window.location.reload();
@@ -375,14 +410,14 @@ export default function ApplicationDetailPage() {
       )}
 
       {/* Celebration Banner - show when there are new offers */}
-      {offers.some((o: any) => o.status === 'pending') && (
+      {offers.some((o) => isOfferOpen(o)) && (
         <div className="mb-6 relative overflow-hidden">
           <div className="bg-gradient-to-r from-green-500 via-emerald-500 to-teal-500 rounded-xl p-6 text-white">
             <div className="flex items-center gap-4">
               <div className="text-4xl">🎉</div>
               <div>
                 <h2 className="text-2xl font-bold">Great News!</h2>
-                <p className="text-green-100">You have {offers.filter((o: any) => o.status === 'pending').length} funding offer{offers.filter((o: any) => o.status === 'pending').length > 1 ? 's' : ''} waiting for you!</p>
+                <p className="text-green-100">You have {offers.filter((o) => isOfferOpen(o)).length} funding offer{offers.filter((o) => isOfferOpen(o)).length > 1 ? 's' : ''} waiting for you!</p>
               </div>
               <div className="text-4xl ml-auto">🎊</div>
             </div>
@@ -400,86 +435,15 @@ export default function ApplicationDetailPage() {
         </div>
       )}
 
-      {/* Offers Cards */}
+      {/* Offers comparison */}
       {offers.length > 0 && (
         <div className="mb-6">
-          <h2 className="text-lg font-semibold mb-4 text-[var(--color-text-primary)]">Your Offers</h2>
-          <div className="grid gap-4">
-            {offers.map((offer: any) => (
-              <div 
-                key={offer.id} 
-                className={`bg-[var(--color-surface)] rounded-xl border p-6 transition-all ${
-                  offer.status === 'pending' 
-                    ? 'border-[var(--color-success)] shadow-lg' 
-                    : offer.status === 'accepted'
-                    ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)]'
-                    : 'border-[var(--color-border)] opacity-60'
-                }`}
-              >
-                <div className="flex justify-between items-start">
-                  <div>
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="text-lg font-semibold text-[var(--color-text-primary)]">
-                        {offer.lender?.name || 'Lender'}
-                      </span>
-                      {offer.status === 'accepted' && (
-                        <span className="px-2 py-1 bg-[var(--color-success-light)] text-[var(--color-success)] text-xs rounded-full font-medium">
-                          ✓ Accepted
-                        </span>
-                      )}
-                      {offer.status === 'declined' && (
-                        <span className="px-2 py-1 bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] text-xs rounded-full font-medium">
-                          Declined
-                        </span>
-                      )}
-                    </div>
-                    
-                    <div className="text-3xl font-bold text-[var(--color-text-primary)] mb-4">
-                      £{Number(offer.amount).toLocaleString()}
-                    </div>
-                    
-                    <div className="grid grid-cols-3 gap-6 text-sm">
-                      <div>
-                        <p className="text-[var(--color-text-tertiary)]">Term</p>
-                        <p className="font-medium text-[var(--color-text-primary)]">{offer.loan_term || '—'}</p>
-                      </div>
-                      <div>
-                        <p className="text-[var(--color-text-tertiary)]">Cost of Funding</p>
-                        <p className="font-medium text-[var(--color-text-primary)]">{offer.cost_of_funding || '—'}</p>
-                      </div>
-                      <div>
-                        <p className="text-[var(--color-text-tertiary)]">Repayments</p>
-                        <p className="font-medium text-[var(--color-text-primary)]">{offer.repayments || '—'}</p>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  {offer.status === 'pending' && (
-                    <div className="flex flex-col gap-2">
-                      <button
-                        onClick={() => handleAcceptOffer(offer.id)}
-                        className="px-6 py-2 bg-[var(--color-success)] text-white rounded-lg hover:bg-[var(--color-success)] hover:opacity-90 font-medium transition-colors"
-                      >
-                        Accept Offer
-                      </button>
-                      <button
-                        onClick={() => handleDeclineOffer(offer.id)}
-                        className="px-6 py-2 border border-[var(--color-border)] text-[var(--color-text-secondary)] rounded-lg hover:bg-[var(--color-bg-tertiary)] font-medium transition-colors"
-                      >
-                        Decline
-                      </button>
-                    </div>
-                  )}
-                  
-                  {offer.status === 'accepted' && (
-                    <div className="text-right">
-                      <p className="text-sm text-[var(--color-text-tertiary)]">Accepted on</p>
-                      <p className="font-medium text-[var(--color-text-primary)]">{offer.accepted_at ? new Date(offer.accepted_at).toLocaleDateString('en-GB') : '—'}</p>
-                    </div>
-                  )}
-                </div>
-              </div>
-            ))}
+          <h2 className="text-lg font-semibold mb-1 text-[var(--color-text-primary)]">Your Offers</h2>
+          <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+            Total cost of credit includes interest and fees, so offers can be compared like for like.
+          </p>
+          <div className="bg-[var(--color-surface)] rounded-xl border border-[var(--color-border)] p-2">
+            <OfferComparison offers={offers} onAccept={handleAcceptOffer} onDecline={handleDeclineOffer} />
           </div>
         </div>
       )}
@@ -623,6 +587,9 @@ export default function ApplicationDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Stage history */}
+          {app && <StageTimeline applicationId={app.id} viewerRole="CLIENT" currentStage={app.stage} />}
         </div>
 
         {/* Sidebar - Documents */}
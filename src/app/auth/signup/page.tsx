@@ -5,6 +5,7 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
 import { useRouter, useSearchParams } from 'next/navigation';
 
 const accountSchema = z.object({
@@ -44,6 +45,10 @@ function SignupContent() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Set when loading a selected company's details failed, so Retry repeats that
+  const [failedCompany, setFailedCompany] = useState<any | null>(null);
   const [manualEntry, setManualEntry] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -55,7 +60,8 @@ function SignupContent() {
     resolver: zodResolver(accountSchema),
   });
 
-  // Get referrer and lead from URL
+  // Get referrer and lead from URL. Partner links (/r/<code>) only carry lead_id and the
+  // referrer is attributed server-side; ref=<partner id> is from older links.
   useEffect(() => {
     const ref = searchParams.get('ref');
     if (ref) setReferrerId(ref);
@@ -97,15 +103,23 @@ function SignupContent() {
     if (!searchQuery.trim() || searchQuery.length < 2) return;
     
     setIsSearching(true);
+    setSearchError(null);
+    setFailedCompany(null);
     try {
       const response = await fetch(`/api/companies-house/search?q=${encodeURIComponent(searchQuery)}`);
-      const data = await response.json();
-      
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Companies House search is unavailable');
+      }
+
       // API returns { results: [...] }
       setSearchResults(data.results || []);
-    } catch (err) {
+      setSearchedQuery(searchQuery);
+    } catch (err: any) {
       console.error('CH search error:', err);
       setSearchResults([]);
+      setSearchError(err.message || 'Companies House search is unavailable');
     } finally {
       setIsSearching(false);
     }
@@ -113,10 +127,16 @@ function SignupContent() {
 
   const selectCompany = async (company: any) => {
     // Fetch full company details from Companies House
+    setSearchError(null);
+    setFailedCompany(null);
     try {
       const response = await fetch(`/api/companies-house/company/${company.company_number}`);
-      const data = await response.json();
-      
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch company details');
+      }
+
       // API returns { company: {...}, officers: [...] }
       const fullData = data.company;
       const address = fullData.registered_office_address || {};
@@ -135,9 +155,18 @@ function SignupContent() {
       });
       
       setStep(3);
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error fetching company details:', err);
-      setFormError('Failed to fetch company details');
+      setSearchError(`Couldn't load details for ${company.company_name}: ${err.message}`);
+      setFailedCompany(company);
+    }
+  };
+
+  const retryCompaniesHouse = () => {
+    if (failedCompany) {
+      selectCompany(failedCompany);
+    } else {
+      searchCompaniesHouse();
     }
   };
 
@@ -333,21 +362,23 @@ function SignupContent() {
         throw new Error('Failed to link company to profile. Please try again or contact support.');
       }
 
-      // 6. Handle lead conversion if applicable (non-blocking)
-    if (leadId) {
-        supabase
-        .from('leads')
-        .update({
-            user_id: userId,
-          converted_at: new Date().toISOString(),
-          status: 'converted',
-        })
-          .eq('id', leadId)
-          .then(({ error }) => {
-            if (error) {
-              console.error('[Signup] Lead conversion error:', error);
-            }
-          });
+      // 5b. Verify the company against Companies House on the server, which sets the
+      // verified flag. Manually entered companies are checked by the team later.
+      if (companyData.companiesHouseData && companyData.companyNumber) {
+        await authorizedJson(`/api/companies/${newCompany.id}/verify`, {
+          method: 'POST',
+          body: JSON.stringify({ company_number: companyData.companyNumber }),
+        }).catch((error) => {
+          console.error('[Signup] Companies House verification error:', error);
+        });
+      }
+
+      // 6. Convert the referral lead, which also attributes the company to the
+      // referring partner. Awaited so the redirect doesn't cancel it; failures don't block signup.
+      if (leadId) {
+        await authorizedJson(`/api/leads/${leadId}/convert`, { method: 'POST' }).catch((error) => {
+          console.error('[Signup] Lead conversion error:', error);
+        });
       }
 
       // 7. Verify session before redirect
@@ -419,7 +450,7 @@ function SignupContent() {
         <>
       <h1 className="text-2xl font-semibold text-[var(--color-text-primary)]">Create your account</h1>
 
-      {referrerId && (
+      {(referrerId || leadId) && (
         <p className="text-sm text-[var(--color-text-secondary)]">
               You were referred by a partner. We&apos;ll link your account automatically.
         </p>
@@ -486,6 +517,32 @@ function SignupContent() {
                 )}
         </div>
 
+              {searchError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                  <p className="text-red-600 text-sm">{searchError}</p>
+                  <div className="flex gap-4">
+                    <button
+                      onClick={retryCompaniesHouse}
+                      className="text-sm text-[var(--color-accent)] hover:underline"
+                    >
+                      Try again
+                    </button>
+                    <button
+                      onClick={() => setManualEntry(true)}
+                      className="text-sm text-[var(--color-accent)] hover:underline"
+                    >
+                      Enter details manually
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {!searchError && !isSearching && searchedQuery && searchedQuery === searchQuery && searchResults.length === 0 && (
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                  No companies found matching &ldquo;{searchedQuery}&rdquo;.
+                </p>
+              )}
+
               {/* Search results */}
               {searchResults.length > 0 && (
                 <div className="border border-[var(--color-border)] rounded-lg divide-y divide-[var(--color-border)] max-h-64 overflow-y-auto">
@@ -547,6 +604,11 @@ function SignupContent() {
                   Company No: {companyData.companyNumber}
                 </p>
               )}
+              {!companyData.companiesHouseData && (
+                <p className="text-xs text-yellow-800 mt-1">
+                  Not verified with Companies House. Our team will check these details.
+                </p>
+              )}
         </div>
 
             {companyData.addressLine1 && (
@@ -628,6 +690,10 @@ function ManualCompanyForm({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-[var(--color-text-secondary)]">
+        Details entered manually are marked as unverified until we can match them at Companies House.
+      </p>
+
       <div>
         <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
           Company Name <span className="text-red-600">*</span>
@@ -7,7 +7,9 @@ import Link from 'next/link';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
 import { Card, CardContent, CardHeader, PageHeader, Badge, getStageBadgeVariant, formatStage, Button, EmptyState } from '@/components/ui';
+import { Offer, calculateOfferCosts, isOfferOpen, formatOfferRate, formatOfferRepayments, formatOfferTerm } from '@/lib/offers';
 import { SummaryCard } from '@/components/dashboard/SummaryCard';
+import { ReferralCampaignsCard } from '@/components/referrals';
 import { ApplicationsChart } from '@/components/dashboard/ApplicationsChart';
 import { ApplicationsOverTimeChart } from '@/components/dashboard/ApplicationsOverTimeChart';
 import { FileText, TrendingUp, PoundSterling, Calendar, CheckCircle2, Circle, AlertTriangle, Upload, Building2, ExternalLink, MessageSquare } from 'lucide-react';
@@ -39,19 +41,6 @@ type InfoRequest = {
   created_at: string;
 };
 
-type Offer = {
-  id: string;
-  amount: number;
-  loan_term: string;
-  cost_of_funding: string;
-  repayments: string;
-  status: string;
-  lender?: {
-    id: string;
-    name: string;
-  } | null;
-};
-
 type Document = {
   id: string;
   category: string;
@@ -633,7 +622,7 @@ function ClientDashboardContent({ userId }: { userId: string }) {
                 <div
                   key={offer.id}
                   className={`border rounded-lg p-5 transition-all ${
-                    offer.status === 'pending'
+                    isOfferOpen(offer)
                       ? 'border-[var(--color-success)] bg-green-50 shadow-sm'
                       : offer.status === 'accepted'
                       ? 'border-[var(--color-accent)] bg-blue-50'
@@ -663,19 +652,28 @@ function ClientDashboardContent({ userId }: { userId: string }) {
                     <div>
                       <span className="text-[var(--color-text-secondary)]">Term:</span>
                       <span className="font-medium text-[var(--color-text-primary)] ml-2">
-                        {offer.loan_term}
+                        {formatOfferTerm(offer)}
                       </span>
                     </div>
                     <div>
-                      <span className="text-[var(--color-text-secondary)]">Monthly Repayment:</span>
+                      <span className="text-[var(--color-text-secondary)]">Repayments:</span>
                       <span className="font-medium text-[var(--color-text-primary)] ml-2">
-                        {offer.repayments}
+                        {formatOfferRepayments(offer)}
                       </span>
                     </div>
-                    <div className="col-span-2">
-                      <span className="text-[var(--color-text-secondary)]">Total Cost:</span>
+                    <div>
+                      <span className="text-[var(--color-text-secondary)]">Rate:</span>
                       <span className="font-medium text-[var(--color-text-primary)] ml-2">
-                        {offer.cost_of_funding}
+                        {formatOfferRate(offer)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-[var(--color-text-secondary)]">Total Cost of Credit:</span>
+                      <span className="font-medium text-[var(--color-text-primary)] ml-2">
+                        {(() => {
+                          const { totalCostOfCredit } = calculateOfferCosts(offer);
+                          return totalCostOfCredit != null ? formatCurrency(totalCostOfCredit) : '—';
+                        })()}
                       </span>
                     </div>
                   </div>
@@ -686,7 +684,7 @@ function ClientDashboardContent({ userId }: { userId: string }) {
                         View Details
                 </Button>
               </Link>
-                    {offer.status === 'pending' && (
+                    {isOfferOpen(offer) && (
                       <Link href={`/applications/${application.id}`} className="flex-1">
                 <Button variant="primary" className="w-full">
                           Accept Offer
@@ -814,7 +812,6 @@ function ClientDashboardContent({ userId }: { userId: string }) {
 
 function PartnerDashboardContent({ userId }: { userId: string }) {
   const supabase = useMemo(() => getSupabaseClient(), []);
-  const [referralLink, setReferralLink] = useState('');
   const [clients, setClients] = useState<ReferredClient[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
   const [stats, setStats] = useState({
@@ -825,12 +822,6 @@ function PartnerDashboardContent({ userId }: { userId: string }) {
   });
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      setReferralLink(`${window.location.origin}/auth/signup?ref=${userId}`);
-    }
-  }, [userId]);
-
   useEffect(() => {
     const loadData = async () => {
       // CRITICAL: Verify authenticated user ID matches userId prop
@@ -1028,9 +1019,9 @@ function PartnerDashboardContent({ userId }: { userId: string }) {
         </Card>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-6">
         {/* Applications List */}
-        <div className="lg:col-span-2">
+        <div>
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -1089,38 +1080,8 @@ function PartnerDashboardContent({ userId }: { userId: string }) {
           </Card>
         </div>
 
-        {/* Sidebar */}
-        <div className="space-y-6">
-          {/* Referral Link */}
-          <Card>
-            <CardHeader>
-              <h2 className="font-medium text-gray-900">Your Referral Link</h2>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <p className="text-sm text-gray-500">
-                Share this link with clients to automatically link them to you.
-              </p>
-              <div className="flex gap-2">
-                <input
-                  readOnly
-                  value={referralLink}
-                  className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600"
-                />
-                <Button
-                  variant="secondary"
-                  size="sm"
-                  onClick={() => {
-                    if (navigator.clipboard && referralLink) {
-                      navigator.clipboard.writeText(referralLink);
-                    }
-                  }}
-                >
-                  Copy
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+        {/* Referral links and their funnel */}
+        <ReferralCampaignsCard editable />
       </div>
     </>
   );
@@ -4,8 +4,10 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { Offer, calculateOfferCosts, formatCurrency, formatOfferRate, formatOfferRepayments, formatOfferTerm } from '@/lib/offers';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
+import { StageTimeline } from '@/components/application/StageTimeline';
 import { Card, CardContent, CardHeader, Badge, Button } from '@/components/ui';
 
 type Application = {
@@ -34,20 +36,6 @@ type Application = {
   } | null;
 };
 
-type Offer = {
-  id: string;
-  amount: number;
-  loan_term: string;
-  cost_of_funding: string;
-  repayments: string;
-  status: string;
-  created_at: string;
-  lender?: {
-    id: string;
-    name: string;
-  } | null;
-};
-
 type InfoRequest = {
   id: string;
   message: string;
@@ -133,7 +121,7 @@ export default function PartnerApplicationDetailPage() {
           .select('*, lender:lender_id(id, name)')
           .eq('application_id', id)
           .order('created_at', { ascending: false });
-        setOffers(offersData || []);
+        setOffers((offersData || []) as Offer[]);
       }
 
       // Fetch information requests
@@ -300,6 +288,8 @@ export default function PartnerApplicationDetailPage() {
             </Card>
           )}
 
+          {/* Stage history */}
+          <StageTimeline applicationId={application.id} viewerRole="PARTNER" currentStage={application.stage} />
         </div>
 
         {/* Sidebar */}
@@ -382,19 +372,23 @@ export default function PartnerApplicationDetailPage() {
                       <div className="grid grid-cols-2 gap-3 text-sm">
                         <div>
                           <p className="text-[var(--color-text-tertiary)] text-xs">Amount</p>
-                          <p className="font-medium text-[var(--color-text-primary)]">£{offer.amount?.toLocaleString()}</p>
+                          <p className="font-medium text-[var(--color-text-primary)]">{formatCurrency(offer.amount)}</p>
                         </div>
                         <div>
                           <p className="text-[var(--color-text-tertiary)] text-xs">Loan Term</p>
-                          <p className="font-medium text-[var(--color-text-primary)]">{offer.loan_term}</p>
+                          <p className="font-medium text-[var(--color-text-primary)]">{formatOfferTerm(offer)}</p>
                         </div>
                         <div>
-                          <p className="text-[var(--color-text-tertiary)] text-xs">Cost of Funding</p>
-                          <p className="font-medium text-[var(--color-text-primary)]">{offer.cost_of_funding}</p>
+                          <p className="text-[var(--color-text-tertiary)] text-xs">Rate</p>
+                          <p className="font-medium text-[var(--color-text-primary)]">{formatOfferRate(offer)}</p>
                         </div>
                         <div>
                           <p className="text-[var(--color-text-tertiary)] text-xs">Repayments</p>
-                          <p className="font-medium text-[var(--color-text-primary)]">{offer.repayments}</p>
+                          <p className="font-medium text-[var(--color-text-primary)]">{formatOfferRepayments(offer)}</p>
+                        </div>
+                        <div>
+                          <p className="text-[var(--color-text-tertiary)] text-xs">Total Cost of Credit</p>
+                          <p className="font-medium text-[var(--color-text-primary)]">{formatCurrency(calculateOfferCosts(offer).totalCostOfCredit)}</p>
                         </div>
                       </div>
                     </div>
@@ -5,6 +5,8 @@ import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
+import { FilterButtons } from '@/components/ui';
+import { memberName } from '@/lib/partnerTeam';
 
 type PartnerApplication = {
   id: string;
@@ -17,6 +19,12 @@ type PartnerApplication = {
   prospective_client_email: string | null;
   company?: {
     name: string;
+    referrer?: {
+      id: string;
+      first_name: string | null;
+      last_name: string | null;
+      email: string;
+    } | null;
   } | null;
   owner?: {
     id: string;
@@ -30,6 +38,7 @@ export default function PartnerApplicationsPage() {
   const [apps, setApps] = useState<PartnerApplication[]>([]);
   const [loadingApps, setLoadingApps] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [referrerFilter, setReferrerFilter] = useState('all');
 
   useEffect(() => {
     const load = async () => {
@@ -104,7 +113,7 @@ export default function PartnerApplicationsPage() {
             is_hidden,
             prospective_client_email,
             company_id,
-            company:companies(name)
+            company:companies(name, referrer:referred_by(id, first_name, last_name, email))
           `
         )
         .in('company_id', companyIds)
@@ -184,6 +193,25 @@ export default function PartnerApplicationsPage() {
     );
   }
 
+  // Only applications the user is allowed to see are returned (see partner_can_see_referral),
+  // so the filter lists whoever referred the companies on screen
+  const referrers: Record<string, string> = {};
+  apps.forEach((a) => {
+    const referrer = a.company?.referrer;
+    if (referrer) referrers[referrer.id] = referrer.id === user.id ? 'Me' : memberName(referrer);
+  });
+  const referrerOptions = [
+    { value: 'all', label: 'All', count: apps.length },
+    ...Object.keys(referrers)
+      .sort((a, b) => (a === user.id ? -1 : b === user.id ? 1 : referrers[a].localeCompare(referrers[b])))
+      .map((id) => ({
+        value: id,
+        label: referrers[id],
+        count: apps.filter((a) => a.company?.referrer?.id === id).length,
+      })),
+  ];
+  const filteredApps = referrerFilter === 'all' ? apps : apps.filter((a) => a.company?.referrer?.id === referrerFilter);
+
   return (
     <DashboardShell>
       <div className="space-y-6">
@@ -205,6 +233,13 @@ export default function PartnerApplicationsPage() {
           </div>
         )}
 
+        {referrerOptions.length > 2 && (
+          <div>
+            <p className="text-xs font-medium text-[var(--color-text-tertiary)] mb-2">Referred by</p>
+            <FilterButtons options={referrerOptions} value={referrerFilter} onChange={setReferrerFilter} />
+          </div>
+        )}
+
         {apps.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-[var(--color-text-secondary)] text-sm">
@@ -213,7 +248,7 @@ export default function PartnerApplicationsPage() {
           </div>
         ) : (
           <div className="space-y-3">
-            {apps.map((a) => {
+            {filteredApps.map((a) => {
               const isDraft = a.is_hidden;
               const hasOwner = !!a.owner?.id;
 
@@ -230,6 +265,7 @@ export default function PartnerApplicationsPage() {
                   <div>
                     <p className="text-sm text-[var(--color-text-tertiary)]">
                       {a.company?.name ?? 'Company pending'} • {clientLabel}
+                      {a.company?.referrer && a.company.referrer.id !== user.id && ` • referred by ${memberName(a.company.referrer)}`}
                     </p>
                     <p className="text-lg font-semibold text-[var(--color-text-primary)]">
                       £{a.requested_amount.toLocaleString()} – {a.loan_type}
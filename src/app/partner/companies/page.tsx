@@ -5,7 +5,8 @@ import Link from 'next/link';
 import { getSupabaseClient } from '@/lib/supabaseClient';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { DashboardShell } from '@/components/layout';
-import { Card, CardContent, Badge, Button, EmptyState } from '@/components/ui';
+import { Card, CardContent, Badge, Button, EmptyState, FilterButtons } from '@/components/ui';
+import { memberName } from '@/lib/partnerTeam';
 
 type Company = {
   id: string;
@@ -15,6 +16,12 @@ type Company = {
   website: string | null;
   created_at: string;
   owner_email: string | null;
+  referrer: {
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  } | null;
   applications_count: number;
   open_applications_count: number;
 };
@@ -26,6 +33,7 @@ export default function PartnerCompaniesPage() {
   const [companies, setCompanies] = useState<Company[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [referrerFilter, setReferrerFilter] = useState('all');
 
   useEffect(() => {
     if (loading || !user) return;
@@ -104,6 +112,7 @@ export default function PartnerCompaniesPage() {
         website: c.website,
         created_at: c.created_at,
         owner_email: directorMap[c.id] || null,
+        referrer: c.referrer || null,
         applications_count: c.applications?.length || 0,
         open_applications_count: c.applications?.filter((a: any) => !closedStages.includes(a.stage)).length || 0,
       }));
@@ -141,6 +150,25 @@ export default function PartnerCompaniesPage() {
 
   if (!user) return null;
 
+  // Only referrals the user is allowed to see are returned (see partner_can_see_referral),
+  // so the filter lists whoever referred the companies on screen
+  const referrers: Record<string, string> = {};
+  companies.forEach((c) => {
+    if (c.referrer) referrers[c.referrer.id] = c.referrer.id === user.id ? 'Me' : memberName(c.referrer);
+  });
+  const referrerOptions = [
+    { value: 'all', label: 'All', count: companies.length },
+    ...Object.keys(referrers)
+      .sort((a, b) => (a === user.id ? -1 : b === user.id ? 1 : referrers[a].localeCompare(referrers[b])))
+      .map((id) => ({
+        value: id,
+        label: referrers[id],
+        count: companies.filter((c) => c.referrer?.id === id).length,
+      })),
+  ];
+  const filteredCompanies =
+    referrerFilter === 'all' ? companies : companies.filter((c) => c.referrer?.id === referrerFilter);
+
   return (
     <DashboardShell>
       {/* Header */}
@@ -160,6 +188,13 @@ export default function PartnerCompaniesPage() {
         </div>
       )}
 
+      {referrerOptions.length > 2 && (
+        <div>
+          <p className="text-xs font-medium text-[var(--color-text-tertiary)] mb-2">Referred by</p>
+          <FilterButtons options={referrerOptions} value={referrerFilter} onChange={setReferrerFilter} />
+        </div>
+      )}
+
       {companies.length === 0 ? (
         <Card>
           <CardContent className="py-12">
@@ -181,7 +216,7 @@ export default function PartnerCompaniesPage() {
         </Card>
       ) : (
         <div className="space-y-3">
-          {companies.map((c) => (
+          {filteredCompanies.map((c) => (
             <Link key={c.id} href={`/partner/companies/${c.id}`} className="block">
               <div className="bg-[var(--color-surface)] rounded-lg border border-[var(--color-border)] p-4 hover:shadow-md hover:border-[var(--color-border)] transition-all cursor-pointer">
                 <div className="flex flex-wrap items-center justify-between gap-4">
@@ -199,6 +234,9 @@ export default function PartnerCompaniesPage() {
                     <div className="flex items-center gap-4 text-sm text-[var(--color-text-tertiary)]">
                       {c.industry && <span>{c.industry}</span>}
                       {c.owner_email && <span>{c.owner_email}</span>}
+                      {c.referrer && (
+                        <span>Referred by {c.referrer.id === user.id ? 'you' : memberName(c.referrer)}</span>
+                      )}
                     </div>
                     <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
                       Added {new Date(c.created_at).toLocaleDateString('en-GB')}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { DashboardShell } from '@/components/layout';
+import { Card, CardContent } from '@/components/ui';
+import { CommissionLedgerCard, CommissionPlanCard, CommissionStatementsCard } from '@/components/commission';
+
+type EarningsSummary = {
+  next_statement: number;
+  awaiting_payment: number;
+  paid_this_year: number;
+  default_commission_rate: number | null;
+};
+
+function formatAmount(value: number) {
+  const formatted = `£${Math.abs(value).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+export default function PartnerEarningsPage() {
+  const { user, profile, loading } = useUserProfile();
+  const supabase = getSupabaseClient();
+  const [summary, setSummary] = useState<EarningsSummary | null>(null);
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const partnerCompanyId = profile?.partner_company_id || null;
+
+  useEffect(() => {
+    if (loading || !user) return;
+    if (profile?.role !== 'PARTNER' || !partnerCompanyId) {
+      setLoadingData(false);
+      return;
+    }
+
+    const loadSummary = async () => {
+      const [
+        { data: partnerCompany, error: partnerError },
+        { data: entries, error: entriesError },
+        { data: statements, error: statementsError },
+      ] = await Promise.all([
+        supabase.from('partner_companies').select('default_commission_rate').eq('id', partnerCompanyId).single(),
+        supabase
+          .from('commission_entries')
+          .select('amount')
+          .eq('partner_company_id', partnerCompanyId)
+          .eq('status', 'accrued')
+          .is('statement_id', null),
+        supabase
+          .from('commission_statements')
+          .select('total, status, paid_at')
+          .eq('partner_company_id', partnerCompanyId),
+      ]);
+
+      if (partnerError || entriesError || statementsError) {
+        console.error('Error loading earnings:', partnerError || entriesError || statementsError);
+        setError('Error loading your earnings');
+        setLoadingData(false);
+        return;
+      }
+
+      const yearStart = new Date(new Date().getFullYear(), 0, 1).getTime();
+      setSummary({
+        next_statement: (entries || []).reduce((sum, e) => sum + Number(e.amount), 0),
+        awaiting_payment: (statements || [])
+          .filter((s) => s.status === 'issued')
+          .reduce((sum, s) => sum + Number(s.total), 0),
+        paid_this_year: (statements || [])
+          .filter((s) => s.status === 'paid' && s.paid_at && new Date(s.paid_at).getTime() >= yearStart)
+          .reduce((sum, s) => sum + Number(s.total), 0),
+        default_commission_rate: partnerCompany?.default_commission_rate ?? null,
+      });
+      setLoadingData(false);
+    };
+
+    loadSummary();
+  }, [user, profile?.role, partnerCompanyId, loading, supabase]);
+
+  if (loading || loadingData) {
+    return (
+      <DashboardShell>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-sm text-[var(--color-text-tertiary)]">Loading earnings...</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (profile?.role !== 'PARTNER') {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">Access Denied</p>
+          <p className="text-sm text-[var(--color-text-tertiary)] mt-1">
+            This page is only available to users with the PARTNER role.
+          </p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (!partnerCompanyId || error || !summary) {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">{error || 'Partner company not found'}</p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  const tiles = [
+    { label: 'Towards next statement', value: summary.next_statement },
+    { label: 'Issued, awaiting payment', value: summary.awaiting_payment },
+    { label: 'Paid this year', value: summary.paid_this_year },
+  ];
+
+  return (
+    <DashboardShell>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--color-text-primary)]">Earnings</h1>
+          <p className="text-[var(--color-text-secondary)]">
+            Commission on funded deals for clients your firm referred. Statements are issued monthly and paid to the bank
+            account on your company profile.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {tiles.map((tile) => (
+            <Card key={tile.label}>
+              <CardContent>
+                <p className="text-xs text-[var(--color-text-tertiary)]">{tile.label}</p>
+                <p className="text-2xl font-semibold text-[var(--color-text-primary)]">{formatAmount(tile.value)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <CommissionStatementsCard partnerCompanyId={partnerCompanyId} />
+            <CommissionLedgerCard partnerCompanyId={partnerCompanyId} />
+          </div>
+          <div>
+            <CommissionPlanCard
+              partnerCompanyId={partnerCompanyId}
+              defaultCommissionRate={summary.default_commission_rate}
+            />
+          </div>
+        </div>
+      </div>
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,395 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { authorizedJson } from '@/lib/apiClient';
+import { effectiveReferralVisibility, memberName, REFERRAL_VISIBILITY_LABELS } from '@/lib/partnerTeam';
+import type { PartnerTeamMember, ReferralVisibility } from '@/lib/partnerTeam';
+import { DashboardShell } from '@/components/layout';
+import { Badge, Button, Card, CardContent, CardHeader } from '@/components/ui';
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+export default function PartnerTeamPage() {
+  const { user, profile, loading } = useUserProfile();
+  const supabase = getSupabaseClient();
+  const [members, setMembers] = useState<PartnerTeamMember[]>([]);
+  const [firmVisibility, setFirmVisibility] = useState<ReferralVisibility>('firm');
+  const [savingVisibility, setSavingVisibility] = useState(false);
+  // Companies each member referred for the firm, by profile id
+  const [referralCounts, setReferralCounts] = useState<Record<string, number>>({});
+  const [loadingData, setLoadingData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteFirstName, setInviteFirstName] = useState('');
+  const [inviteLastName, setInviteLastName] = useState('');
+  const [inviting, setInviting] = useState(false);
+  const [inviteStatus, setInviteStatus] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [reassignTargets, setReassignTargets] = useState<Record<string, string>>({});
+
+  const partnerCompanyId = profile?.partner_company_id || null;
+  const canManage = profile?.is_primary_contact === true;
+
+  useEffect(() => {
+    if (loading || !user) return;
+    if (profile?.role !== 'PARTNER' || !partnerCompanyId) {
+      setLoadingData(false);
+      return;
+    }
+
+    const loadTeam = async () => {
+      const [
+        { data: partnerCompany, error: partnerError },
+        { data: membersData, error: membersError },
+        { data: companiesData, error: companiesError },
+      ] = await Promise.all([
+        supabase.from('partner_companies').select('referral_visibility').eq('id', partnerCompanyId).single(),
+        supabase
+          .from('profiles')
+          .select('id, first_name, last_name, email, is_primary_contact, referral_visibility, deactivated_at, created_at')
+          .eq('partner_company_id', partnerCompanyId)
+          .eq('role', 'PARTNER')
+          .order('is_primary_contact', { ascending: false })
+          .order('created_at', { ascending: true }),
+        supabase.from('companies').select('referred_by').eq('partner_company_id', partnerCompanyId),
+      ]);
+
+      if (partnerError || membersError || companiesError) {
+        console.error('Error loading team:', partnerError || membersError || companiesError);
+        setError('Error loading your team');
+        setLoadingData(false);
+        return;
+      }
+
+      const counts: Record<string, number> = {};
+      (companiesData || []).forEach((company: any) => {
+        if (company.referred_by) counts[company.referred_by] = (counts[company.referred_by] || 0) + 1;
+      });
+
+      setFirmVisibility((partnerCompany?.referral_visibility as ReferralVisibility) || 'firm');
+      setMembers((membersData || []) as PartnerTeamMember[]);
+      setReferralCounts(counts);
+      setLoadingData(false);
+    };
+
+    loadTeam();
+  }, [loading, user, profile?.role, partnerCompanyId, supabase, reloadKey]);
+
+  const handleInvite = async () => {
+    if (!partnerCompanyId) return;
+    setInviting(true);
+    setInviteStatus(null);
+    try {
+      const { warning } = await authorizedJson<{ warning?: string }>(`/api/partner-companies/${partnerCompanyId}/team`, {
+        method: 'POST',
+        body: JSON.stringify({ email: inviteEmail, first_name: inviteFirstName, last_name: inviteLastName }),
+      });
+      setInviteStatus(warning || `Invitation sent to ${inviteEmail.trim()}`);
+      setInviteEmail('');
+      setInviteFirstName('');
+      setInviteLastName('');
+      setReloadKey((key) => key + 1);
+    } catch (err: any) {
+      alert('Error inviting team member: ' + err.message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleFirmVisibility = async (visibility: ReferralVisibility) => {
+    if (!partnerCompanyId) return;
+    setSavingVisibility(true);
+    try {
+      await authorizedJson(`/api/partner-companies/${partnerCompanyId}/visibility`, {
+        method: 'POST',
+        body: JSON.stringify({ referral_visibility: visibility }),
+      });
+      setFirmVisibility(visibility);
+    } catch (err: any) {
+      alert('Error saving visibility: ' + err.message);
+    } finally {
+      setSavingVisibility(false);
+    }
+  };
+
+  const handleMemberVisibility = async (member: PartnerTeamMember, visibility: ReferralVisibility | null) => {
+    if (!partnerCompanyId) return;
+    setUpdatingId(member.id);
+    try {
+      const { member: updated } = await authorizedJson<{ member: PartnerTeamMember }>(
+        `/api/partner-companies/${partnerCompanyId}/team/${member.id}/visibility`,
+        { method: 'POST', body: JSON.stringify({ referral_visibility: visibility }) }
+      );
+      setMembers((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    } catch (err: any) {
+      alert('Error saving visibility: ' + err.message);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleSetActive = async (member: PartnerTeamMember, active: boolean) => {
+    if (!partnerCompanyId) return;
+    if (!active && !confirm(`Deactivate ${memberName(member)}? They will no longer be able to sign in.`)) return;
+
+    setUpdatingId(member.id);
+    try {
+      const { member: updated } = await authorizedJson<{ member: PartnerTeamMember }>(
+        `/api/partner-companies/${partnerCompanyId}/team/${member.id}/status`,
+        { method: 'POST', body: JSON.stringify({ active }) }
+      );
+      setMembers((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    } catch (err: any) {
+      alert('Error updating team member: ' + err.message);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleReassign = async (member: PartnerTeamMember) => {
+    const toUserId = reassignTargets[member.id];
+    if (!partnerCompanyId || !toUserId) return;
+
+    setUpdatingId(member.id);
+    try {
+      const { reassigned } = await authorizedJson<{ reassigned: number }>(
+        `/api/partner-companies/${partnerCompanyId}/team/${member.id}/reassign`,
+        { method: 'POST', body: JSON.stringify({ to_user_id: toUserId }) }
+      );
+      setReferralCounts((prev) => ({
+        ...prev,
+        [member.id]: 0,
+        [toUserId]: (prev[toUserId] || 0) + reassigned,
+      }));
+      setReassignTargets((prev) => ({ ...prev, [member.id]: '' }));
+    } catch (err: any) {
+      alert('Error reassigning companies: ' + err.message);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading || loadingData) {
+    return (
+      <DashboardShell>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-3">
+            <div className="w-8 h-8 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-sm text-[var(--color-text-tertiary)]">Loading team...</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (profile?.role !== 'PARTNER') {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">Access Denied</p>
+          <p className="text-sm text-[var(--color-text-tertiary)] mt-1">
+            This page is only available to users with the PARTNER role.
+          </p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (!partnerCompanyId || error) {
+    return (
+      <DashboardShell>
+        <div className="text-center py-12">
+          <p className="text-[var(--color-error)] font-medium">{error || 'Partner company not found'}</p>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  const activeMembers = members.filter((m) => !m.deactivated_at);
+
+  return (
+    <DashboardShell>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--color-text-primary)]">Team</h1>
+          <p className="text-[var(--color-text-secondary)]">
+            Everyone at your firm who can refer clients and follow their applications.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <h2 className="font-medium text-[var(--color-text-primary)]">Members</h2>
+                  <span className="text-sm text-[var(--color-text-tertiary)]">{activeMembers.length} active</span>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y divide-[var(--color-border)]">
+                  {members.map((member) => {
+                    const referrals = referralCounts[member.id] || 0;
+                    const colleagues = activeMembers.filter((m) => m.id !== member.id);
+
+                    return (
+                      <div key={member.id} className="px-6 py-4">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="text-sm font-medium text-[var(--color-text-primary)] truncate">
+                                {memberName(member)}
+                              </p>
+                              {member.is_primary_contact && (
+                                <Badge variant="success" size="sm">Primary contact</Badge>
+                              )}
+                              {member.deactivated_at && (
+                                <Badge variant="default" size="sm">Deactivated</Badge>
+                              )}
+                            </div>
+                            <p className="text-xs text-[var(--color-text-tertiary)] truncate">
+                              {member.email} • {referrals} referred {referrals === 1 ? 'company' : 'companies'} • sees{' '}
+                              {REFERRAL_VISIBILITY_LABELS[effectiveReferralVisibility(member, firmVisibility)].toLowerCase()}
+                            </p>
+                          </div>
+                          {canManage && member.id !== user?.id && !member.is_primary_contact && (
+                            <Button
+                              size="sm"
+                              variant={member.deactivated_at ? 'outline' : 'danger'}
+                              onClick={() => handleSetActive(member, !!member.deactivated_at)}
+                              loading={updatingId === member.id}
+                            >
+                              {member.deactivated_at ? 'Reactivate' : 'Deactivate'}
+                            </Button>
+                          )}
+                        </div>
+
+                        {canManage && !member.is_primary_contact && !member.deactivated_at && (
+                          <div className="mt-3 flex items-center gap-2">
+                            <span className="text-xs text-[var(--color-text-secondary)] flex-shrink-0">Can see</span>
+                            <select
+                              className={inputClass}
+                              value={member.referral_visibility || ''}
+                              onChange={(e) => handleMemberVisibility(member, (e.target.value || null) as ReferralVisibility | null)}
+                              disabled={updatingId === member.id}
+                            >
+                              <option value="">Firm setting ({REFERRAL_VISIBILITY_LABELS[firmVisibility].toLowerCase()})</option>
+                              <option value="own">{REFERRAL_VISIBILITY_LABELS.own}</option>
+                              <option value="firm">{REFERRAL_VISIBILITY_LABELS.firm}</option>
+                            </select>
+                          </div>
+                        )}
+
+                        {canManage && referrals > 0 && colleagues.length > 0 && (
+                          <div className="mt-3 flex items-center gap-2">
+                            <span className="text-xs text-[var(--color-text-secondary)] flex-shrink-0">
+                              Reassign their companies to
+                            </span>
+                            <select
+                              className={inputClass}
+                              value={reassignTargets[member.id] || ''}
+                              onChange={(e) => setReassignTargets((prev) => ({ ...prev, [member.id]: e.target.value }))}
+                            >
+                              <option value="">Choose a colleague</option>
+                              {colleagues.map((colleague) => (
+                                <option key={colleague.id} value={colleague.id}>
+                                  {memberName(colleague)}
+                                </option>
+                              ))}
+                            </select>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleReassign(member)}
+                              disabled={!reassignTargets[member.id] || updatingId === member.id}
+                            >
+                              Reassign
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <h2 className="font-medium text-[var(--color-text-primary)]">Client visibility</h2>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="text-[var(--color-text-secondary)]">
+                  What team members can see across companies and applications. Primary contacts always see every referral.
+                </p>
+                {canManage ? (
+                  <select
+                    className={inputClass}
+                    value={firmVisibility}
+                    onChange={(e) => handleFirmVisibility(e.target.value as ReferralVisibility)}
+                    disabled={savingVisibility}
+                  >
+                    <option value="firm">{REFERRAL_VISIBILITY_LABELS.firm}</option>
+                    <option value="own">{REFERRAL_VISIBILITY_LABELS.own}</option>
+                  </select>
+                ) : (
+                  <p className="font-medium text-[var(--color-text-primary)]">{REFERRAL_VISIBILITY_LABELS[firmVisibility]}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {canManage ? (
+              <Card>
+                <CardHeader>
+                  <h2 className="font-medium text-[var(--color-text-primary)]">Invite a colleague</h2>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      className={inputClass}
+                      placeholder="First name"
+                      value={inviteFirstName}
+                      onChange={(e) => setInviteFirstName(e.target.value)}
+                    />
+                    <input
+                      className={inputClass}
+                      placeholder="Last name"
+                      value={inviteLastName}
+                      onChange={(e) => setInviteLastName(e.target.value)}
+                    />
+                  </div>
+                  <input
+                    type="email"
+                    className={inputClass}
+                    placeholder="name@yourfirm.co.uk"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                  />
+                  {inviteStatus && <p className="text-xs text-[var(--color-text-secondary)]">{inviteStatus}</p>}
+                  <div className="flex justify-end">
+                    <Button size="sm" variant="primary" onClick={handleInvite} loading={inviting} disabled={!inviteEmail.trim()}>
+                      Send invite
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-[var(--color-accent)]">
+                  Only your firm&apos;s primary contact can invite or deactivate team members.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardShell>
+  );
+}
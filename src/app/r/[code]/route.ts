@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { LEAD_COOKIE_MAX_AGE_SECONDS, leadCookieName, recordCampaignClick } from '@/lib/referralCampaigns';
+
+/**
+ * Partner referral link. Records the click as a lead and sends the visitor to signup
+ * carrying only the lead id. Unknown or archived codes still land on signup. A cookie
+ * per link keeps repeat visits from the same browser on one lead.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  const signupUrl = new URL('/auth/signup', request.url);
+  const cookieName = leadCookieName(params.code);
+  let leadId: string | null = null;
+
+  try {
+    leadId = await recordCampaignClick(getSupabaseAdmin(), params.code, {
+      leadId: request.cookies.get(cookieName)?.value || null,
+      ip: request.ip || request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    });
+    if (leadId) signupUrl.searchParams.set('lead_id', leadId);
+  } catch (error) {
+    // Never leave the visitor on an error page; they can still sign up unattributed
+    console.error('Error in /r/[code]:', error);
+  }
+
+  const response = NextResponse.redirect(signupUrl);
+  if (leadId) {
+    response.cookies.set(cookieName, leadId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: LEAD_COOKIE_MAX_AGE_SECONDS,
+      path: '/r',
+    });
+  }
+  return response;
+}
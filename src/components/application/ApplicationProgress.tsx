@@ -12,6 +12,7 @@ const STEP_LABELS = [
   'Your Company',
   'Funding Request',
   'Documents',
+  'Identity',
   'Review',
 ];
 
@@ -45,7 +45,7 @@ export function ApplicationReviewStep({ formData, onEdit, onSubmit, isSubmitting
         docs.forEach((doc) => {
           if (doc.category === 'bank_statements') {
             counts.bank_statements++;
-          } else {
+          } else if (doc.category !== 'identity') {
             counts.other++;
           }
         });
@@ -265,6 +265,34 @@ export function ApplicationReviewStep({ formData, onEdit, onSubmit, isSubmitting
         </div>
       </div>
 
+      {/* Identity Card */}
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-900">Identity</h3>
+          <button
+            type="button"
+            onClick={() => onEdit(5)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-[var(--color-accent)] hover:text-[var(--color-accent-light)] transition-colors"
+          >
+            <Edit className="w-4 h-4" />
+            Edit
+          </button>
+        </div>
+        <div className="px-5 py-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-slate-600">Verification:</span>
+            <span className="text-sm font-medium text-slate-900 flex items-center gap-1.5">
+              {formData.identityStatus === 'verified'
+                ? 'Verified'
+                : formData.identityStatus === 'review'
+                  ? 'With our team for review'
+                  : 'Not completed'}
+              {formData.identityStatus === 'verified' && <Check className="w-4 h-4 text-green-600" />}
+            </span>
+          </div>
+        </div>
+      </div>
+
       {/* Submit Button */}
       <div className="pt-6">
         <Button
@@ -4,14 +4,18 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
 import { useToastContext } from '@/components/ui/ToastProvider';
 import { PersonalDetailsStep } from './PersonalDetailsStep';
 import { CompanyInfoStep } from './CompanyInfoStep';
 import { ApplicationDetailsStep } from './ApplicationDetailsStep';
 import { DocumentUploadStep } from './DocumentUploadStep';
+import { IdentityVerificationStep } from './IdentityVerificationStep';
 import { ApplicationReviewStep } from './ApplicationReviewStep';
 import { ApplicationProgress } from './ApplicationProgress';
 import { Button } from '@/components/ui';
+import type { BeneficialOwner } from '@/lib/beneficialOwners';
+import type { IdentityVerificationStatus } from '@/lib/identityVerification';
 
 export interface ApplicationFormData {
   // Step 1: Personal Details
@@ -27,12 +31,16 @@ export interface ApplicationFormData {
   industry?: string;
   website?: string;
   companiesHouseData?: any;
+  beneficialOwners?: BeneficialOwner[];
   
   // Step 3: Application Details
   fundingNeeded?: number;
   fundingPurpose?: string;
   briefDescription?: string;
   applicationId?: string;
+
+  // Step 5: Identity Verification
+  identityStatus?: IdentityVerificationStatus;
 }
 
 interface StepConfig {
@@ -63,6 +71,11 @@ const STEP_CONFIG: Record<number, StepConfig> = {
     subtitle: 'Bank statements required, others optional',
   },
   5: {
+    label: 'Identity',
+    title: 'Verify Your Identity',
+    subtitle: 'Photo ID and a selfie',
+  },
+  6: {
     label: 'Review',
     title: 'Review & Submit',
     subtitle: 'Review your information before submitting',
@@ -84,7 +97,7 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
   const [error, setError] = useState<string | null>(null);
   const [applicationId, setApplicationId] = useState<string | undefined>(propApplicationId);
 
-  const totalSteps = 5;
+  const totalSteps = 6;
 
   // Load all data and pre-populate fields (always start at step 1)
   // Self-contained initialization - doesn't depend on useUserProfile hook state
@@ -170,7 +183,7 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
           // Check for existing application in 'created' stage
           const { data: existingApp, error: appError } = await supabase
             .from('applications')
-            .select('id, requested_amount, purpose, admin_notes, stage, company_id')
+            .select('id, requested_amount, purpose, admin_notes, stage, company_id, beneficial_owners')
             .eq('created_by', authUser.id)
             .eq('stage', 'created')
             .order('created_at', { ascending: false })
@@ -182,13 +195,14 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
             initialData.fundingNeeded = existingApp.requested_amount;
             initialData.fundingPurpose = existingApp.purpose || undefined;
             initialData.briefDescription = existingApp.admin_notes || undefined;
+            initialData.beneficialOwners = existingApp.beneficial_owners || undefined;
             initialData.applicationId = existingApp.id;
             setApplicationId(existingApp.id);
           }
         } else {
           const { data: appData, error: appError2 } = await supabase
             .from('applications')
-            .select('id, requested_amount, purpose, admin_notes, stage, company_id')
+            .select('id, requested_amount, purpose, admin_notes, stage, company_id, beneficial_owners')
             .eq('id', appId)
             .maybeSingle();
 
@@ -196,6 +210,7 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
             initialData.fundingNeeded = appData.requested_amount;
             initialData.fundingPurpose = appData.purpose || undefined;
             initialData.briefDescription = appData.admin_notes || undefined;
+            initialData.beneficialOwners = appData.beneficial_owners || undefined;
             initialData.applicationId = appData.id;
             setApplicationId(appData.id);
           }
@@ -213,6 +228,12 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
           }
         }
 
+        // Coming back from an external flow such as Open Banking: resume at that step
+        const requestedStep = Number(new URLSearchParams(window.location.search).get('step'));
+        if (appId && requestedStep >= 1 && requestedStep <= totalSteps) {
+          startStep = requestedStep;
+        }
+
         // Update form data (pre-populate fields)
         setFormData(initialData);
 
@@ -323,6 +344,16 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
         }
         return true;
       case 5:
+        if (formData.identityStatus === 'failed') {
+          setError('We could not verify your identity. Please upload new photos and try again.');
+          return false;
+        }
+        if (formData.identityStatus !== 'verified' && formData.identityStatus !== 'review') {
+          setError('Please upload your ID and a selfie, then verify your identity');
+          return false;
+        }
+        return true;
+      case 6:
         return true;
       default:
         return true;
@@ -586,6 +617,9 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
           if ((formData.briefDescription?.trim() || null) !== existingApp.admin_notes) {
             appUpdate.admin_notes = formData.briefDescription?.trim() || null;
           }
+          if (formData.beneficialOwners && JSON.stringify(formData.beneficialOwners) !== JSON.stringify(existingApp.beneficial_owners)) {
+            appUpdate.beneficial_owners = formData.beneficialOwners;
+          }
 
           if (Object.keys(appUpdate).length > 0) {
             await supabase
@@ -604,6 +638,7 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
         requested_amount: formData.fundingNeeded,
         purpose: formData.fundingPurpose || null,
         admin_notes: formData.briefDescription?.trim() || null,
+        beneficial_owners: formData.beneficialOwners || null,
         stage: 'created',
         loan_type: 'term_loan', // Default to term_loan (required field, can be updated later)
         urgency: null, // NOTE: Urgency not currently collected in simplified form (ApplicationDetailsStep)
@@ -721,18 +756,11 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
         throw new Error('You must be logged in to submit');
       }
 
-      // Update application to submitted
-      const { error: appError } = await supabase
-        .from('applications')
-        .update({
-          stage: 'submitted',
-          submitted_at: new Date().toISOString(),
-        })
-        .eq('id', applicationId);
-
-      if (appError) {
-        throw appError;
-      }
+      // Submit through the stage route, which records submitted_at
+      await authorizedJson(`/api/applications/${applicationId}/stage`, {
+        method: 'POST',
+        body: JSON.stringify({ stage: 'submitted' }),
+      });
 
       // Update profile with final data
       const profileUpdate: any = {
@@ -804,6 +832,14 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
           />
         );
       case 5:
+        return (
+          <IdentityVerificationStep
+            formData={formData}
+            updateFormData={updateFormData}
+            applicationId={applicationId}
+          />
+        );
+      case 6:
         return (
           <ApplicationReviewStep
             formData={formData}
@@ -872,7 +908,7 @@ export function ApplicationWizard({ applicationId: propApplicationId }: Applicat
       </div>
 
       {/* Navigation Buttons */}
-      {currentStep < 5 && (
+      {currentStep < totalSteps && (
         <div className="mt-8 flex items-center justify-between">
           <Button
             onClick={prevStep}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { authorizedJson } from '@/lib/apiClient';
+import type { BankStatementAnalysis } from '@/lib/bankStatementAnalysis';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface BankAnalysisCardProps {
+  applicationId: string;
+  analysis: BankStatementAnalysis | null;
+  declaredMonthlyRevenue: number | null;
+  onAnalysed: (analysis: BankStatementAnalysis) => void;
+}
+
+function formatAmount(value: number) {
+  const formatted = `£${Math.abs(Math.round(value)).toLocaleString('en-GB')}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function BankAnalysisCard({ applicationId, analysis, declaredMonthlyRevenue, onAnalysed }: BankAnalysisCardProps) {
+  const [analysing, setAnalysing] = useState(false);
+
+  const handleAnalyse = async () => {
+    setAnalysing(true);
+    try {
+      const { bank_analysis } = await authorizedJson<{ bank_analysis: BankStatementAnalysis }>(
+        `/api/applications/${applicationId}/bank-analysis`,
+        { method: 'POST' }
+      );
+      onAnalysed(bank_analysis);
+    } catch (err: any) {
+      alert('Error analysing bank statements: ' + err.message);
+    } finally {
+      setAnalysing(false);
+    }
+  };
+
+  const hasData = !!analysis && analysis.transaction_count > 0;
+  // Flag declared revenue that the statements don't support
+  const revenueGap =
+    hasData && declaredMonthlyRevenue && analysis!.average_monthly_revenue != null
+      ? Math.round(((analysis!.average_monthly_revenue - declaredMonthlyRevenue) / declaredMonthlyRevenue) * 100)
+      : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-medium text-[var(--color-text-primary)]">Bank Statement Analysis</h2>
+            {analysis && (
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-0.5">
+                Analysed {formatDate(analysis.analysed_at)}
+                {hasData && ` • ${formatDate(analysis.period_from!)} to ${formatDate(analysis.period_to!)} (${analysis.months_analysed} months)`}
+              </p>
+            )}
+          </div>
+          <Button size="sm" variant="outline" onClick={handleAnalyse} disabled={analysing}>
+            {analysing ? 'Analysing...' : analysis ? 'Re-analyse' : 'Analyse'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!analysis ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">Statements have not been analysed yet.</p>
+        ) : !hasData ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">
+            No transactions to analyse. Connect a bank account or upload CSV or OFX statements.
+          </p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-xs text-[var(--color-text-tertiary)]">Average monthly revenue</p>
+                <p className="font-medium text-[var(--color-text-primary)]">
+                  {analysis.average_monthly_revenue != null ? formatAmount(analysis.average_monthly_revenue) : '—'}
+                </p>
+                {revenueGap !== null && Math.abs(revenueGap) >= 10 && (
+                  <p className={`text-xs ${revenueGap < 0 ? 'text-[var(--color-error)]' : 'text-[var(--color-text-tertiary)]'}`}>
+                    {Math.abs(revenueGap)}% {revenueGap < 0 ? 'below' : 'above'} declared {formatAmount(declaredMonthlyRevenue!)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-xs text-[var(--color-text-tertiary)]">Card takings</p>
+                <p className="font-medium text-[var(--color-text-primary)]">
+                  {analysis.card_takings_percentage != null ? `${analysis.card_takings_percentage}%` : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-[var(--color-text-tertiary)]">Lowest balance</p>
+                <p
+                  className={`font-medium ${
+                    analysis.lowest_balance != null && analysis.lowest_balance < 0
+                      ? 'text-[var(--color-error)]'
+                      : 'text-[var(--color-text-primary)]'
+                  }`}
+                >
+                  {analysis.lowest_balance != null ? formatAmount(analysis.lowest_balance) : '—'}
+                </p>
+                {analysis.lowest_balance_on && (
+                  <p className="text-xs text-[var(--color-text-tertiary)]">{formatDate(analysis.lowest_balance_on)}</p>
+                )}
+              </div>
+              <div>
+                <p className="text-xs text-[var(--color-text-tertiary)]">Days negative</p>
+                <p className="font-medium text-[var(--color-text-primary)]">
+                  {analysis.days_negative != null ? analysis.days_negative : '—'}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-medium text-[var(--color-text-secondary)]">Existing lenders</p>
+                <Badge variant={analysis.existing_lender_count > 0 ? 'warning' : 'default'} size="sm">
+                  {analysis.existing_lender_count} active
+                </Badge>
+              </div>
+              {analysis.existing_lenders.length === 0 ? (
+                <p className="text-xs text-[var(--color-text-tertiary)]">No lender repayments found.</p>
+              ) : (
+                <div className="space-y-1">
+                  {analysis.existing_lenders.map((lender) => (
+                    <div key={lender.name} className="flex justify-between text-xs">
+                      <span className={lender.active ? 'text-[var(--color-text-primary)]' : 'text-[var(--color-text-tertiary)]'}>
+                        {lender.name}
+                        {!lender.active && ' (settled)'}
+                      </span>
+                      <span className="text-[var(--color-text-secondary)]">
+                        {lender.payments} payments, {formatAmount(lender.total_repaid)} • last {formatDate(lender.last_paid_on)}
+                      </span>
+                    </div>
+                  ))}
+                  {analysis.average_monthly_lender_repayments != null && (
+                    <p className="text-xs text-[var(--color-text-tertiary)]">
+                      {formatAmount(analysis.average_monthly_lender_repayments)} a month in repayments on average
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-medium text-[var(--color-text-secondary)]">Returned payments</p>
+                <Badge variant={analysis.returned_payments.count > 0 ? 'error' : 'success'} size="sm">
+                  {analysis.returned_payments.count}
+                </Badge>
+              </div>
+              {analysis.returned_payments.recent.map((payment, index) => (
+                <div key={`${payment.booked_on}-${index}`} className="flex justify-between text-xs">
+                  <span className="text-[var(--color-text-primary)] truncate mr-3">{payment.description}</span>
+                  <span className="text-[var(--color-text-secondary)] flex-shrink-0">
+                    {formatAmount(Math.abs(payment.amount))} • {formatDate(payment.booked_on)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {analysis && analysis.sources.files_skipped.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-[var(--color-border)]">
+            <p className="text-xs font-medium text-[var(--color-text-secondary)] mb-1">Not analysed</p>
+            {analysis.sources.files_skipped.map((file) => (
+              <p key={file.filename} className="text-xs text-[var(--color-text-tertiary)]">
+                {file.filename}: {file.reason}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
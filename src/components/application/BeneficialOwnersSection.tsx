@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  BeneficialOwner,
+  describeNaturesOfControl,
+  guaranteeUsuallyRequired,
+  isIndividualPsc,
+  toBeneficialOwners,
+} from '@/lib/beneficialOwners';
+import { Users, AlertTriangle } from 'lucide-react';
+
+interface BeneficialOwnersSectionProps {
+  companyNumber: string;
+  owners: BeneficialOwner[] | undefined;
+  onChange: (owners: BeneficialOwner[]) => void;
+}
+
+export function BeneficialOwnersSection({ companyNumber, owners, onChange }: BeneficialOwnersSectionProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const fetchOwners = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/companies-house/psc/${encodeURIComponent(companyNumber)}`);
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch persons with significant control');
+        }
+
+        onChange(toBeneficialOwners(data.items || [], owners || []));
+      } catch (err: any) {
+        console.error('Error fetching persons with significant control:', err);
+        setError(err.message || 'Failed to fetch persons with significant control');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOwners();
+    // Saved guarantor choices are merged in once per fetch, not on every toggle
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyNumber, attempt]);
+
+  const toggleGuarantor = (name: string) => {
+    onChange((owners || []).map((owner) => (owner.name === name ? { ...owner, guarantor: !owner.guarantor } : owner)));
+  };
+
+  const list = owners || [];
+  const missingGuarantees = list.filter((owner) => guaranteeUsuallyRequired(owner) && !owner.guarantor);
+
+  return (
+    <div className="bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Users className="w-4 h-4 text-[var(--color-text-tertiary)]" />
+        <h3 className="text-sm font-medium text-[var(--color-text-tertiary)]">Owners &amp; Personal Guarantees</h3>
+      </div>
+      <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+        Most lenders ask everyone who owns more than 25% of the company for a personal guarantee. Tick the owners who will provide one.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="w-5 h-5 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-red-600">{error}</p>
+          <button
+            type="button"
+            onClick={() => setAttempt((n) => n + 1)}
+            className="text-sm text-[var(--color-accent)] hover:underline flex-shrink-0"
+          >
+            Try again
+          </button>
+        </div>
+      ) : list.length === 0 ? (
+        <p className="text-sm text-[var(--color-text-tertiary)]">
+          Companies House lists no persons with significant control for this company.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {list.map((owner) => {
+            const individual = isIndividualPsc(owner);
+            return (
+              <label
+                key={owner.name}
+                className={`flex items-start p-3 rounded-lg border transition-colors ${
+                  !individual
+                    ? 'border-[var(--color-border)] opacity-75'
+                    : owner.guarantor
+                      ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)] cursor-pointer'
+                      : 'border-[var(--color-border)] hover:border-[var(--color-accent)] cursor-pointer'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={owner.guarantor}
+                  disabled={!individual}
+                  onChange={() => toggleGuarantor(owner.name)}
+                  className="w-4 h-4 mt-0.5 text-[var(--color-accent)] border-[var(--color-border)] rounded focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0 mr-3"
+                />
+                <div>
+                  <p className="text-sm font-medium text-[var(--color-text-primary)]">{owner.name}</p>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    {describeNaturesOfControl(owner.natures_of_control).join(' • ')}
+                  </p>
+                  {!individual && (
+                    <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                      Corporate owner. Our team will ask about the people behind it.
+                    </p>
+                  )}
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {missingGuarantees.length > 0 && (
+        <div className="flex items-start gap-2 mt-3">
+          <AlertTriangle className="w-4 h-4 text-yellow-700 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            {missingGuarantees.map((owner) => owner.name).join(', ')}{' '}
+            {missingGuarantees.length === 1 ? 'owns' : 'own'} more than 25% and will not give a guarantee. This may limit the lenders we can approach.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
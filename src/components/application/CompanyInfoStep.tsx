@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
 import { ApplicationFormData } from './ApplicationWizard';
-import { Building2, MapPin, Calendar, FileText, Globe, Edit2 } from 'lucide-react';
+import { BeneficialOwnersSection } from './BeneficialOwnersSection';
+import { Building2, MapPin, Calendar, FileText, Globe, Edit2, AlertTriangle } from 'lucide-react';
 
 interface CompanyInfoStepProps {
   formData: ApplicationFormData;
@@ -23,6 +25,7 @@ interface CompanyDetails {
   postcode: string | null;
   country: string | null;
   companies_house_data: any | null;
+  companies_house_verified: boolean;
 }
 
 // Map SIC codes to industry
@@ -71,6 +74,9 @@ export function CompanyInfoStep({ formData, updateFormData, profile }: CompanyIn
   const [isEditing, setIsEditing] = useState(false);
   const [editedIndustry, setEditedIndustry] = useState('');
   const [editedWebsite, setEditedWebsite] = useState('');
+  const [lookupNumber, setLookupNumber] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
 
   // Fetch company details
   useEffect(() => {
@@ -110,6 +116,7 @@ export function CompanyInfoStep({ formData, updateFormData, profile }: CompanyIn
         }
         
         setCompany(data);
+        setLookupNumber(data.company_number || '');
         setEditedIndustry(industry || '');
         setEditedWebsite(data.website || '');
         
@@ -148,6 +155,30 @@ export function CompanyInfoStep({ formData, updateFormData, profile }: CompanyIn
     }
   };
 
+  // Verify a manually entered company against Companies House
+  const handleLookup = async () => {
+    if (!company || !lookupNumber.trim()) return;
+
+    setLookingUp(true);
+    setLookupError(null);
+    try {
+      const { company: verified } = await authorizedJson<{ company: CompanyDetails }>(
+        `/api/companies/${company.id}/verify`,
+        { method: 'POST', body: JSON.stringify({ company_number: lookupNumber.trim() }) }
+      );
+
+      setCompany({ ...company, ...verified });
+      updateFormData('companyName', verified.name);
+      updateFormData('companyNumber', verified.company_number);
+      updateFormData('companiesHouseData', verified.companies_house_data);
+    } catch (err: any) {
+      console.error('Companies House lookup error:', err);
+      setLookupError(err.message || 'Companies House lookup failed');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
   // Extract data from Companies House
   const chData = company?.companies_house_data;
   const incorporationDate = chData?.date_of_creation;
@@ -224,6 +255,43 @@ export function CompanyInfoStep({ formData, updateFormData, profile }: CompanyIn
         </div>
       </div>
 
+      {/* Unverified company - look it up, or carry on with the details as entered */}
+      {!company.companies_house_verified && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-700 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-sm font-medium text-yellow-800">Not verified with Companies House</p>
+              <p className="text-sm text-yellow-800">
+                These details were entered manually. Look your company up to verify it, or continue and our team will check them.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={lookupNumber}
+              onChange={(e) => setLookupNumber(e.target.value)}
+              placeholder="Company number, e.g. 09446231"
+              className="flex-1 border border-[var(--color-border)] rounded-lg p-2 bg-[var(--color-bg-primary)] text-[var(--color-text-primary)]"
+            />
+            <button
+              type="button"
+              onClick={handleLookup}
+              disabled={lookingUp || !lookupNumber.trim()}
+              className="px-4 py-2 bg-[var(--color-accent)] text-white rounded-lg hover:bg-[var(--color-accent-hover)] disabled:opacity-50"
+            >
+              {lookingUp ? 'Checking...' : lookupError ? 'Try again' : 'Look up'}
+            </button>
+          </div>
+
+          {lookupError && (
+            <p className="text-sm text-red-600">{lookupError}</p>
+          )}
+        </div>
+      )}
+
       {/* Company Details Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Registered Address */}
@@ -358,6 +426,15 @@ export function CompanyInfoStep({ formData, updateFormData, profile }: CompanyIn
           </p>
         )}
       </div>
+
+      {/* Persons with significant control - who will give a personal guarantee */}
+      {company.companies_house_verified && company.company_number && (
+        <BeneficialOwnersSection
+          companyNumber={company.company_number}
+          owners={formData.beneficialOwners}
+          onChange={(owners) => updateFormData('beneficialOwners', owners)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
+import { DEAL_FEE_KINDS, DEAL_FEE_LABELS, outstandingFeeAmount } from '@/lib/dealFees';
+import type { DealFee, DealFeeKind } from '@/lib/dealFees';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface DealFeesCardProps {
+  applicationId: string;
+  lenderName: string | null;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+type FeeForm = {
+  expected_amount: string;
+  received_amount: string;
+  invoice_reference: string;
+  invoiced_on: string;
+  paid_on: string;
+  notes: string;
+};
+
+function toForm(fee: DealFee | undefined): FeeForm {
+  return {
+    expected_amount: fee?.expected_amount != null ? String(fee.expected_amount) : '',
+    received_amount: fee?.received_amount != null ? String(fee.received_amount) : '',
+    invoice_reference: fee?.invoice_reference || '',
+    invoiced_on: fee?.invoiced_on || '',
+    paid_on: fee?.paid_on || '',
+    notes: fee?.notes || '',
+  };
+}
+
+function formatAmount(value: number | null) {
+  if (value == null) return '—';
+  return `£${Number(value).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: string | null) {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function DealFeesCard({ applicationId, lenderName }: DealFeesCardProps) {
+  const supabase = getSupabaseClient();
+  const [fees, setFees] = useState<DealFee[]>([]);
+  const [editingKind, setEditingKind] = useState<DealFeeKind | null>(null);
+  const [form, setForm] = useState<FeeForm>(toForm(undefined));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadFees = async () => {
+      const { data, error } = await supabase
+        .from('deal_fees')
+        .select('*')
+        .eq('application_id', applicationId);
+
+      if (error) {
+        console.error('Error loading deal fees:', error);
+        return;
+      }
+      setFees((data || []) as DealFee[]);
+    };
+
+    loadFees();
+  }, [applicationId, supabase]);
+
+  const startEditing = (kind: DealFeeKind) => {
+    setForm(toForm(fees.find((fee) => fee.kind === kind)));
+    setEditingKind(kind);
+  };
+
+  const handleSave = async () => {
+    if (!editingKind) return;
+    setSaving(true);
+    try {
+      const { fee, commission_error } = await authorizedJson<{ fee: DealFee; commission_error: string | null }>(
+        `/api/applications/${applicationId}/fees`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ kind: editingKind, ...form }),
+        }
+      );
+      if (commission_error) {
+        alert('The fee was saved, but partner commission could not be updated: ' + commission_error);
+      }
+      setFees((prev) => [...prev.filter((f) => f.kind !== fee.kind), fee]);
+      setEditingKind(null);
+    } catch (err: any) {
+      alert('Error saving fee: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setField = (field: keyof FeeForm, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="font-medium text-[var(--color-text-primary)]">Fees</h2>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {DEAL_FEE_KINDS.map((kind) => {
+          const fee = fees.find((f) => f.kind === kind);
+          const outstanding = fee ? outstandingFeeAmount(fee) : 0;
+
+          if (editingKind === kind) {
+            return (
+              <div key={kind} className="space-y-2 text-sm">
+                <p className="text-xs font-medium text-[var(--color-text-secondary)]">{DEAL_FEE_LABELS[kind]}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-[var(--color-text-tertiary)] mb-1">Expected (£)</label>
+                    <input type="number" min="0" step="0.01" className={inputClass} value={form.expected_amount} onChange={(e) => setField('expected_amount', e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[var(--color-text-tertiary)] mb-1">Received (£)</label>
+                    <input type="number" min="0" step="0.01" className={inputClass} value={form.received_amount} onChange={(e) => setField('received_amount', e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[var(--color-text-tertiary)] mb-1">Invoice reference</label>
+                    <input className={inputClass} value={form.invoice_reference} onChange={(e) => setField('invoice_reference', e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[var(--color-text-tertiary)] mb-1">Invoiced on</label>
+                    <input type="date" className={inputClass} value={form.invoiced_on} onChange={(e) => setField('invoiced_on', e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[var(--color-text-tertiary)] mb-1">Paid on</label>
+                    <input type="date" className={inputClass} value={form.paid_on} onChange={(e) => setField('paid_on', e.target.value)} />
+                  </div>
+                </div>
+                <textarea
+                  className={inputClass}
+                  rows={2}
+                  placeholder="Notes (optional)"
+                  value={form.notes}
+                  onChange={(e) => setField('notes', e.target.value)}
+                />
+                <p className="text-xs text-[var(--color-text-tertiary)]">
+                  A fee marked paid without a received amount is taken as paid in full.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setEditingKind(null)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" variant="primary" onClick={handleSave} loading={saving}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            );
+          }
+
+          return (
+            <div key={kind} className="text-sm">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs font-medium text-[var(--color-text-secondary)]">
+                  {DEAL_FEE_LABELS[kind]}
+                  {kind === 'procuration' && lenderName && ` • ${lenderName}`}
+                </p>
+                {fee && (fee.paid_on ? (
+                  <Badge variant="success" size="sm">Paid</Badge>
+                ) : outstanding > 0 ? (
+                  <Badge variant="warning" size="sm">{formatAmount(outstanding)} owed</Badge>
+                ) : null)}
+              </div>
+              {fee ? (
+                <div className="space-y-0.5 text-xs text-[var(--color-text-secondary)]">
+                  <p>
+                    Expected {formatAmount(fee.expected_amount)} • received {formatAmount(fee.received_amount)}
+                  </p>
+                  <p>
+                    Invoiced {formatDate(fee.invoiced_on)}
+                    {fee.invoice_reference && ` (${fee.invoice_reference})`} • paid {formatDate(fee.paid_on)}
+                  </p>
+                  {fee.notes && <p className="text-[var(--color-text-tertiary)]">{fee.notes}</p>}
+                </div>
+              ) : (
+                <p className="text-xs text-[var(--color-text-tertiary)]">Not recorded.</p>
+              )}
+              <button
+                type="button"
+                className="mt-1 text-xs text-[var(--color-accent)] hover:underline"
+                onClick={() => startEditing(kind)}
+              >
+                {fee ? 'Update' : 'Record fee'}
+              </button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
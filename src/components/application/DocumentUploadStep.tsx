@@ -4,8 +4,10 @@ import { useState, useRef, useEffect } from 'react';
 import { ApplicationFormData } from './ApplicationWizard';
 import { getSupabaseClient } from '@/lib/supabaseClient';
 import { useUserProfile } from '@/hooks/useUserProfile';
+import { authorizedJson } from '@/lib/apiClient';
 import { useToastContext } from '@/components/ui/ToastProvider';
-import { Upload, X, File, Loader2, CheckCircle2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { BankConnection } from '@/lib/openBanking';
+import { Upload, X, File, Loader2, CheckCircle2, ChevronDown, ChevronUp, Landmark, AlertTriangle } from 'lucide-react';
 
 interface DocumentUploadStepProps {
   formData: ApplicationFormData;
@@ -51,6 +53,9 @@ export function DocumentUploadStep({ formData, updateFormData, applicationId }:
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [dragOver, setDragOver] = useState<string | null>(null);
   const [showOptional, setShowOptional] = useState(false);
+  const [openBankingAvailable, setOpenBankingAvailable] = useState(false);
+  const [bankConnection, setBankConnection] = useState<BankConnection | null>(null);
+  const [connectingBank, setConnectingBank] = useState(false);
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
   // Load existing documents if applicationId exists
@@ -78,6 +83,42 @@ export function DocumentUploadStep({ formData, updateFormData, applicationId }:
     loadDocuments();
   }, [applicationId, supabase]);
 
+  // Open Banking is offered only when a provider is configured
+  useEffect(() => {
+    const loadBankConnection = async () => {
+      if (!applicationId) return;
+
+      try {
+        const { available, connection } = await authorizedJson<{ available: boolean; connection: BankConnection | null }>(
+          `/api/applications/${applicationId}/open-banking`
+        );
+        setOpenBankingAvailable(available);
+        setBankConnection(connection);
+      } catch (err) {
+        console.error('Error loading bank connection:', err);
+      }
+    };
+
+    loadBankConnection();
+  }, [applicationId]);
+
+  const handleConnectBank = async () => {
+    if (!applicationId) return;
+
+    setConnectingBank(true);
+    try {
+      const { authorisation_url } = await authorizedJson<{ authorisation_url: string }>(
+        `/api/applications/${applicationId}/open-banking`,
+        { method: 'POST' }
+      );
+      // Off to the bank; the provider redirects back to /apply/open-banking
+      window.location.href = authorisation_url;
+    } catch (err: any) {
+      toast.error('Error connecting your bank: ' + err.message);
+      setConnectingBank(false);
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -233,6 +274,54 @@ export function DocumentUploadStep({ formData, updateFormData, applicationId }:
           </p>
         </div>
 
+        {/* Open Banking: pulls transactions and adds the statements below */}
+        {openBankingAvailable && (
+          <div
+            className={`flex items-start gap-3 p-4 rounded-lg border ${
+              bankConnection?.status === 'connected' ? 'border-green-200 bg-green-50' : 'border-slate-200 bg-white'
+            }`}
+          >
+            <Landmark className="w-5 h-5 text-[var(--color-accent)] flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              {bankConnection?.status === 'connected' ? (
+                <>
+                  <p className="text-sm font-medium text-green-900">
+                    Connected to {bankConnection.institution_name || 'your bank'}
+                  </p>
+                  <p className="text-xs text-slate-600 mt-0.5">
+                    {bankConnection.months_covered} months of transactions downloaded. Your statements have been added below.
+                  </p>
+                  {bankConnection.error && (
+                    <p className="flex items-center gap-1 text-xs text-yellow-800 mt-1">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {bankConnection.error}. Please upload statements for the earlier months too.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-sm font-medium text-slate-900">Connect your bank instead</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    Securely share 12 months of transactions through Open Banking and we&apos;ll prepare your statements for you.
+                  </p>
+                  {bankConnection?.status === 'failed' && bankConnection.error && (
+                    <p className="text-xs text-red-600 mt-1">Last attempt failed: {bankConnection.error}</p>
+                  )}
+                </>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={handleConnectBank}
+              disabled={connectingBank}
+              className="px-4 py-2 border border-[var(--color-accent)] rounded-lg text-sm font-medium text-[var(--color-accent)] hover:bg-blue-50 disabled:opacity-50 flex items-center gap-2 flex-shrink-0"
+            >
+              {connectingBank && <Loader2 className="w-4 h-4 animate-spin" />}
+              {bankConnection?.status === 'connected' ? 'Connect another account' : 'Connect your bank'}
+            </button>
+          </div>
+        )}
+
         {/* Large Drag and Drop Zone */}
         <div
           onDragOver={(e) => handleDragOver(e, 'bank_statements')}
@@ -322,7 +411,9 @@ export function DocumentUploadStep({ formData, updateFormData, applicationId }:
         {/* Validation Message */}
         {bankStatements.length === 0 && !isUploadingBankStatements && (
           <p className="text-sm text-slate-500">
-            At least one bank statement file is required to continue.
+            {openBankingAvailable
+              ? 'Connect your bank or upload at least one bank statement file to continue.'
+              : 'At least one bank statement file is required to continue.'}
           </p>
         )}
       </div>
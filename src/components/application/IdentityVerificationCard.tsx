@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
+import type { CheckOutcome, DobCheck, IdentityVerification } from '@/lib/identityVerification';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface IdentityVerificationCardProps {
+  applicationId: string;
+}
+
+const STATUS_BADGES: Record<IdentityVerification['status'], { label: string; variant: 'success' | 'warning' | 'error' | 'default' }> = {
+  verified: { label: 'Verified', variant: 'success' },
+  review: { label: 'Needs review', variant: 'warning' },
+  failed: { label: 'Failed', variant: 'error' },
+  pending: { label: 'Incomplete', variant: 'default' },
+};
+
+const CHECK_LABELS: Record<CheckOutcome, string> = {
+  pass: 'Passed',
+  fail: 'Failed',
+  inconclusive: 'Inconclusive',
+  not_run: 'Not run',
+};
+
+const DOB_LABELS: Record<DobCheck, string> = {
+  match: 'Matches officer record',
+  mismatch: 'Does not match officer record',
+  officer_not_found: 'No matching director',
+  unavailable: 'Could not be checked',
+};
+
+function checkClass(ok: boolean | null) {
+  if (ok === null) return 'text-[var(--color-text-secondary)]';
+  return ok ? 'text-[var(--color-success)]' : 'text-[var(--color-error)]';
+}
+
+export function IdentityVerificationCard({ applicationId }: IdentityVerificationCardProps) {
+  const supabase = getSupabaseClient();
+  const [verification, setVerification] = useState<IdentityVerification | null>(null);
+  const [documentPaths, setDocumentPaths] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { verification: latest } = await authorizedJson<{ verification: IdentityVerification | null }>(
+          `/api/applications/${applicationId}/identity`
+        );
+        setVerification(latest);
+
+        const ids = [latest?.id_document_id, latest?.selfie_document_id].filter(Boolean) as string[];
+        if (ids.length > 0) {
+          const { data: docs } = await supabase.from('documents').select('id, storage_path').in('id', ids);
+          setDocumentPaths(Object.fromEntries((docs || []).map((doc) => [doc.id, doc.storage_path])));
+        }
+      } catch (err: any) {
+        console.error('Error loading identity verification:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId, supabase]);
+
+  const documentUrl = (documentId: string | null) => {
+    const path = documentId && documentPaths[documentId];
+    if (!path) return null;
+    return supabase.storage.from('application-documents').getPublicUrl(path).data.publicUrl;
+  };
+
+  const handleReview = async (status: 'verified' | 'failed') => {
+    if (!verification) return;
+    if (status === 'failed' && !note.trim()) {
+      alert('Add a note explaining why the identity check failed');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { verification: updated } = await authorizedJson<{ verification: IdentityVerification }>(
+        `/api/applications/${applicationId}/identity/review`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ verification_id: verification.id, status, note }),
+        }
+      );
+      setVerification(updated);
+      setNote('');
+    } catch (err: any) {
+      alert('Error saving review: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const badge = verification ? STATUS_BADGES[verification.status] : null;
+  const idUrl = documentUrl(verification?.id_document_id || null);
+  const selfieUrl = documentUrl(verification?.selfie_document_id || null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Identity Verification</h2>
+          {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+        ) : !verification ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">The applicant has not verified their identity yet.</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-[var(--color-text-secondary)]">Document</span>
+              <span className={checkClass(verification.document_check === 'not_run' ? null : verification.document_check === 'pass')}>
+                {verification.document_type.replace(/_/g, ' ')} • {CHECK_LABELS[verification.document_check]}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--color-text-secondary)]">Face match</span>
+              <span className={checkClass(verification.face_match === 'not_run' ? null : verification.face_match === 'pass')}>
+                {CHECK_LABELS[verification.face_match]}
+              </span>
+            </div>
+            <div className="flex justify-between gap-3">
+              <span className="text-[var(--color-text-secondary)]">Date of birth</span>
+              <span className={`text-right ${checkClass(verification.dob_check === 'match' ? true : verification.dob_check === 'mismatch' ? false : null)}`}>
+                {DOB_LABELS[verification.dob_check]}
+                {verification.officer_name && (
+                  <span className="block text-xs text-[var(--color-text-tertiary)]">{verification.officer_name}</span>
+                )}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--color-text-secondary)]">Provider</span>
+              <span className="text-[var(--color-text-primary)]">
+                {verification.provider || 'None (manual review)'}
+              </span>
+            </div>
+
+            {(idUrl || selfieUrl) && (
+              <div className="flex gap-4">
+                {idUrl && (
+                  <a href={idUrl} target="_blank" rel="noopener noreferrer" className="text-[var(--color-accent)] hover:underline">
+                    View ID →
+                  </a>
+                )}
+                {selfieUrl && (
+                  <a href={selfieUrl} target="_blank" rel="noopener noreferrer" className="text-[var(--color-accent)] hover:underline">
+                    View selfie →
+                  </a>
+                )}
+              </div>
+            )}
+
+            {verification.reasons.length > 0 && (
+              <ul className="list-disc list-inside text-[var(--color-text-secondary)]">
+                {verification.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+
+            {verification.reviewed_at && (
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                Reviewed {new Date(verification.reviewed_at).toLocaleDateString('en-GB')}
+                {verification.review_note && `: ${verification.review_note}`}
+              </p>
+            )}
+
+            {verification.status !== 'pending' && (
+              <div className="pt-2 border-t border-[var(--color-border)] space-y-2">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Review note"
+                  rows={2}
+                  className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm placeholder:text-[var(--color-text-tertiary)]"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    onClick={() => handleReview('verified')}
+                    disabled={saving || verification.status === 'verified'}
+                  >
+                    Mark verified
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => handleReview('failed')}
+                    disabled={saving || verification.status === 'failed'}
+                  >
+                    Mark failed
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ApplicationFormData } from './ApplicationWizard';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { useToastContext } from '@/components/ui/ToastProvider';
+import type { IdentityDocumentType, IdentityVerification } from '@/lib/identityVerification';
+import { Button } from '@/components/ui';
+import { IdCard, Camera, Loader2, CheckCircle2, AlertTriangle, XCircle, Clock } from 'lucide-react';
+
+interface IdentityVerificationStepProps {
+  formData: ApplicationFormData;
+  updateFormData: (field: keyof ApplicationFormData, value: any) => void;
+  applicationId?: string;
+}
+
+interface IdentityDocument {
+  id: string;
+  original_filename: string;
+  storage_path: string;
+}
+
+type Slot = 'id_document' | 'selfie';
+
+const IDENTITY_CATEGORY = 'identity';
+const DOCUMENT_TYPES: { value: IdentityDocumentType; label: string }[] = [
+  { value: 'passport', label: 'Passport' },
+  { value: 'driving_licence', label: 'Driving licence' },
+  { value: 'national_id', label: 'National ID card' },
+];
+const ACCEPTED_FILE_TYPES: Record<Slot, string> = {
+  id_document: '.pdf,.png,.jpg,.jpeg',
+  selfie: '.png,.jpg,.jpeg',
+};
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+export function IdentityVerificationStep({ formData, updateFormData, applicationId }: IdentityVerificationStepProps) {
+  const { user } = useUserProfile();
+  const supabase = getSupabaseClient();
+  const toast = useToastContext();
+  const [documentType, setDocumentType] = useState<IdentityDocumentType>('passport');
+  const [files, setFiles] = useState<Record<Slot, IdentityDocument | null>>({ id_document: null, selfie: null });
+  const [uploading, setUploading] = useState<Slot | null>(null);
+  const [verification, setVerification] = useState<IdentityVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const inputRefs = useRef<Record<Slot, HTMLInputElement | null>>({ id_document: null, selfie: null });
+
+  // Pick up an earlier attempt, and the files it used
+  useEffect(() => {
+    const load = async () => {
+      if (!applicationId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { verification: latest } = await authorizedJson<{ verification: IdentityVerification | null }>(
+          `/api/applications/${applicationId}/identity`
+        );
+
+        if (latest) {
+          setVerification(latest);
+          setDocumentType(latest.document_type);
+          updateFormData('identityStatus', latest.status);
+
+          const ids = [latest.id_document_id, latest.selfie_document_id].filter(Boolean) as string[];
+          if (latest.status !== 'failed' && ids.length > 0) {
+            const { data: docs } = await supabase
+              .from('documents')
+              .select('id, original_filename, storage_path')
+              .in('id', ids);
+            setFiles({
+              id_document: (docs || []).find((doc) => doc.id === latest.id_document_id) || null,
+              selfie: (docs || []).find((doc) => doc.id === latest.selfie_document_id) || null,
+            });
+          }
+        }
+      } catch (err: any) {
+        console.error('Error loading identity verification:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicationId]);
+
+  const handleFileSelect = async (slot: Slot, fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file || !user || !applicationId) return;
+
+    const ext = '.' + file.name.split('.').pop()?.toLowerCase();
+    if (!ACCEPTED_FILE_TYPES[slot].split(',').includes(ext)) {
+      toast.error(`File ${file.name} is not a supported format`);
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error(`File ${file.name} is too large. Maximum size is 10MB`);
+      return;
+    }
+
+    setUploading(slot);
+    try {
+      const randomId = Math.random().toString(36).substring(7);
+      const path = `${user.id}/${applicationId}/${IDENTITY_CATEGORY}/${Date.now()}_${randomId}${ext}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('application-documents')
+        .upload(path, file, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) {
+        toast.error(`Error uploading ${file.name}: ${uploadError.message}`);
+        return;
+      }
+
+      const { data: doc, error: insertError } = await supabase
+        .from('documents')
+        .insert({
+          application_id: applicationId,
+          category: IDENTITY_CATEGORY,
+          original_filename: file.name,
+          storage_path: path,
+          mime_type: file.type,
+          uploaded_by: user.id,
+        })
+        .select('id, original_filename, storage_path')
+        .single();
+
+      if (insertError || !doc) {
+        toast.error(`Error saving document record for ${file.name}`);
+        return;
+      }
+
+      setFiles((prev) => ({ ...prev, [slot]: doc as IdentityDocument }));
+      // New files need a new check
+      if (verification) {
+        setVerification(null);
+        updateFormData('identityStatus', undefined);
+      }
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!applicationId || !files.id_document || !files.selfie) return;
+
+    setVerifying(true);
+    try {
+      const { verification: result } = await authorizedJson<{ verification: IdentityVerification }>(
+        `/api/applications/${applicationId}/identity`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            document_type: documentType,
+            id_document_id: files.id_document.id,
+            selfie_document_id: files.selfie.id,
+          }),
+        }
+      );
+      setVerification(result);
+      updateFormData('identityStatus', result.status);
+    } catch (err: any) {
+      toast.error('Error verifying identity: ' + err.message);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-[var(--color-accent)] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const renderUpload = (slot: Slot, title: string, helper: string, Icon: typeof IdCard) => {
+    const file = files[slot];
+    return (
+      <div className="bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <Icon className="w-4 h-4 text-[var(--color-text-tertiary)]" />
+          <h3 className="text-sm font-medium text-[var(--color-text-primary)]">
+            {title} <span className="text-red-600">*</span>
+          </h3>
+        </div>
+        <p className="text-xs text-[var(--color-text-tertiary)] mb-3">{helper}</p>
+
+        {file && (
+          <div className="flex items-center gap-2 mb-3 text-sm text-[var(--color-text-primary)]">
+            <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+            <span className="truncate">{file.original_filename}</span>
+          </div>
+        )}
+
+        <input
+          ref={(el) => { inputRefs.current[slot] = el; }}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES[slot]}
+          capture={slot === 'selfie' ? 'user' : undefined}
+          className="hidden"
+          onChange={(e) => {
+            handleFileSelect(slot, e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => inputRefs.current[slot]?.click()}
+          disabled={uploading !== null || verifying}
+          className="px-4 py-2 border border-[var(--color-border)] rounded-lg text-sm text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary)] disabled:opacity-50 flex items-center gap-2"
+        >
+          {uploading === slot && <Loader2 className="w-4 h-4 animate-spin" />}
+          {uploading === slot ? 'Uploading...' : file ? 'Replace' : 'Upload'}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-[var(--color-text-secondary)]">
+        Lenders need to confirm the identity of the director applying. Upload a photo ID and a selfie, and we&apos;ll check
+        them against your details{formData.companyName ? ` and the director record for ${formData.companyName}` : ''} at
+        Companies House.
+      </p>
+
+      <div>
+        <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-2">
+          ID document type <span className="text-red-600">*</span>
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {DOCUMENT_TYPES.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-center p-3 rounded-lg border cursor-pointer transition-colors ${
+                documentType === option.value
+                  ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)]'
+                  : 'border-[var(--color-border)] hover:border-[var(--color-accent)] hover:bg-[var(--color-bg-tertiary)]'
+              }`}
+            >
+              <input
+                type="radio"
+                name="identityDocumentType"
+                value={option.value}
+                checked={documentType === option.value}
+                onChange={() => setDocumentType(option.value)}
+                className="w-4 h-4 text-[var(--color-accent)] border-[var(--color-border)] focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0 mr-3"
+              />
+              <span className="text-sm text-[var(--color-text-primary)]">{option.label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderUpload('id_document', 'Photo ID', 'A clear photo or scan of the photo page, all four corners visible', IdCard)}
+        {renderUpload('selfie', 'Selfie', 'A photo of your face in good light, without glasses or a hat', Camera)}
+      </div>
+
+      {verification ? (
+        <div
+          className={`flex items-start gap-3 p-4 rounded-lg border ${
+            verification.status === 'verified'
+              ? 'bg-green-50 border-green-200'
+              : verification.status === 'failed'
+                ? 'bg-red-50 border-red-200'
+                : 'bg-yellow-50 border-yellow-200'
+          }`}
+        >
+          {verification.status === 'verified' ? (
+            <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
+          ) : verification.status === 'failed' ? (
+            <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          ) : verification.status === 'review' ? (
+            <Clock className="w-5 h-5 text-yellow-700 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="w-5 h-5 text-yellow-700 flex-shrink-0" />
+          )}
+          <div>
+            <p className="text-sm font-medium text-[var(--color-text-primary)]">
+              {verification.status === 'verified'
+                ? 'Identity verified'
+                : verification.status === 'failed'
+                  ? 'We could not verify your identity'
+                  : verification.status === 'review'
+                    ? 'Submitted for review. Our team will check your documents, and you can carry on with your application.'
+                    : 'Verification did not complete. Please try again.'}
+            </p>
+            {verification.status === 'failed' && verification.reasons.length > 0 && (
+              <ul className="mt-1 text-sm text-red-700 list-disc list-inside">
+                {verification.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+            {verification.status === 'failed' && (
+              <p className="mt-1 text-sm text-[var(--color-text-secondary)]">Upload new photos and try again.</p>
+            )}
+          </div>
+        </div>
+      ) : null}
+
+      {(!verification || verification.status === 'pending') && (
+        <Button
+          variant="primary"
+          onClick={handleVerify}
+          disabled={!files.id_document || !files.selfie || verifying || uploading !== null}
+          loading={verifying}
+        >
+          {verifying ? 'Verifying...' : 'Verify my identity'}
+        </Button>
+      )}
+    </div>
+  );
+}
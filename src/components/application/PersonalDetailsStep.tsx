@@ -68,6 +68,10 @@ export function PersonalDetailsStep({ formData, updateFormData, profile }: Perso
         try {
           const response = await fetch(`/api/companies-house/officers/${company.company_number}`);
           const officersData = await response.json();
+
+          if (!response.ok) {
+            throw new Error(officersData.error || 'Failed to fetch officers');
+          }
           
           // Filter to only directors (not secretaries, etc.)
           const directorRoles = ['director', 'nominated-director', 'corporate-director'];
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authorizedJson } from '@/lib/apiClient';
+import { StageHistoryEntry } from '@/lib/applicationStages';
+import { Card, CardHeader, CardContent, Badge, getStageBadgeVariant, formatStage } from '@/components/ui';
+
+interface StageTimelineProps {
+  applicationId: string;
+  viewerRole: 'ADMIN' | 'PARTNER' | 'CLIENT';
+  // Reloads the history when the stage changes on the page
+  currentStage: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  ADMIN: 'Broker team',
+  PARTNER: 'Partner',
+  SYSTEM: 'Automatic',
+};
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours < 1) return 'under an hour';
+  if (hours < 48) return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  const days = Math.floor(hours / 24);
+  return `${days} days`;
+}
+
+export function StageTimeline({ applicationId, viewerRole, currentStage }: StageTimelineProps) {
+  const [history, setHistory] = useState<StageHistoryEntry[]>([]);
+  const [createdAt, setCreatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const result = await authorizedJson<{ created_at: string; history: StageHistoryEntry[] }>(
+          `/api/applications/${applicationId}/stage-history`
+        );
+        setHistory(result.history);
+        setCreatedAt(result.created_at);
+        setError(null);
+      } catch (err: any) {
+        console.error('Error loading stage history:', err);
+        setError(err.message || 'Could not load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [applicationId, currentStage]);
+
+  const actorLabel = (entry: StageHistoryEntry) => {
+    if (entry.changed_by) return entry.changed_by.name;
+    if (entry.changed_by_role === 'CLIENT') return viewerRole === 'CLIENT' ? 'You' : 'Client';
+    return entry.changed_by_role ? ROLE_LABELS[entry.changed_by_role] || entry.changed_by_role : null;
+  };
+
+  // Time spent in each stage runs until the next entry (or now for the current one)
+  const timeInStage = (index: number) => {
+    const start = new Date(history[index].created_at).getTime();
+    const next = history[index + 1];
+    if (!next && ['funded', 'declined', 'withdrawn'].includes(history[index].to_stage)) return null;
+    const end = next ? new Date(next.created_at).getTime() : Date.now();
+    return formatDuration(end - start);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="font-medium text-[var(--color-text-primary)]">Timeline</h2>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+        ) : error ? (
+          <p className="text-sm text-[var(--color-error)]">{error}</p>
+        ) : (
+          <ol className="relative border-l border-[var(--color-border)] ml-2 space-y-5">
+            {createdAt && (
+              <li className="relative pl-4">
+                <span className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-[var(--color-border)]" />
+                <p className="text-sm font-medium text-[var(--color-text-primary)]">Application created</p>
+                <p className="text-xs text-[var(--color-text-tertiary)]">
+                  {new Date(createdAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </li>
+            )}
+            {history.map((entry, index) => {
+              const actor = actorLabel(entry);
+              const duration = timeInStage(index);
+              return (
+                <li key={entry.id} className="relative pl-4">
+                  <span className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-[var(--color-accent)]" />
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant={getStageBadgeVariant(entry.to_stage)}>{formatStage(entry.to_stage)}</Badge>
+                    {duration && (
+                      <span className="text-xs text-[var(--color-text-tertiary)]">
+                        {index === history.length - 1 ? `for ${duration} so far` : `for ${duration}`}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                    {new Date(entry.created_at).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                    {actor && ` · ${actor}`}
+                    {viewerRole === 'ADMIN' && entry.changed_by?.email && entry.changed_by.email !== actor && ` (${entry.changed_by.email})`}
+                  </p>
+                  {entry.reason && (
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">Reason: {entry.reason}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
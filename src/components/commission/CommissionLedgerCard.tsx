@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
+import type { CommissionEntry, CommissionEntryKind } from '@/lib/commission';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface CommissionLedgerCardProps {
+  partnerCompanyId: string;
+  editable?: boolean;
+  // Bumped by the parent when statements change which entries are outstanding
+  refreshKey?: number;
+  onChanged?: () => void;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+const KIND_LABELS: Record<CommissionEntryKind, string> = {
+  accrual: 'Commission',
+  clawback: 'Clawback',
+  adjustment: 'Adjustment',
+};
+
+function formatAmount(value: number) {
+  const formatted = `£${Math.abs(value).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function CommissionLedgerCard({ partnerCompanyId, editable = false, refreshKey = 0, onChanged }: CommissionLedgerCardProps) {
+  const supabase = getSupabaseClient();
+  const [entries, setEntries] = useState<CommissionEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [showAdjustment, setShowAdjustment] = useState(false);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentDescription, setAdjustmentDescription] = useState('');
+  const [clawbackEntryId, setClawbackEntryId] = useState<string | null>(null);
+  const [clawbackReason, setClawbackReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      const { data, error } = await supabase
+        .from('commission_entries')
+        .select('*')
+        .eq('partner_company_id', partnerCompanyId)
+        .order('accrued_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading commission entries:', error);
+      }
+      setEntries((data || []) as CommissionEntry[]);
+      setLoaded(true);
+    };
+
+    loadEntries();
+  }, [partnerCompanyId, refreshKey, supabase]);
+
+  const postEntry = async (body: Record<string, unknown>) => {
+    setSubmitting(true);
+    try {
+      const { entry } = await authorizedJson<{ entry: CommissionEntry }>(
+        `/api/admin/partners/${partnerCompanyId}/commission-entries`,
+        { method: 'POST', body: JSON.stringify(body) }
+      );
+      setEntries((prev) => [entry, ...prev]);
+      onChanged?.();
+      return true;
+    } catch (err: any) {
+      alert('Error recording ledger entry: ' + err.message);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddAdjustment = async () => {
+    const saved = await postEntry({
+      kind: 'adjustment',
+      amount: parseFloat(adjustmentAmount),
+      description: adjustmentDescription,
+    });
+    if (saved) {
+      setShowAdjustment(false);
+      setAdjustmentAmount('');
+      setAdjustmentDescription('');
+    }
+  };
+
+  const handleClawback = async (entryId: string) => {
+    const saved = await postEntry({ kind: 'clawback', entry_id: entryId, reason: clawbackReason });
+    if (saved) {
+      setClawbackEntryId(null);
+      setClawbackReason('');
+    }
+  };
+
+  const clawedBack = new Set(entries.filter((e) => e.kind === 'clawback').map((e) => e.reverses_entry_id));
+  const unstatemented = entries.filter((e) => !e.statement_id && e.status === 'accrued');
+  const nextStatementTotal = unstatemented.reduce((sum, e) => sum + Number(e.amount), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-medium text-[var(--color-text-primary)]">Commission Ledger</h2>
+            {loaded && (
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-0.5">
+                {formatAmount(nextStatementTotal)} towards the next statement
+              </p>
+            )}
+          </div>
+          {editable && !showAdjustment && (
+            <Button size="sm" variant="outline" onClick={() => setShowAdjustment(true)}>
+              Add adjustment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {showAdjustment && (
+          <div className="mb-4 p-3 rounded-lg bg-[var(--color-bg-tertiary)] space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="number"
+                step="0.01"
+                className={inputClass}
+                placeholder="Amount (negative to deduct)"
+                value={adjustmentAmount}
+                onChange={(e) => setAdjustmentAmount(e.target.value)}
+              />
+              <input
+                className={`${inputClass} col-span-2`}
+                placeholder="Description shown on the statement"
+                value={adjustmentDescription}
+                onChange={(e) => setAdjustmentDescription(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setShowAdjustment(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                variant="primary"
+                onClick={handleAddAdjustment}
+                loading={submitting}
+                disabled={!adjustmentAmount || !adjustmentDescription.trim()}
+              >
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!loaded ? null : entries.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">
+            No commission yet. Commission is recorded when a referred client&apos;s application is funded.
+          </p>
+        ) : (
+          <div className="divide-y divide-[var(--color-border)] max-h-[480px] overflow-y-auto">
+            {entries.map((entry) => {
+              const canClawBack =
+                editable && entry.kind === 'accrual' && entry.status === 'accrued' && !clawedBack.has(entry.id);
+              return (
+                <div key={entry.id} className="py-2 text-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-[var(--color-text-primary)] truncate">{entry.description}</p>
+                      <p className="text-xs text-[var(--color-text-tertiary)]">
+                        {KIND_LABELS[entry.kind]} • {formatDate(entry.accrued_at)}
+                        {entry.rate !== null && ` • ${entry.rate}%`}
+                        {entry.application_id && editable && (
+                          <>
+                            {' • '}
+                            <Link href={`/admin/applications/${entry.application_id}`} className="text-[var(--color-accent)] hover:underline">
+                              Application
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                      <span
+                        className={`font-medium ${
+                          Number(entry.amount) < 0 ? 'text-[var(--color-error)]' : 'text-[var(--color-text-primary)]'
+                        }`}
+                      >
+                        {entry.status === 'awaiting_fee' ? '—' : formatAmount(Number(entry.amount))}
+                      </span>
+                      {entry.status === 'awaiting_fee' ? (
+                        <Badge variant="warning" size="sm">Awaiting fee</Badge>
+                      ) : clawedBack.has(entry.id) ? (
+                        <Badge variant="error" size="sm">Clawed back</Badge>
+                      ) : entry.statement_id ? (
+                        <Badge variant="info" size="sm">On statement</Badge>
+                      ) : (
+                        <Badge variant="default" size="sm">Next statement</Badge>
+                      )}
+                    </div>
+                  </div>
+                  {canClawBack &&
+                    (clawbackEntryId === entry.id ? (
+                      <div className="mt-2 flex items-center gap-2">
+                        <input
+                          className={inputClass}
+                          placeholder="Reason, e.g. client repaid early"
+                          value={clawbackReason}
+                          onChange={(e) => setClawbackReason(e.target.value)}
+                        />
+                        <Button size="sm" variant="outline" onClick={() => setClawbackEntryId(null)} disabled={submitting}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          onClick={() => handleClawback(entry.id)}
+                          loading={submitting}
+                          disabled={!clawbackReason.trim()}
+                        >
+                          Claw back
+                        </Button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        className="mt-1 text-xs text-[var(--color-error)] hover:underline"
+                        onClick={() => {
+                          setClawbackEntryId(entry.id);
+                          setClawbackReason('');
+                        }}
+                      >
+                        Claw back
+                      </button>
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
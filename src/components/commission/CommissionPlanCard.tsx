@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedJson } from '@/lib/apiClient';
+import type { CommissionBasis, CommissionPlan, CommissionTier } from '@/lib/commission';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface CommissionPlanCardProps {
+  partnerCompanyId: string;
+  // partner_companies.default_commission_rate, which applies until a plan is set
+  defaultCommissionRate: number | null;
+  editable?: boolean;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+const BASIS_DESCRIPTIONS: Record<CommissionBasis, string> = {
+  funded_amount: 'of the funded amount',
+  broker_fee: 'of the fees we receive on each deal',
+};
+
+type TierForm = { min_volume: string; rate: string };
+
+function formatAmount(value: number) {
+  return `£${Math.round(value).toLocaleString('en-GB')}`;
+}
+
+export function CommissionPlanCard({ partnerCompanyId, defaultCommissionRate, editable = false }: CommissionPlanCardProps) {
+  const supabase = getSupabaseClient();
+  const [plan, setPlan] = useState<CommissionPlan | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [basis, setBasis] = useState<CommissionBasis>('funded_amount');
+  const [rate, setRate] = useState('');
+  const [clawbackDays, setClawbackDays] = useState('');
+  const [tiers, setTiers] = useState<TierForm[]>([]);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      const { data, error } = await supabase
+        .from('commission_plans')
+        .select('id, partner_company_id, basis, rate, tiers, clawback_days, updated_at')
+        .eq('partner_company_id', partnerCompanyId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading commission plan:', error);
+      }
+      setPlan(data as CommissionPlan | null);
+      setLoaded(true);
+    };
+
+    loadPlan();
+  }, [partnerCompanyId, supabase]);
+
+  const startEditing = () => {
+    setBasis(plan?.basis || 'funded_amount');
+    setRate(String(plan ? plan.rate : defaultCommissionRate || 0));
+    setClawbackDays(String(plan?.clawback_days || 0));
+    setTiers((plan?.tiers || []).map((tier) => ({ min_volume: String(tier.min_volume), rate: String(tier.rate) })));
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { plan: saved } = await authorizedJson<{ plan: CommissionPlan }>(
+        `/api/admin/partners/${partnerCompanyId}/commission-plan`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            basis,
+            rate: parseFloat(rate),
+            clawback_days: parseInt(clawbackDays || '0', 10),
+            tiers: tiers.map((tier) => ({ min_volume: parseFloat(tier.min_volume), rate: parseFloat(tier.rate) })),
+          }),
+        }
+      );
+      setPlan(saved);
+      setEditing(false);
+    } catch (err: any) {
+      alert('Error saving commission plan: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setTierField = (index: number, field: keyof TierForm, value: string) => {
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  if (!loaded) return null;
+
+  const effectiveBasis: CommissionBasis = plan?.basis || 'funded_amount';
+  const effectiveRate = plan ? Number(plan.rate) : defaultCommissionRate || 0;
+  const effectiveTiers: CommissionTier[] = plan?.tiers || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Commission Plan</h2>
+          {editable && !editing && (
+            <Button size="sm" variant="outline" onClick={startEditing}>
+              Edit
+            </Button>
+          )}
+          {!editable && !plan && (
+            <Badge variant="default" size="sm">
+              Standard
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {editing ? (
+          <div className="space-y-3 text-sm">
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Basis</label>
+              <select className={inputClass} value={basis} onChange={(e) => setBasis(e.target.value as CommissionBasis)}>
+                <option value="funded_amount">Percentage of funded amount</option>
+                <option value="broker_fee">Percentage of fees received (procuration and broker fees)</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Rate (%)</label>
+                <input type="number" min="0" max="100" step="0.01" className={inputClass} value={rate} onChange={(e) => setRate(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Clawback window (days)</label>
+                <input type="number" min="0" step="1" className={inputClass} value={clawbackDays} onChange={(e) => setClawbackDays(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)]">Volume tiers</label>
+                <button
+                  type="button"
+                  className="text-xs text-[var(--color-accent)] hover:underline"
+                  onClick={() => setTiers((prev) => [...prev, { min_volume: '', rate: '' }])}
+                >
+                  Add tier
+                </button>
+              </div>
+              {tiers.length === 0 ? (
+                <p className="text-xs text-[var(--color-text-tertiary)]">The rate above applies to every deal.</p>
+              ) : (
+                <div className="space-y-2">
+                  {tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-xs text-[var(--color-text-tertiary)] flex-shrink-0">From £</span>
+                      <input type="number" min="0" className={inputClass} placeholder="250000" value={tier.min_volume} onChange={(e) => setTierField(index, 'min_volume', e.target.value)} />
+                      <span className="text-xs text-[var(--color-text-tertiary)] flex-shrink-0">funded this year,</span>
+                      <input type="number" min="0" max="100" step="0.01" className={inputClass} placeholder="1.5" value={tier.rate} onChange={(e) => setTierField(index, 'rate', e.target.value)} />
+                      <span className="text-xs text-[var(--color-text-tertiary)]">%</span>
+                      <button
+                        type="button"
+                        className="text-xs text-[var(--color-error)] hover:underline"
+                        onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="sm" variant="primary" onClick={handleSave} loading={saving}>
+                Save plan
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <p className="text-[var(--color-text-primary)]">
+              <span className="font-medium">{effectiveRate}%</span> {BASIS_DESCRIPTIONS[effectiveBasis]}
+              {effectiveTiers.length > 0 && ' to start with'}
+            </p>
+            {effectiveTiers.map((tier) => (
+              <p key={tier.min_volume} className="text-xs text-[var(--color-text-secondary)]">
+                {tier.rate}% once {formatAmount(tier.min_volume)} has been funded in the calendar year
+              </p>
+            ))}
+            <p className="text-xs text-[var(--color-text-tertiary)]">
+              {plan && plan.clawback_days > 0
+                ? `Commission can be clawed back within ${plan.clawback_days} days of funding.`
+                : 'No clawback period.'}
+            </p>
+            {!plan && editable && (
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                No plan set: the partner&apos;s default commission rate applies.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
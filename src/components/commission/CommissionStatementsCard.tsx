@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedFetch, authorizedJson } from '@/lib/apiClient';
+import type { CommissionStatement, StatementRunSummary } from '@/lib/commission';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface CommissionStatementsCardProps {
+  partnerCompanyId: string;
+  editable?: boolean;
+  refreshKey?: number;
+  onChanged?: () => void;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+function formatAmount(value: number) {
+  const formatted = `£${Math.abs(value).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function formatMonth(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function CommissionStatementsCard({ partnerCompanyId, editable = false, refreshKey = 0, onChanged }: CommissionStatementsCardProps) {
+  const supabase = getSupabaseClient();
+  const [statements, setStatements] = useState<CommissionStatement[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [issuing, setIssuing] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [paidReference, setPaidReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadStatements = async () => {
+      const { data, error } = await supabase
+        .from('commission_statements')
+        .select('*')
+        .eq('partner_company_id', partnerCompanyId)
+        .order('period_start', { ascending: false });
+
+      if (error) {
+        console.error('Error loading commission statements:', error);
+      }
+      setStatements((data || []) as CommissionStatement[]);
+      setLoaded(true);
+    };
+
+    loadStatements();
+  }, [partnerCompanyId, refreshKey, supabase]);
+
+  const handleIssue = async () => {
+    setIssuing(true);
+    try {
+      const summary = await authorizedJson<StatementRunSummary>('/api/admin/commission-statements', {
+        method: 'POST',
+        body: JSON.stringify({ partner_company_id: partnerCompanyId }),
+      });
+      if (summary.statements_issued === 0) {
+        alert(
+          summary.carried_forward > 0
+            ? 'The outstanding balance is zero or negative, so it carries forward to next month.'
+            : `Nothing to issue for ${formatMonth(summary.period_start)}.`
+        );
+      }
+      onChanged?.();
+    } catch (err: any) {
+      alert('Error issuing statement: ' + err.message);
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleDownload = async (statement: CommissionStatement, format: 'pdf' | 'csv') => {
+    setDownloading(`${statement.id}-${format}`);
+    try {
+      const response = await authorizedFetch(`/api/commission-statements/${statement.id}/download?format=${format}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Error downloading statement');
+      }
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = disposition.match(/filename="([^"]+)"/)?.[1] || `commission-statement.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleMarkPaid = async (statementId: string) => {
+    setSaving(true);
+    try {
+      const { statement } = await authorizedJson<{ statement: CommissionStatement }>(
+        `/api/admin/commission-statements/${statementId}/paid`,
+        { method: 'POST', body: JSON.stringify({ paid_reference: paidReference }) }
+      );
+      setStatements((prev) => prev.map((s) => (s.id === statementId ? statement : s)));
+      setPayingId(null);
+      setPaidReference('');
+    } catch (err: any) {
+      alert('Error marking statement paid: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Commission Statements</h2>
+          {editable && (
+            <Button size="sm" variant="outline" onClick={handleIssue} loading={issuing}>
+              Issue last month
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!loaded ? null : statements.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-tertiary)]">
+            No statements yet. Statements are issued at the start of each month for the month before.
+          </p>
+        ) : (
+          <div className="divide-y divide-[var(--color-border)]">
+            {statements.map((statement) => (
+              <div key={statement.id} className="py-2 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-[var(--color-text-primary)]">{formatMonth(statement.period_start)}</p>
+                    <p className="text-xs text-[var(--color-text-tertiary)]">
+                      {statement.entry_count} {statement.entry_count === 1 ? 'entry' : 'entries'} • issued {formatDate(statement.issued_at)}
+                      {statement.paid_at && ` • paid ${formatDate(statement.paid_at)}`}
+                      {statement.paid_reference && ` (${statement.paid_reference})`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="font-medium text-[var(--color-text-primary)]">{formatAmount(Number(statement.total))}</span>
+                    <Badge variant={statement.status === 'paid' ? 'success' : 'warning'} size="sm">
+                      {statement.status === 'paid' ? 'Paid' : 'Unpaid'}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="mt-1 flex items-center gap-3 text-xs">
+                  <button
+                    type="button"
+                    className="text-[var(--color-accent)] hover:underline disabled:opacity-50"
+                    onClick={() => handleDownload(statement, 'pdf')}
+                    disabled={downloading !== null}
+                  >
+                    {downloading === `${statement.id}-pdf` ? 'Downloading...' : 'PDF'}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-[var(--color-accent)] hover:underline disabled:opacity-50"
+                    onClick={() => handleDownload(statement, 'csv')}
+                    disabled={downloading !== null}
+                  >
+                    {downloading === `${statement.id}-csv` ? 'Downloading...' : 'CSV'}
+                  </button>
+                  {editable && statement.status === 'issued' && payingId !== statement.id && (
+                    <button
+                      type="button"
+                      className="text-[var(--color-accent)] hover:underline"
+                      onClick={() => {
+                        setPayingId(statement.id);
+                        setPaidReference('');
+                      }}
+                    >
+                      Mark paid
+                    </button>
+                  )}
+                </div>
+                {payingId === statement.id && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      className={inputClass}
+                      placeholder="Payment reference (optional)"
+                      value={paidReference}
+                      onChange={(e) => setPaidReference(e.target.value)}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => setPayingId(null)} disabled={saving}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" variant="primary" onClick={() => handleMarkPaid(statement.id)} loading={saving}>
+                      Mark paid
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,3 @@
+export { CommissionPlanCard } from './CommissionPlanCard';
+export { CommissionLedgerCard } from './CommissionLedgerCard';
+export { CommissionStatementsCard } from './CommissionStatementsCard';
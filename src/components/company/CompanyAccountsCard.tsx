@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { authorizedJson } from '@/lib/apiClient';
+import type { CompanyAccountsSummary, StoredFiling } from '@/lib/companyAccounts';
+import { formatCurrency } from '@/lib/offers';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+const RECENT_FILINGS_SHOWN = 10;
+
+interface CompanyAccountsCardProps {
+  companyId: string;
+  companyNumber: string | null;
+  accountsSummary: CompanyAccountsSummary | null;
+  filingHistory: StoredFiling[] | null;
+}
+
+function formatDate(value: string | null) {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function formatAmount(value: number | null) {
+  if (value != null && value < 0) return `-${formatCurrency(-value)}`;
+  return formatCurrency(value);
+}
+
+function formatAccountsType(value: string | null) {
+  if (!value) return '—';
+  return value.replace(/-/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+export function CompanyAccountsCard({ companyId, companyNumber, accountsSummary, filingHistory }: CompanyAccountsCardProps) {
+  const [summary, setSummary] = useState(accountsSummary);
+  const [filings, setFilings] = useState(filingHistory || []);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = await authorizedJson<{ accounts_summary: CompanyAccountsSummary; filing_history: StoredFiling[] }>(
+        `/api/companies/${companyId}/accounts`,
+        { method: 'POST' }
+      );
+      setSummary(result.accounts_summary);
+      setFilings(result.filing_history);
+    } catch (err: any) {
+      alert('Error refreshing from Companies House: ' + err.message);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const financials = summary?.financials;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-medium text-[var(--color-text-primary)]">Accounts &amp; Filings</h2>
+            {summary && (
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-0.5">
+                From Companies House, {formatDate(summary.refreshed_at)}
+              </p>
+            )}
+          </div>
+          {companyNumber && (
+            <Button size="sm" variant="outline" onClick={handleRefresh} disabled={refreshing} loading={refreshing}>
+              {refreshing ? 'Refreshing...' : 'Refresh from Companies House'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!companyNumber ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">
+            Add a company number to load accounts from Companies House.
+          </p>
+        ) : !summary ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">
+            Accounts have not been loaded yet. They are fetched when eligibility is checked, or refresh now.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase">Last Made Up To</p>
+                <p className="text-sm text-[var(--color-text-primary)]">{formatDate(summary.last_made_up_to)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase">Accounts Type</p>
+                <p className="text-sm text-[var(--color-text-primary)]">{formatAccountsType(summary.accounts_type)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase">Next Due</p>
+                <p className="text-sm text-[var(--color-text-primary)]">
+                  {formatDate(summary.next_due)}
+                  {summary.overdue && (
+                    <span className="ml-2">
+                      <Badge variant="error" size="sm">Overdue</Badge>
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase">Years Filed</p>
+                <p className="text-sm text-[var(--color-text-primary)]">{summary.filed_accounts_years}</p>
+              </div>
+            </div>
+
+            {summary.confirmation_statement_overdue && (
+              <div className="p-3 bg-[var(--color-error-light)] border border-[var(--color-error)] rounded-lg">
+                <p className="text-sm text-[var(--color-error)]">Confirmation statement is overdue</p>
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase mb-2">
+                Financials{financials ? ` (year to ${formatDate(financials.made_up_to)})` : ''}
+              </p>
+              {financials ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 bg-[var(--color-bg-tertiary)] rounded-lg">
+                    <p className="text-xs text-[var(--color-text-tertiary)]">Turnover</p>
+                    <p className="text-sm font-medium text-[var(--color-text-primary)]">{formatAmount(financials.turnover)}</p>
+                  </div>
+                  <div className="p-3 bg-[var(--color-bg-tertiary)] rounded-lg">
+                    <p className="text-xs text-[var(--color-text-tertiary)]">Profit / Loss</p>
+                    <p
+                      className={`text-sm font-medium ${
+                        financials.profit_loss != null && financials.profit_loss < 0
+                          ? 'text-[var(--color-error)]'
+                          : 'text-[var(--color-text-primary)]'
+                      }`}
+                    >
+                      {formatAmount(financials.profit_loss)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-[var(--color-bg-tertiary)] rounded-lg">
+                    <p className="text-xs text-[var(--color-text-tertiary)]">Net Assets</p>
+                    <p
+                      className={`text-sm font-medium ${
+                        financials.net_assets != null && financials.net_assets < 0
+                          ? 'text-[var(--color-error)]'
+                          : 'text-[var(--color-text-primary)]'
+                      }`}
+                    >
+                      {formatAmount(financials.net_assets)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-[var(--color-bg-tertiary)] rounded-lg">
+                    <p className="text-xs text-[var(--color-text-tertiary)]">Total Assets</p>
+                    <p className="text-sm font-medium text-[var(--color-text-primary)]">{formatAmount(financials.total_assets)}</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-[var(--color-text-tertiary)]">{summary.financials_note || 'No figures available'}</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase mb-2">Recent Filings</p>
+              {filings.length === 0 ? (
+                <p className="text-sm text-[var(--color-text-tertiary)]">No filings on record.</p>
+              ) : (
+                <div className="space-y-2">
+                  {filings.slice(0, RECENT_FILINGS_SHOWN).map((filing) => (
+                    <div
+                      key={filing.transaction_id}
+                      className="flex items-center justify-between gap-3 p-3 bg-[var(--color-bg-tertiary)] rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm text-[var(--color-text-primary)] truncate">
+                          {filing.description.replace(/-/g, ' ')}
+                        </p>
+                        <p className="text-xs text-[var(--color-text-tertiary)]">{formatDate(filing.date)}</p>
+                      </div>
+                      <Badge variant={filing.category === 'accounts' ? 'info' : 'default'} size="sm">{filing.type}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import type { CompanyAlert } from '@/lib/companiesHouseMonitor';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface CompanyAlertsCardProps {
+  companyId: string;
+  checkedAt: string | null;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function CompanyAlertsCard({ companyId, checkedAt }: CompanyAlertsCardProps) {
+  const supabase = getSupabaseClient();
+  const [alerts, setAlerts] = useState<CompanyAlert[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAlerts = async () => {
+      const { data, error } = await supabase
+        .from('company_alerts')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('detected_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading company alerts:', error);
+        return;
+      }
+      setAlerts((data || []) as CompanyAlert[]);
+    };
+
+    loadAlerts();
+  }, [companyId, supabase]);
+
+  const handleDismiss = async (alertId: string) => {
+    setDismissingId(alertId);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('company_alerts')
+      .update({ resolved_at: new Date().toISOString(), resolved_by: user?.id || null })
+      .eq('id', alertId)
+      .select()
+      .single();
+
+    if (error) {
+      alert('Error dismissing alert: ' + error.message);
+    } else if (data) {
+      setAlerts((prev) => prev.map((a) => (a.id === alertId ? (data as CompanyAlert) : a)));
+    }
+    setDismissingId(null);
+  };
+
+  const open = alerts.filter((a) => !a.resolved_at);
+  const resolved = alerts.filter((a) => a.resolved_at);
+
+  // Nothing to show for a company that has never raised an alert
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-medium text-[var(--color-text-primary)]">Companies House Alerts</h2>
+            {checkedAt && (
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-0.5">Last checked {formatDate(checkedAt)}</p>
+            )}
+          </div>
+          <Badge variant={open.some((a) => a.severity === 'critical') ? 'error' : open.length > 0 ? 'warning' : 'default'}>
+            {open.length} open
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {open.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-2">No open alerts.</p>
+        ) : (
+          <div className="space-y-2">
+            {open.map((companyAlert) => (
+              <div
+                key={companyAlert.id}
+                className={`flex items-start justify-between gap-3 p-3 rounded-lg border ${
+                  companyAlert.severity === 'critical'
+                    ? 'bg-[var(--color-error-light)] border-[var(--color-error)]'
+                    : 'bg-[var(--color-bg-tertiary)] border-[var(--color-border)]'
+                }`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={companyAlert.severity === 'critical' ? 'error' : 'warning'} size="sm">
+                      {companyAlert.severity === 'critical' ? 'Critical' : 'Warning'}
+                    </Badge>
+                    <p className="text-sm font-medium text-[var(--color-text-primary)]">{companyAlert.message}</p>
+                  </div>
+                  <p className="text-xs text-[var(--color-text-tertiary)] mt-1">Detected {formatDate(companyAlert.detected_at)}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDismiss(companyAlert.id)}
+                  disabled={dismissingId !== null}
+                >
+                  {dismissingId === companyAlert.id ? 'Dismissing...' : 'Dismiss'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {resolved.length > 0 && (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={() => setShowResolved((v) => !v)}
+              className="text-sm text-[var(--color-accent)] hover:underline"
+            >
+              {showResolved ? 'Hide' : 'Show'} {resolved.length} resolved
+            </button>
+            {showResolved && (
+              <div className="space-y-2 mt-2">
+                {resolved.map((companyAlert) => (
+                  <div key={companyAlert.id} className="p-3 bg-[var(--color-bg-tertiary)] rounded-lg">
+                    <p className="text-sm text-[var(--color-text-secondary)]">{companyAlert.message}</p>
+                    <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                      Detected {formatDate(companyAlert.detected_at)} •{' '}
+                      {companyAlert.resolved_by ? 'Dismissed' : 'Cleared'} {formatDate(companyAlert.resolved_at!)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
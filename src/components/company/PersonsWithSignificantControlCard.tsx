@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CompaniesHousePsc } from '@/lib/companiesHouse';
+import {
+  describeNaturesOfControl,
+  guaranteeUsuallyRequired,
+  isActivePsc,
+  isIndividualPsc,
+  ownershipBand,
+} from '@/lib/beneficialOwners';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface PersonsWithSignificantControlCardProps {
+  companyNumber: string | null;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function PersonsWithSignificantControlCard({ companyNumber }: PersonsWithSignificantControlCardProps) {
+  const [pscs, setPscs] = useState<CompaniesHousePsc[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!companyNumber) return;
+
+    const loadPscs = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/companies-house/psc/${encodeURIComponent(companyNumber)}`);
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch persons with significant control');
+        }
+        setPscs(data.items || []);
+      } catch (err: any) {
+        console.error('Error loading persons with significant control', err);
+        setError(err.message || 'Failed to fetch persons with significant control');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPscs();
+  }, [companyNumber, attempt]);
+
+  const active = pscs.filter(isActivePsc);
+  const ceased = pscs.filter((psc) => !isActivePsc(psc));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Shareholders &amp; Control</h2>
+          {companyNumber && <Badge variant="default">{active.length}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!companyNumber ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">
+            Add a company number to load persons with significant control.
+          </p>
+        ) : loading ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">Loading...</p>
+        ) : error ? (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-[var(--color-error)]">{error}</p>
+            <Button size="sm" variant="outline" onClick={() => setAttempt((n) => n + 1)}>
+              Try again
+            </Button>
+          </div>
+        ) : active.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center py-4">
+            No persons with significant control registered.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {active.map((psc) => {
+              const band = ownershipBand(psc.natures_of_control);
+              return (
+                <div
+                  key={psc.name}
+                  className="flex items-center justify-between gap-3 p-3 bg-[var(--color-bg-tertiary)] rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--color-text-primary)]">{psc.name}</p>
+                    <p className="text-xs text-[var(--color-text-secondary)]">
+                      {describeNaturesOfControl(psc.natures_of_control).join(' • ')}
+                    </p>
+                    <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                      {isIndividualPsc(psc) ? psc.nationality || 'Individual' : 'Corporate entity'} • Notified {formatDate(psc.notified_on)}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                    <Badge variant={band ? 'info' : 'default'} size="sm">{band ? band.label : 'No shares'}</Badge>
+                    {guaranteeUsuallyRequired(psc) && <Badge variant="purple" size="sm">PG usually required</Badge>}
+                  </div>
+                </div>
+              );
+            })}
+            {ceased.length > 0 && (
+              <p className="text-xs text-[var(--color-text-tertiary)] pt-1">
+                {ceased.length} former {ceased.length === 1 ? 'person' : 'people'} with significant control not shown.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,3 @@
+export { CompanyAccountsCard } from './CompanyAccountsCard';
+export { PersonsWithSignificantControlCard } from './PersonsWithSignificantControlCard';
+export { CompanyAlertsCard } from './CompanyAlertsCard';
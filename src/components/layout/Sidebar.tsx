@@ -10,7 +10,11 @@ import {
   Users, 
   Settings, 
   DollarSign,
-  UserPlus
+  UserPlus,
+  ShieldCheck,
+  Trash2,
+  PoundSterling,
+  Receipt
 } from 'lucide-react';
 
 type UserRole = 'CLIENT' | 'PARTNER' | 'ADMIN';
@@ -55,6 +59,18 @@ const adminPartnerNavItems: NavItem[] = [
     icon: <Building2 className="w-5 h-5" />,
     roles: ['PARTNER'],
   },
+  {
+    label: 'Earnings',
+    href: '/partner/earnings',
+    icon: <PoundSterling className="w-5 h-5" />,
+    roles: ['PARTNER'],
+  },
+  {
+    label: 'Team',
+    href: '/partner/team',
+    icon: <Users className="w-5 h-5" />,
+    roles: ['PARTNER'],
+  },
   {
     label: 'Applications',
     href: '/admin/applications',
@@ -79,6 +95,24 @@ const adminPartnerNavItems: NavItem[] = [
     icon: <Users className="w-5 h-5" />,
     roles: ['ADMIN'],
   },
+  {
+    label: 'Receivables',
+    href: '/admin/receivables',
+    icon: <Receipt className="w-5 h-5" />,
+    roles: ['ADMIN'],
+  },
+  {
+    label: 'Audit Log',
+    href: '/admin/audit',
+    icon: <ShieldCheck className="w-5 h-5" />,
+    roles: ['ADMIN'],
+  },
+  {
+    label: 'Recently Deleted',
+    href: '/admin/deleted',
+    icon: <Trash2 className="w-5 h-5" />,
+    roles: ['ADMIN'],
+  },
   {
     label: 'Settings',
     href: '/settings',
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import { authorizedFetch, authorizedJson } from '@/lib/apiClient';
+import { TEMPLATE_FIELDS } from '@/lib/submissionPayload';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+const DOCUMENT_CATEGORIES = [
+  { value: 'bank_statements', label: '6 months bank statements' },
+  { value: 'management_accounts', label: 'Management accounts' },
+  { value: 'cashflow_forecast', label: 'Cashflow forecasts' },
+  { value: 'identity', label: 'Director ID and selfie' },
+  { value: 'other', label: 'Other' },
+];
+
+type PreviewResult = {
+  payload: unknown;
+  missing_fields: string[];
+  documents: { id: string; category: string; filename: string | null }[];
+  missing_document_categories: string[];
+};
+
+interface PayloadTemplateCardProps {
+  lenderId: string;
+  template: unknown | null;
+  requiredDocumentCategories: string[] | null;
+  // Applications to preview against (e.g. those already submitted to this lender)
+  applications: { id: string; label: string }[];
+  onSaved: (template: unknown | null, requiredDocumentCategories: string[] | null) => void;
+}
+
+export function PayloadTemplateCard({
+  lenderId,
+  template,
+  requiredDocumentCategories,
+  applications,
+  onSaved,
+}: PayloadTemplateCardProps) {
+  const supabase = getSupabaseClient();
+  const [templateText, setTemplateText] = useState(template ? JSON.stringify(template, null, 2) : '');
+  const [categories, setCategories] = useState<string[]>(requiredDocumentCategories || []);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const [previewApplicationId, setPreviewApplicationId] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  // Empty text means "no template": the default payload is sent
+  const parseTemplate = (): { ok: true; value: unknown | null } | { ok: false } => {
+    if (!templateText.trim()) return { ok: true, value: null };
+    try {
+      return { ok: true, value: JSON.parse(templateText) };
+    } catch (err: any) {
+      setParseError('Template is not valid JSON: ' + err.message);
+      return { ok: false };
+    }
+  };
+
+  const handleSave = async () => {
+    setParseError(null);
+    const parsed = parseTemplate();
+    if (!parsed.ok) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('lenders')
+      .update({
+        payload_template: parsed.value,
+        required_document_categories: categories.length > 0 ? categories : null,
+      })
+      .eq('id', lenderId);
+
+    if (error) {
+      alert('Error saving template: ' + error.message);
+    } else {
+      onSaved(parsed.value, categories.length > 0 ? categories : null);
+      setDirty(false);
+    }
+    setSaving(false);
+  };
+
+  const handlePreview = async () => {
+    if (!previewApplicationId) return;
+    setParseError(null);
+    setPreviewError(null);
+    const parsed = parseTemplate();
+    if (!parsed.ok) return;
+
+    setPreviewing(true);
+    try {
+      const result = await authorizedJson<PreviewResult>(`/api/lenders/${lenderId}/payload-preview`, {
+        method: 'POST',
+        body: JSON.stringify({
+          application_id: previewApplicationId,
+          template: parsed.value,
+          required_document_categories: categories.length > 0 ? categories : null,
+        }),
+      });
+      setPreview(result);
+    } catch (err: any) {
+      setPreviewError(err.message);
+      setPreview(null);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleDownloadPack = async () => {
+    if (!previewApplicationId) return;
+    setDownloading(true);
+    try {
+      const response = await authorizedFetch(
+        `/api/applications/${previewApplicationId}/document-pack?lender_id=${lenderId}`
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Error building document pack');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `documents-${previewApplicationId}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Submission Payload</h2>
+          <Badge variant={template ? 'success' : 'default'}>{template ? 'Custom template' : 'Default payload'}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="block text-xs font-medium text-[var(--color-text-tertiary)] mb-1">
+            Field mapping template (JSON)
+          </label>
+          <textarea
+            className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-xs font-mono placeholder:text-[var(--color-text-tertiary)] focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]"
+            rows={10}
+            placeholder={'{\n  "business_name": "{{company.name}}",\n  "loan_amount": "{{application.requested_amount}}"\n}'}
+            value={templateText}
+            onChange={(e) => {
+              setTemplateText(e.target.value);
+              setDirty(true);
+            }}
+          />
+          <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+            Available fields: {TEMPLATE_FIELDS.map((field) => `{{${field}}}`).join(', ')}
+          </p>
+          {parseError && <p className="text-xs text-[var(--color-error)] mt-1">{parseError}</p>}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-[var(--color-text-tertiary)] mb-2">
+            Documents to include (none selected = all documents)
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {DOCUMENT_CATEGORIES.map((cat) => (
+              <label key={cat.value} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                  checked={categories.includes(cat.value)}
+                  onChange={(e) => {
+                    setCategories((prev) =>
+                      e.target.checked ? [...prev, cat.value] : prev.filter((c) => c !== cat.value)
+                    );
+                    setDirty(true);
+                  }}
+                />
+                <span className="text-sm text-[var(--color-text-primary)]">{cat.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="primary" disabled={!dirty || saving} onClick={handleSave}>
+            {saving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </div>
+
+        {/* Preview */}
+        <div className="pt-4 border-t border-[var(--color-border)] space-y-3">
+          <p className="text-xs font-medium text-[var(--color-text-tertiary)] uppercase">Preview</p>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)]"
+              value={previewApplicationId}
+              onChange={(e) => {
+                setPreviewApplicationId(e.target.value);
+                setPreview(null);
+              }}
+            >
+              <option value="">Select an application...</option>
+              {applications.map((app) => (
+                <option key={app.id} value={app.id}>{app.label}</option>
+              ))}
+            </select>
+            <Button variant="secondary" disabled={!previewApplicationId || previewing} onClick={handlePreview}>
+              {previewing ? 'Rendering...' : 'Preview'}
+            </Button>
+            <Button variant="outline" disabled={!previewApplicationId || downloading} onClick={handleDownloadPack}>
+              {downloading ? 'Zipping...' : 'Download Pack'}
+            </Button>
+          </div>
+          {applications.length === 0 && (
+            <p className="text-xs text-[var(--color-text-tertiary)]">
+              Preview is available once an application has been submitted to this lender.
+            </p>
+          )}
+          {previewError && <p className="text-sm text-[var(--color-error)]">{previewError}</p>}
+
+          {preview && (
+            <div className="space-y-2">
+              {preview.missing_fields.length > 0 && (
+                <div className="p-3 rounded-lg bg-[var(--color-warning-light)]">
+                  <p className="text-sm font-medium text-[var(--color-warning)]">Missing fields</p>
+                  <p className="text-xs text-[var(--color-warning)]">{preview.missing_fields.join(', ')}</p>
+                </div>
+              )}
+              {preview.missing_document_categories.length > 0 && (
+                <div className="p-3 rounded-lg bg-[var(--color-warning-light)]">
+                  <p className="text-sm font-medium text-[var(--color-warning)]">Missing documents</p>
+                  <p className="text-xs text-[var(--color-warning)]">
+                    {preview.missing_document_categories
+                      .map((c) => DOCUMENT_CATEGORIES.find((cat) => cat.value === c)?.label || c)
+                      .join(', ')}
+                  </p>
+                </div>
+              )}
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                {preview.documents.length} document{preview.documents.length !== 1 ? 's' : ''} in pack
+              </p>
+              <pre className="max-h-80 overflow-auto rounded-lg bg-[var(--color-bg-tertiary)] p-3 text-xs font-mono text-[var(--color-text-primary)]">
+                {JSON.stringify(preview.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
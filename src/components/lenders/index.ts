@@ -0,0 +1 @@
+export { PayloadTemplateCard } from './PayloadTemplateCard';
@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabaseClient';
+import {
+  Offer,
+  REPAYMENT_FREQUENCIES,
+  RepaymentFrequency,
+  calculateOfferCosts,
+  daysUntilExpiry,
+  formatCurrency,
+  isOfferOpen,
+  formatOfferRate,
+  formatOfferRepayments,
+  formatOfferTerm,
+} from '@/lib/offers';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+const emptyForm = {
+  lender_id: '',
+  amount: '',
+  term_months: '',
+  factor_rate: '',
+  apr: '',
+  arrangement_fee: '',
+  other_fees: '',
+  repayment_frequency: '' as RepaymentFrequency | '',
+  repayment_amount: '',
+  expires_at: '',
+  conditions: '',
+};
+
+interface AdminOffersCardProps {
+  applicationId: string;
+  requestedAmount: number | null;
+  loanType: string | null;
+  lenders: { id: string; name: string }[];
+}
+
+export function AdminOffersCard({ applicationId, requestedAmount, loanType, lenders }: AdminOffersCardProps) {
+  const supabase = getSupabaseClient();
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadOffers = async () => {
+      const { data, error } = await supabase
+        .from('offers')
+        .select('*, lender:lender_id(id, name)')
+        .eq('application_id', applicationId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading offers:', error);
+        return;
+      }
+      setOffers((data || []) as Offer[]);
+    };
+
+    loadOffers();
+  }, [applicationId, supabase]);
+
+  const setField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toNumber = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+  const handleCreate = async () => {
+    if (!form.lender_id || !form.amount) {
+      alert('Lender and amount are required');
+      return;
+    }
+    if (!form.factor_rate && !form.apr && !form.repayment_amount) {
+      alert('Enter a factor rate, APR or repayment amount so the offer can be compared');
+      return;
+    }
+    if (form.repayment_amount && !form.repayment_frequency) {
+      alert('Select a repayment frequency');
+      return;
+    }
+
+    setSaving(true);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('offers')
+      .insert({
+        application_id: applicationId,
+        lender_id: form.lender_id,
+        amount: parseFloat(form.amount),
+        term_months: form.term_months ? parseInt(form.term_months, 10) : null,
+        factor_rate: toNumber(form.factor_rate),
+        apr: toNumber(form.apr),
+        arrangement_fee: toNumber(form.arrangement_fee),
+        other_fees: toNumber(form.other_fees),
+        repayment_frequency: form.repayment_frequency || null,
+        repayment_amount: toNumber(form.repayment_amount),
+        // The offer stays open until the end of the chosen day
+        expires_at: form.expires_at ? new Date(`${form.expires_at}T23:59:59`).toISOString() : null,
+        conditions: form.conditions.trim() || null,
+        status: 'pending',
+        created_by: user?.id || null,
+      })
+      .select('*, lender:lender_id(id, name)')
+      .single();
+
+    if (error) {
+      alert('Error creating offer: ' + error.message);
+    } else if (data) {
+      setOffers((prev) => [data as Offer, ...prev]);
+      setForm(emptyForm);
+      setShowForm(false);
+    }
+    setSaving(false);
+  };
+
+  const handleWithdraw = async (offerId: string) => {
+    if (!confirm('Withdraw this offer? The client will no longer see it.')) return;
+
+    const { error } = await supabase.from('offers').delete().eq('id', offerId);
+    if (error) {
+      alert('Error withdrawing offer: ' + error.message);
+      return;
+    }
+    setOffers((prev) => prev.filter((o) => o.id !== offerId));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium text-[var(--color-text-primary)]">Offers ({offers.length})</h2>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="text-xs text-[var(--color-accent)] hover:underline"
+            >
+              + Add offer
+            </button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-3 pb-4 border-b border-[var(--color-border)]">
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Lender</label>
+              <select className={inputClass} value={form.lender_id} onChange={(e) => setField('lender_id', e.target.value)}>
+                <option value="">Select lender...</option>
+                {lenders.map((lender) => (
+                  <option key={lender.id} value={lender.id}>
+                    {lender.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Amount (£)</label>
+                <input type="number" className={inputClass} placeholder="50000" value={form.amount} onChange={(e) => setField('amount', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Term (months)</label>
+                <input type="number" className={inputClass} placeholder="12" value={form.term_months} onChange={(e) => setField('term_months', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Factor rate</label>
+                <input type="number" step="0.01" className={inputClass} placeholder="1.25" value={form.factor_rate} onChange={(e) => setField('factor_rate', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">APR (%)</label>
+                <input type="number" step="0.1" className={inputClass} placeholder="18.5" value={form.apr} onChange={(e) => setField('apr', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Arrangement fee (£)</label>
+                <input type="number" className={inputClass} value={form.arrangement_fee} onChange={(e) => setField('arrangement_fee', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Other fees (£)</label>
+                <input type="number" className={inputClass} value={form.other_fees} onChange={(e) => setField('other_fees', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Repayment frequency</label>
+                <select className={inputClass} value={form.repayment_frequency} onChange={(e) => setField('repayment_frequency', e.target.value)}>
+                  <option value="">—</option>
+                  {REPAYMENT_FREQUENCIES.map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Repayment (£)</label>
+                <input type="number" className={inputClass} value={form.repayment_amount} onChange={(e) => setField('repayment_amount', e.target.value)} />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Offer expires</label>
+              <input type="date" className={inputClass} value={form.expires_at} onChange={(e) => setField('expires_at', e.target.value)} />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Conditions</label>
+              <textarea
+                className={inputClass}
+                rows={3}
+                placeholder="e.g., Personal guarantee from each director"
+                value={form.conditions}
+                onChange={(e) => setField('conditions', e.target.value)}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="primary" className="flex-1" disabled={saving} onClick={handleCreate}>
+                {saving ? 'Saving...' : 'Save Offer'}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setShowForm(false);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {offers.length === 0 && !showForm && (
+          <p className="text-sm text-[var(--color-text-tertiary)]">No offers yet.</p>
+        )}
+
+        {offers.map((offer) => {
+          const costs = calculateOfferCosts(offer);
+          return (
+            <div key={offer.id} className="p-3 rounded-lg border border-[var(--color-border)] space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-[var(--color-text-primary)]">{offer.lender?.name || 'Unknown lender'}</p>
+                <Badge
+                  variant={
+                    offer.status === 'accepted'
+                      ? 'success'
+                      : offer.status === 'declined'
+                        ? 'error'
+                        : offer.status === 'lapsed'
+                          ? 'warning'
+                          : 'default'
+                  }
+                >
+                  {offer.status}
+                </Badge>
+              </div>
+              <p className="text-lg font-semibold text-[var(--color-text-primary)]">{formatCurrency(offer.amount)}</p>
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                {formatOfferTerm(offer)} · {formatOfferRate(offer)} · {formatOfferRepayments(offer)}
+              </p>
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                Cost of credit {formatCurrency(costs.totalCostOfCredit)} · {formatCurrency(costs.monthlyEquivalent)}/month equiv.
+              </p>
+              {offer.expires_at && (
+                <p
+                  className={`text-xs ${
+                    isOfferOpen(offer) && (daysUntilExpiry(offer) ?? Infinity) <= 3
+                      ? 'text-[var(--color-warning)]'
+                      : 'text-[var(--color-text-tertiary)]'
+                  }`}
+                >
+                  {offer.status === 'lapsed' ? 'Lapsed' : 'Expires'} {new Date(offer.expires_at).toLocaleDateString('en-GB')}
+                  {isOfferOpen(offer) && ` (${daysUntilExpiry(offer)}d)`}
+                </p>
+              )}
+              {offer.status === 'pending' && (
+                <button
+                  onClick={() => handleWithdraw(offer.id)}
+                  className="text-xs text-[var(--color-error)] hover:underline"
+                >
+                  Withdraw
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="pt-3 border-t border-[var(--color-border)] space-y-2">
+          <p className="text-xs text-[var(--color-text-tertiary)] uppercase font-medium">Application Details</p>
+          <div className="flex justify-between">
+            <span className="text-sm text-[var(--color-text-secondary)]">Requested</span>
+            <span className="text-sm font-medium">£{requestedAmount?.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-[var(--color-text-secondary)]">Type</span>
+            <span className="text-sm font-medium">{loanType}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
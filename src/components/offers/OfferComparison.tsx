@@ -0,0 +1,159 @@
+'use client';
+
+import {
+  Offer,
+  calculateOfferCosts,
+  daysUntilExpiry,
+  formatCurrency,
+  isOfferExpired,
+  isOfferOpen,
+  formatOfferRate,
+  formatOfferRepayments,
+  formatOfferTerm,
+} from '@/lib/offers';
+
+interface OfferComparisonProps {
+  offers: Offer[];
+  onAccept?: (offerId: string) => void;
+  onDecline?: (offerId: string) => void;
+}
+
+/**
+ * Offers side by side with the computed cost rows, so clients compare like for
+ * like rather than each lender's own way of quoting.
+ */
+export function OfferComparison({ offers, onAccept, onDecline }: OfferComparisonProps) {
+  const withCosts = offers.map((offer) => ({ offer, costs: calculateOfferCosts(offer) }));
+
+  // Cheapest pending offer by total cost of credit gets highlighted
+  const comparable = withCosts.filter((o) => isOfferOpen(o.offer) && o.costs.totalCostOfCredit != null);
+  const cheapestId = comparable.length > 1
+    ? comparable.reduce((best, o) => (o.costs.totalCostOfCredit! < best.costs.totalCostOfCredit! ? o : best)).offer.id
+    : null;
+
+  const rows: { label: string; value: (o: (typeof withCosts)[number]) => React.ReactNode; emphasis?: boolean }[] = [
+    { label: 'Amount', value: ({ offer }) => formatCurrency(offer.amount), emphasis: true },
+    { label: 'Term', value: ({ offer }) => formatOfferTerm(offer) },
+    { label: 'Rate', value: ({ offer }) => formatOfferRate(offer) },
+    { label: 'Repayments', value: ({ offer }) => formatOfferRepayments(offer) },
+    { label: 'Fees', value: ({ costs }) => (costs.totalFees > 0 ? formatCurrency(costs.totalFees) : 'None') },
+    { label: 'Total repayable', value: ({ costs }) => formatCurrency(costs.totalRepayable != null ? costs.totalRepayable + costs.totalFees : null) },
+    { label: 'Total cost of credit', value: ({ costs }) => formatCurrency(costs.totalCostOfCredit), emphasis: true },
+    { label: 'Monthly equivalent', value: ({ costs }) => formatCurrency(costs.monthlyEquivalent) },
+    {
+      label: 'Offer expires',
+      value: ({ offer }) => {
+        if (!offer.expires_at) return '—';
+        const date = new Date(offer.expires_at).toLocaleDateString('en-GB');
+        const days = daysUntilExpiry(offer);
+        if (!isOfferOpen(offer) || days == null || days > 7) return date;
+        return (
+          <span className="text-[var(--color-warning)]">
+            {date} ({days <= 1 ? 'last day' : `${days} days left`})
+          </span>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm border-separate border-spacing-0">
+        <thead>
+          <tr>
+            <th className="text-left p-3" />
+            {withCosts.map(({ offer }) => (
+              <th
+                key={offer.id}
+                className={`text-left p-3 align-top min-w-[180px] rounded-t-xl ${
+                  offer.id === cheapestId ? 'bg-[var(--color-success-light)]' : ''
+                } ${!isOfferOpen(offer) && offer.status !== 'accepted' ? 'opacity-60' : ''}`}
+              >
+                <p className="text-base font-semibold text-[var(--color-text-primary)]">{offer.lender?.name || 'Lender'}</p>
+                {offer.id === cheapestId && (
+                  <span className="text-xs font-medium text-[var(--color-success)]">Lowest cost</span>
+                )}
+                {offer.status === 'accepted' && (
+                  <span className="px-2 py-1 bg-[var(--color-success-light)] text-[var(--color-success)] text-xs rounded-full font-medium">
+                    ✓ Accepted
+                  </span>
+                )}
+                {isOfferExpired(offer) && (
+                  <span className="px-2 py-1 bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] text-xs rounded-full font-medium">
+                    Expired
+                  </span>
+                )}
+                {offer.status === 'declined' && (
+                  <span className="px-2 py-1 bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] text-xs rounded-full font-medium">
+                    Declined
+                  </span>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td className="p-3 text-[var(--color-text-tertiary)] border-t border-[var(--color-border)] whitespace-nowrap">{row.label}</td>
+              {withCosts.map((o) => (
+                <td
+                  key={o.offer.id}
+                  className={`p-3 border-t border-[var(--color-border)] text-[var(--color-text-primary)] ${
+                    row.emphasis ? 'font-semibold' : 'font-medium'
+                  } ${o.offer.id === cheapestId ? 'bg-[var(--color-success-light)]' : ''}`}
+                >
+                  {row.value(o)}
+                </td>
+              ))}
+            </tr>
+          ))}
+          {withCosts.some(({ offer }) => offer.conditions) && (
+            <tr>
+              <td className="p-3 text-[var(--color-text-tertiary)] border-t border-[var(--color-border)] align-top">Conditions</td>
+              {withCosts.map(({ offer }) => (
+                <td key={offer.id} className="p-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)] whitespace-pre-line align-top">
+                  {offer.conditions || '—'}
+                </td>
+              ))}
+            </tr>
+          )}
+          {(onAccept || onDecline) && (
+            <tr>
+              <td className="p-3" />
+              {withCosts.map(({ offer }) => (
+                <td key={offer.id} className="p-3 border-t border-[var(--color-border)]">
+                  {isOfferOpen(offer) && (
+                    <div className="flex flex-col gap-2">
+                      {onAccept && (
+                        <button
+                          onClick={() => onAccept(offer.id)}
+                          className="px-4 py-2 bg-[var(--color-success)] text-white rounded-lg hover:opacity-90 font-medium transition-colors"
+                        >
+                          Accept Offer
+                        </button>
+                      )}
+                      {onDecline && (
+                        <button
+                          onClick={() => onDecline(offer.id)}
+                          className="px-4 py-2 border border-[var(--color-border)] text-[var(--color-text-secondary)] rounded-lg hover:bg-[var(--color-bg-tertiary)] font-medium transition-colors"
+                        >
+                          Decline
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {offer.status === 'accepted' && (
+                    <p className="text-xs text-[var(--color-text-tertiary)]">
+                      Accepted {offer.accepted_at ? new Date(offer.accepted_at).toLocaleDateString('en-GB') : ''}
+                    </p>
+                  )}
+                </td>
+              ))}
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { OfferComparison } from './OfferComparison';
+export { AdminOffersCard } from './AdminOffersCard';
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authorizedJson } from '@/lib/apiClient';
+import type { ReferralCampaign, ReferralCampaignWithFunnel } from '@/lib/referralCampaigns';
+import { Card, CardHeader, CardContent, Badge, Button } from '@/components/ui';
+
+interface ReferralCampaignsCardProps {
+  // Admin view of every link in a partner company; partners see their own links
+  partnerCompanyId?: string;
+  editable?: boolean;
+}
+
+const inputClass =
+  'w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--color-accent)] focus:border-[var(--color-accent)] placeholder:text-[var(--color-text-tertiary)]';
+
+const thClass = 'text-left text-xs font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider px-4 py-2';
+
+function campaignLink(code: string) {
+  return typeof window !== 'undefined' ? `${window.location.origin}/r/${code}` : `/r/${code}`;
+}
+
+function ownerName(campaign: ReferralCampaignWithFunnel) {
+  const owner = campaign.partner_user;
+  if (!owner) return '—';
+  return [owner.first_name, owner.last_name].filter(Boolean).join(' ') || owner.email;
+}
+
+export function ReferralCampaignsCard({ partnerCompanyId, editable = false }: ReferralCampaignsCardProps) {
+  const [campaigns, setCampaigns] = useState<ReferralCampaignWithFunnel[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCampaigns = async () => {
+      try {
+        const query = partnerCompanyId ? `?partner_company_id=${encodeURIComponent(partnerCompanyId)}` : '';
+        const { campaigns: data } = await authorizedJson<{ campaigns: ReferralCampaignWithFunnel[] }>(
+          `/api/referral-campaigns${query}`
+        );
+        setCampaigns(data);
+      } catch (err) {
+        console.error('Error loading referral links:', err);
+      }
+      setLoaded(true);
+    };
+
+    loadCampaigns();
+  }, [partnerCompanyId, reloadKey]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await authorizedJson<{ campaign: ReferralCampaign }>('/api/referral-campaigns', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      setName('');
+      setReloadKey((key) => key + 1);
+    } catch (err: any) {
+      alert('Error creating referral link: ' + err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleArchive = async (campaign: ReferralCampaignWithFunnel) => {
+    if (!confirm(`Archive "${campaign.name}"? The link will stop tracking new clicks.`)) return;
+    setArchivingId(campaign.id);
+    try {
+      const { campaign: archived } = await authorizedJson<{ campaign: ReferralCampaign }>(
+        `/api/referral-campaigns/${campaign.id}/archive`,
+        { method: 'POST' }
+      );
+      setCampaigns((prev) => prev.map((c) => (c.id === archived.id ? { ...c, archived_at: archived.archived_at } : c)));
+    } catch (err: any) {
+      alert('Error archiving referral link: ' + err.message);
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
+  const handleCopy = async (campaign: ReferralCampaignWithFunnel) => {
+    try {
+      await navigator.clipboard.writeText(campaignLink(campaign.code));
+      setCopiedId(campaign.id);
+    } catch (err) {
+      alert('Unable to copy the link');
+    }
+  };
+
+  if (!loaded) return null;
+
+  // Active links first, then archived ones for their history
+  const sorted = [...campaigns].sort((a, b) => Number(!!a.archived_at) - Number(!!b.archived_at));
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="font-medium text-[var(--color-text-primary)]">Referral Links</h2>
+        <p className="text-sm text-[var(--color-text-tertiary)]">
+          {editable
+            ? 'Create a link per channel, such as a newsletter or an accountant office, to see which bring funded deals.'
+            : 'Links shared by this partner and how far their clients got.'}
+        </p>
+      </CardHeader>
+      <CardContent className="p-0">
+        {sorted.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-[var(--color-text-tertiary)]">No referral links yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                  <th className={thClass}>Link</th>
+                  {!editable && <th className={thClass}>Partner</th>}
+                  <th className={thClass}>Clicks</th>
+                  <th className={thClass}>Signups</th>
+                  <th className={thClass}>Applied</th>
+                  <th className={thClass}>Funded</th>
+                  {editable && <th className={thClass}></th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border)]">
+                {sorted.map((campaign) => (
+                  <tr key={campaign.id} className={campaign.archived_at ? 'opacity-60' : ''}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-[var(--color-text-primary)]">{campaign.name}</span>
+                        {campaign.archived_at && <Badge variant="default" size="sm">Archived</Badge>}
+                      </div>
+                      <div className="flex items-center gap-2 mt-0.5">
+                        <span className="text-xs font-mono text-[var(--color-text-tertiary)]">/r/{campaign.code}</span>
+                        {!campaign.archived_at && (
+                          <button
+                            type="button"
+                            className="text-xs text-[var(--color-accent)] hover:underline"
+                            onClick={() => handleCopy(campaign)}
+                          >
+                            {copiedId === campaign.id ? 'Copied' : 'Copy link'}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                    {!editable && (
+                      <td className="px-4 py-3 text-sm text-[var(--color-text-secondary)]">{ownerName(campaign)}</td>
+                    )}
+                    <td className="px-4 py-3 text-sm text-[var(--color-text-secondary)]">{campaign.funnel.clicks}</td>
+                    <td className="px-4 py-3 text-sm text-[var(--color-text-secondary)]">{campaign.funnel.signups}</td>
+                    <td className="px-4 py-3 text-sm text-[var(--color-text-secondary)]">{campaign.funnel.applications}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-[var(--color-text-primary)]">{campaign.funnel.funded}</td>
+                    {editable && (
+                      <td className="px-4 py-3 text-right">
+                        {!campaign.archived_at && (
+                          <button
+                            type="button"
+                            className="text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-error)]"
+                            onClick={() => handleArchive(campaign)}
+                            disabled={archivingId === campaign.id}
+                          >
+                            Archive
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {editable && (
+          <div className="flex gap-2 px-6 py-4 border-t border-[var(--color-border)]">
+            <input
+              className={inputClass}
+              placeholder="New link name, e.g. Spring newsletter"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button size="sm" variant="primary" onClick={handleCreate} loading={creating} disabled={!name.trim()}>
+              Create
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
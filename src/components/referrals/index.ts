@@ -0,0 +1 @@
+export { ReferralCampaignsCard } from './ReferralCampaignsCard';
@@ -0,0 +1,46 @@
+// src/lib/apiClient.ts
+'use client';
+
+import { getSupabaseClient } from './supabaseClient';
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any) {
+    super(message);
+  }
+}
+
+/**
+ * fetch() against our own API routes with the current session's access token,
+ * which is what requireRole() on the server expects.
+ */
+export async function authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const supabase = getSupabaseClient();
+  const { data: { session }, error } = await supabase.auth.getSession();
+
+  if (error || !session?.access_token) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  return fetch(input, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(init.headers || {}),
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  });
+}
+
+/**
+ * Convenience wrapper that parses JSON and throws the route's `error` message on failure.
+ */
+export async function authorizedJson<T = any>(input: string, init: RequestInit = {}): Promise<T> {
+  const response = await authorizedFetch(input, init);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(body?.error || `Request failed (${response.status})`, response.status, body);
+  }
+
+  return body as T;
+}
@@ -0,0 +1,48 @@
+// src/lib/applicationAccess.ts
+//
+// Who may see an application from a server route: admins see everything, clients
+// their own applications, partners those of companies under their partner company,
+// or only the companies they referred when their referral visibility is 'own'.
+import { AuthorizedRequest } from './supabaseAdmin';
+import { loadReferralVisibility } from './partnerTeam';
+
+export type AccessibleApplication = {
+  company_id: string | null;
+  created_by: string | null;
+  owner_id: string | null;
+};
+
+export async function canAccessApplication(
+  auth: AuthorizedRequest,
+  application: AccessibleApplication
+): Promise<boolean> {
+  const { user, profile, supabaseAdmin } = auth;
+
+  if (profile.role === 'ADMIN') return true;
+
+  if (profile.role === 'CLIENT') {
+    if (application.created_by === user.id || application.owner_id === user.id) return true;
+    if (!application.company_id) return false;
+
+    const { data: clientProfile } = await supabaseAdmin
+      .from('profiles')
+      .select('company_id')
+      .eq('id', user.id)
+      .maybeSingle();
+    return clientProfile?.company_id === application.company_id;
+  }
+
+  // PARTNER
+  if (application.created_by === user.id) return true;
+  if (!profile.partner_company_id || !application.company_id) return false;
+
+  const { data: company } = await supabaseAdmin
+    .from('companies')
+    .select('partner_company_id, referred_by')
+    .eq('id', application.company_id)
+    .maybeSingle();
+  if (company?.partner_company_id !== profile.partner_company_id) return false;
+  if (company.referred_by === user.id) return true;
+
+  return (await loadReferralVisibility(supabaseAdmin, user.id)) === 'firm';
+}
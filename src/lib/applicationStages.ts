@@ -0,0 +1,168 @@
+// src/lib/applicationStages.ts
+//
+// Application stage state machine shared by the admin UI and the stage route.
+// Transitions are only applied server-side (see src/lib/stageTransitions.ts);
+// the UI uses the same rules to offer just the moves that can succeed.
+
+export const STAGES = [
+  'created',
+  'submitted',
+  'in_credit',
+  'info_required',
+  'approved',
+  'onboarding',
+  'funded',
+  'declined',
+  'withdrawn',
+] as const;
+
+export type ApplicationStage = (typeof STAGES)[number];
+
+export const STAGE_TRANSITIONS: Record<ApplicationStage, ApplicationStage[]> = {
+  created: ['submitted', 'declined', 'withdrawn'],
+  submitted: ['in_credit', 'info_required', 'declined', 'withdrawn'],
+  in_credit: ['info_required', 'approved', 'declined', 'withdrawn'],
+  info_required: ['submitted', 'in_credit', 'declined', 'withdrawn'],
+  approved: ['onboarding', 'info_required', 'declined', 'withdrawn'],
+  // Back to approved when an accepted offer falls through before funding
+  onboarding: ['funded', 'approved', 'declined', 'withdrawn'],
+  funded: [],
+  // Closed applications can be reopened for review
+  declined: ['submitted'],
+  withdrawn: ['submitted'],
+};
+
+// Transitions a client may make on their own application; everything else is admin-only
+export const CLIENT_TRANSITIONS: [ApplicationStage, ApplicationStage][] = [
+  ['created', 'submitted'],
+  ['info_required', 'submitted'],
+  ['approved', 'onboarding'],
+];
+
+export const STAGE_REASONS: Partial<Record<ApplicationStage, string[]>> = {
+  declined: [
+    'Insufficient trading history',
+    'Insufficient revenue',
+    'Adverse credit',
+    'Affordability',
+    'Sector not supported',
+    'No lender appetite',
+    'Incomplete information',
+    'Other',
+  ],
+  withdrawn: [
+    'Client no longer needs funding',
+    'Client found funding elsewhere',
+    'Offers not suitable',
+    'Client unresponsive',
+    'Duplicate application',
+    'Other',
+  ],
+};
+
+export function isApplicationStage(value: unknown): value is ApplicationStage {
+  return typeof value === 'string' && (STAGES as readonly string[]).includes(value);
+}
+
+export function allowedTransitions(from: string): ApplicationStage[] {
+  return isApplicationStage(from) ? STAGE_TRANSITIONS[from] : [];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return allowedTransitions(from).includes(to as ApplicationStage);
+}
+
+export function isClientTransition(from: string, to: string): boolean {
+  return CLIENT_TRANSITIONS.some(([f, t]) => f === from && t === to);
+}
+
+export function requiresReason(stage: string): boolean {
+  return stage === 'declined' || stage === 'withdrawn';
+}
+
+// Timeline row as returned by /api/applications/[id]/stage-history
+export type StageHistoryEntry = {
+  id: string;
+  from_stage: string | null;
+  to_stage: string;
+  created_at: string;
+  changed_by_role: string | null;
+  // Admins only
+  changed_by?: { id: string; name: string; email: string | null } | null;
+  // Admins always; partners for declines and withdrawals
+  reason?: string | null;
+};
+
+// What the guards need to know about the application
+export type StageGuardContext = {
+  offerStatuses: string[];
+  // Lender of the accepted offer, null when no offer is accepted
+  acceptedOfferLenderId: string | null;
+  acceptedLenderId: string | null;
+  openInfoRequestCount: number;
+  // Status of the latest director identity verification, null when none was submitted
+  identityStatus: string | null;
+  reason: string | null;
+};
+
+/**
+ * Preconditions for entering a stage. Returns one message per unmet condition;
+ * an empty array means the transition may go ahead.
+ */
+export function checkStageGuards(from: string, to: string, context: StageGuardContext): string[] {
+  if (from === to) {
+    return [`Application is already ${to.replace(/_/g, ' ')}`];
+  }
+  if (!canTransition(from, to)) {
+    return [`Cannot move from ${from.replace(/_/g, ' ')} to ${to.replace(/_/g, ' ')}`];
+  }
+
+  const unmet: string[] = [];
+  const hasAcceptedOffer = context.offerStatuses.includes('accepted');
+
+  switch (to) {
+    case 'approved':
+      if (!context.offerStatuses.some((status) => status === 'pending' || status === 'accepted')) {
+        unmet.push('Add at least one open offer before approving');
+      }
+      break;
+    case 'onboarding':
+      if (!hasAcceptedOffer) {
+        unmet.push('An offer must be accepted before onboarding');
+      }
+      break;
+    case 'funded':
+      if (!hasAcceptedOffer) {
+        unmet.push('An offer must be accepted before funding');
+      }
+      if (!context.acceptedLenderId) {
+        unmet.push('Set the accepted lender before funding');
+      } else if (hasAcceptedOffer && context.acceptedOfferLenderId !== context.acceptedLenderId) {
+        unmet.push("The accepted lender does not match the accepted offer's lender");
+      }
+      break;
+    case 'submitted':
+      // Same rule as the application wizard: verified, or waiting on an admin's review.
+      // Only the first submission is checked; resubmissions and reopened applications
+      // may predate identity verification.
+      if (from === 'created') {
+        if (context.identityStatus === 'failed') {
+          unmet.push('Identity verification failed; the director must verify again before submitting');
+        } else if (context.identityStatus !== 'verified' && context.identityStatus !== 'review') {
+          unmet.push('The director must verify their identity before submitting');
+        }
+      }
+      break;
+    case 'info_required':
+      if (context.openInfoRequestCount === 0) {
+        unmet.push('Create an information request for the client first');
+      }
+      break;
+  }
+
+  if (requiresReason(to) && !context.reason?.trim()) {
+    unmet.push(`A reason is required when marking an application ${to}`);
+  }
+
+  return unmet;
+}
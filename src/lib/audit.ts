@@ -0,0 +1,61 @@
+// src/lib/audit.ts
+//
+// Types for the append-only audit_log table. Entries are written by database
+// triggers (migrations/add_audit_log.sql), never from application code.
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AuditLogEntry = {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  entity_type: string;
+  entity_id: string;
+  entity_label: string | null;
+  action: AuditAction;
+  // update: { column: { from, to } }; insert/delete: the full row
+  changes: Record<string, any>;
+};
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  profiles: 'User',
+  companies: 'Company',
+  partner_companies: 'Partner company',
+  applications: 'Application',
+  lenders: 'Lender',
+  offers: 'Offer',
+  information_requests: 'Information request',
+  lender_submissions: 'Lender submission',
+  documents: 'Document',
+  deal_fees: 'Deal fee',
+  commission_plans: 'Commission plan',
+  commission_entries: 'Commission entry',
+  identity_verifications: 'Identity verification',
+};
+
+// Admin page for each entity, where one exists
+export function auditEntityHref(entry: Pick<AuditLogEntry, 'entity_type' | 'entity_id' | 'action'>): string | null {
+  if (entry.action === 'delete') return null;
+  switch (entry.entity_type) {
+    case 'profiles':
+      return `/admin/users/${entry.entity_id}`;
+    case 'companies':
+      return `/admin/companies/${entry.entity_id}`;
+    case 'partner_companies':
+      return `/admin/partners/${entry.entity_id}`;
+    case 'applications':
+      return `/admin/applications/${entry.entity_id}`;
+    case 'lenders':
+      return `/admin/lenders/${entry.entity_id}`;
+    default:
+      return null;
+  }
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
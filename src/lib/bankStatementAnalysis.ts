@@ -0,0 +1,475 @@
+// src/lib/bankStatementAnalysis.ts
+//
+// Affordability metrics from an application's bank transactions: average monthly
+// revenue, the share of it taken by card, repayments to existing lenders (spotted
+// by payee), returned payments, and the lowest balance and days spent overdrawn.
+// Transactions come from Open Banking (bank_transactions) and from uploaded CSV
+// or OFX statements; the result is stored on applications.bank_analysis, where
+// eligibility prefers it to the figures the client declared.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BANK_STATEMENTS_CATEGORY } from './openBanking';
+import {
+  ParsedTransaction,
+  StatementParseError,
+  parseStatementFile,
+  statementFileFormat,
+} from './bankStatementParsers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+// A lender last paid longer ago than this before the statements end is settled
+const ACTIVE_LENDER_DAYS = 45;
+const RECENT_RETURNED_PAYMENTS = 10;
+const STORAGE_BUCKET = 'application-documents';
+const TRANSACTION_PAGE_SIZE = 1000;
+
+// Payees of UK business lenders as they appear on statements, and who they are
+const LENDER_PAYEES: Array<[string, string]> = [
+  ['IWOCA', 'iwoca'],
+  ['FUNDING CIRCLE', 'Funding Circle'],
+  ['YOULEND', 'YouLend'],
+  ['LIBERIS', 'Liberis'],
+  ['365 BUSINESS FINANCE', '365 Business Finance'],
+  ['365 FINANCE', '365 Business Finance'],
+  ['CAPITAL ON TAP', 'Capital on Tap'],
+  ['BOOST CAPITAL', 'Boost Capital'],
+  ['MARKETFINANCE', 'MarketFinance'],
+  ['MARKET FINANCE', 'MarketFinance'],
+  ['FLEXIMIZE', 'Fleximize'],
+  ['OPTIMUM FINANCE', 'Optimum Finance'],
+  ['NUCLEUS COMMERCIAL', 'Nucleus Commercial Finance'],
+  ['UNCAPPED', 'Uncapped'],
+  ['SWIFTFUND', 'Swiftfund'],
+  ['BIBBY', 'Bibby Financial Services'],
+  ['CLOSE BROTHERS', 'Close Brothers'],
+  ['SHAWBROOK', 'Shawbrook'],
+  ['THINCATS', 'ThinCats'],
+  ['SALARY FINANCE', 'Salary Finance'],
+  ['PAYPAL WORKING CAPITAL', 'PayPal Working Capital'],
+  ['PAYPAL BUSINESS LOAN', 'PayPal Business Loan'],
+  ['SHOPIFY CAPITAL', 'Shopify Capital'],
+  ['AMAZON LENDING', 'Amazon Lending'],
+  ['BOUNCE BACK LOAN', 'Bounce Back Loan'],
+  ['BBL REPAYMENT', 'Bounce Back Loan'],
+];
+
+// Card acquirers whose settlements are card takings
+const CARD_ACQUIRERS = [
+  'WORLDPAY',
+  'SUMUP',
+  'ZETTLE',
+  'IZETTLE',
+  'STRIPE',
+  'SQUARE',
+  'DOJO',
+  'ELAVON',
+  'TAKEPAYMENTS',
+  'GLOBAL PAYMENTS',
+  'FIRST DATA',
+  'BARCLAYCARD MERCHANT',
+  'BARCLAYCARD PAYMENTS',
+  'TYL',
+  'PAYPAL ZETTLE',
+  'AMEX SETTLEMENT',
+  'AMERICAN EXPRESS SETTLEMENT',
+];
+
+const CARD_SETTLEMENT_TYPES = ['CARD_SETTLEMENT', 'MERCHANT_SETTLEMENT'];
+const RETURNED_TYPES = ['RETURNED_DIRECT_DEBIT', 'RETURNED_PAYMENT', 'RETURNED_CHEQUE'];
+const RETURNED_PATTERN = /\b(UNPAID|RETURNED|BOUNCED|REFER TO DRAWER|INSUFFICIENT FUNDS|RTN)\b/;
+const FEE_PATTERN = /\b(FEE|CHARGE|CHARGES)\b/;
+// Money moved between the business's own accounts is not revenue
+const OWN_TRANSFER_PATTERN = /\b(OWN ACCOUNT|INTERNAL TRANSFER|FROM SAVINGS|SAVINGS TRANSFER)\b/;
+
+export type StatementTransaction = ParsedTransaction & {
+  // Groups transactions for running balances: one per bank account or file
+  account: string;
+};
+
+export type ExistingLender = {
+  name: string;
+  payments: number;
+  total_repaid: number;
+  last_paid_on: string;
+  // Paid within ACTIVE_LENDER_DAYS of the statements ending
+  active: boolean;
+};
+
+export type ReturnedPayment = Pick<ParsedTransaction, 'booked_on' | 'description' | 'amount'>;
+
+export type MonthlyFigures = {
+  // YYYY-MM
+  month: string;
+  revenue: number;
+  card_takings: number;
+  lender_repayments: number;
+};
+
+export type BankStatementAnalysis = {
+  analysed_at: string;
+  period_from: string | null;
+  period_to: string | null;
+  months_analysed: number;
+  transaction_count: number;
+  average_monthly_revenue: number | null;
+  card_takings_percentage: number | null;
+  existing_lenders: ExistingLender[];
+  // Lenders still being repaid; what max_existing_lenders is checked against
+  existing_lender_count: number;
+  average_monthly_lender_repayments: number | null;
+  returned_payments: { count: number; total: number; recent: ReturnedPayment[] };
+  // Null when the statements carry no running balance
+  lowest_balance: number | null;
+  lowest_balance_on: string | null;
+  days_negative: number | null;
+  monthly: MonthlyFigures[];
+  sources: {
+    open_banking_transactions: number;
+    files_analysed: string[];
+    files_skipped: { filename: string; reason: string }[];
+  };
+};
+
+function normaliseDescription(value: string): string {
+  return ` ${value.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim()} `;
+}
+
+function includesPhrase(description: string, phrase: string): boolean {
+  return description.indexOf(` ${phrase} `) !== -1;
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function matchLender(description: string): string | null {
+  for (const [phrase, name] of LENDER_PAYEES) {
+    if (includesPhrase(description, phrase)) return name;
+  }
+  return null;
+}
+
+function isReturnedPayment(tx: StatementTransaction, description: string): boolean {
+  if (tx.transaction_type && RETURNED_TYPES.includes(tx.transaction_type.toUpperCase())) return true;
+  return RETURNED_PATTERN.test(description) && !FEE_PATTERN.test(description);
+}
+
+function isCardTakings(tx: StatementTransaction, description: string): boolean {
+  if (tx.transaction_type && CARD_SETTLEMENT_TYPES.includes(tx.transaction_type.toUpperCase())) return true;
+  return CARD_ACQUIRERS.some((acquirer) => includesPhrase(description, acquirer));
+}
+
+function emptyAnalysis(now: Date): BankStatementAnalysis {
+  return {
+    analysed_at: now.toISOString(),
+    period_from: null,
+    period_to: null,
+    months_analysed: 0,
+    transaction_count: 0,
+    average_monthly_revenue: null,
+    card_takings_percentage: null,
+    existing_lenders: [],
+    existing_lender_count: 0,
+    average_monthly_lender_repayments: null,
+    returned_payments: { count: 0, total: 0, recent: [] },
+    lowest_balance: null,
+    lowest_balance_on: null,
+    days_negative: null,
+    monthly: [],
+    sources: { open_banking_transactions: 0, files_analysed: [], files_skipped: [] },
+  };
+}
+
+/**
+ * Compute the metrics from a set of transactions. Revenue is money in, less
+ * returned payments, lender drawdowns and transfers between own accounts.
+ */
+export function analyseTransactions(
+  transactions: StatementTransaction[],
+  now: Date = new Date()
+): BankStatementAnalysis {
+  const analysis = emptyAnalysis(now);
+  if (transactions.length === 0) return analysis;
+
+  const sorted = transactions
+    .slice()
+    .sort((a, b) => (a.booked_on < b.booked_on ? -1 : a.booked_on > b.booked_on ? 1 : 0));
+  const periodFrom = sorted[0].booked_on;
+  const periodTo = sorted[sorted.length - 1].booked_on;
+  const months = Math.max(1, ((new Date(periodTo).getTime() - new Date(periodFrom).getTime()) / DAY_MS + 1) / AVERAGE_MONTH_DAYS);
+
+  let revenue = 0;
+  let cardTakings = 0;
+  let lenderRepayments = 0;
+  const monthly: Record<string, MonthlyFigures> = {};
+  const lenders: Record<string, ExistingLender> = {};
+  const returned: ReturnedPayment[] = [];
+  let returnedTotal = 0;
+
+  for (const tx of sorted) {
+    const description = normaliseDescription(tx.description);
+    const monthKey = tx.booked_on.slice(0, 7);
+    const month = (monthly[monthKey] = monthly[monthKey] || {
+      month: monthKey,
+      revenue: 0,
+      card_takings: 0,
+      lender_repayments: 0,
+    });
+    const lender = matchLender(description);
+
+    if (isReturnedPayment(tx, description)) {
+      returned.push({ booked_on: tx.booked_on, description: tx.description, amount: tx.amount });
+      returnedTotal += Math.abs(tx.amount);
+      continue;
+    }
+
+    if (tx.amount > 0) {
+      if (lender || OWN_TRANSFER_PATTERN.test(description)) continue;
+      revenue += tx.amount;
+      month.revenue += tx.amount;
+      if (isCardTakings(tx, description)) {
+        cardTakings += tx.amount;
+        month.card_takings += tx.amount;
+      }
+    } else if (lender) {
+      const repayment = -tx.amount;
+      lenderRepayments += repayment;
+      month.lender_repayments += repayment;
+      const entry = (lenders[lender] = lenders[lender] || {
+        name: lender,
+        payments: 0,
+        total_repaid: 0,
+        last_paid_on: tx.booked_on,
+        active: false,
+      });
+      entry.payments += 1;
+      entry.total_repaid += repayment;
+      entry.last_paid_on = tx.booked_on;
+    }
+  }
+
+  const activeFrom = addDays(periodTo, -ACTIVE_LENDER_DAYS);
+  const existingLenders = Object.keys(lenders)
+    .map((name) => ({
+      ...lenders[name],
+      total_repaid: round(lenders[name].total_repaid),
+      active: lenders[name].last_paid_on >= activeFrom,
+    }))
+    .sort((a, b) => b.total_repaid - a.total_repaid);
+
+  // Balances are per account: end-of-day balance, carried over days without transactions
+  let lowestBalance: number | null = null;
+  let lowestBalanceOn: string | null = null;
+  const negativeDays: Record<string, true> = {};
+  let hasBalances = false;
+  const accounts: Record<string, StatementTransaction[]> = {};
+  for (const tx of sorted) {
+    (accounts[tx.account] = accounts[tx.account] || []).push(tx);
+  }
+  for (const account of Object.keys(accounts)) {
+    const rows = accounts[account].filter((tx) => tx.balance !== null);
+    if (rows.length === 0) continue;
+    hasBalances = true;
+
+    const endOfDay: Record<string, number> = {};
+    for (const tx of rows) {
+      endOfDay[tx.booked_on] = tx.balance!;
+      if (lowestBalance === null || tx.balance! < lowestBalance) {
+        lowestBalance = tx.balance!;
+        lowestBalanceOn = tx.booked_on;
+      }
+    }
+
+    let balance = rows[0].balance!;
+    for (let day = rows[0].booked_on; day <= periodTo; day = addDays(day, 1)) {
+      if (endOfDay[day] !== undefined) balance = endOfDay[day];
+      if (balance < 0) negativeDays[day] = true;
+    }
+  }
+
+  return {
+    ...analysis,
+    period_from: periodFrom,
+    period_to: periodTo,
+    months_analysed: round(months, 1),
+    transaction_count: sorted.length,
+    average_monthly_revenue: round(revenue / months),
+    card_takings_percentage: revenue > 0 ? round((cardTakings / revenue) * 100, 1) : null,
+    existing_lenders: existingLenders,
+    existing_lender_count: existingLenders.filter((lender) => lender.active).length,
+    average_monthly_lender_repayments: round(lenderRepayments / months),
+    returned_payments: {
+      count: returned.length,
+      total: round(returnedTotal),
+      recent: returned.slice(-RECENT_RETURNED_PAYMENTS).reverse(),
+    },
+    lowest_balance: lowestBalance,
+    lowest_balance_on: lowestBalanceOn,
+    days_negative: hasBalances ? Object.keys(negativeDays).length : null,
+    monthly: Object.keys(monthly)
+      .sort()
+      .map((key) => ({
+        month: key,
+        revenue: round(monthly[key].revenue),
+        card_takings: round(monthly[key].card_takings),
+        lender_repayments: round(monthly[key].lender_repayments),
+      })),
+  };
+}
+
+type ConnectedAccount = {
+  id: string;
+  provider_account_id: string;
+  sort_code: string | null;
+  account_number_last4: string | null;
+  connection: { connected_at: string | null; created_at: string } | null;
+};
+
+/**
+ * Accounts from successful connections, one per real account: reconnecting the same
+ * bank creates a new connection with the same accounts, so only the latest is kept.
+ */
+async function loadConnectedAccountIds(supabaseAdmin: SupabaseClient, applicationId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('bank_accounts')
+    .select('id, provider_account_id, sort_code, account_number_last4, connection:connection_id!inner(connected_at, created_at)')
+    .eq('application_id', applicationId)
+    // Failed connections may have stored a partial history before erroring
+    .eq('connection.status', 'connected');
+
+  if (error) {
+    throw new Error(`Error loading bank accounts: ${error.message}`);
+  }
+
+  const latest: Record<string, { id: string; connectedAt: string }> = {};
+  for (const account of (data || []) as unknown as ConnectedAccount[]) {
+    const key = account.sort_code && account.account_number_last4
+      ? `${account.sort_code}:${account.account_number_last4}`
+      : `provider:${account.provider_account_id}`;
+    const connectedAt = account.connection?.connected_at || account.connection?.created_at || '';
+    if (!latest[key] || connectedAt > latest[key].connectedAt) {
+      latest[key] = { id: account.id, connectedAt };
+    }
+  }
+  return Object.keys(latest).map((key) => latest[key].id);
+}
+
+async function loadOpenBankingTransactions(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<StatementTransaction[]> {
+  const accountIds = await loadConnectedAccountIds(supabaseAdmin, applicationId);
+  if (accountIds.length === 0) return [];
+
+  const transactions: StatementTransaction[] = [];
+  for (let from = 0; ; from += TRANSACTION_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('bank_transactions')
+      .select('account_id, booked_on, description, amount, balance, transaction_type')
+      .eq('application_id', applicationId)
+      .in('account_id', accountIds)
+      .order('booked_on', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + TRANSACTION_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Error loading bank transactions: ${error.message}`);
+    }
+    for (const row of data || []) {
+      transactions.push({
+        account: row.account_id,
+        booked_on: row.booked_on,
+        description: row.description,
+        amount: Number(row.amount),
+        balance: row.balance === null ? null : Number(row.balance),
+        transaction_type: row.transaction_type,
+      });
+    }
+    if (!data || data.length < TRANSACTION_PAGE_SIZE) break;
+  }
+  return transactions;
+}
+
+/**
+ * Analyse everything we hold for the application and store the result on
+ * applications.bank_analysis. Statements generated from Open Banking are skipped,
+ * since their transactions are already read from bank_transactions.
+ */
+export async function analyseApplicationStatements(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  now: Date = new Date()
+): Promise<BankStatementAnalysis> {
+  const openBanking = await loadOpenBankingTransactions(supabaseAdmin, applicationId);
+
+  const { data: generated } = await supabaseAdmin
+    .from('bank_accounts')
+    .select('statement_document_id')
+    .eq('application_id', applicationId);
+  const generatedIds = (generated || []).map((row) => row.statement_document_id).filter(Boolean);
+
+  const { data: documents, error: documentsError } = await supabaseAdmin
+    .from('documents')
+    .select('id, original_filename, storage_path, mime_type')
+    .eq('application_id', applicationId)
+    .eq('category', BANK_STATEMENTS_CATEGORY);
+
+  if (documentsError) {
+    throw new Error(`Error loading bank statements: ${documentsError.message}`);
+  }
+
+  const uploaded: StatementTransaction[] = [];
+  const filesAnalysed: string[] = [];
+  const filesSkipped: { filename: string; reason: string }[] = [];
+
+  for (const document of documents || []) {
+    if (generatedIds.includes(document.id)) continue;
+    const filename = document.original_filename || document.storage_path;
+
+    const format = statementFileFormat(document.original_filename, document.mime_type);
+    if (!format) {
+      filesSkipped.push({ filename, reason: 'Only CSV and OFX statements can be analysed' });
+      continue;
+    }
+
+    const { data: file, error: downloadError } = await supabaseAdmin.storage
+      .from(STORAGE_BUCKET)
+      .download(document.storage_path);
+    if (downloadError || !file) {
+      filesSkipped.push({ filename, reason: `Could not download: ${downloadError?.message || 'no file'}` });
+      continue;
+    }
+
+    try {
+      const parsed = parseStatementFile(format, await file.text());
+      for (const tx of parsed) uploaded.push({ ...tx, account: document.id });
+      filesAnalysed.push(filename);
+    } catch (err: any) {
+      if (!(err instanceof StatementParseError)) throw err;
+      filesSkipped.push({ filename, reason: err.message });
+    }
+  }
+
+  const analysis = analyseTransactions(openBanking.concat(uploaded), now);
+  analysis.sources = {
+    open_banking_transactions: openBanking.length,
+    files_analysed: filesAnalysed,
+    files_skipped: filesSkipped,
+  };
+
+  const { error: updateError } = await supabaseAdmin
+    .from('applications')
+    .update({ bank_analysis: analysis })
+    .eq('id', applicationId);
+
+  if (updateError) {
+    throw new Error(`Error saving bank analysis: ${updateError.message}`);
+  }
+
+  return analysis;
+}
@@ -0,0 +1,256 @@
+// src/lib/bankStatementParsers.ts
+//
+// Transactions from uploaded bank statement exports, for the statement analysis in
+// bankStatementAnalysis.ts. CSV exports vary by bank, so columns are found by
+// header name (date, description, a signed amount or separate money in/out
+// columns, and balance when present); OFX/QFX files are read from their STMTTRN
+// records, with running balances worked back from the ledger balance. PDFs and
+// images are not read.
+
+export class StatementParseError extends Error {}
+
+export type ParsedTransaction = {
+  // YYYY-MM-DD
+  booked_on: string;
+  description: string;
+  // Signed: money in is positive
+  amount: number;
+  balance: number | null;
+  transaction_type: string | null;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Banks often put account details above the header row
+const HEADER_SEARCH_LINES = 10;
+
+const COLUMN_NAMES = {
+  date: ['date', 'transactiondate', 'postingdate', 'postdate', 'bookingdate', 'completeddate'],
+  description: ['description', 'details', 'narrative', 'transactiondescription', 'payee', 'name', 'reference', 'memo'],
+  amount: ['amount', 'value', 'transactionamount', 'amountgbp'],
+  money_in: ['moneyin', 'paidin', 'credit', 'credits', 'creditamount', 'in'],
+  money_out: ['moneyout', 'paidout', 'debit', 'debits', 'debitamount', 'out'],
+  balance: ['balance', 'runningbalance', 'balancegbp', 'closingbalance'],
+  type: ['type', 'transactiontype'],
+};
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * A statement date as YYYY-MM-DD. Numeric dates are read day first, as UK banks
+ * write them.
+ */
+export function parseStatementDate(raw: string): string | null {
+  const value = raw.trim();
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const numeric = value.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    const month = Number(numeric[2]);
+    const day = Number(numeric[1]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  const named = value.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2}|\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    if (month === 0) return null;
+    const year = named[3].length === 2 ? 2000 + Number(named[3]) : Number(named[3]);
+    return `${year}-${pad(month)}-${pad(Number(named[1]))}`;
+  }
+
+  return null;
+}
+
+/**
+ * A money amount, allowing currency symbols, thousands separators, (brackets) and
+ * CR/DR suffixes for sign.
+ */
+export function parseStatementAmount(raw: string): number | null {
+  let value = raw.trim().replace(/[£$€,\s]/g, '');
+  if (!value) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(value)) {
+    sign = -1;
+    value = value.slice(1, -1);
+  }
+  const suffix = value.match(/(CR|DR)$/i);
+  if (suffix) {
+    if (suffix[1].toUpperCase() === 'DR') sign = -sign;
+    value = value.slice(0, -2);
+  }
+
+  const amount = Number(value);
+  return isNaN(amount) ? null : Math.round(sign * amount * 100) / 100;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+function normaliseHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function findColumn(headers: string[], names: string[]): number {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+export function parseStatementCsv(text: string): ParsedTransaction[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+
+  let headerIndex = -1;
+  let columns: Record<keyof typeof COLUMN_NAMES, number> | null = null;
+  for (let i = 0; i < Math.min(lines.length, HEADER_SEARCH_LINES); i++) {
+    const headers = splitCsvLine(lines[i]).map(normaliseHeader);
+    const found = {
+      date: findColumn(headers, COLUMN_NAMES.date),
+      description: findColumn(headers, COLUMN_NAMES.description),
+      amount: findColumn(headers, COLUMN_NAMES.amount),
+      money_in: findColumn(headers, COLUMN_NAMES.money_in),
+      money_out: findColumn(headers, COLUMN_NAMES.money_out),
+      balance: findColumn(headers, COLUMN_NAMES.balance),
+      type: findColumn(headers, COLUMN_NAMES.type),
+    };
+    if (found.date !== -1 && (found.amount !== -1 || (found.money_in !== -1 && found.money_out !== -1))) {
+      headerIndex = i;
+      columns = found;
+      break;
+    }
+  }
+
+  if (!columns) {
+    throw new StatementParseError('No date and amount columns found');
+  }
+
+  const transactions: ParsedTransaction[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line);
+    const cell = (index: number) => (index === -1 ? '' : (cells[index] || '').trim());
+
+    const bookedOn = parseStatementDate(cell(columns.date));
+    let amount: number | null;
+    if (columns.amount !== -1) {
+      amount = parseStatementAmount(cell(columns.amount));
+    } else {
+      const moneyIn = parseStatementAmount(cell(columns.money_in));
+      const moneyOut = parseStatementAmount(cell(columns.money_out));
+      amount = moneyIn === null && moneyOut === null ? null : (moneyIn || 0) - Math.abs(moneyOut || 0);
+    }
+    // Opening/closing balance lines and page footers have no date or amount
+    if (!bookedOn || amount === null) continue;
+
+    transactions.push({
+      booked_on: bookedOn,
+      description: cell(columns.description),
+      amount,
+      balance: columns.balance === -1 ? null : parseStatementAmount(cell(columns.balance)),
+      transaction_type: cell(columns.type) || null,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new StatementParseError('No transactions found');
+  }
+  return transactions;
+}
+
+// Works for both SGML OFX (unclosed tags) and XML OFX
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+}
+
+function ofxDate(raw: string | null): string | null {
+  if (!raw || !/^\d{8}/.test(raw)) return null;
+  return `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}`;
+}
+
+export function parseOfx(text: string): ParsedTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<STMTTRN>|<\/BANKTRANLIST>|$)/gi) || [];
+
+  const transactions: ParsedTransaction[] = [];
+  for (const block of blocks) {
+    const bookedOn = ofxDate(ofxValue(block, 'DTPOSTED'));
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') || '');
+    if (!bookedOn || amount === null) continue;
+
+    transactions.push({
+      booked_on: bookedOn,
+      description: [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' '),
+      amount,
+      balance: null,
+      transaction_type: ofxValue(block, 'TRNTYPE'),
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new StatementParseError('No transactions found');
+  }
+
+  transactions.sort((a, b) => (a.booked_on < b.booked_on ? -1 : a.booked_on > b.booked_on ? 1 : 0));
+
+  // Work the running balance back from the closing ledger balance
+  const ledger = text.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i);
+  const closing = ledger ? parseStatementAmount(ofxValue(ledger[0], 'BALAMT') || '') : null;
+  if (closing !== null) {
+    let balance = closing;
+    for (let i = transactions.length - 1; i >= 0; i--) {
+      transactions[i].balance = Math.round(balance * 100) / 100;
+      balance -= transactions[i].amount;
+    }
+  }
+
+  return transactions;
+}
+
+export type StatementFileFormat = 'csv' | 'ofx';
+
+/**
+ * The format of an uploaded statement we can read, or null (PDFs, images...).
+ */
+export function statementFileFormat(filename: string | null, mimeType: string | null): StatementFileFormat | null {
+  const extension = (filename || '').split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || mimeType === 'application/x-ofx') return 'ofx';
+  if (extension === 'csv' || mimeType === 'text/csv') return 'csv';
+  return null;
+}
+
+export function parseStatementFile(format: StatementFileFormat, text: string): ParsedTransaction[] {
+  return format === 'ofx' ? parseOfx(text) : parseStatementCsv(text);
+}
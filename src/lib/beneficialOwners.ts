@@ -0,0 +1,114 @@
+// src/lib/beneficialOwners.ts
+//
+// Persons with significant control (PSCs) from Companies House, and which of them
+// the applicant has put forward as personal guarantors (applications.beneficial_owners).
+// Most lenders want a guarantee from every individual owning more than 25%, which is
+// every ownership band Companies House reports, so those owners are pre-selected.
+import type { CompaniesHousePsc } from './companiesHouse';
+
+// Companies House only reports holdings above this, in the bands below
+export const GUARANTEE_OWNERSHIP_THRESHOLD_PERCENT = 25;
+
+export type OwnershipBand = {
+  // Exclusive lower bound: "25-to-50" means more than 25% and up to 50%
+  min: number;
+  max: number;
+  label: string;
+};
+
+export type BeneficialOwner = {
+  name: string;
+  kind: string;
+  natures_of_control: string[];
+  notified_on: string;
+  date_of_birth?: { month: number; year: number } | null;
+  nationality?: string | null;
+  guarantor: boolean;
+};
+
+const BAND_PATTERN = /^(ownership-of-shares|voting-rights|right-to-share-surplus-assets)-(\d+)-to-(\d+)-percent/;
+
+const CONTROL_LABELS: Record<string, string> = {
+  'ownership-of-shares': 'Shares',
+  'voting-rights': 'Voting rights',
+  'right-to-share-surplus-assets': 'Surplus assets',
+};
+
+function parseBand(nature: string): { control: string; band: OwnershipBand } | null {
+  const match = nature.match(BAND_PATTERN);
+  if (!match) return null;
+  const min = Number(match[2]);
+  const max = Number(match[3]);
+  return {
+    control: match[1],
+    band: { min, max, label: max === 100 ? `More than ${min}%` : `${min}–${max}%` },
+  };
+}
+
+/**
+ * The share ownership band (or, for LLPs, the surplus assets band) held by the
+ * PSC, or null when their control is by other means.
+ */
+export function ownershipBand(natures: string[]): OwnershipBand | null {
+  for (const nature of natures) {
+    const parsed = parseBand(nature);
+    if (parsed && parsed.control !== 'voting-rights') return parsed.band;
+  }
+  return null;
+}
+
+/**
+ * Short labels for each nature of control, e.g. "Shares 50–75%", "Appoints directors".
+ */
+export function describeNaturesOfControl(natures: string[]): string[] {
+  const labels = natures.map((nature) => {
+    const parsed = parseBand(nature);
+    if (parsed) return `${CONTROL_LABELS[parsed.control]} ${parsed.band.label}`;
+    if (nature.startsWith('right-to-appoint-and-remove')) return 'Appoints directors';
+    if (nature.startsWith('significant-influence-or-control')) return 'Significant influence';
+    return nature.replace(/-/g, ' ');
+  });
+  // Trust and firm variants repeat the same label
+  return labels.filter((label, index) => labels.indexOf(label) === index);
+}
+
+export function isIndividualPsc(psc: Pick<CompaniesHousePsc, 'kind'>): boolean {
+  return psc.kind === 'individual-person-with-significant-control';
+}
+
+export function isActivePsc(psc: Pick<CompaniesHousePsc, 'ceased_on'>): boolean {
+  return !psc.ceased_on;
+}
+
+/**
+ * Whether lenders will usually ask this PSC for a personal guarantee: an individual
+ * holding more than 25% of the shares.
+ */
+export function guaranteeUsuallyRequired(psc: Pick<CompaniesHousePsc, 'kind' | 'natures_of_control' | 'ceased_on'>): boolean {
+  if (!isIndividualPsc(psc) || !isActivePsc(psc)) return false;
+  const band = ownershipBand(psc.natures_of_control);
+  return !!band && band.min >= GUARANTEE_OWNERSHIP_THRESHOLD_PERCENT;
+}
+
+/**
+ * Active PSCs as beneficial owners, largest holding first. Guarantor choices are
+ * carried over from `previous` by name; anyone new is a guarantor when a guarantee
+ * is usually required of them.
+ */
+export function toBeneficialOwners(pscs: CompaniesHousePsc[], previous: BeneficialOwner[] = []): BeneficialOwner[] {
+  return pscs
+    .filter(isActivePsc)
+    .map((psc) => {
+      const existing = previous.find((owner) => owner.name === psc.name);
+      return {
+        name: psc.name,
+        kind: psc.kind,
+        natures_of_control: psc.natures_of_control,
+        notified_on: psc.notified_on,
+        date_of_birth: psc.date_of_birth || null,
+        nationality: psc.nationality || null,
+        guarantor: existing ? existing.guarantor && isIndividualPsc(psc) : guaranteeUsuallyRequired(psc),
+      };
+    })
+    .sort((a, b) => (ownershipBand(b.natures_of_control)?.min ?? -1) - (ownershipBand(a.natures_of_control)?.min ?? -1));
+}
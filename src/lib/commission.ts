@@ -0,0 +1,842 @@
+// src/lib/commission.ts
+//
+// Partner commission. A partner company's commission plan sets the basis (a
+// percentage of the funded amount, or of the fees we receive on the deal - see
+// dealFees.ts), optional tiers on the year's funded volume and a clawback window;
+// without a plan partner_companies.default_commission_rate applies to the funded
+// amount. Funding an application whose company was referred by a partner user
+// (companies.referred_by) accrues a commission_entries row; clawbacks and manual
+// adjustments are further entries. Monthly statements collect every entry not yet
+// on a statement and are downloadable as CSV or PDF.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PDF_PAGE_WIDTH, PdfText, renderPdf } from './pdf';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps `.in()` filters within URL length limits
+const UPDATE_BATCH_SIZE = 200;
+const PAGE_SIZE = 1000;
+
+export class CommissionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type CommissionBasis = 'funded_amount' | 'broker_fee';
+
+export const COMMISSION_BASIS_LABELS: Record<CommissionBasis, string> = {
+  funded_amount: 'Funded amount',
+  broker_fee: 'Fees received',
+};
+
+export type CommissionTier = {
+  // Funded volume for the calendar year, before the deal, from which `rate` applies
+  min_volume: number;
+  rate: number;
+};
+
+export type CommissionPlan = {
+  // Null when the partner has no plan and the default rate applies
+  id: string | null;
+  partner_company_id: string;
+  basis: CommissionBasis;
+  // Percentages
+  rate: number;
+  tiers: CommissionTier[];
+  clawback_days: number;
+  updated_at: string | null;
+};
+
+export type CommissionPlanInput = Pick<CommissionPlan, 'basis' | 'rate' | 'tiers' | 'clawback_days'>;
+
+export type CommissionEntryKind = 'accrual' | 'clawback' | 'adjustment';
+
+// awaiting_fee: fees received basis, until a fee has been received
+export type CommissionEntryStatus = 'accrued' | 'awaiting_fee';
+
+export type CommissionEntry = {
+  id: string;
+  partner_company_id: string;
+  application_id: string | null;
+  referrer_id: string | null;
+  kind: CommissionEntryKind;
+  status: CommissionEntryStatus;
+  basis: CommissionBasis | null;
+  funded_amount: number | null;
+  base_amount: number | null;
+  rate: number | null;
+  // Signed: clawbacks are negative
+  amount: number;
+  description: string;
+  reverses_entry_id: string | null;
+  statement_id: string | null;
+  accrued_at: string;
+  created_by: string | null;
+};
+
+export type CommissionStatementStatus = 'issued' | 'paid';
+
+export type CommissionStatement = {
+  id: string;
+  partner_company_id: string;
+  period_start: string;
+  period_end: string;
+  total: number;
+  entry_count: number;
+  status: CommissionStatementStatus;
+  issued_at: string;
+  paid_at: string | null;
+  paid_reference: string | null;
+  paid_by: string | null;
+};
+
+const ENTRY_COLUMNS =
+  'id, partner_company_id, application_id, referrer_id, kind, status, basis, funded_amount, base_amount, rate, amount, description, reverses_entry_id, statement_id, accrued_at, created_by';
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+  const formatted = `£${Math.abs(value).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The commission rate for a deal, given the partner's funded volume for the year
+ * before it: the highest tier reached, or the plan's base rate.
+ */
+export function commissionRate(plan: Pick<CommissionPlan, 'rate' | 'tiers'>, volumeBefore: number): number {
+  let rate = plan.rate;
+  let reached = -1;
+  for (const tier of plan.tiers) {
+    if (tier.min_volume <= volumeBefore && tier.min_volume > reached) {
+      rate = tier.rate;
+      reached = tier.min_volume;
+    }
+  }
+  return rate;
+}
+
+export async function loadCommissionPlan(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string
+): Promise<CommissionPlan> {
+  const { data: plan, error } = await supabaseAdmin
+    .from('commission_plans')
+    .select('id, partner_company_id, basis, rate, tiers, clawback_days, updated_at')
+    .eq('partner_company_id', partnerCompanyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CommissionError(`Error loading commission plan: ${error.message}`, 500);
+  }
+  if (plan) {
+    return {
+      ...plan,
+      rate: Number(plan.rate),
+      tiers: (plan.tiers || []) as CommissionTier[],
+    } as CommissionPlan;
+  }
+
+  const { data: partnerCompany, error: partnerError } = await supabaseAdmin
+    .from('partner_companies')
+    .select('id, default_commission_rate')
+    .eq('id', partnerCompanyId)
+    .maybeSingle();
+
+  if (partnerError) {
+    throw new CommissionError(`Error loading partner company: ${partnerError.message}`, 500);
+  }
+  if (!partnerCompany) {
+    throw new CommissionError('Partner company not found', 404);
+  }
+
+  return {
+    id: null,
+    partner_company_id: partnerCompanyId,
+    basis: 'funded_amount',
+    rate: Number(partnerCompany.default_commission_rate) || 0,
+    tiers: [],
+    clawback_days: 0,
+    updated_at: null,
+  };
+}
+
+/**
+ * Check a plan submitted by an admin. Throws CommissionError (400) when invalid.
+ */
+export function validateCommissionPlan(input: any): CommissionPlanInput {
+  const basis = input?.basis;
+  if (basis !== 'funded_amount' && basis !== 'broker_fee') {
+    throw new CommissionError("basis must be 'funded_amount' or 'broker_fee'", 400);
+  }
+
+  const isRate = (value: unknown) => typeof value === 'number' && !isNaN(value) && value >= 0 && value <= 100;
+
+  if (!isRate(input.rate)) {
+    throw new CommissionError('rate must be a percentage between 0 and 100', 400);
+  }
+
+  const clawbackDays = input.clawback_days;
+  if (typeof clawbackDays !== 'number' || !Number.isInteger(clawbackDays) || clawbackDays < 0) {
+    throw new CommissionError('clawback_days must be a whole number of days', 400);
+  }
+
+  const tiers: CommissionTier[] = [];
+  for (const tier of Array.isArray(input.tiers) ? input.tiers : []) {
+    if (typeof tier?.min_volume !== 'number' || !(tier.min_volume > 0)) {
+      throw new CommissionError('Each tier needs a funded volume above zero', 400);
+    }
+    if (!isRate(tier.rate)) {
+      throw new CommissionError('Each tier rate must be a percentage between 0 and 100', 400);
+    }
+    if (tiers.some((existing) => existing.min_volume === tier.min_volume)) {
+      throw new CommissionError('Tiers must have different funded volumes', 400);
+    }
+    tiers.push({ min_volume: tier.min_volume, rate: tier.rate });
+  }
+  tiers.sort((a, b) => a.min_volume - b.min_volume);
+
+  return { basis, rate: input.rate, tiers, clawback_days: clawbackDays };
+}
+
+export async function saveCommissionPlan(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  input: CommissionPlanInput,
+  userId: string
+): Promise<CommissionPlan> {
+  const { error } = await supabaseAdmin.from('commission_plans').upsert(
+    {
+      partner_company_id: partnerCompanyId,
+      ...input,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'partner_company_id' }
+  );
+
+  if (error) {
+    throw new CommissionError(`Error saving commission plan: ${error.message}`, 500);
+  }
+  return loadCommissionPlan(supabaseAdmin, partnerCompanyId);
+}
+
+async function loadAccrual(supabaseAdmin: SupabaseClient, applicationId: string): Promise<CommissionEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('commission_entries')
+    .select(ENTRY_COLUMNS)
+    .eq('application_id', applicationId)
+    .eq('kind', 'accrual')
+    .maybeSingle();
+
+  if (error) {
+    throw new CommissionError(`Error loading commission: ${error.message}`, 500);
+  }
+  return data as CommissionEntry | null;
+}
+
+/**
+ * Accrue commission for a funded application. Returns null when the company was
+ * not referred by a partner user; funding the same application twice returns the
+ * existing accrual.
+ */
+export async function accrueCommission(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  now: Date = new Date()
+): Promise<CommissionEntry | null> {
+  const existing = await loadAccrual(supabaseAdmin, applicationId);
+  if (existing) return existing;
+
+  const { data: application, error: applicationError } = await supabaseAdmin
+    .from('applications')
+    .select('id, company:companies(name, referred_by)')
+    .eq('id', applicationId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (applicationError) {
+    throw new CommissionError(`Error loading application: ${applicationError.message}`, 500);
+  }
+  if (!application) {
+    throw new CommissionError('Application not found', 404);
+  }
+
+  const company = application.company as unknown as { name: string; referred_by: string | null } | null;
+  if (!company?.referred_by) return null;
+
+  const { data: referrer } = await supabaseAdmin
+    .from('profiles')
+    .select('id, role, partner_company_id')
+    .eq('id', company.referred_by)
+    .maybeSingle();
+  if (!referrer || referrer.role !== 'PARTNER' || !referrer.partner_company_id) return null;
+
+  const { data: offer, error: offerError } = await supabaseAdmin
+    .from('offers')
+    .select('amount')
+    .eq('application_id', applicationId)
+    .eq('status', 'accepted')
+    .order('accepted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (offerError) {
+    throw new CommissionError(`Error loading accepted offer: ${offerError.message}`, 500);
+  }
+  if (!offer) {
+    throw new CommissionError('The application has no accepted offer', 409);
+  }
+
+  const partnerCompanyId = referrer.partner_company_id as string;
+  const plan = await loadCommissionPlan(supabaseAdmin, partnerCompanyId);
+  const fundedAmount = Number(offer.amount);
+
+  // Tiers go on the partner's funded volume for the calendar year so far
+  const { data: yearAccruals, error: volumeError } = await supabaseAdmin
+    .from('commission_entries')
+    .select('funded_amount')
+    .eq('partner_company_id', partnerCompanyId)
+    .eq('kind', 'accrual')
+    .gte('accrued_at', `${now.getUTCFullYear()}-01-01`);
+
+  if (volumeError) {
+    throw new CommissionError(`Error loading funded volume: ${volumeError.message}`, 500);
+  }
+  const volumeBefore = (yearAccruals || []).reduce((sum, entry) => sum + (Number(entry.funded_amount) || 0), 0);
+  const rate = commissionRate(plan, volumeBefore);
+
+  const description = `${company.name} – funded ${formatMoney(fundedAmount)}`;
+  // Fees are received after funding; applyReceivedFeesToCommission fills in the amount
+  const entry =
+    plan.basis === 'funded_amount'
+      ? { status: 'accrued', base_amount: fundedAmount, amount: roundMoney((fundedAmount * rate) / 100) }
+      : { status: 'awaiting_fee', base_amount: null, amount: 0 };
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('commission_entries')
+    .insert({
+      partner_company_id: partnerCompanyId,
+      application_id: applicationId,
+      referrer_id: referrer.id,
+      kind: 'accrual',
+      basis: plan.basis,
+      funded_amount: fundedAmount,
+      rate,
+      description,
+      accrued_at: now.toISOString(),
+      ...entry,
+    })
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (insertError) {
+    // Accrued concurrently
+    if (insertError.code === '23505') {
+      return loadAccrual(supabaseAdmin, applicationId);
+    }
+    throw new CommissionError(`Error recording commission: ${insertError.message}`, 500);
+  }
+  return inserted as CommissionEntry;
+}
+
+/**
+ * Bring a fees-received accrual in line with the fees received so far on the
+ * application. While the accrual is not on a statement it is updated in place;
+ * afterwards the difference is added as an adjustment for the next statement.
+ */
+export async function applyReceivedFeesToCommission(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<void> {
+  const accrual = await loadAccrual(supabaseAdmin, applicationId);
+  if (!accrual || accrual.basis !== 'broker_fee') return;
+
+  const [{ data: fees, error: feesError }, { data: related, error: relatedError }] = await Promise.all([
+    supabaseAdmin.from('deal_fees').select('received_amount').eq('application_id', applicationId),
+    supabaseAdmin
+      .from('commission_entries')
+      .select('kind, amount')
+      .eq('application_id', applicationId)
+      .in('kind', ['clawback', 'adjustment']),
+  ]);
+
+  if (feesError || relatedError) {
+    throw new CommissionError('Error loading fees for commission', 500);
+  }
+  // Clawed-back commission stays clawed back
+  if ((related || []).some((entry) => entry.kind === 'clawback')) return;
+
+  const received = roundMoney((fees || []).reduce((sum, fee) => sum + Number(fee.received_amount || 0), 0));
+  const amount = roundMoney((received * Number(accrual.rate || 0)) / 100);
+
+  if (!accrual.statement_id) {
+    const { error } = await supabaseAdmin
+      .from('commission_entries')
+      .update({ base_amount: received, amount, status: received > 0 ? 'accrued' : 'awaiting_fee' })
+      .eq('id', accrual.id)
+      .is('statement_id', null);
+    if (error) {
+      throw new CommissionError(`Error updating commission: ${error.message}`, 500);
+    }
+    return;
+  }
+
+  const alreadyAccrued = (related || []).reduce((sum, entry) => sum + Number(entry.amount), Number(accrual.amount));
+  const difference = roundMoney(amount - alreadyAccrued);
+  if (difference === 0) return;
+
+  const { error } = await supabaseAdmin.from('commission_entries').insert({
+    partner_company_id: accrual.partner_company_id,
+    application_id: applicationId,
+    referrer_id: accrual.referrer_id,
+    kind: 'adjustment',
+    status: 'accrued',
+    basis: accrual.basis,
+    base_amount: received,
+    rate: accrual.rate,
+    amount: difference,
+    description: `Fees received update: ${accrual.description}`,
+  });
+  if (error) {
+    throw new CommissionError(`Error recording commission adjustment: ${error.message}`, 500);
+  }
+}
+
+/**
+ * Reverse an accrual and its fee-update adjustments, within the plan's clawback
+ * window from funding.
+ */
+export async function clawBackCommission(
+  supabaseAdmin: SupabaseClient,
+  entryId: string,
+  reason: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<CommissionEntry> {
+  const { data: accrual, error } = await supabaseAdmin
+    .from('commission_entries')
+    .select(ENTRY_COLUMNS)
+    .eq('id', entryId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CommissionError(`Error loading commission: ${error.message}`, 500);
+  }
+  if (!accrual || accrual.kind !== 'accrual') {
+    throw new CommissionError('Commission accrual not found', 404);
+  }
+  if (accrual.status === 'awaiting_fee') {
+    throw new CommissionError('Commission on this deal has not been calculated yet', 409);
+  }
+
+  const plan = await loadCommissionPlan(supabaseAdmin, accrual.partner_company_id);
+  const windowEnds = new Date(new Date(accrual.accrued_at).getTime() + plan.clawback_days * DAY_MS);
+  if (now.getTime() > windowEnds.getTime()) {
+    throw new CommissionError(
+      plan.clawback_days === 0
+        ? 'The commission plan has no clawback window'
+        : `The clawback window closed on ${toDateString(windowEnds)}`,
+      409
+    );
+  }
+
+  // Fee updates made after the accrual went on a statement are separate adjustments
+  // on the application; the clawback reverses them too
+  const { data: adjustments, error: adjustmentsError } = await supabaseAdmin
+    .from('commission_entries')
+    .select('amount')
+    .eq('application_id', accrual.application_id)
+    .eq('kind', 'adjustment');
+
+  if (adjustmentsError) {
+    throw new CommissionError(`Error loading commission adjustments: ${adjustmentsError.message}`, 500);
+  }
+  const accrued = roundMoney(
+    (adjustments || []).reduce((sum, entry) => sum + Number(entry.amount), Number(accrual.amount))
+  );
+
+  const { data: clawback, error: insertError } = await supabaseAdmin
+    .from('commission_entries')
+    .insert({
+      partner_company_id: accrual.partner_company_id,
+      application_id: accrual.application_id,
+      referrer_id: accrual.referrer_id,
+      kind: 'clawback',
+      status: 'accrued',
+      basis: accrual.basis,
+      base_amount: accrual.base_amount,
+      rate: accrual.rate,
+      amount: -accrued,
+      description: `Clawback: ${accrual.description} – ${reason}`,
+      reverses_entry_id: accrual.id,
+      accrued_at: now.toISOString(),
+      created_by: userId,
+    })
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      throw new CommissionError('This commission has already been clawed back', 409);
+    }
+    throw new CommissionError(`Error recording clawback: ${insertError.message}`, 500);
+  }
+  return clawback as CommissionEntry;
+}
+
+/**
+ * A manual credit (positive) or debit (negative) on the partner's ledger.
+ */
+export async function addCommissionAdjustment(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  amount: number,
+  description: string,
+  userId: string
+): Promise<CommissionEntry> {
+  const { data, error } = await supabaseAdmin
+    .from('commission_entries')
+    .insert({
+      partner_company_id: partnerCompanyId,
+      kind: 'adjustment',
+      status: 'accrued',
+      amount: roundMoney(amount),
+      description,
+      created_by: userId,
+    })
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new CommissionError(`Error recording adjustment: ${error.message}`, 500);
+  }
+  return data as CommissionEntry;
+}
+
+export type StatementPeriod = {
+  start: string;
+  end: string;
+};
+
+/**
+ * The calendar month for 'YYYY-MM', or the month before `now` when omitted.
+ */
+export function statementPeriod(month: string | null | undefined, now: Date = new Date()): StatementPeriod {
+  let year: number;
+  let monthIndex: number;
+  if (month) {
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      throw new CommissionError('month must be in the form YYYY-MM', 400);
+    }
+    year = Number(match[1]);
+    monthIndex = Number(match[2]) - 1;
+  } else {
+    year = now.getUTCFullYear();
+    monthIndex = now.getUTCMonth() - 1;
+  }
+
+  return {
+    start: toDateString(new Date(Date.UTC(year, monthIndex, 1))),
+    end: toDateString(new Date(Date.UTC(year, monthIndex + 1, 0))),
+  };
+}
+
+export type StatementRunSummary = {
+  period_start: string;
+  period_end: string;
+  statements_issued: number;
+  // Partners whose entries net to zero or less, left for a later statement
+  carried_forward: number;
+};
+
+/**
+ * Issue statements for a month: each partner's entries accrued by the end of the
+ * month and not on an earlier statement. Partners already issued a statement for
+ * the month are skipped, and their later entries go on the next one.
+ */
+export async function generateCommissionStatements(
+  supabaseAdmin: SupabaseClient,
+  period: StatementPeriod,
+  options: { partnerCompanyId?: string } = {}
+): Promise<StatementRunSummary> {
+  const before = toDateString(new Date(new Date(`${period.end}T00:00:00Z`).getTime() + DAY_MS));
+
+  const entries: Pick<CommissionEntry, 'id' | 'partner_company_id' | 'amount'>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('commission_entries')
+      .select('id, partner_company_id, amount')
+      .is('statement_id', null)
+      .eq('status', 'accrued')
+      .lt('accrued_at', before)
+      .order('accrued_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (options.partnerCompanyId) {
+      query = query.eq('partner_company_id', options.partnerCompanyId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new CommissionError(`Error loading commission entries: ${error.message}`, 500);
+    }
+    entries.push(...((data || []) as typeof entries));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const byPartner: Record<string, typeof entries> = {};
+  for (const entry of entries) {
+    (byPartner[entry.partner_company_id] = byPartner[entry.partner_company_id] || []).push(entry);
+  }
+
+  const summary: StatementRunSummary = {
+    period_start: period.start,
+    period_end: period.end,
+    statements_issued: 0,
+    carried_forward: 0,
+  };
+
+  for (const partnerCompanyId of Object.keys(byPartner)) {
+    const partnerEntries = byPartner[partnerCompanyId];
+    const total = roundMoney(partnerEntries.reduce((sum, entry) => sum + Number(entry.amount), 0));
+    if (total <= 0) {
+      summary.carried_forward++;
+      continue;
+    }
+
+    const { data: statement, error: statementError } = await supabaseAdmin
+      .from('commission_statements')
+      .insert({
+        partner_company_id: partnerCompanyId,
+        period_start: period.start,
+        period_end: period.end,
+        total,
+        entry_count: partnerEntries.length,
+      })
+      .select('id')
+      .single();
+
+    if (statementError) {
+      // Already issued for this month
+      if (statementError.code === '23505') continue;
+      throw new CommissionError(`Error issuing commission statement: ${statementError.message}`, 500);
+    }
+
+    for (let i = 0; i < partnerEntries.length; i += UPDATE_BATCH_SIZE) {
+      const ids = partnerEntries.slice(i, i + UPDATE_BATCH_SIZE).map((entry) => entry.id);
+      const { error: updateError } = await supabaseAdmin
+        .from('commission_entries')
+        .update({ statement_id: statement.id })
+        .in('id', ids);
+      if (updateError) {
+        throw new CommissionError(`Error assigning entries to statement: ${updateError.message}`, 500);
+      }
+    }
+    summary.statements_issued++;
+  }
+
+  return summary;
+}
+
+export async function markCommissionStatementPaid(
+  supabaseAdmin: SupabaseClient,
+  statementId: string,
+  reference: string | null,
+  userId: string
+): Promise<CommissionStatement> {
+  const { data, error } = await supabaseAdmin
+    .from('commission_statements')
+    .update({
+      status: 'paid',
+      paid_at: new Date().toISOString(),
+      paid_reference: reference,
+      paid_by: userId,
+    })
+    .eq('id', statementId)
+    .eq('status', 'issued')
+    .select('*');
+
+  if (error) {
+    throw new CommissionError(`Error updating statement: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new CommissionError('Statement not found or already paid', 409);
+  }
+  return data[0] as CommissionStatement;
+}
+
+export type StatementDocument = {
+  statement: CommissionStatement;
+  partner: {
+    name: string;
+    bank_account_name: string | null;
+    bank_account_number: string | null;
+    bank_sort_code: string | null;
+  };
+  entries: CommissionEntry[];
+};
+
+export async function loadStatementDocument(
+  supabaseAdmin: SupabaseClient,
+  statementId: string
+): Promise<StatementDocument> {
+  const { data: statement, error } = await supabaseAdmin
+    .from('commission_statements')
+    .select('*')
+    .eq('id', statementId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CommissionError(`Error loading statement: ${error.message}`, 500);
+  }
+  if (!statement) {
+    throw new CommissionError('Statement not found', 404);
+  }
+
+  const [{ data: partner, error: partnerError }, { data: entries, error: entriesError }] = await Promise.all([
+    supabaseAdmin
+      .from('partner_companies')
+      .select('name, bank_account_name, bank_account_number, bank_sort_code')
+      .eq('id', statement.partner_company_id)
+      .single(),
+    supabaseAdmin
+      .from('commission_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('statement_id', statementId)
+      .order('accrued_at', { ascending: true }),
+  ]);
+
+  if (partnerError || entriesError) {
+    throw new CommissionError('Error loading statement details', 500);
+  }
+
+  return {
+    statement: statement as CommissionStatement,
+    partner: partner as StatementDocument['partner'],
+    entries: (entries || []) as CommissionEntry[],
+  };
+}
+
+const KIND_LABELS: Record<CommissionEntryKind, string> = {
+  accrual: 'Commission',
+  clawback: 'Clawback',
+  adjustment: 'Adjustment',
+};
+
+function statementFilename(document: StatementDocument, extension: string): string {
+  const partner = document.partner.name.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `commission-statement-${partner}-${document.statement.period_start.slice(0, 7)}.${extension}`;
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildStatementCsv(document: StatementDocument): { filename: string; content: string } {
+  const rows = [['Date', 'Type', 'Description', 'Basis', 'Base amount', 'Rate (%)', 'Amount']];
+  for (const entry of document.entries) {
+    rows.push([
+      entry.accrued_at.slice(0, 10),
+      KIND_LABELS[entry.kind],
+      entry.description,
+      entry.basis ? COMMISSION_BASIS_LABELS[entry.basis] : '',
+      entry.base_amount === null ? '' : Number(entry.base_amount).toFixed(2),
+      entry.rate === null ? '' : String(entry.rate),
+      Number(entry.amount).toFixed(2),
+    ]);
+  }
+  rows.push(['', '', 'Total', '', '', '', Number(document.statement.total).toFixed(2)]);
+
+  return {
+    filename: statementFilename(document, 'csv'),
+    content: rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n',
+  };
+}
+
+const PDF_MARGIN = 50;
+const PDF_LINE_HEIGHT = 16;
+const PDF_ROWS_PER_PAGE = 38;
+const PDF_DESCRIPTION_CHARS = 52;
+
+function formatLongDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+export function buildStatementPdf(document: StatementDocument): { filename: string; content: Buffer } {
+  const { statement, partner, entries } = document;
+  const right = PDF_PAGE_WIDTH - PDF_MARGIN;
+  const pages: PdfText[][] = [];
+
+  const header: PdfText[] = [
+    { x: PDF_MARGIN, y: PDF_MARGIN, text: 'Commission statement', size: 18, font: 'bold' },
+    { x: PDF_MARGIN, y: PDF_MARGIN + 28, text: partner.name, size: 12, font: 'bold' },
+    {
+      x: PDF_MARGIN,
+      y: PDF_MARGIN + 46,
+      text: `Period: ${formatLongDate(statement.period_start)} to ${formatLongDate(statement.period_end)}`,
+    },
+    { x: PDF_MARGIN, y: PDF_MARGIN + 60, text: `Issued: ${formatLongDate(statement.issued_at)}` },
+  ];
+  if (partner.bank_account_number) {
+    header.push({
+      x: PDF_MARGIN,
+      y: PDF_MARGIN + 74,
+      text: `Paid to: ${partner.bank_account_name || partner.name}, ${partner.bank_sort_code || ''} ****${partner.bank_account_number.slice(-4)}`,
+    });
+  }
+  if (statement.status === 'paid' && statement.paid_at) {
+    header.push({
+      x: PDF_MARGIN,
+      y: PDF_MARGIN + 88,
+      text: `Paid: ${formatLongDate(statement.paid_at)}${statement.paid_reference ? ` (ref ${statement.paid_reference})` : ''}`,
+    });
+  }
+
+  const tableHeader = (y: number): PdfText[] => [
+    { x: PDF_MARGIN, y, text: 'Date', font: 'bold', size: 9 },
+    { x: PDF_MARGIN + 70, y, text: 'Description', font: 'bold', size: 9 },
+    { x: right - 90, y, text: 'Rate', font: 'bold', size: 9 },
+    { x: right - 55, y, text: 'Amount', font: 'bold', size: 9 },
+  ];
+
+  let items: PdfText[] = [...header, ...tableHeader(PDF_MARGIN + 120)];
+  let y = PDF_MARGIN + 120 + PDF_LINE_HEIGHT;
+  let rowsOnPage = 0;
+
+  for (const entry of entries) {
+    if (rowsOnPage === PDF_ROWS_PER_PAGE) {
+      pages.push(items);
+      items = tableHeader(PDF_MARGIN);
+      y = PDF_MARGIN + PDF_LINE_HEIGHT;
+      rowsOnPage = 0;
+    }
+    const description =
+      entry.description.length > PDF_DESCRIPTION_CHARS
+        ? `${entry.description.slice(0, PDF_DESCRIPTION_CHARS - 3)}...`
+        : entry.description;
+    items.push(
+      { x: PDF_MARGIN, y, text: entry.accrued_at.slice(0, 10), size: 9 },
+      { x: PDF_MARGIN + 70, y, text: description, size: 9 },
+      { x: right - 60, y, text: entry.rate === null ? '' : `${entry.rate}%`, size: 9, font: 'mono', align: 'right' },
+      { x: right, y, text: formatMoney(Number(entry.amount)), size: 9, font: 'mono', align: 'right' }
+    );
+    y += PDF_LINE_HEIGHT;
+    rowsOnPage++;
+  }
+
+  items.push(
+    { x: PDF_MARGIN + 70, y: y + 8, text: 'Total', font: 'bold' },
+    { x: right, y: y + 8, text: formatMoney(Number(statement.total)), font: 'mono', align: 'right' }
+  );
+  pages.push(items);
+
+  return { filename: statementFilename(document, 'pdf'), content: renderPdf(pages) };
+}
@@ -0,0 +1,477 @@
+// src/lib/companiesHouse.ts
+//
+// Companies House API client shared by the /api/companies-house routes. The API
+// allows 600 requests per 5 minutes, so responses are cached in memory and in
+// companies_house_cache keyed by endpoint and params, stale entries are served
+// while a background refresh runs, identical concurrent lookups share one request
+// and 429s back off (honouring Retry-After) before giving up.
+//
+// COMPANIES_HOUSE_MODE=mock serves the fixed dataset in companiesHouseMock.ts
+// instead. There is no fallback between the two: in live mode failures surface as
+// CompaniesHouseError so nobody onboards a company that was never looked up.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import {
+  mockAccountsDocument,
+  mockCompanyOfficers,
+  mockCompanyProfile,
+  mockFilingHistory,
+  mockPersonsWithSignificantControl,
+  mockSearchCompanies,
+} from './companiesHouseMock';
+
+const COMPANIES_HOUSE_API_URL = 'https://api.company-information.service.gov.uk';
+
+export type CompaniesHouseEndpoint = 'search' | 'company' | 'officers' | 'filing_history' | 'psc';
+
+// Seconds an entry is fresh; override with COMPANIES_HOUSE_TTL_SEARCH etc.
+const DEFAULT_TTL_SECONDS: Record<CompaniesHouseEndpoint, number> = {
+  search: 60 * 60,
+  company: 24 * 60 * 60,
+  officers: 24 * 60 * 60,
+  filing_history: 6 * 60 * 60,
+  psc: 24 * 60 * 60,
+};
+// How long past its TTL an entry may still be served while it is refreshed
+const DEFAULT_STALE_SECONDS = 7 * 24 * 60 * 60;
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+// Rate limit waits longer than this fail fast rather than hold the request open
+const MAX_RATE_LIMIT_WAIT_MS = 10 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export class CompaniesHouseError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type CompaniesHouseSearchResult = {
+  items: Array<{
+    company_number: string;
+    title: string;
+    company_status: string;
+    address_snippet?: string;
+    description?: string;
+  }>;
+  total_results: number;
+};
+
+export type CompaniesHouseAddress = {
+  address_line_1?: string;
+  address_line_2?: string;
+  locality?: string;
+  region?: string;
+  postal_code?: string;
+  country?: string;
+};
+
+export type CompaniesHouseCompany = {
+  company_number: string;
+  company_name: string;
+  company_status: string;
+  type?: string;
+  date_of_creation?: string;
+  sic_codes?: string[];
+  registered_office_address?: CompaniesHouseAddress;
+  [key: string]: any;
+};
+
+export type CompaniesHouseOfficer = {
+  name: string;
+  officer_role: string;
+  appointed_on?: string;
+  resigned_on?: string | null;
+  nationality?: string;
+  occupation?: string;
+  date_of_birth?: { month: number; year: number };
+  address?: CompaniesHouseAddress;
+};
+
+export type CompaniesHouseOfficerList = {
+  items: CompaniesHouseOfficer[];
+  total_results?: number;
+  active_count?: number;
+  resigned_count?: number;
+};
+
+export type CompaniesHouseFiling = {
+  transaction_id: string;
+  category: string;
+  type: string;
+  date: string;
+  description: string;
+  // For accounts, the made-up-to date
+  action_date?: string;
+  links?: { document_metadata?: string };
+};
+
+export type CompaniesHouseFilingHistory = {
+  items: CompaniesHouseFiling[];
+  total_count?: number;
+};
+
+export type CompaniesHousePsc = {
+  name: string;
+  kind: string;
+  natures_of_control: string[];
+  notified_on: string;
+  ceased_on?: string;
+  nationality?: string;
+  date_of_birth?: { month: number; year: number };
+  address?: CompaniesHouseAddress;
+};
+
+export type CompaniesHousePscList = {
+  items: CompaniesHousePsc[];
+  total_results?: number;
+  active_count?: number;
+  ceased_count?: number;
+};
+
+// fresh: skip cached answers and ask Companies House, e.g. for the monitor, which
+// must see changes as soon as they happen. The result still refreshes the cache.
+export type LookupOptions = {
+  fresh?: boolean;
+};
+
+type CacheEntry = {
+  payload: any;
+  expiresAt: number;
+  staleUntil: number;
+};
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<any>>();
+let rateLimitedUntil = 0;
+let cacheClient: SupabaseClient | null | undefined;
+
+export type CompaniesHouseMode = 'live' | 'mock';
+
+export function companiesHouseMode(): CompaniesHouseMode {
+  return process.env.COMPANIES_HOUSE_MODE === 'mock' ? 'mock' : 'live';
+}
+
+function secondsFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function cacheTtlSeconds(endpoint: CompaniesHouseEndpoint): number {
+  return secondsFromEnv(`COMPANIES_HOUSE_TTL_${endpoint.toUpperCase()}`, DEFAULT_TTL_SECONDS[endpoint]);
+}
+
+function cacheKey(endpoint: CompaniesHouseEndpoint, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return `${endpoint}?${query}`;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function rememberInMemory(key: string, entry: CacheEntry) {
+  // Re-inserting keeps Map order least recently written first
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  if (memoryCache.size > MEMORY_CACHE_MAX_ENTRIES) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest !== undefined) memoryCache.delete(oldest);
+  }
+}
+
+// The DB cache is an optimisation: without Supabase credentials, or when a query
+// fails, lookups carry on with the in-memory cache alone.
+function getCacheClient(): SupabaseClient | null {
+  if (cacheClient === undefined) {
+    try {
+      cacheClient = getSupabaseAdmin();
+    } catch {
+      cacheClient = null;
+    }
+  }
+  return cacheClient;
+}
+
+async function readCache(key: string): Promise<CacheEntry | null> {
+  const db = getCacheClient();
+  if (!db) return null;
+
+  const { data, error } = await db
+    .from('companies_house_cache')
+    .select('payload, expires_at, stale_until')
+    .eq('cache_key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Error reading Companies House cache:', error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    payload: data.payload,
+    expiresAt: new Date(data.expires_at).getTime(),
+    staleUntil: new Date(data.stale_until).getTime(),
+  };
+}
+
+async function writeCache(key: string, entry: CacheEntry) {
+  const db = getCacheClient();
+  if (!db) return;
+
+  const { error } = await db.from('companies_house_cache').upsert({
+    cache_key: key,
+    payload: entry.payload,
+    fetched_at: new Date().toISOString(),
+    expires_at: new Date(entry.expiresAt).toISOString(),
+    stale_until: new Date(entry.staleUntil).toISOString(),
+  });
+  if (error) {
+    console.warn('Error writing Companies House cache:', error.message);
+  }
+}
+
+function noteRateLimitHeaders(response: Response) {
+  // Companies House reports the remaining allowance and when the window resets
+  const remaining = response.headers.get('x-ratelimit-remain');
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  if (remaining === '0' && reset > 0) {
+    rateLimitedUntil = Math.max(rateLimitedUntil, reset * 1000);
+  }
+}
+
+// GET against the public data API or the document API (same key, same rate limit)
+async function request(url: string, accept = 'application/json'): Promise<Response> {
+  const apiKey = process.env.COMPANIES_HOUSE_API_KEY;
+  if (!apiKey) {
+    throw new CompaniesHouseError('Companies House lookups are not configured. Please try again later.', 503);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const wait = rateLimitedUntil - Date.now();
+    if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new CompaniesHouseError('Companies House rate limit reached. Please try again shortly.', 429);
+    }
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${apiKey}:`).toString('base64')}`,
+          Accept: accept,
+        },
+        signal: controller.signal,
+      });
+    } catch (err: any) {
+      throw new CompaniesHouseError(
+        err?.name === 'AbortError' ? 'Companies House timed out' : `Could not reach Companies House: ${err?.message}`,
+        502
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    noteRateLimitHeaders(response);
+
+    if (response.status === 429) {
+      // Retry-After in seconds when given, otherwise 1, 2, 4... seconds
+      const retryAfter = Number(response.headers.get('retry-after'));
+      const delay = retryAfter > 0 ? retryAfter * 1000 : BASE_BACKOFF_MS * Math.pow(2, attempt - 1);
+      rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
+      console.warn(`Companies House rate limited ${url}, backing off ${delay}ms (attempt ${attempt})`);
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new CompaniesHouseError('Companies House rate limit reached. Please try again shortly.', 429);
+      }
+      continue;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error('Companies House API error:', { url, status: response.status, error: errorText });
+      throw new CompaniesHouseError(
+        response.status === 404 ? 'Not found at Companies House' : `Companies House request failed (${response.status})`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
+
+async function requestJson(path: string): Promise<any> {
+  const response = await request(`${COMPANIES_HOUSE_API_URL}${path}`);
+  return response.json();
+}
+
+// One request per key at a time; concurrent callers share the promise
+function refresh(endpoint: CompaniesHouseEndpoint, key: string, path: string): Promise<any> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    try {
+      const payload = await requestJson(path);
+      const now = Date.now();
+      const ttlMs = cacheTtlSeconds(endpoint) * 1000;
+      const entry: CacheEntry = {
+        payload,
+        expiresAt: now + ttlMs,
+        staleUntil: now + ttlMs + secondsFromEnv('COMPANIES_HOUSE_STALE_SECONDS', DEFAULT_STALE_SECONDS) * 1000,
+      };
+      rememberInMemory(key, entry);
+      await writeCache(key, entry);
+      return payload;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+async function cachedLookup<T>(
+  endpoint: CompaniesHouseEndpoint,
+  params: Record<string, string>,
+  path: string,
+  options: LookupOptions = {}
+): Promise<T> {
+  const key = cacheKey(endpoint, params);
+  if (options.fresh) {
+    return (await refresh(endpoint, key, path)) as T;
+  }
+
+  let entry = memoryCache.get(key) || null;
+  if (!entry) {
+    entry = await readCache(key);
+    if (entry) rememberInMemory(key, entry);
+  }
+
+  const now = Date.now();
+  if (entry && now < entry.expiresAt) {
+    return entry.payload as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    refresh(endpoint, key, path).catch((err) => {
+      console.warn(`Background refresh of ${key} failed:`, err?.message);
+    });
+    return entry.payload as T;
+  }
+
+  try {
+    return (await refresh(endpoint, key, path)) as T;
+  } catch (err) {
+    // Better an old answer than none while Companies House is limiting or down
+    if (entry && err instanceof CompaniesHouseError && err.status !== 404) {
+      console.warn(`Serving expired ${key} after refresh failed:`, err.message);
+      return entry.payload as T;
+    }
+    throw err;
+  }
+}
+
+function normaliseCompanyNumber(companyNumber: string): string {
+  return companyNumber.trim().toUpperCase();
+}
+
+function mockNotFound(): never {
+  throw new CompaniesHouseError('Not found at Companies House', 404);
+}
+
+export async function searchCompanies(query: string, itemsPerPage = 10): Promise<CompaniesHouseSearchResult> {
+  // Search is case-insensitive, so "acme" and "ACME" share an entry
+  const q = query.trim().toLowerCase();
+  if (companiesHouseMode() === 'mock') {
+    return mockSearchCompanies(q, itemsPerPage);
+  }
+  return cachedLookup<CompaniesHouseSearchResult>(
+    'search',
+    { q, items_per_page: String(itemsPerPage) },
+    `/search/companies?q=${encodeURIComponent(q)}&items_per_page=${itemsPerPage}`
+  );
+}
+
+export async function getCompanyProfile(
+  companyNumber: string,
+  options: LookupOptions = {}
+): Promise<CompaniesHouseCompany> {
+  const number = normaliseCompanyNumber(companyNumber);
+  if (companiesHouseMode() === 'mock') {
+    return mockCompanyProfile(number) || mockNotFound();
+  }
+  return cachedLookup<CompaniesHouseCompany>('company', { number }, `/company/${encodeURIComponent(number)}`, options);
+}
+
+export async function getCompanyOfficers(
+  companyNumber: string,
+  options: LookupOptions = {}
+): Promise<CompaniesHouseOfficerList> {
+  const number = normaliseCompanyNumber(companyNumber);
+  if (companiesHouseMode() === 'mock') {
+    const items = mockCompanyOfficers(number) || mockNotFound();
+    return { items, total_results: items.length };
+  }
+  return cachedLookup<CompaniesHouseOfficerList>(
+    'officers',
+    { number },
+    `/company/${encodeURIComponent(number)}/officers`,
+    options
+  );
+}
+
+export async function getPersonsWithSignificantControl(companyNumber: string): Promise<CompaniesHousePscList> {
+  const number = normaliseCompanyNumber(companyNumber);
+  if (companiesHouseMode() === 'mock') {
+    const items = mockPersonsWithSignificantControl(number) || mockNotFound();
+    return { items, total_results: items.length };
+  }
+  return cachedLookup<CompaniesHousePscList>(
+    'psc',
+    { number },
+    `/company/${encodeURIComponent(number)}/persons-with-significant-control`
+  );
+}
+
+export async function getFilingHistory(companyNumber: string): Promise<CompaniesHouseFilingHistory> {
+  const number = normaliseCompanyNumber(companyNumber);
+  if (companiesHouseMode() === 'mock') {
+    const items = mockFilingHistory(number) || mockNotFound();
+    return { items, total_count: items.length };
+  }
+  return cachedLookup<CompaniesHouseFilingHistory>(
+    'filing_history',
+    { number },
+    `/company/${encodeURIComponent(number)}/filing-history?items_per_page=100`
+  );
+}
+
+/**
+ * The iXBRL (XHTML) version of a filed accounts document, or null when Companies
+ * House only has a PDF (paper filings and some older accounts). Not cached: callers
+ * store what they extract.
+ */
+export async function getAccountsDocument(filing: CompaniesHouseFiling): Promise<string | null> {
+  if (companiesHouseMode() === 'mock') {
+    return mockAccountsDocument(filing.transaction_id);
+  }
+
+  const metadataUrl = filing.links?.document_metadata;
+  if (!metadataUrl) return null;
+
+  const metadata = await (await request(metadataUrl)).json();
+  if (!metadata?.resources?.['application/xhtml+xml']) return null;
+
+  const response = await request(`${metadataUrl}/content`, 'application/xhtml+xml');
+  return response.text();
+}
@@ -0,0 +1,493 @@
+// src/lib/companiesHouseMock.ts
+//
+// Deterministic Companies House data served when COMPANIES_HOUSE_MODE=mock, for
+// local development and tests. Shapes follow the real API responses; only these
+// companies exist, so unknown numbers are "not found" just as they would be live.
+import type {
+  CompaniesHouseCompany,
+  CompaniesHouseFiling,
+  CompaniesHouseOfficer,
+  CompaniesHousePsc,
+  CompaniesHouseSearchResult,
+} from './companiesHouse';
+
+type MockCompany = {
+  profile: CompaniesHouseCompany;
+  officers: CompaniesHouseOfficer[];
+  filing_history: CompaniesHouseFiling[];
+  persons_with_significant_control: CompaniesHousePsc[];
+};
+
+const MOCK_COMPANIES: MockCompany[] = [
+  {
+    profile: {
+      company_number: '09446231',
+      company_name: 'ACME WIDGETS LTD',
+      company_status: 'active',
+      type: 'ltd',
+      date_of_creation: '2015-02-17',
+      sic_codes: ['25990'],
+      has_charges: true,
+      has_insolvency_history: false,
+      registered_office_address: {
+        address_line_1: '14 Foundry Lane',
+        locality: 'Sheffield',
+        postal_code: 'S3 8RT',
+        country: 'England',
+      },
+      accounts: {
+        next_due: '2027-11-30',
+        overdue: false,
+        last_accounts: { made_up_to: '2026-02-28', type: 'full' },
+      },
+      confirmation_statement: { next_due: '2027-03-03', overdue: false },
+    },
+    officers: [
+      {
+        name: 'HARGREAVES, Thomas James',
+        officer_role: 'director',
+        appointed_on: '2015-02-17',
+        nationality: 'British',
+        occupation: 'Engineer',
+        date_of_birth: { month: 4, year: 1976 },
+      },
+      {
+        name: 'HARGREAVES, Emma Louise',
+        officer_role: 'director',
+        appointed_on: '2017-09-01',
+        nationality: 'British',
+        occupation: 'Finance Director',
+        date_of_birth: { month: 11, year: 1979 },
+      },
+      {
+        name: 'PATEL, Ravi',
+        officer_role: 'secretary',
+        appointed_on: '2016-01-12',
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'MzQ1Njc4OTAx', category: 'accounts', type: 'AA', date: '2026-06-14', description: 'accounts-with-accounts-type-full', action_date: '2026-02-28' },
+      { transaction_id: 'MzQ1Njc4OTAy', category: 'confirmation-statement', type: 'CS01', date: '2026-02-20', description: 'confirmation-statement-with-no-updates' },
+      { transaction_id: 'MzQ1Njc4OTAz', category: 'accounts', type: 'AA', date: '2025-06-02', description: 'accounts-with-accounts-type-full', action_date: '2025-02-28' },
+      { transaction_id: 'MzQ1Njc4OTA0', category: 'mortgage', type: 'MR01', date: '2023-08-09', description: 'mortgage-create-with-deed-with-charge-number-charge-creation-date' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Mr Thomas James Hargreaves',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-50-to-75-percent', 'voting-rights-50-to-75-percent'],
+        notified_on: '2016-04-06',
+        nationality: 'British',
+        date_of_birth: { month: 4, year: 1976 },
+      },
+      {
+        name: 'Mrs Emma Louise Hargreaves',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-25-to-50-percent'],
+        notified_on: '2017-09-01',
+        nationality: 'British',
+        date_of_birth: { month: 11, year: 1979 },
+      },
+    ],
+  },
+  {
+    profile: {
+      company_number: '11223344',
+      company_name: 'BRIGHTSIDE CAFE LTD',
+      company_status: 'active',
+      type: 'ltd',
+      date_of_creation: '2018-03-09',
+      sic_codes: ['56101'],
+      has_charges: false,
+      has_insolvency_history: false,
+      registered_office_address: {
+        address_line_1: '2 Harbour Street',
+        locality: 'Whitstable',
+        postal_code: 'CT5 1AJ',
+        country: 'England',
+      },
+      accounts: {
+        next_due: '2026-12-31',
+        overdue: false,
+        last_accounts: { made_up_to: '2025-03-31', type: 'micro-entity' },
+      },
+      confirmation_statement: { next_due: '2027-03-23', overdue: false },
+    },
+    officers: [
+      {
+        name: 'OKAFOR, Grace Adaeze',
+        officer_role: 'director',
+        appointed_on: '2018-03-09',
+        nationality: 'British',
+        occupation: 'Restaurateur',
+        date_of_birth: { month: 7, year: 1988 },
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'NDU2Nzg5MDEy', category: 'confirmation-statement', type: 'CS01', date: '2026-03-15', description: 'confirmation-statement-with-no-updates' },
+      { transaction_id: 'NDU2Nzg5MDEz', category: 'accounts', type: 'AA', date: '2025-12-20', description: 'accounts-with-accounts-type-micro-entity', action_date: '2025-03-31' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Ms Grace Adaeze Okafor',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-75-to-100-percent', 'voting-rights-75-to-100-percent'],
+        notified_on: '2018-03-09',
+        nationality: 'British',
+        date_of_birth: { month: 7, year: 1988 },
+      },
+    ],
+  },
+  {
+    profile: {
+      company_number: '07654321',
+      company_name: 'NORTHERN HAULAGE LIMITED',
+      company_status: 'active',
+      type: 'ltd',
+      date_of_creation: '2011-06-01',
+      sic_codes: ['49410'],
+      has_charges: true,
+      has_insolvency_history: false,
+      registered_office_address: {
+        address_line_1: 'Unit 7 Freightway Park',
+        locality: 'Leeds',
+        postal_code: 'LS10 1QP',
+        country: 'England',
+      },
+      // Accounts are late, which eligibility and monitoring should pick up
+      accounts: {
+        next_due: '2026-03-31',
+        overdue: true,
+        last_accounts: { made_up_to: '2024-06-30', type: 'small' },
+      },
+      confirmation_statement: { next_due: '2026-06-15', overdue: true },
+    },
+    officers: [
+      {
+        name: 'BRENNAN, Michael',
+        officer_role: 'director',
+        appointed_on: '2011-06-01',
+        nationality: 'Irish',
+        occupation: 'Haulier',
+        date_of_birth: { month: 2, year: 1968 },
+      },
+      {
+        name: 'WHITAKER, Susan',
+        officer_role: 'director',
+        appointed_on: '2014-02-10',
+        resigned_on: '2025-11-30',
+        nationality: 'British',
+        occupation: 'Operations Manager',
+        date_of_birth: { month: 9, year: 1972 },
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'NTY3ODkwMTIz', category: 'officers', type: 'TM01', date: '2025-12-04', description: 'termination-director-company-with-name-termination-date' },
+      { transaction_id: 'NTY3ODkwMTI0', category: 'accounts', type: 'AA', date: '2025-03-28', description: 'accounts-with-accounts-type-small', action_date: '2024-06-30' },
+      { transaction_id: 'NTY3ODkwMTI1', category: 'mortgage', type: 'MR01', date: '2022-01-17', description: 'mortgage-create-with-deed-with-charge-number-charge-creation-date' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Brennan Holdings Limited',
+        kind: 'corporate-entity-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-75-to-100-percent'],
+        notified_on: '2019-05-01',
+      },
+    ],
+  },
+  {
+    profile: {
+      company_number: '12987654',
+      company_name: 'PIXEL FORGE STUDIOS LTD',
+      company_status: 'active',
+      type: 'ltd',
+      date_of_creation: '2021-10-05',
+      sic_codes: ['62012', '59112'],
+      has_charges: false,
+      has_insolvency_history: false,
+      registered_office_address: {
+        address_line_1: 'Floor 3, 88 Tib Street',
+        locality: 'Manchester',
+        postal_code: 'M4 1LG',
+        country: 'England',
+      },
+      accounts: {
+        next_due: '2027-07-31',
+        overdue: false,
+        last_accounts: { made_up_to: '2025-10-31', type: 'total-exemption-full' },
+      },
+      confirmation_statement: { next_due: '2026-10-18', overdue: false },
+    },
+    officers: [
+      {
+        name: 'NOVAK, Daniel',
+        officer_role: 'director',
+        appointed_on: '2021-10-05',
+        nationality: 'Czech',
+        occupation: 'Software Developer',
+        date_of_birth: { month: 1, year: 1992 },
+      },
+      {
+        name: 'CHEN, Li',
+        officer_role: 'director',
+        appointed_on: '2021-10-05',
+        nationality: 'British',
+        occupation: 'Designer',
+        date_of_birth: { month: 6, year: 1993 },
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'Njc4OTAxMjM0', category: 'accounts', type: 'AA', date: '2026-07-02', description: 'accounts-with-accounts-type-total-exemption-full', action_date: '2025-10-31' },
+      { transaction_id: 'Njc4OTAxMjM1', category: 'confirmation-statement', type: 'CS01', date: '2025-10-11', description: 'confirmation-statement-with-updates' },
+      { transaction_id: 'Njc4OTAxMjM2', category: 'capital', type: 'SH01', date: '2024-03-19', description: 'capital-allotment-shares' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Mr Daniel Novak',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-25-to-50-percent', 'voting-rights-25-to-50-percent'],
+        notified_on: '2021-10-05',
+        nationality: 'Czech',
+        date_of_birth: { month: 1, year: 1992 },
+      },
+      {
+        name: 'Mr Li Chen',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-25-to-50-percent', 'voting-rights-25-to-50-percent'],
+        notified_on: '2021-10-05',
+        nationality: 'British',
+        date_of_birth: { month: 6, year: 1993 },
+      },
+    ],
+  },
+  {
+    profile: {
+      company_number: '08123456',
+      company_name: 'OLD MILL PROPERTIES LIMITED',
+      company_status: 'liquidation',
+      type: 'ltd',
+      date_of_creation: '2012-07-23',
+      sic_codes: ['68209'],
+      has_charges: true,
+      has_insolvency_history: true,
+      registered_office_address: {
+        address_line_1: 'C/O Begbies Traynor',
+        address_line_2: '1 Old Hall Street',
+        locality: 'Liverpool',
+        postal_code: 'L3 9HF',
+        country: 'England',
+      },
+      accounts: {
+        next_due: '2025-04-30',
+        overdue: true,
+        last_accounts: { made_up_to: '2023-07-31', type: 'small' },
+      },
+      confirmation_statement: { next_due: '2025-08-06', overdue: true },
+    },
+    officers: [
+      {
+        name: 'ASHWORTH, Graham Peter',
+        officer_role: 'director',
+        appointed_on: '2012-07-23',
+        nationality: 'British',
+        occupation: 'Property Developer',
+        date_of_birth: { month: 12, year: 1961 },
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'Nzg5MDEyMzQ1', category: 'insolvency', type: 'LIQ02', date: '2026-01-22', description: 'liquidation-voluntary-statement-of-affairs' },
+      { transaction_id: 'Nzg5MDEyMzQ2', category: 'resolution', type: 'RESOLUTIONS', date: '2026-01-22', description: 'resolution' },
+      { transaction_id: 'Nzg5MDEyMzQ3', category: 'accounts', type: 'AA', date: '2024-04-29', description: 'accounts-with-accounts-type-small', action_date: '2023-07-31' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Mr Graham Peter Ashworth',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-75-to-100-percent'],
+        notified_on: '2016-04-06',
+        nationality: 'British',
+        date_of_birth: { month: 12, year: 1961 },
+      },
+    ],
+  },
+  {
+    profile: {
+      company_number: 'SC512345',
+      company_name: 'THISTLE ENGINEERING SERVICES LTD',
+      company_status: 'active',
+      type: 'ltd',
+      date_of_creation: '2015-08-12',
+      sic_codes: ['71129', '33120'],
+      has_charges: false,
+      has_insolvency_history: false,
+      registered_office_address: {
+        address_line_1: '45 Union Street',
+        locality: 'Aberdeen',
+        postal_code: 'AB11 6BD',
+        country: 'Scotland',
+      },
+      accounts: {
+        next_due: '2027-05-31',
+        overdue: false,
+        last_accounts: { made_up_to: '2025-08-31', type: 'small' },
+      },
+      confirmation_statement: { next_due: '2027-08-26', overdue: false },
+    },
+    officers: [
+      {
+        name: 'MACLEOD, Fiona',
+        officer_role: 'director',
+        appointed_on: '2015-08-12',
+        nationality: 'British',
+        occupation: 'Chartered Engineer',
+        date_of_birth: { month: 3, year: 1974 },
+      },
+    ],
+    filing_history: [
+      { transaction_id: 'ODkwMTIzNDU2', category: 'confirmation-statement', type: 'CS01', date: '2026-08-20', description: 'confirmation-statement-with-no-updates' },
+      { transaction_id: 'ODkwMTIzNDU3', category: 'accounts', type: 'AA', date: '2026-04-30', description: 'accounts-with-accounts-type-small', action_date: '2025-08-31' },
+    ],
+    persons_with_significant_control: [
+      {
+        name: 'Ms Fiona Macleod',
+        kind: 'individual-person-with-significant-control',
+        natures_of_control: ['ownership-of-shares-75-to-100-percent', 'right-to-appoint-and-remove-directors'],
+        notified_on: '2016-06-30',
+        nationality: 'British',
+        date_of_birth: { month: 3, year: 1974 },
+      },
+    ],
+  },
+];
+
+type MockAccountsFigures = {
+  period_start: string;
+  made_up_to: string;
+  turnover?: number;
+  profit_loss?: number;
+  fixed_assets: number;
+  current_assets: number;
+  net_assets: number;
+};
+
+// Figures behind the mock iXBRL accounts, keyed by filing transaction_id. Filings
+// without an entry behave like PDF-only accounts.
+const MOCK_ACCOUNTS_FIGURES: Record<string, MockAccountsFigures> = {
+  MzQ1Njc4OTAx: {
+    period_start: '2025-03-01',
+    made_up_to: '2026-02-28',
+    turnover: 2450000,
+    profit_loss: 186000,
+    fixed_assets: 640000,
+    current_assets: 910000,
+    net_assets: 812000,
+  },
+  // Micro-entity accounts carry no profit and loss account
+  NDU2Nzg5MDEz: {
+    period_start: '2024-04-01',
+    made_up_to: '2025-03-31',
+    fixed_assets: 48000,
+    current_assets: 22000,
+    net_assets: 15500,
+  },
+  NTY3ODkwMTI0: {
+    period_start: '2023-07-01',
+    made_up_to: '2024-06-30',
+    turnover: 3100000,
+    profit_loss: -142000,
+    fixed_assets: 1250000,
+    current_assets: 480000,
+    net_assets: -38000,
+  },
+  Njc4OTAxMjM0: {
+    period_start: '2024-11-01',
+    made_up_to: '2025-10-31',
+    turnover: 420000,
+    profit_loss: 61000,
+    fixed_assets: 12000,
+    current_assets: 205000,
+    net_assets: 96000,
+  },
+  ODkwMTIzNDU3: {
+    period_start: '2024-09-01',
+    made_up_to: '2025-08-31',
+    turnover: 1380000,
+    profit_loss: 97000,
+    fixed_assets: 310000,
+    current_assets: 560000,
+    net_assets: 402000,
+  },
+};
+
+function mockFact(name: string, context: string, value: number): string {
+  const sign = value < 0 ? ' sign="-"' : '';
+  return `<ix:nonFraction name="uk-core:${name}" contextRef="${context}" unitRef="GBP" decimals="0" format="ixt:num-dot-decimal"${sign}>${Math.abs(value).toLocaleString('en-GB')}</ix:nonFraction>`;
+}
+
+function findMockCompany(companyNumber: string): MockCompany | null {
+  return MOCK_COMPANIES.find((company) => company.profile.company_number === companyNumber) || null;
+}
+
+function addressSnippet(company: CompaniesHouseCompany): string {
+  const address = company.registered_office_address || {};
+  return [address.address_line_1, address.address_line_2, address.locality, address.postal_code]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function mockSearchCompanies(query: string, itemsPerPage: number): CompaniesHouseSearchResult {
+  const q = query.trim().toLowerCase();
+  const matches = MOCK_COMPANIES.filter(
+    ({ profile }) => profile.company_name.toLowerCase().includes(q) || profile.company_number.toLowerCase().includes(q)
+  );
+
+  return {
+    items: matches.slice(0, itemsPerPage).map(({ profile }) => ({
+      company_number: profile.company_number,
+      title: profile.company_name,
+      company_status: profile.company_status,
+      address_snippet: addressSnippet(profile),
+    })),
+    total_results: matches.length,
+  };
+}
+
+export function mockCompanyProfile(companyNumber: string): CompaniesHouseCompany | null {
+  return findMockCompany(companyNumber)?.profile || null;
+}
+
+export function mockCompanyOfficers(companyNumber: string): CompaniesHouseOfficer[] | null {
+  return findMockCompany(companyNumber)?.officers || null;
+}
+
+export function mockFilingHistory(companyNumber: string): CompaniesHouseFiling[] | null {
+  return findMockCompany(companyNumber)?.filing_history || null;
+}
+
+export function mockPersonsWithSignificantControl(companyNumber: string): CompaniesHousePsc[] | null {
+  return findMockCompany(companyNumber)?.persons_with_significant_control || null;
+}
+
+// A minimal inline XBRL document in the shape Companies House serves
+export function mockAccountsDocument(transactionId: string): string | null {
+  const figures = MOCK_ACCOUNTS_FIGURES[transactionId];
+  if (!figures) return null;
+
+  const facts = [
+    figures.turnover != null && mockFact('TurnoverRevenue', 'duration', figures.turnover),
+    figures.profit_loss != null && mockFact('ProfitLoss', 'duration', figures.profit_loss),
+    mockFact('FixedAssets', 'instant', figures.fixed_assets),
+    mockFact('CurrentAssets', 'instant', figures.current_assets),
+    mockFact('NetAssetsLiabilities', 'instant', figures.net_assets),
+  ].filter(Boolean);
+
+  return [
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:ix="http://www.xbrl.org/2013/inlineXBRL" xmlns:xbrli="http://www.xbrl.org/2003/instance">',
+    '<body><div style="display:none"><ix:header><ix:resources>',
+    `<xbrli:context id="instant"><xbrli:entity><xbrli:identifier scheme="http://www.companieshouse.gov.uk/">mock</xbrli:identifier></xbrli:entity><xbrli:period><xbrli:instant>${figures.made_up_to}</xbrli:instant></xbrli:period></xbrli:context>`,
+    `<xbrli:context id="duration"><xbrli:entity><xbrli:identifier scheme="http://www.companieshouse.gov.uk/">mock</xbrli:identifier></xbrli:entity><xbrli:period><xbrli:startDate>${figures.period_start}</xbrli:startDate><xbrli:endDate>${figures.made_up_to}</xbrli:endDate></xbrli:period></xbrli:context>`,
+    '</ix:resources></ix:header></div>',
+    ...facts.map((fact) => `<p>${fact}</p>`),
+    '</body></html>',
+  ].join('\n');
+}
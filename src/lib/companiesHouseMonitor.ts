@@ -0,0 +1,311 @@
+// src/lib/companiesHouseMonitor.ts
+//
+// Scheduled re-check of companies with live applications or funded deals against
+// Companies House. Status changes (liquidation, dissolution, administration...),
+// strike-off notices, insolvency history, director resignations and overdue filings
+// raise company_alerts, which the admin dashboard and company page show until the
+// condition clears or an admin dismisses them.
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CompaniesHouseCompany,
+  CompaniesHouseOfficer,
+  getCompanyOfficers,
+  getCompanyProfile,
+} from './companiesHouse';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Each company costs two Companies House requests; the API allows 600 per 5 minutes
+const DEFAULT_BATCH_SIZE = 200;
+// Resignations older than this when first seen are history, not news
+const DIRECTOR_RESIGNATION_LOOKBACK_DAYS = 90;
+
+// Applications in these stages are no longer monitored
+const UNMONITORED_STAGES = ['created', 'declined', 'withdrawn'];
+
+// Any status other than these means the company is closed or in an insolvency process
+const TRADING_STATUSES = ['active', 'open'];
+
+const DIRECTOR_ROLES = ['director', 'nominated-director', 'corporate-director', 'corporate-nominee-director'];
+
+export type CompanyAlertKind =
+  | 'status'
+  | 'strike_off'
+  | 'insolvency'
+  | 'director_resigned'
+  | 'accounts_overdue'
+  | 'confirmation_statement_overdue';
+
+export type CompanyAlertSeverity = 'critical' | 'warning';
+
+export type CompanyAlert = {
+  id: string;
+  company_id: string;
+  kind: CompanyAlertKind;
+  severity: CompanyAlertSeverity;
+  alert_key: string;
+  message: string;
+  details: Record<string, any> | null;
+  detected_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+};
+
+export type DetectedAlert = Pick<CompanyAlert, 'kind' | 'severity' | 'alert_key' | 'message' | 'details'>;
+
+// Resignations are events rather than states: they never clear on their own
+const EVENT_KINDS: CompanyAlertKind[] = ['director_resigned'];
+
+export type MonitorSummary = {
+  checked: number;
+  alerts_raised: number;
+  alerts_resolved: number;
+  failures: { id: string; error: string }[];
+};
+
+export function monitorBatchSize(): number {
+  const size = Number(process.env.COMPANIES_HOUSE_MONITOR_BATCH);
+  return Number.isFinite(size) && size > 0 ? size : DEFAULT_BATCH_SIZE;
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/-/g, ' ');
+}
+
+/**
+ * The alert conditions present in a company's current Companies House record.
+ * previousProfile is the snapshot stored before this check, used for wording only.
+ */
+export function detectCompanyAlerts(
+  profile: CompaniesHouseCompany,
+  officers: CompaniesHouseOfficer[],
+  previousProfile: CompaniesHouseCompany | null,
+  now: Date = new Date()
+): DetectedAlert[] {
+  const alerts: DetectedAlert[] = [];
+  const status = profile.company_status;
+  const previousStatus = previousProfile?.company_status || null;
+
+  if (status && !TRADING_STATUSES.includes(status)) {
+    alerts.push({
+      kind: 'status',
+      severity: 'critical',
+      alert_key: `status:${status}`,
+      message:
+        previousStatus && previousStatus !== status
+          ? `Company status changed from ${formatStatus(previousStatus)} to ${formatStatus(status)}`
+          : `Company status is ${formatStatus(status)}`,
+      details: { company_status: status, previous_status: previousStatus },
+    });
+  }
+
+  // e.g. 'active-proposal-to-strike-off'
+  const statusDetail: string | undefined = profile.company_status_detail;
+  if (statusDetail && statusDetail.includes('strike-off')) {
+    alerts.push({
+      kind: 'strike_off',
+      severity: 'critical',
+      alert_key: `strike_off:${statusDetail}`,
+      message: `Strike-off notice: ${formatStatus(statusDetail)}`,
+      details: { company_status_detail: statusDetail },
+    });
+  }
+
+  if (profile.has_insolvency_history) {
+    alerts.push({
+      kind: 'insolvency',
+      severity: 'critical',
+      alert_key: 'insolvency',
+      message: 'Company has insolvency history',
+      details: null,
+    });
+  }
+
+  const lookbackStart = new Date(now.getTime() - DIRECTOR_RESIGNATION_LOOKBACK_DAYS * DAY_MS).toISOString().slice(0, 10);
+  for (const officer of officers) {
+    if (!officer.resigned_on || !DIRECTOR_ROLES.includes(officer.officer_role)) continue;
+    if (officer.resigned_on < lookbackStart) continue;
+    alerts.push({
+      kind: 'director_resigned',
+      severity: 'warning',
+      alert_key: `director_resigned:${officer.name}:${officer.resigned_on}`,
+      message: `Director ${officer.name} resigned on ${officer.resigned_on}`,
+      details: { name: officer.name, resigned_on: officer.resigned_on, appointed_on: officer.appointed_on || null },
+    });
+  }
+
+  const accounts = profile.accounts || {};
+  if (accounts.overdue) {
+    alerts.push({
+      kind: 'accounts_overdue',
+      severity: 'warning',
+      alert_key: `accounts_overdue:${accounts.next_due || 'unknown'}`,
+      message: `Accounts overdue${accounts.next_due ? ` (due ${accounts.next_due})` : ''}`,
+      details: { next_due: accounts.next_due || null },
+    });
+  }
+
+  const confirmationStatement = profile.confirmation_statement || {};
+  if (confirmationStatement.overdue) {
+    alerts.push({
+      kind: 'confirmation_statement_overdue',
+      severity: 'warning',
+      alert_key: `confirmation_statement_overdue:${confirmationStatement.next_due || 'unknown'}`,
+      message: `Confirmation statement overdue${confirmationStatement.next_due ? ` (due ${confirmationStatement.next_due})` : ''}`,
+      details: { next_due: confirmationStatement.next_due || null },
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Raise newly detected alerts and resolve open ones whose condition has cleared.
+ * A condition an admin has dismissed is not raised again while it persists; once it
+ * clears, the dismissal is spent and a recurrence raises a new alert.
+ */
+async function reconcileAlerts(
+  supabaseAdmin: SupabaseClient,
+  companyId: string,
+  detected: DetectedAlert[],
+  applicationIds: string[],
+  now: Date
+): Promise<{ raised: number; resolved: number }> {
+  const { data: existing, error } = await supabaseAdmin
+    .from('company_alerts')
+    .select('id, alert_key, kind, resolved_at, resolved_by, cleared_at')
+    .eq('company_id', companyId);
+
+  if (error) {
+    throw new Error(`Error loading alerts: ${error.message}`);
+  }
+
+  const rows = existing || [];
+  const detectedKeys = new Set(detected.map((alert) => alert.alert_key));
+
+  const dismissed = rows.filter((row) => row.resolved_at && row.resolved_by && !row.cleared_at);
+  const toClear = dismissed.filter((row) => !detectedKeys.has(row.alert_key));
+
+  const suppressed = new Set(
+    rows.filter((row) => !row.resolved_at || dismissed.includes(row)).map((row) => row.alert_key)
+  );
+  const toRaise = detected.filter((alert) => !suppressed.has(alert.alert_key));
+
+  const toResolve = rows.filter(
+    (row) => !row.resolved_at && !detectedKeys.has(row.alert_key) && !EVENT_KINDS.includes(row.kind)
+  );
+
+  if (toRaise.length > 0) {
+    const { error: insertError } = await supabaseAdmin.from('company_alerts').insert(
+      toRaise.map((alert) => ({
+        company_id: companyId,
+        ...alert,
+        details: { ...(alert.details || {}), application_ids: applicationIds },
+        detected_at: now.toISOString(),
+      }))
+    );
+    if (insertError) {
+      throw new Error(`Error raising alerts: ${insertError.message}`);
+    }
+  }
+
+  if (toResolve.length > 0) {
+    const { error: resolveError } = await supabaseAdmin
+      .from('company_alerts')
+      .update({ resolved_at: now.toISOString() })
+      .in('id', toResolve.map((row) => row.id));
+    if (resolveError) {
+      throw new Error(`Error resolving alerts: ${resolveError.message}`);
+    }
+  }
+
+  if (toClear.length > 0) {
+    const { error: clearError } = await supabaseAdmin
+      .from('company_alerts')
+      .update({ cleared_at: now.toISOString() })
+      .in('id', toClear.map((row) => row.id));
+    if (clearError) {
+      throw new Error(`Error clearing dismissed alerts: ${clearError.message}`);
+    }
+  }
+
+  return { raised: toRaise.length, resolved: toResolve.length };
+}
+
+/**
+ * Re-check the least recently checked monitored companies, up to the batch size.
+ * A company that fails (not found, Companies House down) is reported and left for
+ * the next run; the others carry on.
+ */
+export async function runCompaniesHouseMonitor(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<MonitorSummary> {
+  const summary: MonitorSummary = { checked: 0, alerts_raised: 0, alerts_resolved: 0, failures: [] };
+
+  const { data: apps, error: appsError } = await supabaseAdmin
+    .from('applications')
+    .select('id, company_id')
+    .not('stage', 'in', `(${UNMONITORED_STAGES.join(',')})`)
+    .not('company_id', 'is', null)
+    .is('deleted_at', null);
+
+  if (appsError) {
+    throw new Error(`Error loading monitored applications: ${appsError.message}`);
+  }
+
+  const applicationsByCompany: Record<string, string[]> = {};
+  for (const app of apps || []) {
+    (applicationsByCompany[app.company_id] = applicationsByCompany[app.company_id] || []).push(app.id);
+  }
+  const companyIds = Object.keys(applicationsByCompany);
+  if (companyIds.length === 0) return summary;
+
+  const { data: companies, error: companiesError } = await supabaseAdmin
+    .from('companies')
+    .select('id, company_number, companies_house_data')
+    .in('id', companyIds)
+    .not('company_number', 'is', null)
+    .is('deleted_at', null)
+    .order('companies_house_checked_at', { ascending: true, nullsFirst: true })
+    .limit(monitorBatchSize());
+
+  if (companiesError) {
+    throw new Error(`Error loading monitored companies: ${companiesError.message}`);
+  }
+
+  for (const company of companies || []) {
+    try {
+      const [profile, officers] = await Promise.all([
+        // The cache can be a day or more old; the monitor needs today's answer
+        getCompanyProfile(company.company_number, { fresh: true }),
+        getCompanyOfficers(company.company_number, { fresh: true }),
+      ]);
+
+      const detected = detectCompanyAlerts(profile, officers.items || [], company.companies_house_data, now);
+      const { raised, resolved } = await reconcileAlerts(
+        supabaseAdmin,
+        company.id,
+        detected,
+        applicationsByCompany[company.id],
+        now
+      );
+
+      const { error: updateError } = await supabaseAdmin
+        .from('companies')
+        .update({ companies_house_data: profile, companies_house_checked_at: now.toISOString() })
+        .eq('id', company.id);
+      if (updateError) {
+        throw new Error(`Error saving Companies House data: ${updateError.message}`);
+      }
+
+      summary.checked += 1;
+      summary.alerts_raised += raised;
+      summary.alerts_resolved += resolved;
+    } catch (err: any) {
+      console.error(`Error monitoring company ${company.id}:`, err);
+      summary.failures.push({ id: company.id, error: err?.message || 'Unknown error' });
+    }
+  }
+
+  return summary;
+}
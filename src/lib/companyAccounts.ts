@@ -0,0 +1,251 @@
+// src/lib/companyAccounts.ts
+//
+// Filing history and accounts data from Companies House, stored on the company for
+// underwriting: accounts type, made-up-to and due dates, overdue flags, how many
+// years of accounts are on file and, when the latest accounts were filed as iXBRL,
+// turnover, profit and net assets read from the tagged figures.
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CompaniesHouseCompany,
+  CompaniesHouseFiling,
+  getAccountsDocument,
+  getCompanyProfile,
+  getFilingHistory,
+} from './companiesHouse';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Eligibility refreshes stored accounts older than this before using them
+export const ACCOUNTS_REFRESH_DAYS = 7;
+const STORED_FILINGS_LIMIT = 50;
+
+export type AccountsFinancials = {
+  made_up_to: string;
+  turnover: number | null;
+  profit_loss: number | null;
+  net_assets: number | null;
+  total_assets: number | null;
+};
+
+export type CompanyAccountsSummary = {
+  refreshed_at: string;
+  accounts_type: string | null;
+  last_made_up_to: string | null;
+  next_due: string | null;
+  overdue: boolean;
+  confirmation_statement_overdue: boolean;
+  // Annual accounts (AA) filings on record
+  filed_accounts_years: number;
+  financials: AccountsFinancials | null;
+  // Why financials are missing, when they are
+  financials_note: string | null;
+};
+
+export type StoredFiling = Pick<
+  CompaniesHouseFiling,
+  'transaction_id' | 'category' | 'type' | 'date' | 'description' | 'action_date'
+>;
+
+// Local names of the iXBRL concepts we read, most specific first. Filings use
+// several taxonomies (uk-core, core, FRS 102/105), hence the alternatives.
+const CONCEPTS: Record<keyof Omit<AccountsFinancials, 'made_up_to'> | 'fixed_assets' | 'current_assets', string[]> = {
+  turnover: ['TurnoverRevenue', 'Turnover', 'Revenue'],
+  profit_loss: ['ProfitLoss', 'ProfitLossForPeriod', 'ProfitLossOnOrdinaryActivitiesAfterTax'],
+  net_assets: ['NetAssetsLiabilities', 'NetAssetsLiabilitiesIncludingPensionAssetLiability', 'Equity', 'ShareholderFunds'],
+  total_assets: ['TotalAssets'],
+  fixed_assets: ['FixedAssets'],
+  current_assets: ['CurrentAssets'],
+};
+
+type IxbrlFact = {
+  concept: string;
+  periodEnd: string;
+  value: number;
+};
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw))) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+// Period end of every context without dimensions (segment/scenario), by id
+function parseContexts(document: string): Record<string, string> {
+  const contexts: Record<string, string> = {};
+  const pattern = /<(?:[\w-]+:)?context\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?context>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(document))) {
+    const id = parseAttributes(match[1]).id;
+    const body = match[2];
+    if (!id || /<(?:[\w-]+:)?(segment|scenario)\b/i.test(body)) continue;
+
+    const end = body.match(/<(?:[\w-]+:)?(?:instant|endDate)>\s*([^<\s]+)\s*</i);
+    if (end) contexts[id] = end[1];
+  }
+  return contexts;
+}
+
+function parseFacts(document: string, contexts: Record<string, string>): IxbrlFact[] {
+  const facts: IxbrlFact[] = [];
+  const pattern = /<ix:nonFraction\b([^>]*)>([\s\S]*?)<\/ix:nonFraction>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(document))) {
+    const attributes = parseAttributes(match[1]);
+    const periodEnd = contexts[attributes.contextRef];
+    if (!attributes.name || !periodEnd || attributes['xsi:nil'] === 'true') continue;
+
+    const text = match[2].replace(/<[^>]+>/g, '').trim();
+    // Dashes stand for zero in accounts ("ixt:zerodash" and friends)
+    let value = /^[-–—]$/.test(text) || /zerodash|fixed-zero/i.test(attributes.format || '')
+      ? 0
+      : Number(text.replace(/[,\s]/g, ''));
+    if (!Number.isFinite(value)) continue;
+
+    if (attributes.scale) value *= Math.pow(10, Number(attributes.scale) || 0);
+    if (attributes.sign === '-') value = -value;
+
+    facts.push({ concept: attributes.name.split(':').pop() || attributes.name, periodEnd, value });
+  }
+  return facts;
+}
+
+/**
+ * Read the headline figures for the period ending madeUpTo (or the latest period
+ * in the document) from an iXBRL accounts document. Returns null when nothing we
+ * recognise is tagged.
+ */
+export function parseIxbrlFinancials(document: string, madeUpTo?: string | null): AccountsFinancials | null {
+  const facts = parseFacts(document, parseContexts(document));
+  if (facts.length === 0) return null;
+
+  const periodEnd = madeUpTo && facts.some((fact) => fact.periodEnd === madeUpTo)
+    ? madeUpTo
+    : facts.map((fact) => fact.periodEnd).sort().pop()!;
+
+  const pick = (key: keyof typeof CONCEPTS): number | null => {
+    for (const concept of CONCEPTS[key]) {
+      const fact = facts.find((f) => f.concept === concept && f.periodEnd === periodEnd);
+      if (fact) return fact.value;
+    }
+    return null;
+  };
+
+  const fixedAssets = pick('fixed_assets');
+  const currentAssets = pick('current_assets');
+  const totalAssets = pick('total_assets') ?? (currentAssets != null ? currentAssets + (fixedAssets || 0) : null);
+
+  const financials: AccountsFinancials = {
+    made_up_to: periodEnd,
+    turnover: pick('turnover'),
+    profit_loss: pick('profit_loss'),
+    net_assets: pick('net_assets'),
+    total_assets: totalAssets,
+  };
+
+  if (financials.turnover == null && financials.profit_loss == null && financials.net_assets == null) {
+    return null;
+  }
+  return financials;
+}
+
+/**
+ * Summarise the profile's accounts block and the accounts filings.
+ */
+export function buildAccountsSummary(
+  profile: CompaniesHouseCompany,
+  accountsFilings: CompaniesHouseFiling[],
+  financials: AccountsFinancials | null,
+  financialsNote: string | null,
+  now: Date = new Date()
+): CompanyAccountsSummary {
+  const accounts = profile.accounts || {};
+  const annualAccountsPeriods = new Set(
+    accountsFilings.filter((filing) => filing.type === 'AA').map((filing) => filing.action_date || filing.date)
+  );
+
+  return {
+    refreshed_at: now.toISOString(),
+    accounts_type: accounts.last_accounts?.type || null,
+    last_made_up_to: accounts.last_accounts?.made_up_to || null,
+    next_due: accounts.next_due || null,
+    overdue: !!accounts.overdue,
+    confirmation_statement_overdue: !!profile.confirmation_statement?.overdue,
+    filed_accounts_years: annualAccountsPeriods.size,
+    financials,
+    financials_note: financialsNote,
+  };
+}
+
+export function accountsSummaryIsStale(refreshedAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!refreshedAt) return true;
+  return now.getTime() - new Date(refreshedAt).getTime() > ACCOUNTS_REFRESH_DAYS * DAY_MS;
+}
+
+/**
+ * Fetch the company profile, filing history and latest accounts from Companies
+ * House and store them on the company. Companies House errors are thrown as
+ * CompaniesHouseError; a missing or unreadable accounts document is not an error
+ * and is recorded in financials_note instead.
+ */
+export async function ingestCompanyAccounts(
+  supabaseAdmin: SupabaseClient,
+  company: { id: string; company_number: string },
+  now: Date = new Date()
+): Promise<{ accounts_summary: CompanyAccountsSummary; filing_history: StoredFiling[] }> {
+  const [profile, history] = await Promise.all([
+    getCompanyProfile(company.company_number),
+    getFilingHistory(company.company_number),
+  ]);
+
+  // Newest first, as Companies House returns them
+  const filings = (history.items || []).slice().sort((a, b) => b.date.localeCompare(a.date));
+  const accountsFilings = filings.filter((filing) => filing.category === 'accounts');
+  const latest = accountsFilings.find((filing) => filing.type === 'AA') || accountsFilings[0];
+
+  let financials: AccountsFinancials | null = null;
+  let financialsNote: string | null = null;
+  if (!latest) {
+    financialsNote = 'No accounts filed';
+  } else {
+    try {
+      const document = await getAccountsDocument(latest);
+      if (!document) {
+        financialsNote = 'Latest accounts are only available as a PDF';
+      } else {
+        financials = parseIxbrlFinancials(document, latest.action_date || profile.accounts?.last_accounts?.made_up_to);
+        if (!financials) financialsNote = 'No figures could be read from the latest accounts';
+      }
+    } catch (err: any) {
+      console.error(`Error reading accounts for company ${company.id}:`, err);
+      financialsNote = `Could not read the latest accounts: ${err?.message || 'unknown error'}`;
+    }
+  }
+
+  const accountsSummary = buildAccountsSummary(profile, accountsFilings, financials, financialsNote, now);
+  const filingHistory: StoredFiling[] = filings.slice(0, STORED_FILINGS_LIMIT).map((filing) => ({
+    transaction_id: filing.transaction_id,
+    category: filing.category,
+    type: filing.type,
+    date: filing.date,
+    description: filing.description,
+    action_date: filing.action_date,
+  }));
+
+  const { error } = await supabaseAdmin
+    .from('companies')
+    .update({
+      companies_house_data: profile,
+      filing_history: filingHistory,
+      accounts_summary: accountsSummary,
+    })
+    .eq('id', company.id);
+
+  if (error) {
+    throw new Error(`Error saving accounts data: ${error.message}`);
+  }
+
+  return { accounts_summary: accountsSummary, filing_history: filingHistory };
+}
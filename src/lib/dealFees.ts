@@ -0,0 +1,165 @@
+// src/lib/dealFees.ts
+//
+// Fees we earn on funded deals (deal_fees): the procuration fee the lender pays us
+// and any broker fee charged to the client. Each is captured with the amount
+// expected when the application is funded, then invoiced and marked paid with the
+// amount actually received. Outstanding fees are aged for the receivables view from
+// the invoice date, or from funding while no invoice has been raised.
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DealFeeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type DealFeeKind = 'procuration' | 'broker';
+
+export const DEAL_FEE_KINDS: DealFeeKind[] = ['procuration', 'broker'];
+
+export const DEAL_FEE_LABELS: Record<DealFeeKind, string> = {
+  procuration: 'Procuration fee',
+  broker: 'Broker fee',
+};
+
+export type DealFee = {
+  id: string;
+  application_id: string;
+  kind: DealFeeKind;
+  // Procuration fees: the lender that owes it
+  lender_id: string | null;
+  expected_amount: number | null;
+  received_amount: number | null;
+  invoice_reference: string | null;
+  invoiced_on: string | null;
+  paid_on: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type DealFeeInput = Pick<
+  DealFee,
+  'expected_amount' | 'received_amount' | 'invoice_reference' | 'invoiced_on' | 'paid_on' | 'notes'
+>;
+
+/**
+ * What is still owed on a fee. Once paid, any shortfall is written off rather than
+ * left outstanding.
+ */
+export function outstandingFeeAmount(fee: Pick<DealFee, 'expected_amount' | 'received_amount' | 'paid_on'>): number {
+  if (fee.paid_on) return 0;
+  return Math.max(Number(fee.expected_amount || 0) - Number(fee.received_amount || 0), 0);
+}
+
+export type AgeingBucket = 'current' | 'days_31_60' | 'days_61_90' | 'over_90';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string; minDays: number }[] = [
+  { key: 'current', label: '0–30 days', minDays: 0 },
+  { key: 'days_31_60', label: '31–60 days', minDays: 31 },
+  { key: 'days_61_90', label: '61–90 days', minDays: 61 },
+  { key: 'over_90', label: 'Over 90 days', minDays: 91 },
+];
+
+/**
+ * Days a fee has been owed: since the invoice, or since funding when not yet invoiced.
+ */
+export function feeAgeDays(
+  fee: Pick<DealFee, 'invoiced_on' | 'created_at'>,
+  fundedAt: string | null,
+  now: Date = new Date()
+): number {
+  const from = fee.invoiced_on || fundedAt || fee.created_at;
+  return Math.max(Math.floor((now.getTime() - new Date(from).getTime()) / DAY_MS), 0);
+}
+
+export function ageingBucket(days: number): AgeingBucket {
+  let bucket: AgeingBucket = 'current';
+  for (const candidate of AGEING_BUCKETS) {
+    if (days >= candidate.minDays) bucket = candidate.key;
+  }
+  return bucket;
+}
+
+function parseAmount(value: unknown, field: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = typeof value === 'number' ? value : Number(value);
+  if (isNaN(amount) || amount < 0) {
+    throw new DealFeeError(`${field} must be an amount of zero or more`, 400);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+function parseDate(value: unknown, field: string): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new DealFeeError(`${field} must be a date (YYYY-MM-DD)`, 400);
+  }
+  return value;
+}
+
+function parseText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Check fee details submitted by an admin. A fee marked paid without a received
+ * amount is taken as paid in full. Throws DealFeeError (400) when invalid.
+ */
+export function validateDealFeeInput(body: any): DealFeeInput {
+  const input: DealFeeInput = {
+    expected_amount: parseAmount(body?.expected_amount, 'expected_amount'),
+    received_amount: parseAmount(body?.received_amount, 'received_amount'),
+    invoice_reference: parseText(body?.invoice_reference),
+    invoiced_on: parseDate(body?.invoiced_on, 'invoiced_on'),
+    paid_on: parseDate(body?.paid_on, 'paid_on'),
+    notes: parseText(body?.notes),
+  };
+
+  if (input.paid_on && input.received_amount === null) {
+    if (input.expected_amount === null) {
+      throw new DealFeeError('Enter the amount received', 400);
+    }
+    input.received_amount = input.expected_amount;
+  }
+  return input;
+}
+
+/**
+ * Record or update one of a funded application's fees. The procuration fee is owed
+ * by the application's accepted lender.
+ */
+export async function saveDealFee(
+  supabaseAdmin: SupabaseClient,
+  application: { id: string; stage: string; accepted_lender_id: string | null },
+  kind: DealFeeKind,
+  input: DealFeeInput,
+  userId: string
+): Promise<DealFee> {
+  if (application.stage !== 'funded') {
+    throw new DealFeeError('Fees can be recorded once the application is funded', 409);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('deal_fees')
+    .upsert(
+      {
+        application_id: application.id,
+        kind,
+        lender_id: kind === 'procuration' ? application.accepted_lender_id : null,
+        ...input,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'application_id,kind' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new DealFeeError(`Error saving fee: ${error.message}`, 500);
+  }
+  return data as DealFee;
+}
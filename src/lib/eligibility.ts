@@ -0,0 +1,526 @@
+// src/lib/eligibility.ts
+//
+// Pure lender matching. Takes the lender criteria columns (see
+// migrations/add_lender_eligibility_criteria.sql) and the facts we hold about an
+// application and returns, per lender, which rules passed, failed or could not be
+// checked because we don't hold the data yet. No Supabase access in here so it can
+// run on the server route and in the browser alike.
+import type { CompanyAccountsSummary } from './companyAccounts';
+import type { BankStatementAnalysis } from './bankStatementAnalysis';
+
+export type LenderCriteria = {
+  id: string;
+  name: string;
+  status?: string | null;
+  min_trading_months: number | null;
+  min_monthly_revenue: number | null;
+  max_monthly_revenue_multiple: number | null;
+  max_annual_revenue_percentage: number | null;
+  absolute_min_loan: number | null;
+  absolute_max_loan: number | null;
+  accepted_business_types: string[] | null;
+  prohibited_industries: string[] | null;
+  requires_filed_accounts: boolean | null;
+  min_filed_accounts_years: number | null;
+  accepts_ccjs: boolean | null;
+  max_ccj_value: number | null;
+  requires_homeowner: boolean | null;
+  homeowner_min_loan: number | null;
+  requires_card_payments: boolean | null;
+  min_card_payment_percentage: number | null;
+  requires_existing_lending: boolean | null;
+  max_existing_lenders: number | null;
+  min_term_months: number | null;
+  max_term_months: number | null;
+  is_eligible_panel: boolean | null;
+  min_profit_margin_percentage: number | null;
+  requires_profitable: boolean | null;
+  min_net_assets_ratio: number | null;
+  requires_positive_net_assets: boolean | null;
+};
+
+// Columns to select from `lenders` when evaluating eligibility
+export const LENDER_CRITERIA_COLUMNS = [
+  'id',
+  'name',
+  'status',
+  'min_trading_months',
+  'min_monthly_revenue',
+  'max_monthly_revenue_multiple',
+  'max_annual_revenue_percentage',
+  'absolute_min_loan',
+  'absolute_max_loan',
+  'accepted_business_types',
+  'prohibited_industries',
+  'requires_filed_accounts',
+  'min_filed_accounts_years',
+  'accepts_ccjs',
+  'max_ccj_value',
+  'requires_homeowner',
+  'homeowner_min_loan',
+  'requires_card_payments',
+  'min_card_payment_percentage',
+  'requires_existing_lending',
+  'max_existing_lenders',
+  'min_term_months',
+  'max_term_months',
+  'is_eligible_panel',
+  'min_profit_margin_percentage',
+  'requires_profitable',
+  'min_net_assets_ratio',
+  'requires_positive_net_assets',
+].join(', ');
+
+export type EligibilityInput = {
+  requestedAmount: number | null;
+  monthlyRevenue: number | null;
+  tradingMonths: number | null;
+  termMonths: number | null;
+  industry: string | null;
+  businessType: string | null; // 'limited-company' | 'llp' | 'sole-trader' | 'partnership'
+  isHomeowner: boolean | null;
+  companyStatus: string | null; // Companies House company_status
+  hasFiledAccounts: boolean | null;
+  filedAccountsYears: number | null;
+  cardPaymentPercentage: number | null;
+  existingLenderCount: number | null;
+  profitMarginPercentage: number | null;
+  netProfit: number | null;
+  netAssets: number | null;
+  // Net assets as a percentage of total assets
+  netAssetsRatio: number | null;
+};
+
+export type RuleOutcome = 'pass' | 'fail' | 'unknown';
+
+// Hard rules are outright declines. Soft rules are deal-structuring limits a lender
+// will often flex on (amount, term, affordability), so failing only those makes
+// the lender "borderline" rather than ineligible.
+export type RuleSeverity = 'hard' | 'soft';
+
+export type RuleResult = {
+  rule: string;
+  severity: RuleSeverity;
+  outcome: RuleOutcome;
+  message: string;
+};
+
+export type EligibilityTier = 'eligible' | 'borderline' | 'ineligible';
+
+export type LenderEligibility = {
+  lender_id: string;
+  lender_name: string;
+  is_eligible: boolean;
+  tier: EligibilityTier;
+  failed_rules: RuleResult[];
+  unknown_rules: RuleResult[];
+};
+
+export type EligibilityResult = {
+  evaluated_at: string;
+  input: EligibilityInput;
+  lenders: Record<string, LenderEligibility>;
+};
+
+type Rule = {
+  key: string;
+  severity: RuleSeverity;
+  applies: (lender: LenderCriteria) => boolean;
+  check: (lender: LenderCriteria, input: EligibilityInput) => Omit<RuleResult, 'rule' | 'severity'>;
+};
+
+const gbp = (value: number) => `£${Math.round(value).toLocaleString('en-GB')}`;
+
+const unknown = (message: string): Omit<RuleResult, 'rule' | 'severity'> => ({ outcome: 'unknown', message });
+const passIf = (ok: boolean, message: string): Omit<RuleResult, 'rule' | 'severity'> => ({
+  outcome: ok ? 'pass' : 'fail',
+  message,
+});
+
+const RULES: Rule[] = [
+  {
+    key: 'company_active',
+    severity: 'hard',
+    applies: () => true,
+    check: (_lender, input) => {
+      if (!input.companyStatus) return unknown('Companies House status not available');
+      return passIf(
+        input.companyStatus === 'active',
+        `Company status is "${input.companyStatus}"`
+      );
+    },
+  },
+  {
+    key: 'min_trading_months',
+    severity: 'hard',
+    applies: (l) => l.min_trading_months != null,
+    check: (l, input) => {
+      if (input.tradingMonths == null) return unknown('Trading history not provided');
+      return passIf(
+        input.tradingMonths >= l.min_trading_months!,
+        `Trading ${input.tradingMonths} months, lender requires ${l.min_trading_months}`
+      );
+    },
+  },
+  {
+    key: 'min_monthly_revenue',
+    severity: 'hard',
+    applies: (l) => l.min_monthly_revenue != null,
+    check: (l, input) => {
+      if (input.monthlyRevenue == null) return unknown('Monthly revenue not provided');
+      return passIf(
+        input.monthlyRevenue >= l.min_monthly_revenue!,
+        `Monthly revenue ${gbp(input.monthlyRevenue)}, lender requires ${gbp(l.min_monthly_revenue!)}`
+      );
+    },
+  },
+  {
+    key: 'max_monthly_revenue_multiple',
+    severity: 'soft',
+    applies: (l) => l.max_monthly_revenue_multiple != null,
+    check: (l, input) => {
+      if (input.monthlyRevenue == null || input.requestedAmount == null) {
+        return unknown('Monthly revenue or requested amount not provided');
+      }
+      const limit = input.monthlyRevenue * Number(l.max_monthly_revenue_multiple);
+      return passIf(
+        input.requestedAmount <= limit,
+        `Requested ${gbp(input.requestedAmount)}, lender lends up to ${l.max_monthly_revenue_multiple}x monthly revenue (${gbp(limit)})`
+      );
+    },
+  },
+  {
+    key: 'max_annual_revenue_percentage',
+    severity: 'soft',
+    applies: (l) => l.max_annual_revenue_percentage != null,
+    check: (l, input) => {
+      if (input.monthlyRevenue == null || input.requestedAmount == null) {
+        return unknown('Monthly revenue or requested amount not provided');
+      }
+      const limit = (input.monthlyRevenue * 12 * l.max_annual_revenue_percentage!) / 100;
+      return passIf(
+        input.requestedAmount <= limit,
+        `Requested ${gbp(input.requestedAmount)}, lender lends up to ${l.max_annual_revenue_percentage}% of annual revenue (${gbp(limit)})`
+      );
+    },
+  },
+  {
+    key: 'absolute_min_loan',
+    severity: 'hard',
+    applies: (l) => l.absolute_min_loan != null,
+    check: (l, input) => {
+      if (input.requestedAmount == null) return unknown('Requested amount not provided');
+      return passIf(
+        input.requestedAmount >= l.absolute_min_loan!,
+        `Requested ${gbp(input.requestedAmount)}, lender minimum is ${gbp(l.absolute_min_loan!)}`
+      );
+    },
+  },
+  {
+    key: 'absolute_max_loan',
+    severity: 'hard',
+    applies: (l) => l.absolute_max_loan != null,
+    check: (l, input) => {
+      if (input.requestedAmount == null) return unknown('Requested amount not provided');
+      return passIf(
+        input.requestedAmount <= l.absolute_max_loan!,
+        `Requested ${gbp(input.requestedAmount)}, lender maximum is ${gbp(l.absolute_max_loan!)}`
+      );
+    },
+  },
+  {
+    key: 'accepted_business_types',
+    severity: 'hard',
+    applies: (l) => !!l.accepted_business_types && l.accepted_business_types.length > 0,
+    check: (l, input) => {
+      if (!input.businessType) return unknown('Business type not known');
+      return passIf(
+        l.accepted_business_types!.includes(input.businessType),
+        `Business type "${input.businessType}", lender accepts ${l.accepted_business_types!.join(', ')}`
+      );
+    },
+  },
+  {
+    key: 'prohibited_industries',
+    severity: 'hard',
+    applies: (l) => !!l.prohibited_industries && l.prohibited_industries.length > 0,
+    check: (l, input) => {
+      if (!input.industry) return unknown('Industry not provided');
+      const prohibited = l.prohibited_industries!.map((i) => i.toLowerCase());
+      return passIf(
+        !prohibited.includes(input.industry.toLowerCase()),
+        `Industry "${input.industry}" is ${prohibited.includes(input.industry.toLowerCase()) ? '' : 'not '}on the lender's prohibited list`
+      );
+    },
+  },
+  {
+    key: 'requires_filed_accounts',
+    severity: 'hard',
+    applies: (l) => !!l.requires_filed_accounts,
+    check: (l, input) => {
+      if (input.hasFiledAccounts == null) return unknown('Filed accounts not known');
+      if (!input.hasFiledAccounts) return passIf(false, 'No accounts filed at Companies House');
+      if (l.min_filed_accounts_years == null) return passIf(true, 'Accounts filed at Companies House');
+      if (input.filedAccountsYears == null) return unknown('Number of years of filed accounts not known');
+      return passIf(
+        input.filedAccountsYears >= l.min_filed_accounts_years,
+        `${input.filedAccountsYears} years of accounts filed, lender requires ${l.min_filed_accounts_years}`
+      );
+    },
+  },
+  // No rule for accepts_ccjs / max_ccj_value yet: we hold no CCJ data for applicants,
+  // and a rule that can only answer "not known" would flag every lender
+  {
+    key: 'requires_homeowner',
+    severity: 'hard',
+    applies: (l) => !!l.requires_homeowner,
+    check: (l, input) => {
+      // homeowner_min_loan means the homeowner requirement only kicks in above that amount
+      if (l.homeowner_min_loan != null && input.requestedAmount != null && input.requestedAmount <= l.homeowner_min_loan) {
+        return passIf(true, `Homeowner only required above ${gbp(l.homeowner_min_loan)}`);
+      }
+      if (input.isHomeowner == null) return unknown('Director property status not provided');
+      return passIf(input.isHomeowner, input.isHomeowner ? 'Director is a homeowner' : 'Lender requires a homeowner director');
+    },
+  },
+  {
+    key: 'requires_card_payments',
+    severity: 'soft',
+    applies: (l) => !!l.requires_card_payments,
+    check: (l, input) => {
+      if (input.cardPaymentPercentage == null) return unknown('Card takings not known');
+      const min = l.min_card_payment_percentage ?? 0;
+      return passIf(
+        input.cardPaymentPercentage > 0 && input.cardPaymentPercentage >= min,
+        `Card takings ${input.cardPaymentPercentage}% of revenue, lender requires ${min}%`
+      );
+    },
+  },
+  {
+    key: 'requires_existing_lending',
+    severity: 'hard',
+    applies: (l) => !!l.requires_existing_lending,
+    check: (_l, input) => {
+      if (input.existingLenderCount == null) return unknown('Existing lending not known');
+      return passIf(input.existingLenderCount > 0, `${input.existingLenderCount} existing lender(s)`);
+    },
+  },
+  {
+    key: 'max_existing_lenders',
+    severity: 'soft',
+    applies: (l) => l.max_existing_lenders != null,
+    check: (l, input) => {
+      if (input.existingLenderCount == null) return unknown('Existing lending not known');
+      return passIf(
+        input.existingLenderCount <= l.max_existing_lenders!,
+        `${input.existingLenderCount} existing lender(s), lender allows ${l.max_existing_lenders}`
+      );
+    },
+  },
+  {
+    key: 'term_months',
+    severity: 'soft',
+    applies: (l) => l.min_term_months != null || l.max_term_months != null,
+    check: (l, input) => {
+      if (input.termMonths == null) return unknown('Requested term not provided');
+      const ok =
+        (l.min_term_months == null || input.termMonths >= l.min_term_months) &&
+        (l.max_term_months == null || input.termMonths <= l.max_term_months);
+      return passIf(
+        ok,
+        `Requested ${input.termMonths} months, lender offers ${l.min_term_months ?? 'any'}–${l.max_term_months ?? 'any'} months`
+      );
+    },
+  },
+  {
+    key: 'min_profit_margin_percentage',
+    severity: 'soft',
+    applies: (l) => l.min_profit_margin_percentage != null,
+    check: (l, input) => {
+      if (input.profitMarginPercentage == null) return unknown('Profit margin not known');
+      return passIf(
+        input.profitMarginPercentage >= Number(l.min_profit_margin_percentage),
+        `Profit margin ${input.profitMarginPercentage}%, lender requires ${l.min_profit_margin_percentage}%`
+      );
+    },
+  },
+  {
+    key: 'requires_profitable',
+    severity: 'hard',
+    applies: (l) => !!l.requires_profitable,
+    check: (_l, input) => {
+      // Abridged accounts often have a profit figure but no turnover to take a margin from
+      const profit = input.netProfit ?? input.profitMarginPercentage;
+      if (profit == null) return unknown('Profitability not known');
+      return passIf(profit > 0, profit > 0 ? 'Company is profitable' : 'Company is loss-making');
+    },
+  },
+  {
+    key: 'requires_positive_net_assets',
+    severity: 'hard',
+    applies: (l) => !!l.requires_positive_net_assets,
+    check: (_l, input) => {
+      if (input.netAssets == null) return unknown('Net assets not known');
+      return passIf(input.netAssets > 0, `Net assets ${gbp(input.netAssets)}`);
+    },
+  },
+  {
+    key: 'min_net_assets_ratio',
+    severity: 'soft',
+    applies: (l) => l.min_net_assets_ratio != null,
+    check: (l, input) => {
+      if (input.netAssetsRatio == null) return unknown('Net assets ratio not known');
+      return passIf(
+        input.netAssetsRatio >= Number(l.min_net_assets_ratio),
+        `Net assets ${input.netAssetsRatio}% of total assets, lender requires ${l.min_net_assets_ratio}%`
+      );
+    },
+  },
+];
+
+export function evaluateLender(lender: LenderCriteria, input: EligibilityInput): LenderEligibility {
+  const results = RULES.filter((rule) => rule.applies(lender)).map((rule) => ({
+    rule: rule.key,
+    severity: rule.severity,
+    ...rule.check(lender, input),
+  }));
+
+  const failed = results.filter((r) => r.outcome === 'fail');
+  const tier: EligibilityTier =
+    failed.length === 0 ? 'eligible' : failed.every((r) => r.severity === 'soft') ? 'borderline' : 'ineligible';
+
+  return {
+    lender_id: lender.id,
+    lender_name: lender.name,
+    is_eligible: failed.length === 0,
+    tier,
+    failed_rules: failed,
+    unknown_rules: results.filter((r) => r.outcome === 'unknown'),
+  };
+}
+
+export function evaluateEligibility(lenders: LenderCriteria[], input: EligibilityInput): EligibilityResult {
+  const results: Record<string, LenderEligibility> = {};
+  for (const lender of lenders) {
+    results[lender.id] = evaluateLender(lender, input);
+  }
+
+  return {
+    evaluated_at: new Date().toISOString(),
+    input,
+    lenders: results,
+  };
+}
+
+const TIER_ORDER: Record<EligibilityTier, number> = { eligible: 0, borderline: 1, ineligible: 2 };
+
+/**
+ * Sort lenders by how well they match: eligible first, then borderline, then
+ * ineligible; within a tier, fewer failed/unchecked rules first, then by name.
+ * Lenders missing from the result (added since the last evaluation) are omitted.
+ */
+export function rankLenders<T extends { id: string; name: string }>(
+  lenders: T[],
+  result: EligibilityResult | null
+): Array<T & { eligibility: LenderEligibility }> {
+  if (!result) return [];
+
+  return lenders
+    .filter((lender) => result.lenders[lender.id])
+    .map((lender) => ({ ...lender, eligibility: tierOf(result.lenders[lender.id]) }))
+    .sort((a, b) =>
+      TIER_ORDER[a.eligibility.tier] - TIER_ORDER[b.eligibility.tier] ||
+      a.eligibility.failed_rules.length - b.eligibility.failed_rules.length ||
+      a.eligibility.unknown_rules.length - b.eligibility.unknown_rules.length ||
+      a.name.localeCompare(b.name)
+    );
+}
+
+// Results stored before tiers existed only carry is_eligible
+function tierOf(eligibility: LenderEligibility): LenderEligibility {
+  if (eligibility.tier) return eligibility;
+  return { ...eligibility, tier: eligibility.is_eligible ? 'eligible' : 'ineligible' };
+}
+
+// Map Companies House company `type` to the business types lenders select from
+export function mapCompanyTypeToBusinessType(companyType: string | null | undefined): string | null {
+  if (!companyType) return null;
+  if (['ltd', 'private-limited-guarant-nsc', 'private-limited-guarant-nsc-limited-exemption', 'plc'].includes(companyType)) {
+    return 'limited-company';
+  }
+  if (companyType === 'llp') return 'llp';
+  if (companyType === 'limited-partnership') return 'partnership';
+  return null;
+}
+
+// Whole months between Companies House date_of_creation and now
+export function monthsSince(date: string | null | undefined, now: Date = new Date()): number | null {
+  if (!date) return null;
+  const start = new Date(date);
+  if (isNaN(start.getTime())) return null;
+  return Math.max(0, (now.getFullYear() - start.getFullYear()) * 12 + (now.getMonth() - start.getMonth()));
+}
+
+type ApplicationFacts = {
+  requested_amount: number | null;
+  monthly_revenue: number | null;
+  trading_months: number | null;
+  term_months?: number | null;
+  companies_house_data?: Record<string, any> | null;
+  bank_analysis?: BankStatementAnalysis | null;
+};
+
+type CompanyFacts = {
+  industry: string | null;
+  company_number: string | null;
+  companies_house_data: Record<string, any> | null;
+  accounts_summary?: CompanyAccountsSummary | null;
+} | null;
+
+type DirectorFacts = {
+  property_status: string | null;
+} | null;
+
+const percentage = (part: number, whole: number) => Math.round((part / whole) * 1000) / 10;
+
+/**
+ * Build the evaluation input from the rows we store. Revenue, card takings and
+ * existing lenders come from the bank statement analysis when there is one, over
+ * anything the client declared. Otherwise prefers what the client declared on the
+ * application, falling back to the Companies House snapshot and the accounts
+ * ingested from the company's filings.
+ */
+export function buildEligibilityInput(
+  application: ApplicationFacts,
+  company: CompanyFacts,
+  director: DirectorFacts
+): EligibilityInput {
+  const ch: Record<string, any> = company?.companies_house_data || application.companies_house_data || {};
+  const lastAccounts = ch.accounts?.last_accounts;
+  const accounts = company?.accounts_summary || null;
+  const financials = accounts?.financials || null;
+  const propertyStatus = director?.property_status || null;
+  const bank = application.bank_analysis && application.bank_analysis.transaction_count > 0 ? application.bank_analysis : null;
+
+  return {
+    requestedAmount: application.requested_amount ?? null,
+    monthlyRevenue: bank?.average_monthly_revenue ?? application.monthly_revenue ?? null,
+    tradingMonths: application.trading_months ?? monthsSince(ch.date_of_creation),
+    termMonths: application.term_months ?? null,
+    industry: company?.industry || null,
+    businessType: mapCompanyTypeToBusinessType(ch.type) ?? (company?.company_number ? 'limited-company' : null),
+    // Profiles store 'homeowner'/'tenant'/...; companies/create maps to 'owner'/'renter'
+    isHomeowner: propertyStatus ? ['homeowner', 'owner'].includes(propertyStatus) : null,
+    companyStatus: ch.company_status || null,
+    hasFiledAccounts: accounts ? accounts.filed_accounts_years > 0 : ch.accounts ? !!lastAccounts?.made_up_to : null,
+    filedAccountsYears: accounts ? accounts.filed_accounts_years : null,
+    cardPaymentPercentage: bank ? bank.card_takings_percentage ?? 0 : null,
+    existingLenderCount: bank ? bank.existing_lender_count : null,
+    profitMarginPercentage:
+      financials?.turnover && financials.profit_loss != null ? percentage(financials.profit_loss, financials.turnover) : null,
+    netProfit: financials?.profit_loss ?? null,
+    netAssets: financials?.net_assets ?? null,
+    netAssetsRatio:
+      financials?.net_assets != null && financials.total_assets ? percentage(financials.net_assets, financials.total_assets) : null,
+  };
+}
@@ -0,0 +1,350 @@
+// src/lib/identityVerification.ts
+//
+// Director identity verification (KYC) for applications. The applicant uploads an
+// ID document and a selfie (documents.category 'identity'); the configured provider
+// checks the document and matches the face, and we check the date of birth they
+// gave against the officer record at Companies House. The combined result is
+// stored in identity_verifications for admins to review.
+//
+// IDENTITY_VERIFICATION_PROVIDER picks the provider; 'fake' is the local stand-in
+// in identityVerificationFake.ts. With no provider configured, verifications go
+// straight to manual review rather than being passed.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getCompanyOfficers } from './companiesHouse';
+import { fakeIdentityProvider } from './identityVerificationFake';
+
+export const IDENTITY_DOCUMENT_CATEGORY = 'identity';
+const STORAGE_BUCKET = 'application-documents';
+// Providers fetch the uploads from signed URLs valid for this long
+const DOCUMENT_URL_TTL_SECONDS = 60 * 60;
+
+export class IdentityVerificationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type IdentityDocumentType = 'passport' | 'driving_licence' | 'national_id';
+
+// pending: submitted, provider not yet answered; review: needs an admin decision
+export type IdentityVerificationStatus = 'pending' | 'verified' | 'review' | 'failed';
+
+export type CheckOutcome = 'pass' | 'fail' | 'inconclusive' | 'not_run';
+
+// Date of birth given by the applicant against the Companies House officer record
+export type DobCheck = 'match' | 'mismatch' | 'officer_not_found' | 'unavailable';
+
+export type IdentityFile = {
+  filename: string | null;
+  mime_type: string | null;
+  url: string;
+};
+
+export type IdentityCheckInput = {
+  // Our identity_verifications id, for the provider's records
+  reference: string;
+  person: {
+    first_name: string | null;
+    last_name: string | null;
+    date_of_birth: string | null;
+  };
+  document_type: IdentityDocumentType;
+  id_document: IdentityFile;
+  selfie: IdentityFile;
+};
+
+export type IdentityProviderResult = {
+  provider_reference: string | null;
+  // clear: passed; consider: needs a human; rejected: failed
+  outcome: 'clear' | 'consider' | 'rejected';
+  document_check: CheckOutcome;
+  face_match: CheckOutcome;
+  reasons: string[];
+};
+
+export interface IdentityVerificationProvider {
+  name: string;
+  verify(input: IdentityCheckInput): Promise<IdentityProviderResult>;
+}
+
+const PROVIDERS: Record<string, IdentityVerificationProvider> = {
+  fake: fakeIdentityProvider,
+};
+
+export function getIdentityProvider(): IdentityVerificationProvider | null {
+  const name = process.env.IDENTITY_VERIFICATION_PROVIDER;
+  if (!name) return null;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new IdentityVerificationError(`Unknown identity verification provider "${name}"`, 500);
+  }
+  return provider;
+}
+
+export type IdentityVerification = {
+  id: string;
+  application_id: string;
+  profile_id: string | null;
+  provider: string | null;
+  provider_reference: string | null;
+  status: IdentityVerificationStatus;
+  document_type: IdentityDocumentType;
+  id_document_id: string | null;
+  selfie_document_id: string | null;
+  document_check: CheckOutcome;
+  face_match: CheckOutcome;
+  dob_check: DobCheck;
+  officer_name: string | null;
+  reasons: string[];
+  submitted_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+};
+
+type OfficerRecord = {
+  name: string;
+  officer_role: string;
+  resigned_on?: string | null;
+  date_of_birth?: { month: number; year: number };
+};
+
+function normaliseName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Find the serving officer whose name matches (Companies House writes it as
+ * "SURNAME, Forenames") and compare their month and year of birth with the date
+ * given by the applicant.
+ */
+export function checkOfficerDateOfBirth(
+  person: { first_name: string | null; last_name: string | null; date_of_birth: string | null },
+  officers: OfficerRecord[]
+): { result: DobCheck; officer_name: string | null } {
+  if (!person.last_name || !person.date_of_birth) return { result: 'unavailable', officer_name: null };
+
+  const lastName = normaliseName(person.last_name);
+  const firstName = normaliseName(person.first_name || '');
+  const officer = officers.find((candidate) => {
+    if (candidate.resigned_on) return false;
+    const [surname, forenames = ''] = candidate.name.split(',');
+    if (normaliseName(surname) !== lastName) return false;
+    const firstForename = normaliseName(forenames.trim().split(/\s+/)[0] || '');
+    return !firstName || !firstForename || firstForename === firstName;
+  });
+
+  if (!officer) return { result: 'officer_not_found', officer_name: null };
+  if (!officer.date_of_birth) return { result: 'unavailable', officer_name: officer.name };
+
+  const dob = new Date(person.date_of_birth);
+  const matches =
+    dob.getUTCFullYear() === officer.date_of_birth.year && dob.getUTCMonth() + 1 === officer.date_of_birth.month;
+  return { result: matches ? 'match' : 'mismatch', officer_name: officer.name };
+}
+
+/**
+ * Combine the provider's answer with our date of birth check. Only a clean provider
+ * result with a matching officer record is verified outright.
+ */
+export function combineIdentityStatus(
+  provider: IdentityProviderResult | null,
+  dobCheck: DobCheck
+): { status: IdentityVerificationStatus; reasons: string[] } {
+  const reasons = provider ? provider.reasons.slice() : ['No identity verification provider is configured'];
+
+  if (dobCheck === 'mismatch') reasons.push('Date of birth does not match the Companies House officer record');
+  if (dobCheck === 'officer_not_found') reasons.push('No serving director at Companies House matches this name');
+  if (dobCheck === 'unavailable') reasons.push('Date of birth could not be checked against Companies House');
+
+  if (provider?.outcome === 'rejected') return { status: 'failed', reasons };
+  if (provider?.outcome === 'clear' && dobCheck === 'match') return { status: 'verified', reasons };
+  return { status: 'review', reasons };
+}
+
+async function signedUrl(supabaseAdmin: SupabaseClient, storagePath: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrl(storagePath, DOCUMENT_URL_TTL_SECONDS);
+  if (error || !data) {
+    throw new Error(`Error signing document URL: ${error?.message || 'no URL returned'}`);
+  }
+  return data.signedUrl;
+}
+
+/**
+ * Run identity verification for an application's applicant from their uploaded ID
+ * document and selfie, and record the result.
+ */
+export async function submitIdentityVerification(
+  supabaseAdmin: SupabaseClient,
+  application: { id: string; company_id: string | null; created_by: string | null },
+  input: { document_type: IdentityDocumentType; id_document_id: string; selfie_document_id: string }
+): Promise<IdentityVerification> {
+  const { data: documents, error: documentsError } = await supabaseAdmin
+    .from('documents')
+    .select('id, category, original_filename, storage_path, mime_type')
+    .eq('application_id', application.id)
+    .eq('category', IDENTITY_DOCUMENT_CATEGORY)
+    .in('id', [input.id_document_id, input.selfie_document_id]);
+
+  if (documentsError) {
+    throw new Error(`Error loading identity documents: ${documentsError.message}`);
+  }
+
+  const idDocument = (documents || []).find((doc) => doc.id === input.id_document_id);
+  const selfie = (documents || []).find((doc) => doc.id === input.selfie_document_id);
+  if (!idDocument || !selfie || idDocument.id === selfie.id) {
+    throw new IdentityVerificationError('Upload both an ID document and a selfie', 400);
+  }
+
+  const { data: person } = await supabaseAdmin
+    .from('profiles')
+    .select('id, first_name, last_name, date_of_birth')
+    .eq('id', application.created_by)
+    .maybeSingle();
+
+  if (!person) {
+    throw new IdentityVerificationError('Applicant profile not found', 404);
+  }
+
+  // Officer check first: it needs nothing from the provider
+  let dob: { result: DobCheck; officer_name: string | null } = { result: 'unavailable', officer_name: null };
+  if (application.company_id) {
+    const { data: company } = await supabaseAdmin
+      .from('companies')
+      .select('company_number')
+      .eq('id', application.company_id)
+      .maybeSingle();
+
+    if (company?.company_number) {
+      try {
+        const officers = await getCompanyOfficers(company.company_number);
+        dob = checkOfficerDateOfBirth(person, officers.items || []);
+      } catch (err: any) {
+        console.warn(`Could not load officers for application ${application.id}:`, err?.message);
+      }
+    }
+  }
+
+  const provider = getIdentityProvider();
+
+  const { data: row, error: insertError } = await supabaseAdmin
+    .from('identity_verifications')
+    .insert({
+      application_id: application.id,
+      profile_id: person.id,
+      provider: provider?.name || null,
+      status: 'pending',
+      document_type: input.document_type,
+      id_document_id: idDocument.id,
+      selfie_document_id: selfie.id,
+      dob_check: dob.result,
+      officer_name: dob.officer_name,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !row) {
+    throw new Error(`Error recording identity verification: ${insertError?.message}`);
+  }
+
+  let providerResult: IdentityProviderResult | null = null;
+  if (provider) {
+    try {
+      providerResult = await provider.verify({
+        reference: row.id,
+        person: { first_name: person.first_name, last_name: person.last_name, date_of_birth: person.date_of_birth },
+        document_type: input.document_type,
+        id_document: {
+          filename: idDocument.original_filename,
+          mime_type: idDocument.mime_type,
+          url: await signedUrl(supabaseAdmin, idDocument.storage_path),
+        },
+        selfie: {
+          filename: selfie.original_filename,
+          mime_type: selfie.mime_type,
+          url: await signedUrl(supabaseAdmin, selfie.storage_path),
+        },
+      });
+    } catch (err: any) {
+      // Left pending for the applicant to retry; the row records what happened
+      console.error(`Identity provider ${provider.name} failed for ${row.id}:`, err);
+      await supabaseAdmin
+        .from('identity_verifications')
+        .update({ reasons: [`Verification provider error: ${err?.message || 'unknown error'}`] })
+        .eq('id', row.id);
+      throw new IdentityVerificationError('Identity verification is unavailable, please try again shortly', 502);
+    }
+  }
+
+  const { status, reasons } = combineIdentityStatus(providerResult, dob.result);
+
+  const { data: saved, error: updateError } = await supabaseAdmin
+    .from('identity_verifications')
+    .update({
+      status,
+      reasons,
+      provider_reference: providerResult?.provider_reference || null,
+      document_check: providerResult?.document_check || 'not_run',
+      face_match: providerResult?.face_match || 'not_run',
+    })
+    .eq('id', row.id)
+    .select('*')
+    .single();
+
+  if (updateError || !saved) {
+    throw new Error(`Error saving identity verification: ${updateError?.message}`);
+  }
+
+  return saved as IdentityVerification;
+}
+
+export async function latestIdentityVerification(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<IdentityVerification | null> {
+  const { data, error } = await supabaseAdmin
+    .from('identity_verifications')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('submitted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading identity verification: ${error.message}`);
+  }
+  return (data as IdentityVerification) || null;
+}
+
+/**
+ * Record an admin's decision on a verification that needed review (or overrule an
+ * automatic one).
+ */
+export async function reviewIdentityVerification(
+  supabaseAdmin: SupabaseClient,
+  verificationId: string,
+  decision: { status: 'verified' | 'failed'; note: string | null },
+  reviewerId: string
+): Promise<IdentityVerification> {
+  const { data, error } = await supabaseAdmin
+    .from('identity_verifications')
+    .update({
+      status: decision.status,
+      review_note: decision.note,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: reviewerId,
+    })
+    .eq('id', verificationId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error saving review: ${error.message}`);
+  }
+  if (!data) {
+    throw new IdentityVerificationError('Identity verification not found', 404);
+  }
+  return data as IdentityVerification;
+}
@@ -0,0 +1,50 @@
+// src/lib/identityVerificationFake.ts
+//
+// Local identity verification provider (IDENTITY_VERIFICATION_PROVIDER=fake) for
+// development and testing. It never fetches the uploads; the outcome is driven by
+// the uploaded file names so every path can be exercised by hand:
+//   ID document name containing "expired" or "fail"  -> rejected, document check failed
+//   ID document name containing "blurry"             -> consider, document inconclusive
+//   selfie name containing "mismatch"                -> rejected, face match failed
+//   anything else                                    -> clear
+import type { IdentityCheckInput, IdentityProviderResult, IdentityVerificationProvider } from './identityVerification';
+
+function fileName(file: { filename: string | null }): string {
+  return (file.filename || '').toLowerCase();
+}
+
+export const fakeIdentityProvider: IdentityVerificationProvider = {
+  name: 'fake',
+
+  async verify(input: IdentityCheckInput): Promise<IdentityProviderResult> {
+    const documentName = fileName(input.id_document);
+    const selfieName = fileName(input.selfie);
+    const reasons: string[] = [];
+
+    let documentCheck: IdentityProviderResult['document_check'] = 'pass';
+    if (documentName.includes('expired') || documentName.includes('fail')) {
+      documentCheck = 'fail';
+      reasons.push('ID document was rejected (expired or not genuine)');
+    } else if (documentName.includes('blurry')) {
+      documentCheck = 'inconclusive';
+      reasons.push('ID document image is unclear');
+    }
+
+    let faceMatch: IdentityProviderResult['face_match'] = 'pass';
+    if (selfieName.includes('mismatch')) {
+      faceMatch = 'fail';
+      reasons.push('Selfie does not match the ID document photo');
+    }
+
+    const outcome =
+      documentCheck === 'fail' || faceMatch === 'fail' ? 'rejected' : documentCheck === 'inconclusive' ? 'consider' : 'clear';
+
+    return {
+      provider_reference: `fake_${input.reference}`,
+      outcome,
+      document_check: documentCheck,
+      face_match: faceMatch,
+      reasons,
+    };
+  },
+};
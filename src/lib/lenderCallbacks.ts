@@ -0,0 +1,250 @@
+// src/lib/lenderCallbacks.ts
+//
+// Inbound lender events (acknowledgements, declines, info requests, offers) posted to
+// /api/lender-callbacks/[lenderId]. Requests are signed with the lender's
+// callback_secret: X-Lender-Signature = hex HMAC-SHA256 of `${X-Lender-Timestamp}.${raw body}`.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+// Reject signatures older than this to limit replay
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function signCallback(secret: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+export function verifyCallbackSignature(
+  secret: string,
+  timestamp: string | null,
+  signature: string | null,
+  rawBody: string,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signCallback(secret, timestamp, rawBody), 'hex');
+  const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+const offerSchema = z.object({
+  amount: z.number().positive(),
+  term_months: z.number().int().positive().optional(),
+  factor_rate: z.number().positive().optional(),
+  apr: z.number().nonnegative().optional(),
+  arrangement_fee: z.number().nonnegative().optional(),
+  other_fees: z.number().nonnegative().optional(),
+  repayment_frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  repayment_amount: z.number().positive().optional(),
+  expires_at: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  conditions: z.string().optional(),
+  // Free-text terms from lenders that have not moved to the structured fields
+  loan_term: z.string().optional(),
+  cost_of_funding: z.string().optional(),
+  repayments: z.string().optional(),
+});
+
+export const callbackSchema = z
+  .object({
+    // Lender's own id for the event; repeated deliveries with the same id are ignored
+    event_id: z.string().min(1).optional(),
+    event: z.enum(['acknowledged', 'declined', 'info_requested', 'offer']),
+    submission_id: z.string().uuid().optional(),
+    application_id: z.string().uuid().optional(),
+    lender_reference: z.string().optional(),
+    reason: z.string().optional(),
+    message: z.string().optional(),
+    offer: offerSchema.optional(),
+  })
+  .refine((body) => body.submission_id || body.application_id, {
+    message: 'submission_id or application_id is required',
+  })
+  .refine((body) => body.event !== 'offer' || body.offer, {
+    message: 'offer is required for offer events',
+  })
+  // Offers and information requests create rows, so a redelivery must be recognisable as one
+  .refine((body) => (body.event !== 'offer' && body.event !== 'info_requested') || body.event_id, {
+    message: 'event_id is required for offer and info_requested events',
+  })
+  .refine((body) => body.event !== 'info_requested' || body.message, {
+    message: 'message is required for info_requested events',
+  });
+
+export type LenderCallback = z.infer<typeof callbackSchema>;
+
+export class CallbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+type SubmissionRow = {
+  id: string;
+  application_id: string;
+  lender_id: string;
+  status: string;
+};
+
+async function findSubmission(
+  supabaseAdmin: SupabaseClient,
+  lenderId: string,
+  callback: LenderCallback
+): Promise<SubmissionRow> {
+  let query = supabaseAdmin
+    .from('lender_submissions')
+    .select('id, application_id, lender_id, status, application:application_id!inner(id)')
+    .eq('lender_id', lenderId)
+    // Soft-deleted applications no longer take lender updates
+    .is('application.deleted_at', null);
+
+  query = callback.submission_id
+    ? query.eq('id', callback.submission_id)
+    : query.eq('application_id', callback.application_id!).order('created_at', { ascending: false }).limit(1);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new CallbackError('Error loading submission', 500);
+  }
+  if (!data || data.length === 0) {
+    throw new CallbackError('Submission not found for this lender', 404);
+  }
+  return data[0] as SubmissionRow;
+}
+
+/**
+ * Apply a verified callback. Returns the submission it was applied to and, for
+ * offers and info requests, the created row id.
+ */
+export async function applyLenderCallback(
+  supabaseAdmin: SupabaseClient,
+  lenderId: string,
+  callback: LenderCallback
+): Promise<{ submission_id: string; duplicate: boolean; offer_id?: string; information_request_id?: string }> {
+  const submission = await findSubmission(supabaseAdmin, lenderId, callback);
+
+  // Record the event first; the unique (lender_id, event_id) index makes retries no-ops
+  const { data: eventRow, error: eventError } = await supabaseAdmin
+    .from('lender_callback_events')
+    .insert({
+      lender_id: lenderId,
+      submission_id: submission.id,
+      event_id: callback.event_id || null,
+      event: callback.event,
+      payload: callback,
+    })
+    .select('id')
+    .single();
+
+  if (eventError || !eventRow) {
+    if (eventError?.code === '23505') {
+      return { submission_id: submission.id, duplicate: true };
+    }
+    console.error('Error recording lender callback event', eventError);
+    throw new CallbackError('Error recording event', 500);
+  }
+
+  let offerId: string | undefined;
+  let informationRequestId: string | undefined;
+
+  try {
+    const now = new Date().toISOString();
+    const submissionUpdate: Record<string, unknown> = { responded_at: now };
+    if (callback.lender_reference) submissionUpdate.lender_reference = callback.lender_reference;
+
+    switch (callback.event) {
+      case 'acknowledged':
+        submissionUpdate.status = 'acknowledged';
+        break;
+
+      case 'declined':
+        submissionUpdate.status = 'declined';
+        submissionUpdate.decline_reason = callback.reason || null;
+        break;
+
+      case 'info_requested': {
+        submissionUpdate.status = 'info_requested';
+        const { data: request, error } = await supabaseAdmin
+          .from('information_requests')
+          .insert({
+            application_id: submission.application_id,
+            message: callback.message,
+            status: 'pending',
+            lender_id: lenderId,
+          })
+          .select('id')
+          .single();
+        if (error || !request) {
+          console.error('Error creating information request from lender callback', error);
+          throw new CallbackError('Error creating information request', 500);
+        }
+        informationRequestId = request.id;
+        break;
+      }
+
+      case 'offer': {
+        submissionUpdate.status = 'offered';
+        const { data: offer, error } = await supabaseAdmin
+          .from('offers')
+          .insert({
+            application_id: submission.application_id,
+            lender_id: lenderId,
+            amount: callback.offer!.amount,
+            term_months: callback.offer!.term_months ?? null,
+            factor_rate: callback.offer!.factor_rate ?? null,
+            apr: callback.offer!.apr ?? null,
+            arrangement_fee: callback.offer!.arrangement_fee ?? null,
+            other_fees: callback.offer!.other_fees ?? null,
+            repayment_frequency: callback.offer!.repayment_frequency ?? null,
+            repayment_amount: callback.offer!.repayment_amount ?? null,
+            expires_at: callback.offer!.expires_at ?? null,
+            conditions: callback.offer!.conditions || null,
+            loan_term: callback.offer!.loan_term || null,
+            cost_of_funding: callback.offer!.cost_of_funding || null,
+            repayments: callback.offer!.repayments || null,
+            status: 'pending',
+          })
+          .select('id')
+          .single();
+        if (error || !offer) {
+          console.error('Error creating offer from lender callback', error);
+          throw new CallbackError('Error creating offer', 500);
+        }
+        offerId = offer.id;
+        break;
+      }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('lender_submissions')
+      .update(submissionUpdate)
+      .eq('id', submission.id);
+
+    if (updateError) {
+      console.error('Error updating lender submission from callback', updateError);
+      throw new CallbackError('Error updating submission', 500);
+    }
+  } catch (err) {
+    // Undo what was applied so the lender's retry of the same event_id is processed again
+    if (offerId) {
+      await supabaseAdmin.from('offers').delete().eq('id', offerId);
+    }
+    if (informationRequestId) {
+      await supabaseAdmin.from('information_requests').delete().eq('id', informationRequestId);
+    }
+    await supabaseAdmin.from('lender_callback_events').delete().eq('id', eventRow.id);
+    throw err;
+  }
+
+  return {
+    submission_id: submission.id,
+    duplicate: false,
+    offer_id: offerId,
+    information_request_id: informationRequestId,
+  };
+}
@@ -0,0 +1,372 @@
+// src/lib/lenderDispatch.ts
+//
+// Server-side delivery of lender_submissions. Each due row (pending, or retry whose
+// next_attempt_at has passed) is claimed, sent by the lender's submission_method and
+// marked sent, or rescheduled with exponential backoff until MAX_ATTEMPTS is reached.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendMail } from './mailer';
+import {
+  buildDocumentPack,
+  buildSubmissionPayload,
+  loadPackDocuments,
+  renderPayloadTemplate,
+  SubmissionContext,
+} from './submissionPayload';
+
+export const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 60 * 1000;
+// How long a claimed row is hidden from other workers while it is being sent
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+// Attempts at recording a send before giving up; the lender already has the submission
+const RECORD_SENT_ATTEMPTS = 3;
+// Lenders fetching documents from an API submission get this long
+const DOCUMENT_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+type DispatchLender = {
+  id: string;
+  name: string;
+  submission_method: 'api' | 'email' | null;
+  api_endpoint: string | null;
+  api_auth_type: string | null;
+  submission_email: string | null;
+  payload_template: unknown | null;
+  required_document_categories: string[] | null;
+};
+
+type DueSubmission = {
+  id: string;
+  application_id: string;
+  lender_id: string;
+  submission_method: 'api' | 'email';
+  status: string;
+  retry_count: number;
+  next_attempt_at: string | null;
+  lender: DispatchLender | null;
+};
+
+export type DispatchOutcome = {
+  submission_id: string;
+  lender_id: string;
+  status: 'sent' | 'retry' | 'failed' | 'skipped';
+  // Also set on a 'sent' outcome whose status could not be written back
+  error?: string;
+};
+
+// 1, 2, 4, 8... minutes
+export function backoffDelayMs(retryCount: number): number {
+  return BASE_BACKOFF_MS * Math.pow(2, Math.max(0, retryCount - 1));
+}
+
+/**
+ * Application snapshot sent to lenders. Kept deliberately flat so email bodies and
+ * API payloads read the same fields.
+ */
+export async function loadSubmissionPayload(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<SubmissionContext> {
+  const { data: application, error } = await supabaseAdmin
+    .from('applications')
+    .select('id, requested_amount, loan_type, purpose, urgency, monthly_revenue, trading_months, company_id, created_at')
+    .eq('id', applicationId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error || !application) {
+    throw new Error(`Application ${applicationId} not found`);
+  }
+
+  let company = null;
+  let director = null;
+  if (application.company_id) {
+    const { data: companyData } = await supabaseAdmin
+      .from('companies')
+      .select('id, name, company_number, industry, website, address_line_1, address_line_2, city, postcode, country')
+      .eq('id', application.company_id)
+      .maybeSingle();
+    company = companyData;
+
+    const { data: directorData } = await supabaseAdmin
+      .from('profiles')
+      .select('first_name, last_name, email, phone, date_of_birth, property_status')
+      .eq('company_id', application.company_id)
+      .eq('is_primary_director', true)
+      .maybeSingle();
+    director = directorData;
+  }
+
+  return { application, company, director };
+}
+
+async function authHeaders(supabaseAdmin: SupabaseClient, lender: DispatchLender): Promise<Record<string, string>> {
+  // Kept in lender_secrets so it never travels with lender rows readable by portal users
+  const { data: secret, error } = await supabaseAdmin
+    .from('lender_secrets')
+    .select('api_credential')
+    .eq('lender_id', lender.id)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Error loading lender credential: ${error.message}`);
+  }
+
+  const credential: string | null = secret?.api_credential ?? null;
+  if (!credential) return {};
+
+  switch (lender.api_auth_type) {
+    case 'basic':
+      // Stored as "username:password"
+      return { Authorization: `Basic ${Buffer.from(credential).toString('base64')}` };
+    case 'api_key':
+      return { 'X-API-Key': credential };
+    case 'oauth2':
+      // Pre-issued access token; token exchange is handled outside the portal
+      return { Authorization: `Bearer ${credential}` };
+    default:
+      return {};
+  }
+}
+
+async function sendViaApi(
+  supabaseAdmin: SupabaseClient,
+  lender: DispatchLender,
+  submissionId: string,
+  context: SubmissionContext
+) {
+  if (!lender.api_endpoint) {
+    throw new Error('Lender has no API endpoint configured');
+  }
+
+  // API lenders fetch documents themselves from short-lived signed URLs
+  const { documents } = await loadPackDocuments(
+    supabaseAdmin,
+    context.application.id,
+    lender.required_document_categories
+  );
+  const documentLinks = [];
+  for (const doc of documents) {
+    const { data } = await supabaseAdmin.storage
+      .from('application-documents')
+      .createSignedUrl(doc.storage_path, DOCUMENT_URL_TTL_SECONDS);
+    if (data?.signedUrl) {
+      documentLinks.push({ category: doc.category, filename: doc.original_filename, url: data.signedUrl });
+    }
+  }
+
+  const { payload } = buildSubmissionPayload(lender.payload_template, submissionId, {
+    ...context,
+    documents: documentLinks,
+  });
+
+  const headers = await authHeaders(supabaseAdmin, lender);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(lender.api_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': submissionId,
+        'X-Submission-Id': submissionId,
+        ...headers,
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Lender API responded ${response.status}${body ? `: ${body.slice(0, 500)}` : ''}`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function formatEmailBody(payload: SubmissionContext): string {
+  const { application, company, director } = payload;
+  const lines = [
+    'New application submission',
+    '',
+    `Company: ${company?.name || '—'}`,
+    `Company number: ${company?.company_number || '—'}`,
+    `Industry: ${company?.industry || '—'}`,
+    '',
+    `Requested amount: £${Number(application.requested_amount || 0).toLocaleString('en-GB')}`,
+    `Loan type: ${application.loan_type || '—'}`,
+    `Purpose: ${application.purpose || '—'}`,
+    `Monthly revenue: ${application.monthly_revenue != null ? `£${Number(application.monthly_revenue).toLocaleString('en-GB')}` : '—'}`,
+    `Trading months: ${application.trading_months ?? '—'}`,
+    '',
+    `Director: ${[director?.first_name, director?.last_name].filter(Boolean).join(' ') || '—'}`,
+    `Director email: ${director?.email || '—'}`,
+    `Director phone: ${director?.phone || '—'}`,
+    '',
+    `Reference: ${application.id}`,
+  ];
+  return lines.join('\n');
+}
+
+async function sendViaEmail(supabaseAdmin: SupabaseClient, lender: DispatchLender, context: SubmissionContext) {
+  if (!lender.submission_email) {
+    throw new Error('Lender has no submission email configured');
+  }
+
+  const { documents } = await loadPackDocuments(
+    supabaseAdmin,
+    context.application.id,
+    lender.required_document_categories
+  );
+  const attachments = documents.length > 0
+    ? [{
+        filename: `documents-${context.application.id}.zip`,
+        content: await buildDocumentPack(supabaseAdmin, documents),
+        contentType: 'application/zip',
+      }]
+    : [];
+
+  // With a template, the rendered payload goes along as JSON for the lender's intake system
+  if (lender.payload_template) {
+    attachments.push({
+      filename: 'application.json',
+      content: Buffer.from(JSON.stringify(renderPayloadTemplate(lender.payload_template, context).payload, null, 2)),
+      contentType: 'application/json',
+    });
+  }
+
+  await sendMail({
+    to: lender.submission_email,
+    subject: `New application: ${context.company?.name || context.application.id}`,
+    text: formatEmailBody(context),
+    attachments,
+  });
+}
+
+async function claim(supabaseAdmin: SupabaseClient, submission: DueSubmission): Promise<boolean> {
+  // Optimistic lease: only one worker wins the update from the next_attempt_at it read
+  let query = supabaseAdmin
+    .from('lender_submissions')
+    .update({ next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+    .eq('id', submission.id)
+    .eq('status', submission.status);
+
+  query = submission.next_attempt_at
+    ? query.eq('next_attempt_at', submission.next_attempt_at)
+    : query.is('next_attempt_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error('Error claiming lender submission', submission.id, error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+async function recordSent(supabaseAdmin: SupabaseClient, submissionId: string): Promise<string | null> {
+  const sentAt = new Date().toISOString();
+  let lastError: string | null = null;
+
+  for (let attempt = 0; attempt < RECORD_SENT_ATTEMPTS; attempt++) {
+    const { error } = await supabaseAdmin
+      .from('lender_submissions')
+      .update({
+        status: 'sent',
+        sent_at: sentAt,
+        last_error: null,
+        next_attempt_at: null,
+      })
+      .eq('id', submissionId);
+    if (!error) return null;
+    lastError = error.message;
+  }
+  return lastError;
+}
+
+async function dispatchOne(supabaseAdmin: SupabaseClient, submission: DueSubmission): Promise<DispatchOutcome> {
+  const base = { submission_id: submission.id, lender_id: submission.lender_id };
+
+  if (!(await claim(supabaseAdmin, submission))) {
+    return { ...base, status: 'skipped' };
+  }
+
+  try {
+    if (!submission.lender) {
+      throw new Error('Lender not found');
+    }
+
+    const context = await loadSubmissionPayload(supabaseAdmin, submission.application_id);
+
+    if (submission.submission_method === 'api') {
+      await sendViaApi(supabaseAdmin, submission.lender, submission.id, context);
+    } else {
+      await sendViaEmail(supabaseAdmin, submission.lender, context);
+    }
+  } catch (err: any) {
+    const message = err?.name === 'AbortError' ? 'Lender API timed out' : err?.message || 'Unknown error';
+    const retryCount = (submission.retry_count || 0) + 1;
+    const exhausted = retryCount >= MAX_ATTEMPTS;
+
+    await supabaseAdmin
+      .from('lender_submissions')
+      .update({
+        status: exhausted ? 'failed' : 'retry',
+        retry_count: retryCount,
+        last_error: message,
+        next_attempt_at: exhausted ? null : new Date(Date.now() + backoffDelayMs(retryCount)).toISOString(),
+      })
+      .eq('id', submission.id);
+
+    console.error(`Lender submission ${submission.id} failed (attempt ${retryCount}):`, message);
+    return { ...base, status: exhausted ? 'failed' : 'retry', error: message };
+  }
+
+  // Outside the try: the lender has the submission, so a failed write must not count
+  // as a failed send. Once the lease expires the row would be sent again.
+  const recordError = await recordSent(supabaseAdmin, submission.id);
+  if (recordError) {
+    console.error(`Lender submission ${submission.id} was sent but could not be marked as sent:`, recordError);
+    return { ...base, status: 'sent', error: `Sent, but not recorded as sent: ${recordError}` };
+  }
+  return { ...base, status: 'sent' };
+}
+
+/**
+ * Send every due submission, optionally limited to a set of submission ids.
+ * Submissions are sent one at a time to keep lender rate limits predictable.
+ */
+export async function dispatchDueSubmissions(
+  supabaseAdmin: SupabaseClient,
+  options: { submissionIds?: string[]; limit?: number } = {}
+): Promise<DispatchOutcome[]> {
+  const now = new Date().toISOString();
+
+  let query = supabaseAdmin
+    .from('lender_submissions')
+    .select(`
+      id, application_id, lender_id, submission_method, status, retry_count, next_attempt_at,
+      lender:lender_id(id, name, submission_method, api_endpoint, api_auth_type, submission_email, payload_template, required_document_categories),
+      application:application_id!inner(id)
+    `)
+    // The service role bypasses RLS; submissions of soft-deleted applications wait until a restore
+    .is('application.deleted_at', null)
+    .in('status', ['pending', 'retry'])
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+    .order('created_at', { ascending: true })
+    .limit(options.limit ?? 50);
+
+  if (options.submissionIds?.length) {
+    query = query.in('id', options.submissionIds);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Error loading due submissions: ${error.message}`);
+  }
+
+  const outcomes: DispatchOutcome[] = [];
+  for (const submission of (data || []) as unknown as DueSubmission[]) {
+    outcomes.push(await dispatchOne(supabaseAdmin, submission));
+  }
+  return outcomes;
+}
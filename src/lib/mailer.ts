@@ -0,0 +1,46 @@
+// src/lib/mailer.ts
+import nodemailer, { Transporter } from 'nodemailer';
+
+let transporter: Transporter | null = null;
+
+/**
+ * SMTP transport configured from env. Point SMTP_HOST/SMTP_PORT at a local sink
+ * (e.g. MailHog on localhost:1025) in development.
+ */
+function getTransporter(): Transporter {
+  if (transporter) return transporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('Missing SMTP_HOST environment variable');
+  }
+
+  transporter = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      : undefined,
+  });
+  return transporter;
+}
+
+export type MailAttachment = {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+};
+
+export async function sendMail(options: {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}): Promise<void> {
+  await getTransporter().sendMail({
+    from: process.env.SMTP_FROM || 'no-reply@localhost',
+    ...options,
+  });
+}
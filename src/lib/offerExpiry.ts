@@ -0,0 +1,183 @@
+// src/lib/offerExpiry.ts
+//
+// Scheduled offer housekeeping: pending offers past expires_at are marked 'lapsed',
+// and the client and referring partner are emailed once when an offer is within
+// OFFER_REMINDER_DAYS of expiring.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendMail } from './mailer';
+import { formatCurrency } from './offers';
+
+const DEFAULT_REMINDER_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function offerReminderDays(): number {
+  const days = Number(process.env.OFFER_REMINDER_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_REMINDER_DAYS;
+}
+
+type ExpiringOffer = {
+  id: string;
+  application_id: string;
+  amount: number;
+  expires_at: string;
+  lender: { name: string } | null;
+  application: {
+    id: string;
+    company: {
+      name: string;
+      referrer: { email: string | null } | null;
+    } | null;
+  } | null;
+};
+
+export type ReminderOutcome = {
+  offer_id: string;
+  recipients: string[];
+  error?: string;
+};
+
+/**
+ * Mark every pending offer whose expiry has passed as lapsed. Returns the lapsed ids.
+ */
+export async function lapseExpiredOffers(supabaseAdmin: SupabaseClient, now: Date = new Date()): Promise<string[]> {
+  // Updates can't filter on a join, so find the offers of live applications first
+  const { data: expired, error: loadError } = await supabaseAdmin
+    .from('offers')
+    .select('id, application:application_id!inner(id)')
+    .is('application.deleted_at', null)
+    .eq('status', 'pending')
+    .lt('expires_at', now.toISOString());
+
+  if (loadError) {
+    throw new Error(`Error loading expired offers: ${loadError.message}`);
+  }
+  if (!expired || expired.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('offers')
+    .update({ status: 'lapsed', lapsed_at: now.toISOString() })
+    .in('id', expired.map((offer) => offer.id))
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Error lapsing offers: ${error.message}`);
+  }
+  return (data || []).map((row) => row.id);
+}
+
+async function loadClientEmail(supabaseAdmin: SupabaseClient, applicationId: string): Promise<string | null> {
+  const { data: application } = await supabaseAdmin
+    .from('applications')
+    .select('company_id, prospective_client_email')
+    .eq('id', applicationId)
+    .maybeSingle();
+
+  if (!application) return null;
+
+  if (application.company_id) {
+    const { data: director } = await supabaseAdmin
+      .from('profiles')
+      .select('email')
+      .eq('company_id', application.company_id)
+      .eq('is_primary_director', true)
+      .maybeSingle();
+    if (director?.email) return director.email;
+  }
+  return application.prospective_client_email || null;
+}
+
+function reminderBody(offer: ExpiringOffer, audience: 'client' | 'partner'): string {
+  const companyName = offer.application?.company?.name || 'your client';
+  const expires = new Date(offer.expires_at).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  });
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  const path = audience === 'client' ? `/applications/${offer.application_id}` : `/partner/applications/${offer.application_id}`;
+
+  const lines = [
+    audience === 'client'
+      ? `Your funding offer of ${formatCurrency(offer.amount)} from ${offer.lender?.name || 'the lender'} expires on ${expires}.`
+      : `The ${formatCurrency(offer.amount)} offer from ${offer.lender?.name || 'the lender'} for ${companyName} expires on ${expires}.`,
+    '',
+    audience === 'client'
+      ? 'After that date the lender may withdraw it and a new application could be needed.'
+      : 'The client has not accepted it yet.',
+  ];
+  if (appUrl) {
+    lines.push('', `Review the offer: ${appUrl}${path}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Email the client and referring partner about pending offers expiring within the
+ * reminder window. Each offer is reminded at most once (reminder_sent_at).
+ */
+export async function sendOfferReminders(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<ReminderOutcome[]> {
+  const windowEnd = new Date(now.getTime() + offerReminderDays() * DAY_MS);
+
+  const { data, error } = await supabaseAdmin
+    .from('offers')
+    .select(`
+      id, application_id, amount, expires_at,
+      lender:lender_id(name),
+      application:application_id!inner(
+        id,
+        company:company_id(name, referrer:referred_by(email))
+      )
+    `)
+    // The service role bypasses RLS, so soft-deleted applications are excluded here
+    .is('application.deleted_at', null)
+    .eq('status', 'pending')
+    .is('reminder_sent_at', null)
+    .gte('expires_at', now.toISOString())
+    .lte('expires_at', windowEnd.toISOString());
+
+  if (error) {
+    throw new Error(`Error loading expiring offers: ${error.message}`);
+  }
+
+  const outcomes: ReminderOutcome[] = [];
+  for (const offer of (data || []) as unknown as ExpiringOffer[]) {
+    const recipients: string[] = [];
+    try {
+      const clientEmail = await loadClientEmail(supabaseAdmin, offer.application_id);
+      if (clientEmail) {
+        await sendMail({
+          to: clientEmail,
+          subject: 'Your funding offer expires soon',
+          text: reminderBody(offer, 'client'),
+        });
+        recipients.push(clientEmail);
+      }
+
+      const partnerEmail = offer.application?.company?.referrer?.email;
+      if (partnerEmail) {
+        await sendMail({
+          to: partnerEmail,
+          subject: `Offer expiring soon: ${offer.application?.company?.name || offer.application_id}`,
+          text: reminderBody(offer, 'partner'),
+        });
+        recipients.push(partnerEmail);
+      }
+
+      await supabaseAdmin
+        .from('offers')
+        .update({ reminder_sent_at: now.toISOString() })
+        .eq('id', offer.id);
+
+      outcomes.push({ offer_id: offer.id, recipients });
+    } catch (err: any) {
+      // Left unmarked so the next run tries again
+      console.error(`Error sending reminder for offer ${offer.id}:`, err);
+      outcomes.push({ offer_id: offer.id, recipients, error: err?.message || 'Unknown error' });
+    }
+  }
+  return outcomes;
+}
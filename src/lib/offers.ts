@@ -0,0 +1,136 @@
+// src/lib/offers.ts
+//
+// Structured lender offers (the `offers` table) and the cost comparison shown to
+// clients. Older rows only carry the free-text loan_term / cost_of_funding /
+// repayments columns, so every formatter falls back to those.
+
+export type RepaymentFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type Offer = {
+  id: string;
+  application_id: string;
+  lender_id: string | null;
+  amount: number;
+  term_months: number | null;
+  factor_rate: number | null;
+  apr: number | null;
+  arrangement_fee: number | null;
+  other_fees: number | null;
+  repayment_frequency: RepaymentFrequency | null;
+  repayment_amount: number | null;
+  expires_at: string | null;
+  conditions: string | null;
+  // pending | accepted | declined | lapsed
+  status: string;
+  accepted_at: string | null;
+  lapsed_at?: string | null;
+  created_at: string;
+  // Legacy free-text fields
+  loan_term: string | null;
+  cost_of_funding: string | null;
+  repayments: string | null;
+  lender?: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+export const REPAYMENT_FREQUENCIES: { value: RepaymentFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily (business days)' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// Repayments per month for each frequency; daily assumes ~21.7 business days
+const PAYMENTS_PER_MONTH: Record<RepaymentFrequency, number> = {
+  daily: 260 / 12,
+  weekly: 52 / 12,
+  monthly: 1,
+};
+
+/**
+ * Whether the client can still accept the offer. An offer past its expiry is closed
+ * even before the expiry job has marked it lapsed.
+ */
+export function isOfferOpen(offer: Pick<Offer, 'status' | 'expires_at'>, now: Date = new Date()): boolean {
+  if (offer.status !== 'pending') return false;
+  return !offer.expires_at || new Date(offer.expires_at).getTime() > now.getTime();
+}
+
+export function isOfferExpired(offer: Pick<Offer, 'status' | 'expires_at'>, now: Date = new Date()): boolean {
+  if (offer.status === 'lapsed') return true;
+  return offer.status === 'pending' && !!offer.expires_at && new Date(offer.expires_at).getTime() <= now.getTime();
+}
+
+/**
+ * Whole days until expiry, rounded up (0 once expired), or null with no expiry.
+ */
+export function daysUntilExpiry(offer: Pick<Offer, 'expires_at'>, now: Date = new Date()): number | null {
+  if (!offer.expires_at) return null;
+  const ms = new Date(offer.expires_at).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(ms / (24 * 60 * 60 * 1000)));
+}
+
+export type OfferCosts = {
+  totalRepayable: number | null;
+  totalFees: number;
+  totalCostOfCredit: number | null;
+  monthlyEquivalent: number | null;
+};
+
+/**
+ * Total repayable comes from, in order of preference: the stated repayment
+ * schedule, the factor rate, or an amortised APR. Fees are added on top.
+ */
+export function calculateOfferCosts(offer: Pick<
+  Offer,
+  'amount' | 'term_months' | 'factor_rate' | 'apr' | 'arrangement_fee' | 'other_fees' | 'repayment_frequency' | 'repayment_amount'
+>): OfferCosts {
+  const amount = Number(offer.amount) || 0;
+  const term = offer.term_months ? Number(offer.term_months) : null;
+  const totalFees = (Number(offer.arrangement_fee) || 0) + (Number(offer.other_fees) || 0);
+
+  let totalRepayable: number | null = null;
+
+  if (offer.repayment_amount != null && offer.repayment_frequency && term) {
+    totalRepayable = Number(offer.repayment_amount) * PAYMENTS_PER_MONTH[offer.repayment_frequency] * term;
+  } else if (offer.factor_rate != null) {
+    totalRepayable = amount * Number(offer.factor_rate);
+  } else if (offer.apr != null && term) {
+    const monthlyRate = Number(offer.apr) / 100 / 12;
+    totalRepayable = monthlyRate === 0
+      ? amount
+      : ((amount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -term))) * term;
+  }
+
+  const totalCostOfCredit = totalRepayable != null ? totalRepayable - amount + totalFees : null;
+  const monthlyEquivalent = totalRepayable != null && term ? (totalRepayable + totalFees) / term : null;
+
+  return { totalRepayable, totalFees, totalCostOfCredit, monthlyEquivalent };
+}
+
+export function formatCurrency(value: number | null | undefined): string {
+  if (value == null || isNaN(Number(value))) return '—';
+  return `£${Number(value).toLocaleString('en-GB', { maximumFractionDigits: 0 })}`;
+}
+
+export function formatOfferTerm(offer: Pick<Offer, 'term_months' | 'loan_term'>): string {
+  if (offer.term_months) return `${offer.term_months} month${offer.term_months !== 1 ? 's' : ''}`;
+  return offer.loan_term || '—';
+}
+
+export function formatOfferRate(offer: Pick<Offer, 'factor_rate' | 'apr' | 'cost_of_funding'>): string {
+  const parts = [];
+  if (offer.apr != null) parts.push(`${Number(offer.apr)}% APR`);
+  if (offer.factor_rate != null) parts.push(`${Number(offer.factor_rate)} factor`);
+  if (parts.length > 0) return parts.join(' / ');
+  return offer.cost_of_funding || '—';
+}
+
+export function formatOfferRepayments(offer: Pick<Offer, 'repayment_amount' | 'repayment_frequency' | 'repayments'>): string {
+  if (offer.repayment_amount != null && offer.repayment_frequency) {
+    const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[offer.repayment_frequency];
+    return `${formatCurrency(offer.repayment_amount)}/${unit}`;
+  }
+  return offer.repayments || '—';
+}
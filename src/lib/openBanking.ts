@@ -0,0 +1,482 @@
+// src/lib/openBanking.ts
+//
+// Open Banking connections for applications, as an alternative to uploading bank
+// statement PDFs. The applicant authorises read access at their bank through the
+// configured provider; we pull up to 12 months of transactions into
+// bank_transactions and write one statement per account into the application's
+// documents (category 'bank_statements'), which satisfies the bank statements
+// requirement like an upload would.
+//
+// OPEN_BANKING_PROVIDER picks the provider; 'sandbox' is the local stand-in in
+// openBankingSandbox.ts. With none configured the connect option is not offered.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sandboxOpenBankingProvider } from './openBankingSandbox';
+
+export const BANK_STATEMENTS_CATEGORY = 'bank_statements';
+// How far back we ask for transactions, and the least lenders accept
+export const OPEN_BANKING_HISTORY_MONTHS = 12;
+export const MIN_STATEMENT_MONTHS = 6;
+
+const STORAGE_BUCKET = 'application-documents';
+const TRANSACTION_INSERT_BATCH = 500;
+
+export class OpenBankingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// pending: sent to the bank to authorise; connected: transactions pulled
+export type BankConnectionStatus = 'pending' | 'connected' | 'failed';
+
+export type OpenBankingAccount = {
+  provider_account_id: string;
+  name: string;
+  sort_code: string | null;
+  account_number: string | null;
+  currency: string;
+  balance: number | null;
+};
+
+export type OpenBankingTransaction = {
+  provider_transaction_id: string;
+  // YYYY-MM-DD
+  booked_on: string;
+  description: string;
+  // Signed: money in is positive
+  amount: number;
+  // Running balance after the transaction, when the bank reports it
+  balance: number | null;
+  // Provider's classification, e.g. CARD_SETTLEMENT, DIRECT_DEBIT, TRANSFER
+  transaction_type: string | null;
+  merchant_name: string | null;
+};
+
+export type OpenBankingConsent = {
+  consent_id: string;
+  // Where to send the applicant to authorise access at their bank
+  authorisation_url: string;
+};
+
+export interface OpenBankingProvider {
+  name: string;
+  // state comes back on the redirect so we can find the connection again
+  createConsent(input: { state: string; redirect_url: string; from: string }): Promise<OpenBankingConsent>;
+  // Called with the query parameters the bank redirected back with
+  completeConsent(
+    consentId: string,
+    params: Record<string, string>
+  ): Promise<{ institution_name: string; expires_at: string | null }>;
+  getAccounts(consentId: string): Promise<OpenBankingAccount[]>;
+  getTransactions(consentId: string, accountId: string, from: string, to: string): Promise<OpenBankingTransaction[]>;
+}
+
+const PROVIDERS: Record<string, OpenBankingProvider> = {
+  sandbox: sandboxOpenBankingProvider,
+};
+
+export function getOpenBankingProvider(): OpenBankingProvider | null {
+  const name = process.env.OPEN_BANKING_PROVIDER;
+  if (!name) return null;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new OpenBankingError(`Unknown Open Banking provider "${name}"`, 500);
+  }
+  return provider;
+}
+
+export type BankConnection = {
+  id: string;
+  application_id: string;
+  provider: string;
+  provider_consent_id: string | null;
+  status: BankConnectionStatus;
+  institution_name: string | null;
+  history_from: string | null;
+  history_to: string | null;
+  months_covered: number | null;
+  error: string | null;
+  consent_expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  connected_at: string | null;
+  last_synced_at: string | null;
+};
+
+export type BankAccount = {
+  id: string;
+  connection_id: string;
+  application_id: string;
+  provider_account_id: string;
+  name: string;
+  sort_code: string | null;
+  account_number_last4: string | null;
+  currency: string;
+  balance: number | null;
+  statement_document_id: string | null;
+};
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthsAgo(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() - months);
+  return result;
+}
+
+/**
+ * Whole months between two YYYY-MM-DD dates, counting a month once its day is
+ * reached (2026-04-19 to 2026-10-19 is 6).
+ */
+export function monthsBetween(from: string, to: string): number {
+  const start = new Date(from);
+  const end = new Date(to);
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  if (end.getUTCDate() < start.getUTCDate()) months -= 1;
+  return Math.max(0, months);
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One account's transactions as a CSV statement, oldest first.
+ */
+export function buildStatementCsv(transactions: OpenBankingTransaction[]): string {
+  const rows = transactions
+    .slice()
+    .sort((a, b) => (a.booked_on < b.booked_on ? -1 : a.booked_on > b.booked_on ? 1 : 0))
+    .map((tx) =>
+      [
+        tx.booked_on,
+        tx.description,
+        tx.transaction_type,
+        tx.amount > 0 ? tx.amount.toFixed(2) : null,
+        tx.amount < 0 ? (-tx.amount).toFixed(2) : null,
+        tx.balance === null ? null : tx.balance.toFixed(2),
+      ]
+        .map(csvCell)
+        .join(',')
+    );
+
+  return ['Date,Description,Type,Money in,Money out,Balance', ...rows].join('\n') + '\n';
+}
+
+export async function latestBankConnection(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<BankConnection | null> {
+  const { data, error } = await supabaseAdmin
+    .from('bank_connections')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading bank connection: ${error.message}`);
+  }
+  return (data as BankConnection) || null;
+}
+
+/**
+ * Start a connection for the application and return where to send the applicant.
+ */
+export async function startBankConnection(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  userId: string,
+  redirectUrl: string,
+  now: Date = new Date()
+): Promise<{ connection: BankConnection; authorisation_url: string }> {
+  const provider = getOpenBankingProvider();
+  if (!provider) {
+    throw new OpenBankingError('Open Banking is not available, please upload your statements instead', 503);
+  }
+
+  const { data: row, error: insertError } = await supabaseAdmin
+    .from('bank_connections')
+    .insert({
+      application_id: applicationId,
+      provider: provider.name,
+      status: 'pending',
+      created_by: userId,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !row) {
+    throw new Error(`Error recording bank connection: ${insertError?.message}`);
+  }
+
+  let consent: OpenBankingConsent;
+  try {
+    consent = await provider.createConsent({
+      state: row.id,
+      redirect_url: redirectUrl,
+      from: isoDate(monthsAgo(now, OPEN_BANKING_HISTORY_MONTHS)),
+    });
+  } catch (err: any) {
+    console.error(`Open Banking provider ${provider.name} failed to create consent for ${row.id}:`, err);
+    await supabaseAdmin
+      .from('bank_connections')
+      .update({ status: 'failed', error: `Provider error: ${err?.message || 'unknown error'}` })
+      .eq('id', row.id);
+    throw new OpenBankingError('Could not reach the bank connection service, please try again shortly', 502);
+  }
+
+  const { data: connection, error: updateError } = await supabaseAdmin
+    .from('bank_connections')
+    .update({ provider_consent_id: consent.consent_id })
+    .eq('id', row.id)
+    .select('*')
+    .single();
+
+  if (updateError || !connection) {
+    throw new Error(`Error saving bank connection: ${updateError?.message}`);
+  }
+
+  return { connection: connection as BankConnection, authorisation_url: consent.authorisation_url };
+}
+
+async function failConnection(supabaseAdmin: SupabaseClient, connectionId: string, message: string) {
+  await supabaseAdmin.from('bank_connections').update({ status: 'failed', error: message }).eq('id', connectionId);
+}
+
+/**
+ * Finish a connection after the applicant returns from their bank: confirm the
+ * consent, then pull accounts and transactions and write the statements.
+ */
+export async function completeBankConnection(
+  supabaseAdmin: SupabaseClient,
+  connection: BankConnection,
+  params: Record<string, string>,
+  now: Date = new Date()
+): Promise<BankConnection> {
+  if (connection.status !== 'pending' || !connection.provider_consent_id) {
+    throw new OpenBankingError('This bank connection has already been completed', 409);
+  }
+
+  const provider = getOpenBankingProvider();
+  if (!provider || provider.name !== connection.provider) {
+    throw new OpenBankingError('The bank connection service for this connection is no longer configured', 503);
+  }
+
+  let consent: { institution_name: string; expires_at: string | null };
+  try {
+    consent = await provider.completeConsent(connection.provider_consent_id, params);
+  } catch (err: any) {
+    await failConnection(supabaseAdmin, connection.id, err?.message || 'Authorisation failed');
+    throw new OpenBankingError('Your bank did not authorise access. Please try again or upload your statements.', 400);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('bank_connections')
+    .update({
+      institution_name: consent.institution_name,
+      consent_expires_at: consent.expires_at,
+      connected_at: now.toISOString(),
+    })
+    .eq('id', connection.id);
+
+  if (updateError) {
+    throw new Error(`Error saving bank connection: ${updateError.message}`);
+  }
+
+  return syncBankConnection(supabaseAdmin, connection.id, now);
+}
+
+async function saveTransactions(
+  supabaseAdmin: SupabaseClient,
+  account: BankAccount,
+  transactions: OpenBankingTransaction[]
+) {
+  for (let i = 0; i < transactions.length; i += TRANSACTION_INSERT_BATCH) {
+    const batch = transactions.slice(i, i + TRANSACTION_INSERT_BATCH).map((tx) => ({
+      account_id: account.id,
+      application_id: account.application_id,
+      ...tx,
+    }));
+    const { error } = await supabaseAdmin
+      .from('bank_transactions')
+      .upsert(batch, { onConflict: 'account_id,provider_transaction_id' });
+    if (error) {
+      throw new Error(`Error saving transactions: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Write (or rewrite) the account's statement into the application's documents.
+ */
+async function saveStatementDocument(
+  supabaseAdmin: SupabaseClient,
+  account: BankAccount,
+  connection: { institution_name: string | null; created_by: string | null },
+  transactions: OpenBankingTransaction[],
+  period: { from: string; to: string }
+): Promise<string> {
+  const storagePath = `${connection.created_by}/${account.application_id}/${BANK_STATEMENTS_CATEGORY}/open_banking_${account.id}.csv`;
+  const accountLabel = [account.name, account.account_number_last4 && `****${account.account_number_last4}`]
+    .filter(Boolean)
+    .join(' ');
+  const filename = `${connection.institution_name || 'Bank'} ${accountLabel} ${period.from} to ${period.to}.csv`;
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .upload(storagePath, Buffer.from(buildStatementCsv(transactions), 'utf8'), {
+      contentType: 'text/csv',
+      upsert: true,
+    });
+
+  if (uploadError) {
+    throw new Error(`Error uploading statement: ${uploadError.message}`);
+  }
+
+  // The applicant may have removed an earlier statement from the upload step
+  if (account.statement_document_id) {
+    const { data: existing } = await supabaseAdmin
+      .from('documents')
+      .update({ original_filename: filename })
+      .eq('id', account.statement_document_id)
+      .select('id')
+      .maybeSingle();
+    if (existing) return existing.id;
+  }
+
+  const { data: document, error: insertError } = await supabaseAdmin
+    .from('documents')
+    .insert({
+      application_id: account.application_id,
+      category: BANK_STATEMENTS_CATEGORY,
+      original_filename: filename,
+      storage_path: storagePath,
+      mime_type: 'text/csv',
+      uploaded_by: connection.created_by,
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !document) {
+    throw new Error(`Error saving statement document: ${insertError?.message}`);
+  }
+  return document.id;
+}
+
+/**
+ * Pull the connection's accounts and the last 12 months of transactions, and
+ * regenerate each account's statement. Safe to re-run: transactions are keyed by
+ * the provider's ids.
+ */
+export async function syncBankConnection(
+  supabaseAdmin: SupabaseClient,
+  connectionId: string,
+  now: Date = new Date()
+): Promise<BankConnection> {
+  const { data: connection, error: connectionError } = await supabaseAdmin
+    .from('bank_connections')
+    .select('*')
+    .eq('id', connectionId)
+    .maybeSingle();
+
+  if (connectionError) {
+    throw new Error(`Error loading bank connection: ${connectionError.message}`);
+  }
+  if (!connection || !connection.provider_consent_id) {
+    throw new OpenBankingError('Bank connection not found', 404);
+  }
+
+  const provider = getOpenBankingProvider();
+  if (!provider || provider.name !== connection.provider) {
+    throw new OpenBankingError('The bank connection service for this connection is no longer configured', 503);
+  }
+
+  const from = isoDate(monthsAgo(now, OPEN_BANKING_HISTORY_MONTHS));
+  const to = isoDate(now);
+
+  try {
+    const accounts = await provider.getAccounts(connection.provider_consent_id);
+    if (accounts.length === 0) {
+      throw new OpenBankingError('No accounts were shared from your bank', 400);
+    }
+
+    let earliest: string | null = null;
+    for (const providerAccount of accounts) {
+      const { data: account, error: accountError } = await supabaseAdmin
+        .from('bank_accounts')
+        .upsert(
+          {
+            connection_id: connection.id,
+            application_id: connection.application_id,
+            provider_account_id: providerAccount.provider_account_id,
+            name: providerAccount.name,
+            sort_code: providerAccount.sort_code,
+            account_number_last4: providerAccount.account_number ? providerAccount.account_number.slice(-4) : null,
+            currency: providerAccount.currency,
+            balance: providerAccount.balance,
+          },
+          { onConflict: 'connection_id,provider_account_id' }
+        )
+        .select('*')
+        .single();
+
+      if (accountError || !account) {
+        throw new Error(`Error saving bank account: ${accountError?.message}`);
+      }
+
+      const transactions = await provider.getTransactions(
+        connection.provider_consent_id,
+        providerAccount.provider_account_id,
+        from,
+        to
+      );
+      await saveTransactions(supabaseAdmin, account as BankAccount, transactions);
+
+      for (const tx of transactions) {
+        if (!earliest || tx.booked_on < earliest) earliest = tx.booked_on;
+      }
+
+      const documentId = await saveStatementDocument(supabaseAdmin, account as BankAccount, connection, transactions, {
+        from,
+        to,
+      });
+      if (documentId !== account.statement_document_id) {
+        await supabaseAdmin.from('bank_accounts').update({ statement_document_id: documentId }).eq('id', account.id);
+      }
+    }
+
+    const monthsCovered = earliest ? monthsBetween(earliest, to) : 0;
+    const { data: saved, error: updateError } = await supabaseAdmin
+      .from('bank_connections')
+      .update({
+        status: 'connected',
+        history_from: earliest,
+        history_to: to,
+        months_covered: monthsCovered,
+        error:
+          monthsCovered < MIN_STATEMENT_MONTHS
+            ? `Your bank shared ${monthsCovered} months of history; lenders usually need ${MIN_STATEMENT_MONTHS}`
+            : null,
+        last_synced_at: now.toISOString(),
+      })
+      .eq('id', connection.id)
+      .select('*')
+      .single();
+
+    if (updateError || !saved) {
+      throw new Error(`Error saving bank connection: ${updateError?.message}`);
+    }
+    return saved as BankConnection;
+  } catch (err: any) {
+    console.error(`Error syncing bank connection ${connection.id}:`, err);
+    await failConnection(supabaseAdmin, connection.id, err?.message || 'Sync failed');
+    if (err instanceof OpenBankingError) throw err;
+    throw new OpenBankingError('We could not download your transactions. Please try again or upload your statements.', 502);
+  }
+}
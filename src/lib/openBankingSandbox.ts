@@ -0,0 +1,144 @@
+// src/lib/openBankingSandbox.ts
+//
+// Local Open Banking provider (OPEN_BANKING_PROVIDER=sandbox) for development and
+// testing. There is no bank to visit: the authorisation URL goes straight back to
+// our redirect with an approval code, and the account's transactions are generated
+// from the consent id, so the same connection always yields the same history. It
+// looks like a small card-taking business: daily card settlements, invoice
+// receipts, supplier payments, rent, payroll, VAT and one lender's direct debit,
+// which is returned unpaid whenever the balance cannot cover it.
+//
+// Redirect with ?error=access_denied instead of the code to exercise a refusal.
+import type {
+  OpenBankingAccount,
+  OpenBankingConsent,
+  OpenBankingProvider,
+  OpenBankingTransaction,
+} from './openBanking';
+
+const APPROVAL_CODE = 'sandbox-approved';
+const CONSENT_DAYS = 90;
+const OPENING_BALANCE = 12000;
+const LENDER_REPAYMENT = 1200;
+const UNPAID_ITEM_FEE = 25;
+
+// Deterministic pseudo-random numbers in [0, 1)
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (state * 31 + seed.charCodeAt(i)) % 4294967296;
+  }
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return Math.round((min + random() * (max - min)) * 100) / 100;
+}
+
+function accountFor(consentId: string): OpenBankingAccount {
+  const random = seededRandom(consentId);
+  const accountNumber = String(Math.floor(10000000 + random() * 89999999));
+  return {
+    provider_account_id: `acc_${consentId}`,
+    name: 'Business Current Account',
+    sort_code: '04-00-04',
+    account_number: accountNumber,
+    currency: 'GBP',
+    balance: null,
+  };
+}
+
+export const sandboxOpenBankingProvider: OpenBankingProvider = {
+  name: 'sandbox',
+
+  async createConsent(input): Promise<OpenBankingConsent> {
+    const separator = input.redirect_url.includes('?') ? '&' : '?';
+    return {
+      consent_id: `sandbox_${input.state}`,
+      authorisation_url: `${input.redirect_url}${separator}state=${encodeURIComponent(input.state)}&code=${APPROVAL_CODE}`,
+    };
+  },
+
+  async completeConsent(_consentId, params) {
+    if (params.error) {
+      throw new Error(`Access refused at the bank (${params.error})`);
+    }
+    if (params.code !== APPROVAL_CODE) {
+      throw new Error('Invalid authorisation code');
+    }
+    return {
+      institution_name: 'Sandbox Bank',
+      expires_at: new Date(Date.now() + CONSENT_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    };
+  },
+
+  async getAccounts(consentId) {
+    return [accountFor(consentId)];
+  },
+
+  async getTransactions(consentId, accountId, from, to): Promise<OpenBankingTransaction[]> {
+    const random = seededRandom(`${consentId}:${accountId}`);
+    const transactions: OpenBankingTransaction[] = [];
+    let balance = OPENING_BALANCE;
+    let sequence = 0;
+
+    const add = (
+      bookedOn: string,
+      description: string,
+      amount: number,
+      transactionType: string,
+      merchantName: string | null = null
+    ) => {
+      balance = Math.round((balance + amount) * 100) / 100;
+      sequence += 1;
+      transactions.push({
+        provider_transaction_id: `${accountId}_${sequence}`,
+        booked_on: bookedOn,
+        description,
+        amount,
+        balance,
+        transaction_type: transactionType,
+        merchant_name: merchantName,
+      });
+    };
+
+    const end = new Date(to);
+    for (let day = new Date(from); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = day.toISOString().slice(0, 10);
+      const weekday = day.getUTCDay();
+      const dayOfMonth = day.getUTCDate();
+      const isWeekday = weekday >= 1 && weekday <= 5;
+
+      if (isWeekday) {
+        add(date, 'WORLDPAY SETTLEMENT', between(random, 900, 2400), 'CARD_SETTLEMENT', 'Worldpay');
+      }
+      if (weekday === 1) {
+        add(date, 'BOOKER WHOLESALE', -between(random, 4000, 7000), 'CARD_PAYMENT', 'Booker');
+      }
+      if (isWeekday && random() < 0.1) {
+        add(date, `BACS CREDIT INV ${1000 + sequence}`, between(random, 1500, 4000), 'TRANSFER');
+      }
+      if (dayOfMonth === 1) {
+        add(date, 'HILLSIDE PROPERTIES LTD RENT', -2500, 'DIRECT_DEBIT', 'Hillside Properties');
+      }
+      if (dayOfMonth === 15) {
+        add(date, 'IWOCA LTD', -LENDER_REPAYMENT, 'DIRECT_DEBIT', 'iwoca');
+        if (balance < 0) {
+          add(date, 'IWOCA LTD UNPAID DD RETURNED', LENDER_REPAYMENT, 'RETURNED_DIRECT_DEBIT', 'iwoca');
+          add(date, 'UNPAID ITEM FEE', -UNPAID_ITEM_FEE, 'FEE');
+        }
+      }
+      if (dayOfMonth === 25) {
+        add(date, 'PAYROLL', -12000, 'TRANSFER');
+      }
+      if (dayOfMonth === 7 && day.getUTCMonth() % 3 === 1) {
+        add(date, 'HMRC VAT', -between(random, 3000, 5000), 'DIRECT_DEBIT', 'HMRC');
+      }
+    }
+
+    return transactions;
+  },
+};
@@ -0,0 +1,340 @@
+// src/lib/partnerTeam.ts
+//
+// Partner team self-service. A partner company's primary contact (profiles.is_primary_contact)
+// can invite colleagues, deactivate or reactivate them, and hand a departed member's
+// referred companies (companies.referred_by) to someone else in the firm. Admins can
+// do the same for any partner company. Deactivation bans the member's login but keeps
+// their profile, so past referrals and commission still resolve.
+//
+// Referral visibility decides whether a member sees the whole firm's referred companies
+// or only their own: a partner company setting with an optional per-member override.
+// Primary contacts always see the whole firm. RLS enforces the same rule through
+// partner_can_see_referral (migrations/add_partner_referral_visibility.sql).
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { AuthorizedRequest } from './supabaseAdmin';
+
+// Supabase has no permanent ban; this is a hundred years
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+export class PartnerTeamError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type ReferralVisibility = 'own' | 'firm';
+
+export const REFERRAL_VISIBILITY_LABELS: Record<ReferralVisibility, string> = {
+  own: 'Only their own referrals',
+  firm: "The whole firm's referrals",
+};
+
+export type PartnerTeamMember = {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  is_primary_contact: boolean | null;
+  // null follows the partner company's referral_visibility
+  referral_visibility: ReferralVisibility | null;
+  deactivated_at: string | null;
+  created_at: string;
+};
+
+const MEMBER_COLUMNS = 'id, first_name, last_name, email, is_primary_contact, referral_visibility, deactivated_at, created_at';
+
+export type PartnerTeamInvite = {
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+};
+
+export function memberName(member: Pick<PartnerTeamMember, 'first_name' | 'last_name' | 'email'>): string {
+  const name = [member.first_name, member.last_name].filter(Boolean).join(' ');
+  return name || member.email;
+}
+
+export function effectiveReferralVisibility(
+  member: Pick<PartnerTeamMember, 'is_primary_contact' | 'referral_visibility'>,
+  firmVisibility: ReferralVisibility | null
+): ReferralVisibility {
+  if (member.is_primary_contact) return 'firm';
+  return member.referral_visibility || firmVisibility || 'firm';
+}
+
+/**
+ * The referral visibility that applies to a partner user, for server routes that check
+ * access with the service role.
+ */
+export async function loadReferralVisibility(supabaseAdmin: SupabaseClient, userId: string): Promise<ReferralVisibility> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('is_primary_contact, referral_visibility, partner_company:partner_company_id(referral_visibility)')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading referral visibility: ${error.message}`);
+  }
+  if (!data) return 'own';
+
+  const firm = data.partner_company as unknown as { referral_visibility: ReferralVisibility } | null;
+  return effectiveReferralVisibility(
+    data as Pick<PartnerTeamMember, 'is_primary_contact' | 'referral_visibility'>,
+    firm?.referral_visibility || null
+  );
+}
+
+/**
+ * Check a submitted visibility. Member overrides may be null to follow the firm setting.
+ * Throws PartnerTeamError (400) when invalid.
+ */
+export function validateReferralVisibility(value: unknown, allowNull: boolean): ReferralVisibility | null {
+  if (value === 'own' || value === 'firm') return value;
+  if (allowNull && (value === null || value === '')) return null;
+  throw new PartnerTeamError(
+    allowNull ? "referral_visibility must be 'own', 'firm' or null" : "referral_visibility must be 'own' or 'firm'",
+    400
+  );
+}
+
+/**
+ * Admins manage any partner team; partners only their own company's, and only as its
+ * primary contact.
+ */
+export function canManagePartnerTeam(profile: AuthorizedRequest['profile'], partnerCompanyId: string): boolean {
+  if (profile.role === 'ADMIN') return true;
+  return (
+    profile.role === 'PARTNER' &&
+    profile.is_primary_contact === true &&
+    profile.partner_company_id === partnerCompanyId
+  );
+}
+
+/**
+ * Check an invite submitted by a primary contact. Throws PartnerTeamError (400) when
+ * invalid.
+ */
+export function validatePartnerTeamInvite(body: any): PartnerTeamInvite {
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new PartnerTeamError('A valid email is required', 400);
+  }
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  return { email, first_name: text(body?.first_name), last_name: text(body?.last_name) };
+}
+
+async function loadMember(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  userId: string
+): Promise<PartnerTeamMember> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select(MEMBER_COLUMNS)
+    .eq('id', userId)
+    .eq('role', 'PARTNER')
+    .eq('partner_company_id', partnerCompanyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading team member: ${error.message}`);
+  }
+  if (!data) {
+    throw new PartnerTeamError('Team member not found', 404);
+  }
+  return data as PartnerTeamMember;
+}
+
+/**
+ * Create a PARTNER account in the partner company and send the invitation email. As with
+ * the admin invite, existing accounts are never re-linked.
+ */
+export async function invitePartnerTeamMember(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  invite: PartnerTeamInvite
+): Promise<{ member: PartnerTeamMember; warning?: string }> {
+  const { data: existingProfile, error: existingError } = await supabaseAdmin
+    .from('profiles')
+    .select('id, partner_company_id')
+    .eq('email', invite.email)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Error checking existing user: ${existingError.message}`);
+  }
+  if (existingProfile) {
+    throw new PartnerTeamError(
+      existingProfile.partner_company_id === partnerCompanyId
+        ? 'This person is already on your team'
+        : 'A user with this email already exists. Please contact us to link their account.',
+      409
+    );
+  }
+
+  // Temporary random password; the invite email lets them set their own
+  const tempPassword = Math.random().toString(36).slice(-12) + 'A1!';
+  const { data: authResult, error: authError } = await supabaseAdmin.auth.admin.createUser({
+    email: invite.email,
+    password: tempPassword,
+    email_confirm: true,
+  });
+
+  if (authError || !authResult?.user) {
+    throw new PartnerTeamError(authError?.message || 'Error creating user', 500);
+  }
+
+  const { data: member, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .update({
+      email: invite.email,
+      role: 'PARTNER',
+      partner_company_id: partnerCompanyId,
+      first_name: invite.first_name,
+      last_name: invite.last_name,
+    })
+    .eq('id', authResult.user.id)
+    .select(MEMBER_COLUMNS)
+    .single();
+
+  if (profileError) {
+    throw new PartnerTeamError(`User created but error updating profile: ${profileError.message}`, 500);
+  }
+
+  const { error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(invite.email);
+  if (inviteError) {
+    // The account exists, so this is not a hard failure
+    console.error('Error sending partner team invite email', inviteError);
+    return {
+      member: member as PartnerTeamMember,
+      warning: 'User created but failed to send the invite email. Ask them to use "Forgot password" to sign in.',
+    };
+  }
+
+  return { member: member as PartnerTeamMember };
+}
+
+/**
+ * Deactivate or reactivate a team member. Nobody can deactivate themselves, and a
+ * primary contact can only be deactivated by an admin so the firm is never left
+ * without one.
+ */
+export async function setPartnerTeamMemberActive(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  userId: string,
+  active: boolean,
+  actor: AuthorizedRequest['profile']
+): Promise<PartnerTeamMember> {
+  const member = await loadMember(supabaseAdmin, partnerCompanyId, userId);
+
+  if (!active && member.id === actor.id) {
+    throw new PartnerTeamError('You cannot deactivate your own account', 400);
+  }
+  if (!active && member.is_primary_contact && actor.role !== 'ADMIN') {
+    throw new PartnerTeamError('Primary contacts can only be deactivated by us. Please get in touch.', 403);
+  }
+  if (active === !member.deactivated_at) {
+    return member;
+  }
+
+  const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+    ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+  });
+  if (banError) {
+    throw new PartnerTeamError(`Error updating login: ${banError.message}`, 500);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .update({
+      deactivated_at: active ? null : new Date().toISOString(),
+      deactivated_by: active ? null : actor.id,
+    })
+    .eq('id', userId)
+    .select(MEMBER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new PartnerTeamError(`Error updating team member: ${error.message}`, 500);
+  }
+  return data as PartnerTeamMember;
+}
+
+/**
+ * Move every company the member referred for this partner company to an active
+ * colleague. Returns how many companies moved.
+ */
+export async function reassignReferredCompanies(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  fromUserId: string,
+  toUserId: string
+): Promise<number> {
+  if (fromUserId === toUserId) {
+    throw new PartnerTeamError('Choose a different colleague to reassign to', 400);
+  }
+
+  await loadMember(supabaseAdmin, partnerCompanyId, fromUserId);
+  const target = await loadMember(supabaseAdmin, partnerCompanyId, toUserId);
+  if (target.deactivated_at) {
+    throw new PartnerTeamError('Companies can only be reassigned to an active team member', 400);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('companies')
+    .update({ referred_by: toUserId })
+    .eq('referred_by', fromUserId)
+    .eq('partner_company_id', partnerCompanyId)
+    .select('id');
+
+  if (error) {
+    throw new PartnerTeamError(`Error reassigning companies: ${error.message}`, 500);
+  }
+  return (data || []).length;
+}
+
+export async function setFirmReferralVisibility(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  visibility: ReferralVisibility
+): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('partner_companies')
+    .update({ referral_visibility: visibility })
+    .eq('id', partnerCompanyId)
+    .select('id');
+
+  if (error) {
+    throw new PartnerTeamError(`Error saving referral visibility: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new PartnerTeamError('Partner company not found', 404);
+  }
+}
+
+/**
+ * Override the firm's referral visibility for one member, or clear the override with
+ * null. Has no effect on primary contacts, who always see the whole firm.
+ */
+export async function setMemberReferralVisibility(
+  supabaseAdmin: SupabaseClient,
+  partnerCompanyId: string,
+  userId: string,
+  visibility: ReferralVisibility | null
+): Promise<PartnerTeamMember> {
+  await loadMember(supabaseAdmin, partnerCompanyId, userId);
+
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .update({ referral_visibility: visibility })
+    .eq('id', userId)
+    .select(MEMBER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new PartnerTeamError(`Error saving referral visibility: ${error.message}`, 500);
+  }
+  return data as PartnerTeamMember;
+}
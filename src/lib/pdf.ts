@@ -0,0 +1,116 @@
+// src/lib/pdf.ts
+//
+// A minimal PDF writer for generated documents (commission statements): A4 pages
+// of positioned text in the standard Helvetica and Courier fonts, which every
+// reader provides, so no fonts are embedded. Text is WinAnsi encoded; characters
+// outside Latin-1 other than common dashes and quotes are replaced with '?'.
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export type PdfText = {
+  // Points from the left and top edges of the page
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  font?: PdfFont;
+  // Right alignment measures the text as Courier, so only use it with the mono font
+  align?: 'left' | 'right';
+};
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+const DEFAULT_FONT_SIZE = 10;
+const MONO_CHAR_WIDTH = 0.6;
+const FONTS: { font: PdfFont; resource: string; baseFont: string }[] = [
+  { font: 'regular', resource: 'F1', baseFont: 'Helvetica' },
+  { font: 'bold', resource: 'F2', baseFont: 'Helvetica-Bold' },
+  { font: 'mono', resource: 'F3', baseFont: 'Courier' },
+];
+
+// WinAnsi code points for characters that differ from Latin-1
+const WIN_ANSI: Record<string, string> = {
+  '–': '\u0096',
+  '—': '\u0097',
+  '‘': '\u0091',
+  '’': '\u0092',
+  '“': '\u0093',
+  '”': '\u0094',
+  '•': '\u0095',
+};
+
+function encodeText(text: string): string {
+  let encoded = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = WIN_ANSI[text[i]] || text[i];
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (char.charCodeAt(0) > 255 || char === '\n' || char === '\r') {
+      encoded += '?';
+    } else {
+      encoded += char;
+    }
+  }
+  return encoded;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pageContent(items: PdfText[]): string {
+  return items
+    .map((item) => {
+      const size = item.size || DEFAULT_FONT_SIZE;
+      const font = FONTS.find((entry) => entry.font === (item.font || 'regular'))!;
+      const width = item.align === 'right' ? item.text.length * size * MONO_CHAR_WIDTH : 0;
+      const x = item.x - width;
+      // PDF coordinates run up from the bottom edge, to the text baseline
+      const y = PDF_PAGE_HEIGHT - item.y - size;
+      return `BT /${font.resource} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${encodeText(item.text)}) Tj ET`;
+    })
+    .join('\n');
+}
+
+/**
+ * A PDF of the given pages, each a list of text items.
+ */
+export function renderPdf(pages: PdfText[][]): Buffer {
+  const pageList = pages.length > 0 ? pages : [[]];
+  const fontIds = FONTS.map((_, index) => 3 + index);
+  const firstPageId = 3 + FONTS.length;
+  // Each page is a page object followed by its content stream
+  const pageIds = pageList.map((_, index) => firstPageId + index * 2);
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageList.length} >>`,
+    ...FONTS.map((font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+  ];
+
+  const fontResources = FONTS.map((font, index) => `/${font.resource} ${fontIds[index]} 0 R`).join(' ');
+  pageList.forEach((items, index) => {
+    const content = pageContent(items);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is one byte once written as Latin-1, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${`0000000000${offset}`.slice(-10)} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,343 @@
+// src/lib/referralCampaigns.ts
+//
+// Partner referral campaigns: named links per partner user, each with an opaque code so
+// the link never exposes the partner's profile id. Visiting /r/<code> records a lead
+// (leads.status 'clicked') and sends the visitor to signup with the lead id. When they
+// create their account the lead is converted and their company is attributed to the
+// campaign's partner (companies.referred_by). Funnel stats follow each converted lead's
+// company through to applications and funding.
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// No 0/O or 1/I/L, so codes survive being read out or typed from print
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_NAME_LENGTH = 80;
+// Repeat visits to a link from the same browser reuse its lead for this long
+export const LEAD_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+// Leads one network address may create per hour across all links; clicks beyond it
+// still reach signup, just without a lead
+const MAX_CLICKS_PER_VISITOR_PER_HOUR = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class ReferralCampaignError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type ReferralCampaign = {
+  id: string;
+  partner_user_id: string;
+  partner_company_id: string | null;
+  name: string;
+  code: string;
+  archived_at: string | null;
+  created_at: string;
+};
+
+export type CampaignFunnel = {
+  clicks: number;
+  signups: number;
+  applications: number;
+  funded: number;
+};
+
+export type ReferralCampaignWithFunnel = ReferralCampaign & {
+  funnel: CampaignFunnel;
+  partner_user?: { first_name: string | null; last_name: string | null; email: string } | null;
+};
+
+export function generateCampaignCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+export function validateCampaignName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) {
+    throw new ReferralCampaignError('Give the link a name, e.g. the newsletter or office it is for', 400);
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new ReferralCampaignError(`Names can be at most ${MAX_NAME_LENGTH} characters`, 400);
+  }
+  return name;
+}
+
+export async function createReferralCampaign(
+  supabaseAdmin: SupabaseClient,
+  partner: { id: string; partner_company_id: string | null },
+  name: string
+): Promise<ReferralCampaign> {
+  // Retry on the (unlikely) code collision
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data, error } = await supabaseAdmin
+      .from('referral_campaigns')
+      .insert({
+        partner_user_id: partner.id,
+        partner_company_id: partner.partner_company_id,
+        name,
+        code: generateCampaignCode(),
+      })
+      .select('*')
+      .single();
+
+    if (!error) return data as ReferralCampaign;
+    if (error.code !== '23505') {
+      throw new ReferralCampaignError(`Error creating referral link: ${error.message}`, 500);
+    }
+  }
+  throw new ReferralCampaignError('Could not generate a unique referral code. Please try again.', 500);
+}
+
+/**
+ * Archived links stop recording clicks but keep their history.
+ */
+export async function archiveReferralCampaign(
+  supabaseAdmin: SupabaseClient,
+  campaignId: string,
+  actor: { id: string; role: string }
+): Promise<ReferralCampaign> {
+  const { data: campaign, error: loadError } = await supabaseAdmin
+    .from('referral_campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Error loading referral link: ${loadError.message}`);
+  }
+  if (!campaign || (actor.role !== 'ADMIN' && campaign.partner_user_id !== actor.id)) {
+    throw new ReferralCampaignError('Referral link not found', 404);
+  }
+  if (campaign.archived_at) return campaign as ReferralCampaign;
+
+  const { data, error } = await supabaseAdmin
+    .from('referral_campaigns')
+    .update({ archived_at: new Date().toISOString() })
+    .eq('id', campaignId)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new ReferralCampaignError(`Error archiving referral link: ${error.message}`, 500);
+  }
+  return data as ReferralCampaign;
+}
+
+export type CampaignVisitor = {
+  // Lead id from the visitor's cookie for this link, if they have clicked it before
+  leadId: string | null;
+  // Network address of the request, when known
+  ip: string | null;
+};
+
+// Cookie holding the visitor's lead for one link
+export function leadCookieName(code: string): string {
+  return `ref_lead_${code.toUpperCase()}`;
+}
+
+// Only a hash of the address is stored on the lead
+function visitorHash(ip: string): string {
+  return createHash('sha256').update(ip).digest('hex');
+}
+
+/**
+ * Record a visit to a campaign link as a lead. A visitor who already has an open lead
+ * for the link gets it back rather than a new one. Returns the lead id, or null when
+ * the code is unknown or archived, its partner has been deactivated, or the visitor's
+ * address has made too many clicks in the last hour.
+ */
+export async function recordCampaignClick(
+  supabaseAdmin: SupabaseClient,
+  code: string,
+  visitor: CampaignVisitor
+): Promise<string | null> {
+  const { data: campaign, error: campaignError } = await supabaseAdmin
+    .from('referral_campaigns')
+    .select('id, partner_user_id, partner:partner_user_id!inner(id)')
+    .eq('code', code.toUpperCase())
+    .is('archived_at', null)
+    .is('partner.deactivated_at', null)
+    .maybeSingle();
+
+  if (campaignError) {
+    throw new Error(`Error loading referral link: ${campaignError.message}`);
+  }
+  if (!campaign) return null;
+
+  if (visitor.leadId && UUID_PATTERN.test(visitor.leadId)) {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('leads')
+      .select('id')
+      .eq('id', visitor.leadId)
+      .eq('campaign_id', campaign.id)
+      .is('converted_at', null)
+      .maybeSingle();
+    if (existingError) {
+      throw new Error(`Error loading lead: ${existingError.message}`);
+    }
+    if (existing) return existing.id;
+  }
+
+  const hash = visitor.ip ? visitorHash(visitor.ip) : null;
+  if (hash) {
+    const { count, error: countError } = await supabaseAdmin
+      .from('leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('visitor_hash', hash)
+      .gte('clicked_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+    if (countError) {
+      throw new Error(`Error counting recent clicks: ${countError.message}`);
+    }
+    if ((count || 0) >= MAX_CLICKS_PER_VISITOR_PER_HOUR) return null;
+  }
+
+  const now = new Date().toISOString();
+  const { data: lead, error } = await supabaseAdmin
+    .from('leads')
+    .insert({
+      campaign_id: campaign.id,
+      referred_by: campaign.partner_user_id,
+      status: 'clicked',
+      clicked_at: now,
+      visitor_hash: hash,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Error recording lead: ${error.message}`);
+  }
+  return lead.id;
+}
+
+/**
+ * Convert a lead once its visitor has signed up and created their company, and
+ * attribute the company to the lead's partner unless it already has a referrer.
+ * A lead converts only once.
+ */
+export async function convertLead(
+  supabaseAdmin: SupabaseClient,
+  leadId: string,
+  client: { id: string; company_id: string | null }
+): Promise<void> {
+  const { data: lead, error: leadError } = await supabaseAdmin
+    .from('leads')
+    .select('id, referred_by, converted_at')
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (leadError) {
+    throw new Error(`Error loading lead: ${leadError.message}`);
+  }
+  if (!lead) {
+    throw new ReferralCampaignError('Lead not found', 404);
+  }
+  if (lead.converted_at) return;
+
+  const { error: updateError } = await supabaseAdmin
+    .from('leads')
+    .update({
+      user_id: client.id,
+      company_id: client.company_id,
+      status: 'converted',
+      converted_at: new Date().toISOString(),
+    })
+    .eq('id', leadId)
+    .is('converted_at', null);
+
+  if (updateError) {
+    throw new ReferralCampaignError(`Error converting lead: ${updateError.message}`, 500);
+  }
+
+  if (!lead.referred_by || !client.company_id) return;
+
+  const { data: referrer } = await supabaseAdmin
+    .from('profiles')
+    .select('partner_company_id')
+    .eq('id', lead.referred_by)
+    .eq('role', 'PARTNER')
+    // Deactivated after the click; their clients are reassigned, not attributed to them
+    .is('deactivated_at', null)
+    .maybeSingle();
+  if (!referrer) return;
+
+  const { error: companyError } = await supabaseAdmin
+    .from('companies')
+    .update({ referred_by: lead.referred_by, partner_company_id: referrer.partner_company_id })
+    .eq('id', client.company_id)
+    .is('referred_by', null);
+
+  if (companyError) {
+    throw new ReferralCampaignError(`Error attributing company: ${companyError.message}`, 500);
+  }
+}
+
+/**
+ * Campaigns with their funnel: clicks (leads), signups (converted leads), and how many
+ * of those signups went on to apply and to be funded.
+ */
+export async function loadCampaignFunnels(
+  supabaseAdmin: SupabaseClient,
+  filter: { partnerUserId?: string; partnerCompanyId?: string }
+): Promise<ReferralCampaignWithFunnel[]> {
+  let query = supabaseAdmin
+    .from('referral_campaigns')
+    .select('*, partner_user:partner_user_id(first_name, last_name, email)')
+    .order('created_at', { ascending: true });
+  if (filter.partnerUserId) query = query.eq('partner_user_id', filter.partnerUserId);
+  if (filter.partnerCompanyId) query = query.eq('partner_company_id', filter.partnerCompanyId);
+
+  const { data: campaigns, error } = await query;
+  if (error) {
+    throw new Error(`Error loading referral links: ${error.message}`);
+  }
+  if (!campaigns || campaigns.length === 0) return [];
+
+  const { data: leads, error: leadsError } = await supabaseAdmin
+    .from('leads')
+    .select('campaign_id, company_id, converted_at')
+    .in('campaign_id', campaigns.map((c) => c.id));
+  if (leadsError) {
+    throw new Error(`Error loading leads: ${leadsError.message}`);
+  }
+
+  const companyIds = Array.from(
+    new Set((leads || []).filter((l) => l.converted_at && l.company_id).map((l) => l.company_id as string))
+  );
+  const appliedCompanies = new Set<string>();
+  const fundedCompanies = new Set<string>();
+  if (companyIds.length > 0) {
+    const { data: applications, error: applicationsError } = await supabaseAdmin
+      .from('applications')
+      .select('company_id, stage')
+      .in('company_id', companyIds)
+      .is('deleted_at', null);
+    if (applicationsError) {
+      throw new Error(`Error loading applications: ${applicationsError.message}`);
+    }
+    (applications || []).forEach((application) => {
+      appliedCompanies.add(application.company_id);
+      if (application.stage === 'funded') fundedCompanies.add(application.company_id);
+    });
+  }
+
+  return campaigns.map((campaign) => {
+    const funnel: CampaignFunnel = { clicks: 0, signups: 0, applications: 0, funded: 0 };
+    (leads || [])
+      .filter((lead) => lead.campaign_id === campaign.id)
+      .forEach((lead) => {
+        funnel.clicks++;
+        if (!lead.converted_at) return;
+        funnel.signups++;
+        if (lead.company_id && appliedCompanies.has(lead.company_id)) funnel.applications++;
+        if (lead.company_id && fundedCompanies.has(lead.company_id)) funnel.funded++;
+      });
+    return { ...(campaign as ReferralCampaignWithFunnel), funnel };
+  });
+}
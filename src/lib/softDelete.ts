@@ -0,0 +1,248 @@
+// src/lib/softDelete.ts
+//
+// Soft-deleted applications and companies (deleted_at set by the
+// soft_delete_* SQL functions) and the purge that removes them for good, storage
+// objects included, either on an admin's request or once DELETED_RETENTION_DAYS
+// have passed.
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Storage remove() takes a list of paths; keep requests a sensible size
+const STORAGE_BATCH_SIZE = 100;
+
+export function deletedRetentionDays(): number {
+  const days = Number(process.env.DELETED_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Map errors raised by the soft delete/restore SQL functions to an HTTP status.
+ */
+export function softDeleteErrorStatus(error: { code?: string }): number {
+  if (error.code === 'P0002') return 404;
+  if (error.code === 'P0001') return 409;
+  return 500;
+}
+
+export type DeletedApplication = {
+  id: string;
+  requested_amount: number | null;
+  stage: string;
+  deleted_at: string;
+  company_id: string | null;
+  company_name: string | null;
+  company_deleted: boolean;
+  deleted_by_email: string | null;
+};
+
+export type DeletedCompany = {
+  id: string;
+  name: string;
+  deleted_at: string;
+  application_count: number;
+  deleted_by_email: string | null;
+};
+
+export async function listRecentlyDeleted(
+  supabaseAdmin: SupabaseClient
+): Promise<{ applications: DeletedApplication[]; companies: DeletedCompany[] }> {
+  const [{ data: apps, error: appsError }, { data: companies, error: companiesError }] = await Promise.all([
+    supabaseAdmin
+      .from('applications')
+      .select(`
+        id, requested_amount, stage, deleted_at, company_id,
+        company:company_id(name, deleted_at),
+        deleter:deleted_by(email)
+      `)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+    supabaseAdmin
+      .from('companies')
+      .select(`
+        id, name, deleted_at,
+        applications(count),
+        deleter:deleted_by(email)
+      `)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+  ]);
+
+  if (appsError || companiesError) {
+    throw new Error(`Error loading deleted records: ${(appsError || companiesError)!.message}`);
+  }
+
+  return {
+    applications: (apps || []).map((app: any) => ({
+      id: app.id,
+      requested_amount: app.requested_amount,
+      stage: app.stage,
+      deleted_at: app.deleted_at,
+      company_id: app.company_id,
+      company_name: app.company?.name || null,
+      company_deleted: !!app.company?.deleted_at,
+      deleted_by_email: app.deleter?.email || null,
+    })),
+    companies: (companies || []).map((company: any) => ({
+      id: company.id,
+      name: company.name,
+      deleted_at: company.deleted_at,
+      application_count: company.applications?.[0]?.count || 0,
+      deleted_by_email: company.deleter?.email || null,
+    })),
+  };
+}
+
+export class PurgeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type PurgeSummary = {
+  companies: number;
+  applications: number;
+  documents: number;
+  information_requests: number;
+  lender_submissions: number;
+  offers: number;
+  profiles_unlinked: number;
+  storage_objects: number;
+  // Rows are already gone when storage removal runs; failures are reported, not rolled back
+  storage_errors: string[];
+};
+
+function emptyPurgeSummary(): PurgeSummary {
+  return {
+    companies: 0,
+    applications: 0,
+    documents: 0,
+    information_requests: 0,
+    lender_submissions: 0,
+    offers: 0,
+    profiles_unlinked: 0,
+    storage_objects: 0,
+    storage_errors: [],
+  };
+}
+
+function addToSummary(summary: PurgeSummary, result: Record<string, any>) {
+  summary.companies += result.companies || 0;
+  summary.applications += result.applications || 0;
+  summary.documents += result.documents || 0;
+  summary.information_requests += result.information_requests || 0;
+  summary.lender_submissions += result.lender_submissions || 0;
+  summary.offers += result.offers || 0;
+  summary.profiles_unlinked += result.profiles_unlinked || 0;
+}
+
+async function removeStorageObjects(supabaseAdmin: SupabaseClient, paths: string[], summary: PurgeSummary) {
+  for (let i = 0; i < paths.length; i += STORAGE_BATCH_SIZE) {
+    const batch = paths.slice(i, i + STORAGE_BATCH_SIZE);
+    const { data, error } = await supabaseAdmin.storage.from('application-documents').remove(batch);
+    if (error) {
+      console.error('Error removing documents from storage:', error);
+      summary.storage_errors.push(error.message);
+      continue;
+    }
+    summary.storage_objects += (data || []).length;
+  }
+}
+
+/**
+ * Run one of the purge_* SQL functions (a single transaction each), then remove the
+ * storage objects of the documents it deleted.
+ */
+async function runPurge(
+  supabaseAdmin: SupabaseClient,
+  fn: 'purge_application' | 'purge_company',
+  args: Record<string, string | null>,
+  summary: PurgeSummary
+) {
+  const { data, error } = await supabaseAdmin.rpc(fn, args);
+  if (error) {
+    throw new PurgeError(error.message, softDeleteErrorStatus(error));
+  }
+
+  addToSummary(summary, data || {});
+  await removeStorageObjects(supabaseAdmin, (data?.storage_paths || []) as string[], summary);
+}
+
+/**
+ * Permanently delete a soft-deleted application and everything attached to it.
+ * actorId is null when the retention job purges.
+ */
+export async function purgeApplication(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  actorId: string | null
+): Promise<PurgeSummary> {
+  const summary = emptyPurgeSummary();
+  await runPurge(supabaseAdmin, 'purge_application', { p_application_id: applicationId, p_actor_id: actorId }, summary);
+  return summary;
+}
+
+/**
+ * Permanently delete a soft-deleted company with all of its applications. User
+ * accounts are kept but unlinked from the company.
+ */
+export async function purgeCompany(
+  supabaseAdmin: SupabaseClient,
+  companyId: string,
+  actorId: string | null
+): Promise<PurgeSummary> {
+  const summary = emptyPurgeSummary();
+  await runPurge(supabaseAdmin, 'purge_company', { p_company_id: companyId, p_actor_id: actorId }, summary);
+  return summary;
+}
+
+/**
+ * Permanently remove companies and applications soft-deleted more than the
+ * retention period ago. Each record is purged in its own transaction; one failure
+ * is recorded and the job moves on.
+ */
+export async function purgeExpiredDeletions(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<PurgeSummary & { failures: { id: string; error: string }[] }> {
+  const cutoff = new Date(now.getTime() - deletedRetentionDays() * DAY_MS).toISOString();
+  const summary = emptyPurgeSummary();
+  const failures: { id: string; error: string }[] = [];
+
+  const { data: companies, error: companiesError } = await supabaseAdmin
+    .from('companies')
+    .select('id')
+    .lt('deleted_at', cutoff);
+  if (companiesError) {
+    throw new Error(`Error loading expired companies: ${companiesError.message}`);
+  }
+
+  for (const company of companies || []) {
+    try {
+      await runPurge(supabaseAdmin, 'purge_company', { p_company_id: company.id, p_actor_id: null }, summary);
+    } catch (err: any) {
+      console.error(`Error purging company ${company.id}:`, err);
+      failures.push({ id: company.id, error: err?.message || 'Unknown error' });
+    }
+  }
+
+  // Loaded after the companies so applications purged with them are not retried
+  const { data: apps, error: appsError } = await supabaseAdmin
+    .from('applications')
+    .select('id')
+    .lt('deleted_at', cutoff);
+  if (appsError) {
+    throw new Error(`Error loading expired applications: ${appsError.message}`);
+  }
+
+  for (const app of apps || []) {
+    try {
+      await runPurge(supabaseAdmin, 'purge_application', { p_application_id: app.id, p_actor_id: null }, summary);
+    } catch (err: any) {
+      console.error(`Error purging application ${app.id}:`, err);
+      failures.push({ id: app.id, error: err?.message || 'Unknown error' });
+    }
+  }
+
+  return { ...summary, failures };
+}
@@ -0,0 +1,132 @@
+// src/lib/stageTransitions.ts
+//
+// Server-side application of stage transitions. Loads what the guards in
+// applicationStages.ts need, checks them and updates the row only if the stage
+// has not changed underneath us.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApplicationStage, checkStageGuards, requiresReason } from './applicationStages';
+import { accrueCommission } from './commission';
+import { latestIdentityVerification } from './identityVerification';
+
+export class StageTransitionError extends Error {
+  constructor(message: string, public status: number, public unmet: string[] = []) {
+    super(message);
+  }
+}
+
+export type StageApplication = {
+  id: string;
+  stage: string;
+  accepted_lender_id: string | null;
+  submitted_at: string | null;
+  company_id: string | null;
+  created_by: string | null;
+  owner_id: string | null;
+};
+
+export async function loadStageApplication(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string
+): Promise<StageApplication> {
+  const { data, error } = await supabaseAdmin
+    .from('applications')
+    .select('id, stage, accepted_lender_id, submitted_at, company_id, created_by, owner_id')
+    .eq('id', applicationId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new StageTransitionError(`Error loading application: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new StageTransitionError('Application not found', 404);
+  }
+  return data as StageApplication;
+}
+
+type TransitionedApplication = { id: string; stage: string; accepted_lender_id: string | null; stage_reason: string | null };
+
+export type StageActor = {
+  id: string | null;
+  // ADMIN, CLIENT, PARTNER, or SYSTEM for scheduled jobs
+  role: string;
+};
+
+/**
+ * Move an application to `to`, enforcing allowed transitions and preconditions, and
+ * record the move in application_stage_history. Funding accrues partner commission;
+ * if that fails the stage still moves and commissionError says why, for the admin.
+ * Throws StageTransitionError (409 with the unmet conditions) when blocked.
+ */
+export async function transitionApplicationStage(
+  supabaseAdmin: SupabaseClient,
+  application: StageApplication,
+  to: ApplicationStage,
+  options: { reason?: string | null; actor: StageActor }
+): Promise<{ application: TransitionedApplication; commissionError: string | null }> {
+  const [{ data: offers, error: offersError }, { count: openInfoRequestCount, error: requestsError }, identity] = await Promise.all([
+    supabaseAdmin.from('offers').select('lender_id, status').eq('application_id', application.id),
+    supabaseAdmin
+      .from('information_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('application_id', application.id)
+      .eq('status', 'pending'),
+    to === 'submitted' && application.stage === 'created'
+      ? latestIdentityVerification(supabaseAdmin, application.id).catch(() => undefined)
+      : Promise.resolve(null),
+  ]);
+
+  if (offersError || requestsError || identity === undefined) {
+    throw new StageTransitionError('Error loading application state', 500);
+  }
+
+  const reason = options.reason?.trim() || null;
+  const acceptedOffer = (offers || []).find((offer) => offer.status === 'accepted');
+
+  const unmet = checkStageGuards(application.stage, to, {
+    offerStatuses: (offers || []).map((offer) => offer.status),
+    acceptedOfferLenderId: acceptedOffer?.lender_id ?? null,
+    acceptedLenderId: application.accepted_lender_id,
+    openInfoRequestCount: openInfoRequestCount || 0,
+    identityStatus: identity?.status ?? null,
+    reason,
+  });
+  if (unmet.length > 0) {
+    throw new StageTransitionError(unmet[0], 409, unmet);
+  }
+
+  // Stage change and history row are written together by the SQL function
+  const { data, error } = await supabaseAdmin
+    .rpc('transition_application_stage', {
+      p_application_id: application.id,
+      p_from_stage: application.stage,
+      p_to_stage: to,
+      p_stage_reason: requiresReason(to) ? reason : null,
+      p_reason: reason,
+      p_accepted_lender_id: to === 'onboarding' ? acceptedOffer?.lender_id ?? null : null,
+      p_actor_id: options.actor.id,
+      p_actor_role: options.actor.role,
+    })
+    .select('id, stage, accepted_lender_id, stage_reason');
+
+  if (error) {
+    throw new StageTransitionError(`Error updating stage: ${error.message}`, 500);
+  }
+  const rows = (data || []) as TransitionedApplication[];
+  if (rows.length === 0) {
+    throw new StageTransitionError('The application stage changed in the meantime. Reload and try again.', 409);
+  }
+
+  let commissionError: string | null = null;
+  if (to === 'funded') {
+    try {
+      await accrueCommission(supabaseAdmin, application.id);
+    } catch (err: any) {
+      // The stage has already moved; an admin can add the commission as a ledger adjustment
+      console.error(`Error accruing commission for application ${application.id}:`, err);
+      commissionError = err?.message || 'Unknown error';
+    }
+  }
+
+  return { application: rows[0], commissionError };
+}
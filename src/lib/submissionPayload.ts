@@ -0,0 +1,180 @@
+// src/lib/submissionPayload.ts
+//
+// Per-lender payload templates and document packs. A template is any JSON value
+// whose strings may contain {{placeholders}} resolved against the submission
+// context, e.g. { "business": { "name": "{{company.name}}" }, "amount": "{{application.requested_amount}}" }.
+// A string that is exactly one placeholder keeps the source type (number, boolean...);
+// otherwise placeholders are interpolated as text.
+import JSZip from 'jszip';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// IDENTITY_DOCUMENT_CATEGORY in identityVerification.ts, which client components
+// importing TEMPLATE_FIELDS from here can't pull in
+const IDENTITY_CATEGORY = 'identity';
+
+export type SubmissionContext = {
+  application: Record<string, any>;
+  company: Record<string, any> | null;
+  director: Record<string, any> | null;
+  // Signed document links, only present for API submissions
+  documents?: Array<{ category: string; filename: string | null; url: string }>;
+};
+
+export type RenderedPayload = {
+  payload: unknown;
+  // Placeholders that resolved to null/undefined
+  missing: string[];
+};
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+// Fields offered as placeholders in the template editor
+export const TEMPLATE_FIELDS = [
+  'application.id',
+  'application.requested_amount',
+  'application.loan_type',
+  'application.purpose',
+  'application.urgency',
+  'application.monthly_revenue',
+  'application.trading_months',
+  'company.name',
+  'company.company_number',
+  'company.industry',
+  'company.website',
+  'company.address_line_1',
+  'company.address_line_2',
+  'company.city',
+  'company.postcode',
+  'company.country',
+  'director.first_name',
+  'director.last_name',
+  'director.email',
+  'director.phone',
+  'director.date_of_birth',
+  'director.property_status',
+  'documents',
+];
+
+function resolvePath(context: SubmissionContext, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+export function renderPayloadTemplate(template: unknown, context: SubmissionContext): RenderedPayload {
+  const missing = new Set<string>();
+
+  const render = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const single = node.match(SINGLE_PLACEHOLDER);
+      if (single) {
+        const value = resolvePath(context, single[1]);
+        if (value == null) missing.add(single[1]);
+        return value ?? null;
+      }
+      return node.replace(PLACEHOLDER, (_match, path: string) => {
+        const value = resolvePath(context, path);
+        if (value == null) {
+          missing.add(path);
+          return '';
+        }
+        return String(value);
+      });
+    }
+    if (Array.isArray(node)) return node.map(render);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, render(value)]));
+    }
+    return node;
+  };
+
+  return { payload: render(template), missing: Array.from(missing) };
+}
+
+/**
+ * The body sent to an API lender: its template rendered against the context, or
+ * the whole context when the lender has no template. Used by the dispatcher and
+ * the admin preview so both show the same payload.
+ */
+export function buildSubmissionPayload(
+  template: unknown,
+  submissionId: string,
+  context: SubmissionContext
+): RenderedPayload {
+  if (template) {
+    return renderPayloadTemplate(template, context);
+  }
+  return { payload: { submission_id: submissionId, ...context }, missing: [] };
+}
+
+export type PackDocument = {
+  id: string;
+  category: string;
+  original_filename: string | null;
+  storage_path: string;
+};
+
+/**
+ * The application's documents in the categories a lender asks for (all documents
+ * when the lender has no requirement), plus the required categories with nothing uploaded.
+ * Identity documents are only included when the lender lists that category.
+ */
+export async function loadPackDocuments(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  requiredCategories: string[] | null
+): Promise<{ documents: PackDocument[]; missingCategories: string[] }> {
+  let query = supabaseAdmin
+    .from('documents')
+    .select('id, category, original_filename, storage_path')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: true });
+
+  if (requiredCategories && requiredCategories.length > 0) {
+    query = query.in('category', requiredCategories);
+  } else {
+    query = query.neq('category', IDENTITY_CATEGORY);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Error loading documents: ${error.message}`);
+  }
+
+  const documents = (data || []) as PackDocument[];
+  const missingCategories = (requiredCategories || []).filter(
+    (category) => !documents.some((doc) => doc.category === category)
+  );
+  return { documents, missingCategories };
+}
+
+/**
+ * Zip the documents from the application-documents bucket, one folder per category.
+ */
+export async function buildDocumentPack(
+  supabaseAdmin: SupabaseClient,
+  documents: PackDocument[]
+): Promise<Buffer> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const doc of documents) {
+    const { data, error } = await supabaseAdmin.storage
+      .from('application-documents')
+      .download(doc.storage_path);
+
+    if (error || !data) {
+      throw new Error(`Error downloading ${doc.original_filename || doc.storage_path}: ${error?.message || 'not found'}`);
+    }
+
+    const baseName = doc.original_filename || doc.storage_path.split('/').pop() || doc.id;
+    let name = `${doc.category}/${baseName}`;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${doc.category}/${i}-${baseName}`;
+    }
+    usedNames.add(name);
+
+    zip.file(name, Buffer.from(await data.arrayBuffer()));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,101 @@
+// src/lib/supabaseAdmin.ts
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+
+type Role = 'CLIENT' | 'PARTNER' | 'ADMIN';
+
+export type AuthorizedRequest = {
+  user: User;
+  profile: {
+    id: string;
+    role: Role;
+    partner_company_id: string | null;
+    is_primary_contact: boolean | null;
+  };
+  supabaseAdmin: SupabaseClient;
+};
+
+/**
+ * Service role client for server routes. Bypasses RLS, so callers must verify
+ * permissions themselves (see requireRole). With an actorId, every write made
+ * through the client is attributed to that user in audit_log.
+ */
+export function getSupabaseAdmin(actorId?: string): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(url, serviceKey, actorId ? { global: { headers: { 'X-Audit-Actor-Id': actorId } } } : undefined);
+}
+
+/**
+ * Resolve the caller from the `Authorization: Bearer <access token>` header and
+ * check their profile role. Returns either the authorized context or a ready-made
+ * error response to return from the route.
+ */
+export async function requireRole(
+  request: NextRequest,
+  roles: Role[]
+): Promise<AuthorizedRequest | { response: NextResponse }> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Missing Supabase environment variables');
+    return { response: NextResponse.json({ error: 'Server configuration error' }, { status: 500 }) };
+  }
+
+  const authHeader = request.headers.get('authorization') || request.headers.get('Authorization');
+  if (!authHeader || !authHeader.toLowerCase().startsWith('bearer ')) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const accessToken = authHeader.slice(7).trim();
+
+  // Use anon client to resolve the requesting user from the access token
+  const supabase = createClient(supabaseUrl, supabaseAnonKey);
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser(accessToken);
+
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const supabaseAdmin = getSupabaseAdmin(user.id);
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('id, role, partner_company_id, is_primary_contact, deactivated_at')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error loading caller profile', profileError);
+    return { response: NextResponse.json({ error: 'Unable to verify permissions' }, { status: 500 }) };
+  }
+
+  // Deactivated partner team members are also banned, but their access token may
+  // not have expired yet
+  if (!profile || !roles.includes(profile.role) || profile.deactivated_at) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { user, profile, supabaseAdmin };
+}
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>` instead
+ * of a user session.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const authHeader = request.headers.get('authorization') || request.headers.get('Authorization');
+  return authHeader === `Bearer ${secret}`;
+}